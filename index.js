@@ -4,6 +4,7 @@ import fs from "fs";
 import { fileURLToPath } from "url";
 import rateLimit from "express-rate-limit";
 import { logStartupDiagnostics, startMemoryMonitoring } from "./utils/runtime-checks.js";
+import { getQuoteLinkConfig, isQuoteLinkToken, resolveQuoteLink } from "./utils/quote-links.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -114,6 +115,14 @@ const debugLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Shared quote links are public URLs; keep token guessing slow.
+const quoteLinkLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 const indexHtml = path.join(distDir, "index.html");
 const distExists = fs.existsSync(distDir);
 const indexExists = fs.existsSync(indexHtml);
@@ -241,6 +250,42 @@ app.get("/__debug", debugLimiter, (_req, res) => {
   });
 });
 
+// ---- Shared quote links (/q/<token>) ----
+// The page is the SPA shell, which reads the deal back through /api/quote-links/<token>.
+// Links are private to whoever holds them: never indexed, never sent on as a Referer.
+const setQuoteLinkHeaders = (res) => {
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("X-Robots-Tag", "noindex, nofollow");
+  res.setHeader("Referrer-Policy", "no-referrer");
+};
+
+const quoteLinkConfig = getQuoteLinkConfig();
+if (!quoteLinkConfig) {
+  console.warn("[BOOT WARNING] VITE_FIREBASE_PROJECT_ID not set - shared quote links disabled");
+}
+
+app.get("/api/quote-links/:token", quoteLinkLimiter, async (req, res) => {
+  setQuoteLinkHeaders(res);
+  if (!isQuoteLinkToken(req.params.token)) {
+    return res.status(404).json({ error: "not_found" });
+  }
+  if (!quoteLinkConfig) {
+    return res.status(503).json({ error: "unavailable" });
+  }
+
+  const result = await resolveQuoteLink(req.params.token, quoteLinkConfig);
+  if (result.status === "ok") return res.json(result.quote);
+  if (result.status === "expired") return res.status(410).json({ error: "expired" });
+  if (result.status === "not_found") return res.status(404).json({ error: "not_found" });
+  return res.status(502).json({ error: "unavailable" });
+});
+
+app.get("/q/:token", quoteLinkLimiter, (_req, res) => {
+  setQuoteLinkHeaders(res);
+  if (indexHtmlPayload) return res.type("html").send(indexHtmlPayload);
+  return res.status(200).send(splashHtml);
+});
+
 // SPA fallback
 app.get("*", (_req, res) => {
   if (_req.path === "/index.html" && process.env.NODE_ENV === "test") {
@@ -9,44 +9,84 @@ import { Pick2Selector } from "./components/Pick2Selector";
 import { SettingsModal } from "./components/SettingsModal";
 import { SelectionDrawer } from "./components/SelectionDrawer";
 import { AgreementView } from "./components/AgreementView";
+import { RecentDeals } from "./components/RecentDeals";
+import { PriceApprovalInbox } from "./components/PriceApprovalInbox";
 import { Login } from "./components/Login";
 import { AdminPanel } from "./components/AdminPanel";
 import { SetupGuide } from "./components/SetupGuide";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import ValuePresentation from "./components/ValuePresentation";
-import { fetchAllData, fetchPick2Config } from "./data";
-import { auth, firebaseInitializationError } from "./firebase";
+import { fetchActivePick2Config, fetchAllData } from "./data";
+import { fetchPricingPolicy } from "./approvals";
+import { fetchPromotions } from "./promotions";
+import { fetchTaxFeeConfig } from "./taxFees";
+import { fetchPaymentDefaults } from "./paymentDefaults";
+import { fetchTheme } from "./theme";
+import { fetchPresentation } from "./presentation";
+import { DEFAULT_PRESENTATION_DECK } from "./utils/defaultSlides";
+import { applyTheme } from "./utils/theme";
+import { DEFAULT_BRANDING } from "./constants";
+import { buildFloorCheckLines, checkPricingFloors, overridesKey } from "./utils/pricingFloor";
+import { calculateTaxBreakdown, dealTaxLines, EMPTY_TAX_FEE_CONFIG } from "./utils/taxFees";
+import { buildTermComparison, DEFAULT_PAYMENT_DEFAULTS } from "./utils/payments";
+import { buildDeclinedProducts } from "./utils/declinations";
+import { formatVehicle } from "./utils/vehicle";
+import { findIneligibleItems } from "./utils/eligibility";
+import {
+  buildQuoteCost,
+  buildQuoteDraft,
+  fetchQuoteByNumber,
+  formatQuoteNumber,
+  parseQuoteNumber,
+  quoteFingerprint,
+  resolveQuoteSelection,
+  saveQuote,
+  saveQuoteSignatures,
+  type QuoteDraftInput,
+} from "./quotes";
+import { auth, db, firebaseInitializationError } from "./firebase";
 import type {
   PackageTier,
   AlaCarteOption,
   ProductFeature,
   PriceOverrides,
   Pick2Config,
+  Quote,
+  PriceApproval,
+  PricingPolicy,
+  Promotion,
+  AppliedPromotion,
+  TaxFeeConfig,
+  PaymentDefaults,
+  PaymentTerms,
+  DealSignatures,
+  DeclinedProduct,
+  CustomerInfo,
+  Theme,
+  PresentationDeck,
 } from "./types";
 import { useAlaCarteSelection } from "./hooks/useAlaCarteSelection";
 import { usePackageSelection } from "./hooks/usePackageSelection";
 import { usePick2Selection } from "./hooks/usePick2Selection";
 import { usePriceCalculation } from "./hooks/usePriceCalculation";
 import { useViewportLayout } from "./hooks/useViewportLayout";
+import { useUserRole } from "./hooks/useUserRole";
+import { useDealership } from "./hooks/useDealership";
+import { canApprovePriceOverrides, canManageCatalog, canViewCost } from "./roles";
 import {
   initializeAnalytics,
   trackFeatureView,
   trackQuoteFinalize,
   trackQuotePrint,
+  trackQuoteAction,
   trackSettingsOpen,
   trackAdminPanelAccess,
   trackUserLogout,
 } from "./analytics";
 
 type Page = "packages" | "alacarte" | "pick2";
-type View = "menu" | "agreement" | "presentation";
-
-interface CustomerInfo {
-  name: string;
-  year: string;
-  make: string;
-  model: string;
-}
+type View = "menu" | "agreement" | "presentation" | "deals" | "approvals";
+type QuoteSaveState = "idle" | "saving" | "saved" | "error";
 
 const App: React.FC = () => {
   // Data state
@@ -54,6 +94,15 @@ const App: React.FC = () => {
   const [allFeatures, setAllFeatures] = useState<ProductFeature[]>([]);
   const [allAlaCarteOptions, setAllAlaCarteOptions] = useState<AlaCarteOption[]>([]);
   const [pick2Config, setPick2Config] = useState<Pick2Config | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [taxFeeConfig, setTaxFeeConfig] = useState<TaxFeeConfig>(EMPTY_TAX_FEE_CONFIG);
+  // Term and APR behind the "+$X/mo" figures, starting from app_config. The amount
+  // financed is part of the customer info.
+  const [financeRate, setFinanceRate] = useState<PaymentDefaults>(DEFAULT_PAYMENT_DEFAULTS);
+  // The store's look from app_config/theme, applied to the page as CSS variables
+  const [theme, setTheme] = useState<Theme>({});
+  const [presentation, setPresentation] = useState<PresentationDeck>(DEFAULT_PRESENTATION_DECK);
+  const [showTermComparison, setShowTermComparison] = useState(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
 
   // UI State
@@ -64,19 +113,43 @@ const App: React.FC = () => {
   const [pendingPrint, setPendingPrint] = useState<null | {
     returnToMenu: boolean;
   }>(null);
-  const { selectedPackage, handleSelectPackage } = usePackageSelection();
+  const { selectedPackage, setSelectedPackage, handleSelectPackage } = usePackageSelection();
   const [customPackageItems, setCustomPackageItems] = useState<AlaCarteOption[]>([]);
   const [viewingDetailItem, setViewingDetailItem] = useState<
     ProductFeature | AlaCarteOption | null
   >(null);
   const [currentPage, setCurrentPage] = useState<Page>("packages");
   const [priceOverrides, setPriceOverrides] = useState<PriceOverrides>({});
+  // Manager sign-off for overrides below the pricing floor. Only applies while the
+  // overrides are exactly the ones that were approved (see activePriceApproval).
+  const [priceApproval, setPriceApproval] = useState<PriceApproval | null>(null);
+  const [pricingPolicy, setPricingPolicy] = useState<PricingPolicy>({});
   const [isAdminView, setIsAdminView] = useState(false);
+  // Saved-deal state: the quote backing the current agreement, and the quote a
+  // reopened/duplicated deal came from (recorded on the next save).
+  const [currentQuote, setCurrentQuote] = useState<Quote | null>(null);
+  const [quoteSaveState, setQuoteSaveState] = useState<QuoteSaveState>("idle");
+  const sourceQuoteIdRef = useRef<string | undefined>(undefined);
+  // Signatures drawn on the agreement, and the deal (by fingerprint) they were drawn on.
+  // The ref mirrors the state so a quote that finishes saving can pick them up.
+  const [dealSignatures, setDealSignatures] = useState<DealSignatures>({});
+  // Products shown and not bought, recorded each time the agreement is opened
+  const [declinedProducts, setDeclinedProducts] = useState<DeclinedProduct[]>([]);
+  // Products taken out of the deal because the vehicle was changed to one they can't be
+  // sold on, with the reason, shown above the menu until dismissed
+  const [removedForVehicle, setRemovedForVehicle] = useState<{
+    items: AlaCarteOption[];
+    reasonsById: Record<string, string>;
+  } | null>(null);
+  const dealSignaturesRef = useRef<DealSignatures>({});
+  const signedFingerprintRef = useRef<string | undefined>(undefined);
   // Viewport and layout detection (iPad, kiosk, landscape, build badge)
   const { isIpadLandscape, isDesktopKiosk, isLandscapeViewport, showBuildBadge } =
     useViewportLayout();
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Set when finalizing was stopped because the deal fell below a pricing floor
+  const [isApprovalRequired, setIsApprovalRequired] = useState(false);
   // Lock guest UI to a single optimized size for consistency (no A/A+/A++ toggle).
   const guestTextSize = "large" as const;
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo>({
@@ -113,6 +186,27 @@ const App: React.FC = () => {
   const [isDemoMode, setIsDemoMode] = useState(() => forcedDemoMode);
   const guestMode = !user;
   const isLoginView = !user && !isDemoMode;
+  const { role } = useUserRole(user, isDemoMode);
+  const { dealerships, dealership, selectDealership, isDealershipLoading, dealershipError } =
+    useDealership(user, isDemoMode);
+  const activeDealershipId = dealership?.id;
+  // The theme's logo stands in for a store without one of its own
+  const branding = useMemo(
+    () =>
+      theme.logoUrl && !dealership?.logoUrl
+        ? { ...(dealership ?? DEFAULT_BRANDING), logoUrl: theme.logoUrl }
+        : (dealership ?? undefined),
+    [dealership, theme.logoUrl]
+  );
+  const canAccessAdmin = canManageCatalog(role);
+  const showCost = canViewCost(role);
+  const selfApprover = useMemo(
+    () =>
+      user && canApprovePriceOverrides(role)
+        ? { uid: user.uid, name: user.displayName || user.email || user.uid }
+        : null,
+    [user, role]
+  );
 
   useEffect(() => {
     // Initialize Firebase Analytics
@@ -235,29 +329,55 @@ const App: React.FC = () => {
 
   const loadData = useCallback(async () => {
     setIsLoading(true);
-    const [{ packages, features, alaCarteOptions }, pick2Config] = await Promise.all([
+    const [
+      { packages, features, alaCarteOptions },
+      pick2Config,
+      pricingPolicy,
+      promotions,
+      taxFeeConfig,
+      paymentDefaults,
+      theme,
+      presentation,
+    ] = await Promise.all([
       fetchAllData(),
-      fetchPick2Config(),
+      fetchActivePick2Config(),
+      fetchPricingPolicy(),
+      fetchPromotions(),
+      fetchTaxFeeConfig(),
+      fetchPaymentDefaults(),
+      fetchTheme(),
+      fetchPresentation(),
     ]);
     setPackages(packages);
     setAllFeatures(features);
     setAllAlaCarteOptions(alaCarteOptions);
     setPick2Config(pick2Config);
+    setPricingPolicy(pricingPolicy);
+    setPromotions(promotions);
+    setTaxFeeConfig(taxFeeConfig);
+    setFinanceRate(paymentDefaults);
+    setTheme(theme);
+    setPresentation(presentation);
     setIsLoading(false);
   }, []);
 
   useEffect(() => {
-    // Load data for a logged-in user OR if in demo mode
-    if (user || isDemoMode) {
+    applyTheme(theme);
+  }, [theme]);
+
+  useEffect(() => {
+    // Load data for a logged-in user OR if in demo mode, from the store being worked.
+    // Wait until the user's stores are known so the catalog loads from the right one.
+    if ((user || isDemoMode) && !isDealershipLoading && !dealershipError) {
       loadData();
     }
-  }, [user, isDemoMode, loadData]);
+  }, [user, isDemoMode, isDealershipLoading, dealershipError, activeDealershipId, loadData]);
 
   useEffect(() => {
-    if (guestMode && isAdminView && !isDemoMode) {
+    if ((guestMode && isAdminView && !isDemoMode) || (isAdminView && !canAccessAdmin)) {
       setIsAdminView(false);
     }
-  }, [guestMode, isAdminView, isDemoMode]);
+  }, [guestMode, isAdminView, isDemoMode, canAccessAdmin]);
 
   const handleLogout = useCallback(async () => {
     if (isDemoMode) {
@@ -288,18 +408,42 @@ const App: React.FC = () => {
 
   const handleOpenSettings = useCallback(() => {
     trackSettingsOpen();
+    setIsApprovalRequired(false);
     setIsSettingsOpen(true);
   }, []);
   const handleCloseSettings = useCallback(() => setIsSettingsOpen(false), []);
-  const handleSaveSettings = useCallback((nextOverrides: PriceOverrides) => {
-    setPriceOverrides(nextOverrides);
-    setIsSettingsOpen(false);
-  }, []);
+  const handleSaveSettings = useCallback(
+    (nextOverrides: PriceOverrides, approval?: PriceApproval) => {
+      setPriceOverrides(nextOverrides);
+      setPriceApproval(approval ?? null);
+      setIsSettingsOpen(false);
+    },
+    []
+  );
+
+  const activePriceApproval = useMemo(
+    () =>
+      priceApproval && overridesKey(priceApproval.overrides) === overridesKey(priceOverrides)
+        ? priceApproval
+        : null,
+    [priceApproval, priceOverrides]
+  );
+
+  const paymentTerms = useMemo<PaymentTerms>(
+    () => ({ ...financeRate, amountFinanced: customerInfo.amountFinanced ?? 0 }),
+    [financeRate, customerInfo.amountFinanced]
+  );
 
-  const handleSaveCustomerInfo = useCallback((info: CustomerInfo) => {
-    setCustomerInfo(info);
+  const handlePaymentTermsChange = useCallback((terms: PaymentTerms) => {
+    setFinanceRate({ termMonths: terms.termMonths, apr: terms.apr });
+    setCustomerInfo((prev) => ({
+      ...prev,
+      amountFinanced: terms.amountFinanced > 0 ? terms.amountFinanced : undefined,
+    }));
   }, []);
 
+  const handleToggleTermComparison = useCallback(() => setShowTermComparison((show) => !show), []);
+
   // Price calculations and display data
   const {
     hasPricingOverrides,
@@ -312,13 +456,27 @@ const App: React.FC = () => {
     displayAlaCarteById,
     curatedSelectedItems,
     displayCustomPackageItems,
+    appliedPromotionsById,
+    promoBadgesById,
   } = usePriceCalculation({
     packages,
     allAlaCarteOptions,
     priceOverrides,
     customPackageItems,
+    promotions,
+    selectedPackageId: selectedPackage?.id ?? null,
+    vehicle: customerInfo,
   });
 
+  // Promotion lines for the items in the deal, itemized on the agreement and printout
+  const dealPromotions = useMemo<AppliedPromotion[]>(
+    () => [
+      ...(selectedPackage ? (appliedPromotionsById[selectedPackage.id] ?? []) : []),
+      ...displayCustomPackageItems.flatMap((item) => appliedPromotionsById[item.id] ?? []),
+    ],
+    [selectedPackage, displayCustomPackageItems, appliedPromotionsById]
+  );
+
   const {
     pick2SelectedIds,
     setPick2SelectedIds,
@@ -374,6 +532,26 @@ const App: React.FC = () => {
     pick2BundleCost,
   ]);
 
+  // Sales tax and dealer fees on top of the retail total
+  const taxBreakdown = useMemo(
+    () =>
+      calculateTaxBreakdown(
+        dealTaxLines(
+          selectedPackage ? displayPackages.find((p) => p.id === selectedPackage.id) || null : null,
+          displayCustomPackageItems,
+          pick2Selection
+        ),
+        taxFeeConfig
+      ),
+    [selectedPackage, displayPackages, displayCustomPackageItems, pick2Selection, taxFeeConfig]
+  );
+
+  // The payment grid prints with the agreement only while the rep has it open
+  const termComparison = useMemo(
+    () => (showTermComparison ? buildTermComparison(displayPackages, paymentTerms) : null),
+    [showTermComparison, displayPackages, paymentTerms]
+  );
+
   const baseTotalPrice = useMemo(() => {
     let price = 0;
     if (selectedPackage) {
@@ -403,7 +581,28 @@ const App: React.FC = () => {
     return price;
   }, [curatedSelectedItems, baseAddonPricesById]);
 
+  // A vehicle change can rule out add-ons already in the deal. They come out of it, with
+  // a note saying why, rather than staying on a deal the vehicle can't have.
+  const handleSaveCustomerInfo = useCallback(
+    (info: CustomerInfo) => {
+      setCustomerInfo(info);
+      const pick2Items = pick2SelectedIds
+        .map((id) => allAlaCarteOptions.find((option) => option.id === id))
+        .filter((item): item is AlaCarteOption => Boolean(item));
+      const removed = findIneligibleItems([...customPackageItems, ...pick2Items], info);
+      if (removed.items.length === 0) return;
+
+      setCustomPackageItems((prev) => prev.filter((item) => !removed.reasonsById[item.id]));
+      setPick2SelectedIds((prev) => prev.filter((id) => !removed.reasonsById[id]));
+      setRemovedForVehicle(removed);
+      // The deal has to be finalized again without them
+      setCurrentView((view) => (view === "agreement" ? "menu" : view));
+    },
+    [pick2SelectedIds, allAlaCarteOptions, customPackageItems, setPick2SelectedIds]
+  );
+
   const {
+    curatedAlaCarteOptions,
     mainPageAddons,
     availableAlaCarteItems,
     handleToggleAlaCarteItem,
@@ -416,11 +615,45 @@ const App: React.FC = () => {
     setPick2SelectedIds,
   });
 
+  // Saves signatures onto a quote; a failure leaves them on screen and flags the deal unsaved.
+  const persistSignatures = useCallback((quoteId: string, signatures: DealSignatures) => {
+    saveQuoteSignatures(quoteId, signatures)
+      .then(() =>
+        setCurrentQuote((prev) => (prev?.id === quoteId ? { ...prev, signatures } : prev))
+      )
+      .catch((error) => {
+        console.error("Failed to save signatures:", error);
+        setQuoteSaveState("error");
+      });
+  }, []);
+
   const handleShowAgreement = useCallback(() => {
+    const finalPackage = selectedPackage
+      ? displayPackages.find((p) => p.id === selectedPackage.id) || null
+      : null;
+    // Floors are checked when overrides are saved, but the selection can change after
+    // that (an add-on removed under a discounted package), so check the deal as finalized.
+    const floorCheck = checkPricingFloors(
+      buildFloorCheckLines({
+        selectedPackage: finalPackage,
+        selectedAddOns: displayCustomPackageItems,
+        basePackagePricesById,
+        basePackageCostsById,
+        baseAddonPricesById,
+        baseAddonCostsById,
+        pick2: pick2Selection,
+      }),
+      priceOverrides,
+      pricingPolicy
+    );
+    if (floorCheck.needsApproval && !activePriceApproval) {
+      setIsApprovalRequired(true);
+      setIsSettingsOpen(true);
+      return;
+    }
+
     // Track quote finalization
-    const vehicleString = [customerInfo.year, customerInfo.make, customerInfo.model]
-      .filter(Boolean)
-      .join(" ");
+    const vehicleString = formatVehicle(customerInfo);
     trackQuoteFinalize({
       selectedPackage,
       customItems: customPackageItems,
@@ -429,10 +662,198 @@ const App: React.FC = () => {
       vehicleInfo: vehicleString,
     });
     setCurrentView("agreement");
-  }, [selectedPackage, customPackageItems, totalPrice, customerInfo]);
+
+    // Everything shown on the menu and left out of the deal is recorded as declined.
+    const declined = buildDeclinedProducts({
+      packages: displayPackages,
+      alaCarteOptions: curatedAlaCarteOptions,
+      selectedPackageId: selectedPackage?.id ?? null,
+      selectedItemIds: [...customPackageItems.map((item) => item.id), ...pick2SelectedIds],
+      vehicle: customerInfo,
+    });
+    setDeclinedProducts(declined);
+
+    const draftInput: QuoteDraftInput = {
+      selectedPackage: finalPackage,
+      customPackageItems: displayCustomPackageItems,
+      pick2: pick2Selection,
+      priceOverrides,
+      customerInfo,
+      totalPrice,
+      totalCost,
+      baseTotalPrice,
+      basePackagePricesById,
+      baseAddonPricesById,
+      sourceQuoteId: sourceQuoteIdRef.current,
+      priceApproval: activePriceApproval ?? undefined,
+      promotions: dealPromotions,
+      taxes: taxBreakdown,
+      declinedProducts: declined,
+    };
+    const draft = buildQuoteDraft(draftInput);
+    const fingerprint = quoteFingerprint(draft);
+    // Signatures belong to the deal they were drawn on; a changed deal starts unsigned.
+    if (signedFingerprintRef.current !== fingerprint) {
+      signedFingerprintRef.current = fingerprint;
+      dealSignaturesRef.current = {};
+      setDealSignatures({});
+    }
+
+    // Persist the finalized deal. Demo mode has no Firestore, so deals are not saved there.
+    if (!db || isDemoMode) return;
+    // Re-finalizing an unchanged deal reuses the quote that is already saved.
+    if (currentQuote && quoteFingerprint(currentQuote) === fingerprint) return;
+
+    setQuoteSaveState("saving");
+    saveQuote(draft, buildQuoteCost(draftInput))
+      .then((quote) => {
+        setCurrentQuote(quote);
+        setQuoteSaveState("saved");
+        // Anything signed while the quote was still saving goes onto it now.
+        const pending = dealSignaturesRef.current;
+        if (pending.customer || pending.manager || pending.declined?.length) {
+          persistSignatures(quote.id, pending);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to save quote:", error);
+        setCurrentQuote(null);
+        setQuoteSaveState("error");
+      });
+  }, [
+    selectedPackage,
+    customPackageItems,
+    totalPrice,
+    totalCost,
+    baseTotalPrice,
+    customerInfo,
+    isDemoMode,
+    displayPackages,
+    displayCustomPackageItems,
+    pick2Selection,
+    priceOverrides,
+    pricingPolicy,
+    basePackagePricesById,
+    basePackageCostsById,
+    baseAddonPricesById,
+    baseAddonCostsById,
+    currentQuote,
+    activePriceApproval,
+    dealPromotions,
+    taxBreakdown,
+    curatedAlaCarteOptions,
+    pick2SelectedIds,
+    persistSignatures,
+  ]);
+
+  const handleSignaturesChange = useCallback(
+    (signatures: DealSignatures) => {
+      dealSignaturesRef.current = signatures;
+      setDealSignatures(signatures);
+      if (currentQuote && db && !isDemoMode) persistSignatures(currentQuote.id, signatures);
+    },
+    [currentQuote, isDemoMode, persistSignatures]
+  );
   const handleShowMenu = useCallback(() => setCurrentView("menu"), []);
+  const handleShowRecentDeals = useCallback(() => setCurrentView("deals"), []);
+  const handleShowApprovals = useCallback(() => setCurrentView("approvals"), []);
+
+  const hydrateFromQuote = useCallback(
+    (quote: Quote) => {
+      const resolved = resolveQuoteSelection(quote, {
+        packages,
+        alaCarteOptions: allAlaCarteOptions,
+      });
+      if (resolved.missingItemNames.length > 0) {
+        console.warn(
+          `Quote ${quote.quoteNumber} references products no longer in the catalog:`,
+          resolved.missingItemNames
+        );
+      }
+      setSelectedPackage(resolved.selectedPackage);
+      setCustomPackageItems(resolved.customPackageItems);
+      setPick2SelectedIds(resolved.pick2SelectedIds);
+      setPriceOverrides(quote.priceOverrides);
+      setPriceApproval(quote.priceApproval ?? null);
+      setCustomerInfo(quote.customerInfo);
+      setDeclinedProducts(quote.declinedProducts ?? []);
+      setRemovedForVehicle(null);
+      sourceQuoteIdRef.current = quote.id;
+    },
+    [packages, allAlaCarteOptions, setSelectedPackage, setPick2SelectedIds]
+  );
+
+  const handleReopenQuote = useCallback(
+    (quote: Quote) => {
+      hydrateFromQuote(quote);
+      // A reopened deal keeps its signatures; a duplicate is a new deal and starts unsigned.
+      const signatures = quote.signatures ?? {};
+      dealSignaturesRef.current = signatures;
+      setDealSignatures(signatures);
+      signedFingerprintRef.current = quoteFingerprint(quote);
+      setCurrentQuote(quote);
+      setQuoteSaveState("saved");
+      setCurrentView("agreement");
+    },
+    [hydrateFromQuote]
+  );
 
+  const handleDuplicateQuote = useCallback(
+    (quote: Quote) => {
+      hydrateFromQuote(quote);
+      dealSignaturesRef.current = {};
+      setDealSignatures({});
+      signedFingerprintRef.current = undefined;
+      setCurrentQuote(null);
+      setQuoteSaveState("idle");
+      setCurrentView("menu");
+    },
+    [hydrateFromQuote]
+  );
 
+  // A deal belongs to the store it was started at: its items and prices come from that
+  // store's catalog and it is saved to that store's deals. Switching to another store
+  // starts over with the same customer. (Signing in only sets the first store.)
+  const dealDealershipIdRef = useRef(activeDealershipId);
+  useEffect(() => {
+    const previousDealershipId = dealDealershipIdRef.current;
+    dealDealershipIdRef.current = activeDealershipId;
+    if (!previousDealershipId || previousDealershipId === activeDealershipId) return;
+
+    setSelectedPackage(null);
+    setCustomPackageItems([]);
+    setPick2SelectedIds([]);
+    setPriceOverrides({});
+    setPriceApproval(null);
+    setDeclinedProducts([]);
+    setRemovedForVehicle(null);
+    dealSignaturesRef.current = {};
+    setDealSignatures({});
+    signedFingerprintRef.current = undefined;
+    sourceQuoteIdRef.current = undefined;
+    setCurrentQuote(null);
+    setQuoteSaveState("idle");
+    setCurrentView("menu");
+  }, [activeDealershipId, setSelectedPackage, setPick2SelectedIds]);
+
+  // Header lookup: recall a deal from the number on the customer's printout.
+  const handleLookupQuote = useCallback(
+    async (input: string) => {
+      const quoteNumber = parseQuoteNumber(input);
+      if (!quoteNumber) {
+        throw new Error(
+          `Enter a quote number like ${formatQuoteNumber(new Date().getFullYear(), 123)}.`
+        );
+      }
+      const quote = await fetchQuoteByNumber(quoteNumber);
+      if (!quote) {
+        throw new Error(`No deal found for ${quoteNumber}.`);
+      }
+      trackQuoteAction("lookup", quote.id);
+      handleReopenQuote(quote);
+    },
+    [handleReopenQuote]
+  );
 
   const handleViewDetail = useCallback(
     (item: ProductFeature | AlaCarteOption) => {
@@ -596,6 +1017,10 @@ const App: React.FC = () => {
               onSelectPackage={handleSelectPackage}
               onViewFeature={handleViewDetail}
               basePackagePricesById={basePackagePricesById}
+              promoBadgesById={promoBadgesById}
+              paymentTerms={paymentTerms}
+              showTermComparison={showTermComparison}
+              onToggleTermComparison={handleToggleTermComparison}
               addonItems={mainPageAddons}
               selectedAddons={customPackageItems}
               onToggleAddon={handleToggleAlaCarteItem}
@@ -605,6 +1030,7 @@ const App: React.FC = () => {
               textSize={guestTextSize}
               gridClassName={enableNoScrollLayout ? "items-stretch h-full" : "items-stretch"}
               isIpadLandscape={enableNoScrollLayout}
+              vehicle={customerInfo}
             />
           </div>
         )}
@@ -640,6 +1066,8 @@ const App: React.FC = () => {
                   selectedIds={customPackageItems.map((item) => item.id)}
                   isCompact={enableCompactAlaCarteLayout}
                   basePricesById={baseAddonPricesById}
+                  promoBadgesById={promoBadgesById}
+                  vehicle={customerInfo}
                 />
               </div>
             </div>
@@ -684,6 +1112,7 @@ const App: React.FC = () => {
                 onToggle={handleTogglePick2Item}
                 onView={handleViewDetail}
                 bundlePrice={pick2BundlePrice}
+                paymentTerms={paymentTerms}
                 recommendedPairs={pick2RecommendedPairs}
                 featuredPresetLabel={pick2Config?.featuredPresetLabel}
                 presetOrder={pick2Config?.presetOrder}
@@ -696,6 +1125,7 @@ const App: React.FC = () => {
                 isCompact={enableCompactPick2Layout}
                 textSize={guestTextSize}
                 className={enableCompactPick2Layout ? "h-full min-h-0" : undefined}
+                vehicle={customerInfo}
               />
             </div>
           </div>
@@ -715,6 +1145,27 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {removedForVehicle && (
+          <div
+            role="status"
+            className="shrink-0 flex items-start justify-between gap-3 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-2 text-sm text-amber-100"
+          >
+            <p>
+              Removed from the deal, not available for this vehicle:{" "}
+              {removedForVehicle.items
+                .map((item) => `${item.name} (${removedForVehicle.reasonsById[item.id]})`)
+                .join(", ")}
+            </p>
+            <button
+              type="button"
+              onClick={() => setRemovedForVehicle(null)}
+              className="btn-lux-ghost px-3 min-h-[32px] shrink-0"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         <div className={tabsRowClass}>
           <NavButton page="packages" label="Protection Packages" />
           <NavButton page="alacarte" label="A La Carte Options" />
@@ -751,6 +1202,10 @@ const App: React.FC = () => {
       <ValuePresentation
         customerInfo={customerInfo}
         onSaveCustomerInfo={handleSaveCustomerInfo}
+        branding={branding}
+        deck={presentation}
+        packages={packages}
+        slideImages={theme.slideImages}
         onComplete={() => {
           hasShownPresentationRef.current = true;
           setCurrentView("menu");
@@ -786,12 +1241,22 @@ const App: React.FC = () => {
         onLogout={handleLogout}
         onToggleAdminView={handleToggleAdminView}
         isAdminView={isAdminView}
+        showAdminToggle={canAccessAdmin}
         onPrint={handlePrint}
         onShowPresentation={() => setCurrentView("presentation")}
         showPresentationButton={currentView === "menu" && !isAdminView}
+        onShowRecentDeals={db && !isAdminView ? handleShowRecentDeals : undefined}
+        onLookupQuote={db && !isAdminView ? handleLookupQuote : undefined}
+        onShowApprovals={
+          db && !isAdminView && canApprovePriceOverrides(role) ? handleShowApprovals : undefined
+        }
+        branding={branding}
+        dealerships={dealerships}
+        activeDealershipId={activeDealershipId}
+        onSelectDealership={selectDealership}
       />
 
-      {isAdminView && (isDemoMode || (!isDemoMode && !guestMode)) ? (
+      {isAdminView && canAccessAdmin && (isDemoMode || (!isDemoMode && !guestMode)) ? (
         <div className="h-[var(--app-height,100vh)] overflow-auto">
           {isDemoMode ? (
             <div className="p-6 max-w-3xl mx-auto">
@@ -802,7 +1267,8 @@ const App: React.FC = () => {
             </div>
           ) : (
             <ErrorBoundary>
-              <AdminPanel onDataUpdate={loadData} />
+              {/* Remounted per store so its catalog is reloaded from the new one */}
+              <AdminPanel key={activeDealershipId ?? "default"} onDataUpdate={loadData} />
             </ErrorBoundary>
           )}
         </div>
@@ -813,11 +1279,17 @@ const App: React.FC = () => {
               enableNoScrollLayout ? "py-2 md:py-3" : "py-4 md:py-6"
             } max-w-screen-2xl flex flex-col min-h-0 ${mainFlexClass} ${mainLayoutClass}`}
           >
-            {isLoading ? (
+            {dealershipError ? (
+              <p role="alert" className="m-auto text-center text-red-400">
+                {dealershipError}
+              </p>
+            ) : isLoading ? (
               <LoadingSpinner />
             ) : currentView === "agreement" ? (
               <AgreementView
                 onBack={handleShowMenu}
+                canViewCost={showCost}
+                priceApproval={activePriceApproval}
                 selectedPackage={
                   selectedPackage
                     ? displayPackages.find((p) => p.id === selectedPackage.id) || null
@@ -831,7 +1303,26 @@ const App: React.FC = () => {
                 baseTotalPrice={baseTotalPrice}
                 basePackagePricesById={basePackagePricesById}
                 baseAddonPricesById={baseAddonPricesById}
+                promotions={dealPromotions}
+                taxBreakdown={taxBreakdown}
+                termComparison={termComparison}
+                savedQuote={currentQuote}
+                quoteSaveState={quoteSaveState}
+                declinedProducts={declinedProducts}
+                signatures={dealSignatures}
+                onSignaturesChange={handleSignaturesChange}
+                isIpadLandscape={isIpadLandscape}
+                onSaveCustomerInfo={handleSaveCustomerInfo}
+                branding={branding}
+              />
+            ) : currentView === "deals" ? (
+              <RecentDeals
+                onBack={handleShowMenu}
+                onReopen={handleReopenQuote}
+                onDuplicate={handleDuplicateQuote}
               />
+            ) : currentView === "approvals" ? (
+              <PriceApprovalInbox onBack={handleShowMenu} />
             ) : (
               <div
                 className={`lux-no-select ${
@@ -858,6 +1349,8 @@ const App: React.FC = () => {
                 baseTotalPrice={baseTotalPrice}
                 basePackagePricesById={basePackagePricesById}
                 baseAddonPricesById={baseAddonPricesById}
+                paymentTerms={paymentTerms}
+                onPaymentTermsChange={handlePaymentTermsChange}
                 onRemoveItem={handleRemoveAlaCarte}
                 onPrint={handlePrint}
                 onDeselectPackage={
@@ -880,14 +1373,22 @@ const App: React.FC = () => {
         onClose={handleCloseSettings}
         onSave={handleSaveSettings}
         currentPriceOverrides={priceOverrides}
+        currentPriceApproval={activePriceApproval}
+        pricingPolicy={pricingPolicy}
+        selfApprover={selfApprover}
+        canRequestRemoteApproval={!!db && !isDemoMode}
+        approvalRequired={isApprovalRequired}
+        customerName={customerInfo.name}
         basePackagePricesById={basePackagePricesById}
         basePackageCostsById={basePackageCostsById}
         baseAddonPricesById={baseAddonPricesById}
         baseAddonCostsById={baseAddonCostsById}
+        showCostOverrides={showCost}
         selectedPackage={
           selectedPackage ? displayPackages.find((p) => p.id === selectedPackage.id) || null : null
         }
         selectedAddOns={displayCustomPackageItems}
+        pick2={pick2Selection}
       />
     </div>
   );
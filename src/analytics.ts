@@ -122,6 +122,81 @@ export function trackQuotePrint(totalPrice: number): void {
   });
 }
 
+/**
+ * Track quote PDF download
+ */
+export function trackQuotePdfDownload(totalPrice: number): void {
+  safeLogEvent("download_quote_pdf", {
+    total_price: totalPrice,
+  });
+}
+
+/**
+ * Track a read-only quote link shared with the customer
+ */
+export function trackQuoteLinkCreated(totalPrice: number): void {
+  safeLogEvent("create_quote_link", {
+    total_price: totalPrice,
+  });
+}
+
+/**
+ * Track a menu summary sent to the customer
+ */
+export function trackCustomerSummarySent(channels: string[], totalPrice: number): void {
+  safeLogEvent("send_customer_summary", {
+    channels: channels.join(","),
+    total_price: totalPrice,
+  });
+}
+
+/**
+ * Track actions taken on a saved quote (Recent Deals screen or Header lookup)
+ */
+export function trackQuoteAction(
+  action: "reopen" | "duplicate" | "void" | "lookup",
+  quoteId: string
+): void {
+  safeLogEvent("quote_action", {
+    action,
+    quote_id: quoteId,
+  });
+}
+
+/**
+ * Track time spent on a value presentation slide
+ */
+export function trackPresentationSlideView(visit: {
+  slideId: string;
+  slideNumber: number;
+  dwellMs: number;
+  skipped: boolean;
+}): void {
+  safeLogEvent("presentation_slide_view", {
+    slide_id: visit.slideId,
+    slide_number: visit.slideNumber,
+    dwell_ms: visit.dwellMs,
+    skipped: visit.skipped,
+  });
+}
+
+/**
+ * Track the end of a value presentation: finished, or the slide it was left on
+ */
+export function trackPresentationEnd(data: {
+  completed: boolean;
+  lastSlideId?: string;
+  slidesViewed: number;
+  durationMs: number;
+}): void {
+  safeLogEvent("presentation_end", {
+    completed: data.completed,
+    last_slide_id: data.lastSlideId ?? null,
+    slides_viewed: data.slidesViewed,
+    duration_ms: data.durationMs,
+  });
+}
+
 /**
  * Track settings menu open
  */
@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  decidePriceApproval,
+  fetchApprovers,
+  fetchPendingPriceApprovals,
+  fetchPricingPolicy,
+  hashApprovalPin,
+  requestPriceApproval,
+  setManagerPin,
+  updatePricingPolicy,
+  verifyManagerPin,
+} from "./approvals";
+import {
+  addDoc,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore/lite";
+
+vi.mock("./firebase", () => ({
+  db: null,
+  auth: null,
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  addDoc: vi.fn(),
+  collection: vi.fn((_db: unknown, name: string) => ({ name })),
+  deleteField: vi.fn(() => "deleteField()"),
+  // A new document in a collection gets a generated id
+  doc: vi.fn((parent: { name?: string }, ...path: string[]) =>
+    path.length > 0
+      ? { path: path.join("/") }
+      : { id: "pin-approval-1", path: `${parent.name}/pin-approval-1` }
+  ),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  increment: vi.fn((n: number) => `increment(${n})`),
+  query: vi.fn((ref: unknown) => ref),
+  setDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  where: vi.fn(),
+  writeBatch: vi.fn(),
+}));
+
+const pendingRequest = (id: string, requestedAt: number) => ({
+  id,
+  data: () => ({
+    status: "pending",
+    requestedAt,
+    requestedBy: { uid: "rep-1" },
+    reason: "Competitor match",
+    items: [
+      { id: "gold", name: "Gold Package", standardPrice: 2500, price: 1500, grossProfit: 600 },
+    ],
+    dealGrossProfit: 600,
+    overrides: { gold: { price: 1500 } },
+  }),
+});
+
+describe("approvals", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {};
+    (firebaseModule as any).auth = {
+      currentUser: { uid: "manager-1", email: "manager@example.com", displayName: "Pat Manager" },
+    };
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+    (firebaseModule as any).auth = null;
+  });
+
+  describe("fetchPricingPolicy", () => {
+    it("returns no floors when firebase is not initialized", async () => {
+      const firebaseModule = await import("./firebase");
+      (firebaseModule as any).db = null;
+
+      await expect(fetchPricingPolicy()).resolves.toEqual({});
+    });
+
+    it("returns the configured floors", async () => {
+      vi.mocked(getDoc).mockResolvedValue({
+        exists: () => true,
+        data: () => ({ minItemGrossProfit: 200, minDealGrossProfit: 1000 }),
+      } as any);
+
+      await expect(fetchPricingPolicy()).resolves.toEqual({
+        minItemGrossProfit: 200,
+        minDealGrossProfit: 1000,
+      });
+    });
+
+    it("disables floors when the document is invalid", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.mocked(getDoc).mockResolvedValue({
+        exists: () => true,
+        data: () => ({ minItemGrossProfit: "lots" }),
+      } as any);
+
+      await expect(fetchPricingPolicy()).resolves.toEqual({});
+      warnSpy.mockRestore();
+    });
+  });
+
+  it("omits cleared floors when saving the policy", async () => {
+    await updatePricingPolicy({ minDealGrossProfit: 800 });
+
+    expect(setDoc).toHaveBeenCalledWith(
+      { path: "app_config/pricing_policy" },
+      { minDealGrossProfit: 800 }
+    );
+  });
+
+  describe("manager PINs", () => {
+    it("hashes deterministically per user", async () => {
+      const hash = await hashApprovalPin("manager-1", "4321");
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(await hashApprovalPin("manager-1", "4321")).toBe(hash);
+      expect(await hashApprovalPin("manager-2", "4321")).not.toBe(hash);
+    });
+
+    it("stores only the hash of the signed-in manager's PIN, apart from their name", async () => {
+      const batch = { set: vi.fn(), commit: vi.fn(async () => undefined) };
+      vi.mocked(writeBatch).mockReturnValue(batch as any);
+
+      await setManagerPin("864213");
+
+      expect(batch.set).toHaveBeenCalledWith(
+        { path: "manager_pins/manager-1" },
+        expect.objectContaining({ pinHash: await hashApprovalPin("manager-1", "864213") })
+      );
+      expect(batch.set).toHaveBeenCalledWith(
+        { path: "approvers/manager-1" },
+        expect.objectContaining({ name: "Pat Manager" })
+      );
+      expect(JSON.stringify(batch.set.mock.calls)).not.toContain("864213");
+      expect(batch.commit).toHaveBeenCalled();
+    });
+
+    it("unlocks the manager's PIN when it is set again", async () => {
+      const batch = { set: vi.fn(), commit: vi.fn(async () => undefined) };
+      vi.mocked(writeBatch).mockReturnValue(batch as any);
+
+      await setManagerPin("864213");
+
+      expect(batch.set).toHaveBeenCalledWith({ path: "pin_attempts/manager-1" }, { attempts: 0 });
+    });
+
+    it("rejects PINs that are not 6 to 8 digits", async () => {
+      await expect(setManagerPin("12a456")).rejects.toThrow("6 to 8 digits");
+      await expect(setManagerPin("4321")).rejects.toThrow("6 to 8 digits");
+      expect(writeBatch).not.toHaveBeenCalled();
+    });
+
+    it("lists the managers a rep can ask, by name", async () => {
+      vi.mocked(getDocs).mockResolvedValue({
+        docs: [
+          { id: "manager-2", data: () => ({ name: "Sam Manager" }) },
+          { id: "manager-1", data: () => ({ name: "Pat Manager" }) },
+        ],
+      } as any);
+
+      await expect(fetchApprovers()).resolves.toEqual([
+        { uid: "manager-1", name: "Pat Manager" },
+        { uid: "manager-2", name: "Sam Manager" },
+      ]);
+    });
+
+    describe("verifyManagerPin", () => {
+      const approver = { uid: "manager-2", name: "Sam Manager" };
+      const approval = { reason: "Competitor match", overrides: { gold: { price: 1500 } } };
+      let batch: { set: ReturnType<typeof vi.fn>; commit: ReturnType<typeof vi.fn> };
+
+      beforeEach(() => {
+        batch = { set: vi.fn(), commit: vi.fn(async () => undefined) };
+        vi.mocked(writeBatch).mockReturnValue(batch as any);
+        vi.mocked(setDoc).mockResolvedValue(undefined);
+      });
+
+      it("counts the try before asking for the approval", async () => {
+        await verifyManagerPin(approver, "246813", approval);
+
+        expect(setDoc).toHaveBeenCalledWith(
+          { path: "pin_attempts/manager-2" },
+          {
+            attempts: "increment(1)",
+            pinHash: await hashApprovalPin("manager-2", "246813"),
+            requestedBy: "manager-1",
+            approvalId: "deleteField()",
+          },
+          { merge: true }
+        );
+        expect(vi.mocked(setDoc).mock.invocationCallOrder[0]).toBeLessThan(
+          batch.commit.mock.invocationCallOrder[0]!
+        );
+      });
+
+      it("records the approval in the manager's name and clears their tries", async () => {
+        await expect(verifyManagerPin(approver, "246813", approval)).resolves.toEqual({
+          approvedBy: approver,
+          requestId: "pin-approval-1",
+        });
+        expect(batch.set).toHaveBeenCalledWith(
+          { id: "pin-approval-1", path: "pin_approvals/pin-approval-1" },
+          expect.objectContaining({
+            approverUid: "manager-2",
+            requestedBy: { uid: "manager-1" },
+            reason: "Competitor match",
+            overrides: { gold: { price: 1500 } },
+          })
+        );
+        expect(batch.set).toHaveBeenCalledWith(
+          { path: "pin_attempts/manager-2" },
+          { attempts: 0, approvalId: "pin-approval-1" }
+        );
+      });
+
+      it("returns null when the rules refuse the PIN", async () => {
+        batch.commit.mockRejectedValue(
+          Object.assign(new Error("Missing or insufficient permissions."), {
+            code: "permission-denied",
+          })
+        );
+
+        await expect(verifyManagerPin(approver, "000000", approval)).resolves.toBeNull();
+      });
+
+      it("reports a locked PIN when the try is refused", async () => {
+        vi.mocked(setDoc).mockRejectedValue(
+          Object.assign(new Error("Missing or insufficient permissions."), {
+            code: "permission-denied",
+          })
+        );
+
+        await expect(verifyManagerPin(approver, "246813", approval)).rejects.toThrow(
+          "Sam Manager's PIN is locked"
+        );
+        expect(batch.commit).not.toHaveBeenCalled();
+      });
+
+      it("reports a failed check rather than a wrong PIN", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        batch.commit.mockRejectedValue(
+          Object.assign(new Error("offline"), { code: "unavailable" })
+        );
+
+        await expect(verifyManagerPin(approver, "246813", approval)).rejects.toThrow(
+          "Failed to verify the PIN"
+        );
+      });
+    });
+  });
+
+  describe("remote approval requests", () => {
+    it("creates a pending request in the rep's name", async () => {
+      vi.mocked(addDoc).mockResolvedValue({ id: "request-1" } as any);
+
+      const id = await requestPriceApproval({
+        reason: "Competitor match",
+        items: [],
+        dealGrossProfit: 600,
+        overrides: { gold: { price: 1500 } },
+      });
+
+      expect(id).toBe("request-1");
+      expect(addDoc).toHaveBeenCalledWith(
+        { name: "price_approvals" },
+        expect.objectContaining({
+          status: "pending",
+          requestedBy: { uid: "manager-1", email: "manager@example.com" },
+        })
+      );
+    });
+
+    it("lists pending requests oldest first", async () => {
+      vi.mocked(getDocs).mockResolvedValue({
+        docs: [pendingRequest("newer", 2000), pendingRequest("older", 1000)],
+      } as any);
+
+      const requests = await fetchPendingPriceApprovals();
+
+      expect(requests.map((request) => request.id)).toEqual(["older", "newer"]);
+    });
+
+    it("records who decided a request", async () => {
+      await decidePriceApproval("request-1", "approved", " ok this once ");
+
+      expect(doc).toHaveBeenCalledWith({}, "price_approvals", "request-1");
+      expect(updateDoc).toHaveBeenCalledWith(
+        { path: "price_approvals/request-1" },
+        expect.objectContaining({
+          status: "approved",
+          decidedBy: { uid: "manager-1", name: "Pat Manager" },
+          decisionNote: "ok this once",
+        })
+      );
+    });
+  });
+});
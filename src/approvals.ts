@@ -0,0 +1,350 @@
+import {
+  addDoc,
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore/lite";
+import { auth, db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type {
+  PriceApproval,
+  PriceApprovalRequest,
+  PriceApprovalRequestStatus,
+  PricingPolicy,
+} from "./types";
+import { PriceApprovalRequestSchema, PricingPolicySchema } from "./schemas";
+
+const PIN_HASH_ITERATIONS = 100_000;
+
+/**
+ * Fetches the gross-profit floors from app_config/pricing_policy.
+ * A missing or invalid document means no floors, so overrides never need approval.
+ */
+export async function fetchPricingPolicy(): Promise<PricingPolicy> {
+  if (!db) {
+    return {};
+  }
+
+  try {
+    const snap = await getDoc(doc(db, scopedCollection("app_config"), "pricing_policy"));
+    if (!snap.exists()) return {};
+
+    const parsed = PricingPolicySchema.safeParse(snap.data());
+    if (!parsed.success) {
+      console.warn("Pricing policy invalid in Firestore; floors disabled.", parsed.error.format());
+      return {};
+    }
+    return parsed.data;
+  } catch (error) {
+    console.warn("Error fetching pricing policy; floors disabled.", error);
+    return {};
+  }
+}
+
+/**
+ * Saves the gross-profit floors to app_config/pricing_policy.
+ * The document is replaced, so an omitted floor is cleared.
+ */
+export async function updatePricingPolicy(policy: PricingPolicy): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot update pricing policy.");
+  }
+
+  await setDoc(doc(db, scopedCollection("app_config"), "pricing_policy"), {
+    ...(typeof policy.minItemGrossProfit === "number"
+      ? { minItemGrossProfit: policy.minItemGrossProfit }
+      : {}),
+    ...(typeof policy.minDealGrossProfit === "number"
+      ? { minDealGrossProfit: policy.minDealGrossProfit }
+      : {}),
+  });
+}
+
+/**
+ * Derives a slow hash of a manager's approval PIN, salted with their uid.
+ * Exported for tests.
+ */
+export async function hashApprovalPin(uid: string, pin: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(pin), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      salt: encoder.encode(`approval-pin:${uid}`),
+      iterations: PIN_HASH_ITERATIONS,
+      hash: "SHA-256",
+    },
+    key,
+    256
+  );
+  return Array.from(new Uint8Array(bits))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Sets the signed-in manager's approval PIN. The hash goes to manager_pins/{uid}, which
+ * no device can read; approvers/{uid} lists the manager for PIN approval on the floor.
+ * Setting the PIN also clears any wrong tries, so it unlocks a locked PIN.
+ * @param pin - 6 to 8 digits.
+ */
+export async function setManagerPin(pin: string): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot set approval PIN.");
+  }
+  const currentUser = auth?.currentUser;
+  if (!currentUser) {
+    throw new Error("You must be signed in to set an approval PIN.");
+  }
+  if (!/^\d{6,8}$/.test(pin)) {
+    throw new Error("The approval PIN must be 6 to 8 digits.");
+  }
+
+  const updatedAt = Date.now();
+  const batch = writeBatch(db);
+  batch.set(doc(db, "manager_pins", currentUser.uid), {
+    pinHash: await hashApprovalPin(currentUser.uid, pin),
+    updatedAt,
+  });
+  batch.set(doc(db, "approvers", currentUser.uid), {
+    name: currentUser.displayName || currentUser.email || currentUser.uid,
+    updatedAt,
+  });
+  batch.set(doc(db, "pin_attempts", currentUser.uid), { attempts: 0 });
+  try {
+    await batch.commit();
+  } catch (error) {
+    console.error("Error saving approval PIN to Firestore:", error);
+    throw new Error(
+      "Failed to save the approval PIN. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+const isPermissionDenied = (error: unknown) =>
+  Boolean(
+    error && typeof error === "object" && "code" in error && error.code === "permission-denied"
+  );
+
+/**
+ * Lists the managers who have set an approval PIN, by name, for the rep to pick the one
+ * approving in person. Empty in demo mode.
+ */
+export async function fetchApprovers(): Promise<PriceApproval["approvedBy"][]> {
+  if (!db) {
+    return [];
+  }
+
+  try {
+    const snapshot = await getDocs(collection(db, "approvers"));
+    return snapshot.docs
+      .map((approverDoc) => {
+        const name = approverDoc.data()["name"];
+        return { uid: approverDoc.id, ...(typeof name === "string" ? { name } : {}) };
+      })
+      .sort((a, b) => (a.name ?? a.uid).localeCompare(b.name ?? b.uid));
+  } catch (error) {
+    console.error("Error fetching approvers from Firestore:", error);
+    throw new Error("Failed to load managers. Please check your connection and Firestore rules.");
+  }
+}
+
+/**
+ * Checks a PIN entered on the rep's device for the manager the rep picked. The hash of
+ * the PIN is first recorded as a try against that manager (pin_attempts/{uid}), which the
+ * rules refuse once too many tries have gone unconfirmed. The approval it grants
+ * (pin_approvals/{id}) is then recorded in the manager's name, which the rules accept
+ * only when the hash matches theirs and they still hold the manager or admin role; the
+ * same write clears the tries. The hashes never leave Firestore.
+ * @returns The manager and the approval record's ID, or null if the PIN isn't theirs.
+ */
+export async function verifyManagerPin(
+  approver: PriceApproval["approvedBy"],
+  pin: string,
+  approval: Pick<PriceApproval, "reason" | "overrides">
+): Promise<Required<Pick<PriceApproval, "approvedBy" | "requestId">> | null> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot verify approval PIN.");
+  }
+  const currentUser = auth?.currentUser;
+  if (!currentUser) {
+    throw new Error("You must be signed in to verify an approval PIN.");
+  }
+
+  const attemptRef = doc(db, "pin_attempts", approver.uid);
+  try {
+    await setDoc(
+      attemptRef,
+      {
+        attempts: increment(1),
+        pinHash: await hashApprovalPin(approver.uid, pin),
+        requestedBy: currentUser.uid,
+        approvalId: deleteField(),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    if (isPermissionDenied(error)) {
+      throw new Error(
+        `${approver.name ?? "This manager"}'s PIN is locked after too many wrong tries. Setting the PIN again unlocks it.`
+      );
+    }
+    console.error("Error recording approval PIN try in Firestore:", error);
+    throw new Error("Failed to verify the PIN. Please check your connection and Firestore rules.");
+  }
+
+  const approvalRef = doc(collection(db, "pin_approvals"));
+  const batch = writeBatch(db);
+  batch.set(approvalRef, {
+    approverUid: approver.uid,
+    requestedBy: { uid: currentUser.uid },
+    reason: approval.reason,
+    overrides: approval.overrides,
+    approvedAt: Date.now(),
+  });
+  batch.set(attemptRef, { attempts: 0, approvalId: approvalRef.id });
+  try {
+    await batch.commit();
+  } catch (error) {
+    // Wrong PIN for this manager, or no longer a manager
+    if (isPermissionDenied(error)) return null;
+    console.error("Error verifying approval PIN in Firestore:", error);
+    throw new Error("Failed to verify the PIN. Please check your connection and Firestore rules.");
+  }
+  return { approvedBy: approver, requestId: approvalRef.id };
+}
+
+/**
+ * Creates a pending remote approval request (price_approvals/{id}) for a manager to decide.
+ * @returns The ID of the new request.
+ */
+export async function requestPriceApproval(
+  request: Omit<PriceApprovalRequest, "id" | "status" | "requestedAt" | "requestedBy">
+): Promise<string> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot request approval.");
+  }
+  const currentUser = auth?.currentUser;
+  if (!currentUser) {
+    throw new Error("You must be signed in to request approval.");
+  }
+
+  try {
+    const ref = await addDoc(collection(db, scopedCollection("price_approvals")), {
+      ...request,
+      status: "pending",
+      requestedAt: Date.now(),
+      requestedBy: {
+        uid: currentUser.uid,
+        ...(currentUser.email ? { email: currentUser.email } : {}),
+      },
+    });
+    return ref.id;
+  } catch (error) {
+    console.error("Error creating approval request in Firestore:", error);
+    throw new Error(
+      "Failed to send the approval request. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+function parseApprovalRequest(
+  id: string,
+  data: Record<string, unknown>
+): PriceApprovalRequest | null {
+  const result = PriceApprovalRequestSchema.safeParse({ id, ...data });
+  if (!result.success) {
+    console.warn(`Validation error in price_approvals.${id}:`, result.error.format());
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * Fetches a single approval request, used by the rep's device to poll for a decision.
+ */
+export async function fetchPriceApprovalRequest(
+  requestId: string
+): Promise<PriceApprovalRequest | null> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load approval request.");
+  }
+
+  try {
+    const snap = await getDoc(doc(db, scopedCollection("price_approvals"), requestId));
+    return snap.exists() ? parseApprovalRequest(snap.id, snap.data()) : null;
+  } catch (error) {
+    console.error("Error fetching approval request from Firestore:", error);
+    throw new Error(
+      "Failed to check the approval request. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+/**
+ * Fetches all pending approval requests, oldest first, for the manager inbox.
+ */
+export async function fetchPendingPriceApprovals(): Promise<PriceApprovalRequest[]> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load approval requests.");
+  }
+
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, scopedCollection("price_approvals")), where("status", "==", "pending"))
+    );
+    return snapshot.docs
+      .map((requestDoc) => parseApprovalRequest(requestDoc.id, requestDoc.data()))
+      .filter((request): request is PriceApprovalRequest => request !== null)
+      .sort((a, b) => a.requestedAt - b.requestedAt);
+  } catch (error) {
+    console.error("Error fetching approval requests from Firestore:", error);
+    throw new Error(
+      "Failed to load approval requests. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+/**
+ * Records a manager's decision on a pending approval request.
+ */
+export async function decidePriceApproval(
+  requestId: string,
+  status: Exclude<PriceApprovalRequestStatus, "pending">,
+  note?: string
+): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot decide approval request.");
+  }
+  const currentUser = auth?.currentUser;
+  if (!currentUser) {
+    throw new Error("You must be signed in to decide approval requests.");
+  }
+
+  try {
+    await updateDoc(doc(db, scopedCollection("price_approvals"), requestId), {
+      status,
+      decidedAt: Date.now(),
+      decidedBy: {
+        uid: currentUser.uid,
+        name: currentUser.displayName || currentUser.email || currentUser.uid,
+      },
+      ...(note?.trim() ? { decisionNote: note.trim() } : {}),
+    });
+  } catch (error) {
+    console.error("Error updating approval request in Firestore:", error);
+    throw new Error(
+      "Failed to record the decision. Please check your connection and Firestore rules."
+    );
+  }
+}
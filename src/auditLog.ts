@@ -0,0 +1,155 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  type WriteBatch,
+} from "firebase/firestore/lite";
+import { auth, db } from "./firebase";
+import { getActiveDealershipId, scopedCollection } from "./dealerships";
+import type { AuditAction, AuditLogEntry } from "./types";
+import { AuditLogEntrySchema } from "./schemas";
+import { diffDocuments } from "./utils/auditDiff";
+
+type DocFields = Record<string, unknown>;
+
+export type AuditLogDraft = Omit<AuditLogEntry, "id">;
+
+// How many of the most recent entries the Activity tab loads
+export const AUDIT_LOG_PAGE_SIZE = 200;
+
+/**
+ * Builds an audit entry for a write, attributed to the signed-in user.
+ * @param before - The document before the write, or null if it was created
+ * @param after - The document after the write, or null if it was deleted
+ * @returns The entry, or null if the write did not change anything
+ */
+export function buildAuditEntry(input: {
+  collection: string;
+  docId: string;
+  before: DocFields | null;
+  after: DocFields | null;
+}): AuditLogDraft | null {
+  const changes = diffDocuments(input.before, input.after ?? {});
+  if (Object.keys(changes).length === 0) return null;
+
+  const action: AuditAction = !input.before ? "create" : input.after ? "update" : "delete";
+  const name = input.after?.["name"] ?? input.before?.["name"];
+  const currentUser = auth?.currentUser;
+  const dealershipId = getActiveDealershipId();
+
+  return {
+    collection: input.collection,
+    ...(dealershipId ? { dealershipId } : {}),
+    docId: input.docId,
+    ...(typeof name === "string" && name ? { docName: name } : {}),
+    action,
+    changes,
+    user: {
+      uid: currentUser?.uid ?? "unknown",
+      ...(currentUser?.email ? { email: currentUser.email } : {}),
+    },
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Reads a document's current fields so a write can be diffed against them.
+ * Never throws: a failed read is logged and treated as a missing document.
+ */
+export async function readDocFields(
+  collectionName: string,
+  docId: string
+): Promise<DocFields | null> {
+  if (!db) return null;
+
+  try {
+    const snap = await getDoc(doc(db, scopedCollection(collectionName), docId));
+    return snap.exists() ? (snap.data() as DocFields) : null;
+  } catch (error) {
+    console.warn(`Could not read ${collectionName}/${docId} for the audit log:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reads every document in a collection, keyed by ID, for diffing batched writes.
+ * Never throws: a failed read is logged and returns an empty map.
+ */
+export async function readCollectionFields(
+  collectionName: string
+): Promise<Map<string, DocFields>> {
+  const byId = new Map<string, DocFields>();
+  if (!db) return byId;
+
+  try {
+    const snapshot = await getDocs(collection(db, scopedCollection(collectionName)));
+    snapshot.docs.forEach((snap) => byId.set(snap.id, snap.data() as DocFields));
+  } catch (error) {
+    console.warn(`Could not read ${collectionName} for the audit log:`, error);
+  }
+  return byId;
+}
+
+/**
+ * Adds an audit entry to a write batch so it commits atomically with the change.
+ */
+export function addAuditEntryToBatch(batch: WriteBatch, entry: AuditLogDraft | null): void {
+  if (!db || !entry) return;
+  batch.set(doc(collection(db, scopedCollection("audit_log"))), entry);
+}
+
+/**
+ * Appends an audit entry after a single-document write has succeeded.
+ * The catalog change has already landed, so a failure here is logged rather than
+ * surfaced; otherwise the admin would be told a saved edit failed and retry it.
+ */
+export async function recordAuditEntry(entry: AuditLogDraft | null): Promise<void> {
+  if (!db || !entry) return;
+
+  try {
+    await addDoc(collection(db, scopedCollection("audit_log")), entry);
+  } catch (error) {
+    console.error(`Failed to write audit log entry for ${entry.collection}/${entry.docId}:`, error);
+  }
+}
+
+/**
+ * Fetches the most recent audit log entries, newest first.
+ */
+export async function fetchAuditLog(
+  maxEntries: number = AUDIT_LOG_PAGE_SIZE
+): Promise<AuditLogEntry[]> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load the audit log.");
+  }
+
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, scopedCollection("audit_log")),
+        orderBy("timestamp", "desc"),
+        limit(maxEntries)
+      )
+    );
+    const entries: AuditLogEntry[] = [];
+    for (const entryDoc of snapshot.docs) {
+      const result = AuditLogEntrySchema.safeParse({ id: entryDoc.id, ...entryDoc.data() });
+      if (result.success) {
+        entries.push(result.data);
+      } else {
+        console.warn(`Validation error in audit_log.${entryDoc.id}:`, result.error.format());
+      }
+    }
+    return entries;
+  } catch (error) {
+    console.error("Error fetching audit log from Firestore:", error);
+    throw new Error(
+      "Failed to load the audit log. Please check your connection and Firestore rules."
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createCatalogSnapshot, restoreCatalogSnapshot } from "./catalogSnapshots";
+import { addDoc, getDoc, getDocs, writeBatch } from "firebase/firestore/lite";
+import type { CatalogSnapshot } from "./types";
+
+vi.mock("./firebase", () => ({
+  db: null,
+  auth: null,
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  addDoc: vi.fn(),
+  collection: vi.fn((_db: unknown, name: string) => ({ name })),
+  deleteField: vi.fn(),
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join("/") })),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  orderBy: vi.fn(),
+  query: vi.fn((ref: unknown) => ref),
+  setDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  writeBatch: vi.fn(),
+}));
+
+const liveCollections: Record<string, Record<string, Record<string, unknown>>> = {
+  packages: { gold: { name: "Gold", price: 2500 } },
+  features: {
+    tint: { name: "Window Tint", price: 450 },
+    wheel: { name: "Wheel Protection", price: 600 },
+  },
+  ala_carte_options: {},
+};
+
+const snapshot: CatalogSnapshot = {
+  id: "snap-1",
+  name: "Spring pricing",
+  createdAt: 1767225600000,
+  createdBy: { uid: "admin-1" },
+  contents: {
+    packages: { gold: { name: "Gold", price: 2500 } },
+    features: { tint: { name: "Window Tint", price: 400 } },
+    ala_carte_options: {},
+    pick2: null,
+  },
+};
+
+describe("catalogSnapshots", () => {
+  const batch = { set: vi.fn(), delete: vi.fn(), commit: vi.fn() };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {};
+    (firebaseModule as any).auth = {
+      currentUser: { uid: "admin-1", email: "admin@example.com" },
+    };
+    vi.mocked(getDocs).mockImplementation(
+      async (ref: any) =>
+        ({
+          docs: Object.entries(liveCollections[ref.name] ?? {}).map(([id, data]) => ({
+            id,
+            data: () => data,
+          })),
+        }) as any
+    );
+    vi.mocked(getDoc).mockResolvedValue({ exists: () => false } as any);
+    vi.mocked(addDoc).mockResolvedValue({ id: "backup-1" } as any);
+    vi.mocked(writeBatch).mockReturnValue(batch as any);
+    batch.commit.mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+    (firebaseModule as any).auth = null;
+  });
+
+  it("saves the live catalog under a name", async () => {
+    await createCatalogSnapshot("  Before reorg ");
+
+    expect(addDoc).toHaveBeenCalledWith(
+      { name: "catalog_snapshots" },
+      expect.objectContaining({
+        name: "Before reorg",
+        createdBy: { uid: "admin-1", email: "admin@example.com" },
+        contents: {
+          packages: liveCollections["packages"],
+          features: liveCollections["features"],
+          ala_carte_options: {},
+          pick2: null,
+        },
+      })
+    );
+  });
+
+  it("requires a name", async () => {
+    await expect(createCatalogSnapshot("  ")).rejects.toThrow("Give the snapshot a name.");
+    expect(addDoc).not.toHaveBeenCalled();
+  });
+
+  it("backs up live, then writes only the differing documents with audit entries", async () => {
+    const result = await restoreCatalogSnapshot(snapshot);
+
+    expect(result).toEqual({ restored: 2, backupSnapshotId: "backup-1" });
+    expect(addDoc).toHaveBeenCalledWith(
+      { name: "catalog_snapshots" },
+      expect.objectContaining({ name: 'Before restoring "Spring pricing"' })
+    );
+    expect(batch.set).toHaveBeenCalledWith(
+      { path: "features/tint" },
+      { name: "Window Tint", price: 400 }
+    );
+    expect(batch.delete).toHaveBeenCalledWith({ path: "features/wheel" });
+    expect(batch.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ collection: "features", docId: "wheel", action: "delete" })
+    );
+    expect(batch.commit).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing when the snapshot already matches", async () => {
+    const result = await restoreCatalogSnapshot({
+      ...snapshot,
+      contents: { ...snapshot.contents, features: liveCollections["features"]! },
+    });
+
+    expect(result).toEqual({ restored: 0, backupSnapshotId: null });
+    expect(addDoc).not.toHaveBeenCalled();
+    expect(batch.commit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  writeBatch,
+} from "firebase/firestore/lite";
+import { auth, db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type { CatalogContents, CatalogDocuments, CatalogSnapshot } from "./types";
+import { CatalogSnapshotSchema } from "./schemas";
+import { FIRESTORE_BATCH_LIMIT } from "./data";
+import { addAuditEntryToBatch, buildAuditEntry } from "./auditLog";
+import { diffCatalog, type CatalogDocChange } from "./utils/catalogDiff";
+
+// A snapshot is one Firestore document, which is capped at 1 MiB
+const MAX_SNAPSHOT_BYTES = 900_000;
+
+export interface RestoreResult {
+  restored: number;
+  backupSnapshotId: string | null;
+}
+
+async function readCollectionDocs(name: string): Promise<CatalogDocuments> {
+  const snapshot = await getDocs(collection(db!, scopedCollection(name)));
+  const docs: CatalogDocuments = {};
+  snapshot.docs.forEach((snap) => {
+    docs[snap.id] = snap.data();
+  });
+  return docs;
+}
+
+/**
+ * Reads the live catalog exactly as stored: packages, features, A La Carte options and
+ * app_config/pick2.
+ */
+export async function readLiveCatalog(): Promise<CatalogContents> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot read the catalog.");
+  }
+
+  try {
+    const [packages, features, alaCarteOptions, pick2Snap] = await Promise.all([
+      readCollectionDocs("packages"),
+      readCollectionDocs("features"),
+      readCollectionDocs("ala_carte_options"),
+      getDoc(doc(db, scopedCollection("app_config"), "pick2")),
+    ]);
+    return {
+      packages,
+      features,
+      ala_carte_options: alaCarteOptions,
+      pick2: pick2Snap.exists() ? pick2Snap.data() : null,
+    };
+  } catch (error) {
+    console.error("Error reading the catalog from Firestore:", error);
+    throw new Error(
+      "Failed to read the catalog. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+async function saveSnapshot(name: string, contents: CatalogContents): Promise<string> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot save a snapshot.");
+  }
+  if (JSON.stringify(contents).length > MAX_SNAPSHOT_BYTES) {
+    throw new Error("The catalog is too large to store in a single snapshot.");
+  }
+
+  const currentUser = auth?.currentUser;
+  try {
+    const ref = await addDoc(collection(db, scopedCollection("catalog_snapshots")), {
+      name,
+      createdAt: Date.now(),
+      createdBy: {
+        uid: currentUser?.uid ?? "unknown",
+        ...(currentUser?.email ? { email: currentUser.email } : {}),
+      },
+      contents,
+    });
+    return ref.id;
+  } catch (error) {
+    console.error("Error saving catalog snapshot to Firestore:", error);
+    throw new Error(
+      "Failed to save the snapshot. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+/**
+ * Saves a named snapshot of the live catalog.
+ * @returns The ID of the new snapshot.
+ */
+export async function createCatalogSnapshot(name: string): Promise<string> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Give the snapshot a name.");
+  }
+  return saveSnapshot(trimmed, await readLiveCatalog());
+}
+
+/**
+ * Fetches all catalog snapshots, newest first.
+ */
+export async function fetchCatalogSnapshots(): Promise<CatalogSnapshot[]> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load snapshots.");
+  }
+
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, scopedCollection("catalog_snapshots")), orderBy("createdAt", "desc"))
+    );
+    const snapshots: CatalogSnapshot[] = [];
+    for (const snapshotDoc of snapshot.docs) {
+      const result = CatalogSnapshotSchema.safeParse({ id: snapshotDoc.id, ...snapshotDoc.data() });
+      if (result.success) {
+        snapshots.push(result.data);
+      } else {
+        console.warn(
+          `Validation error in catalog_snapshots.${snapshotDoc.id}:`,
+          result.error.format()
+        );
+      }
+    }
+    return snapshots;
+  } catch (error) {
+    console.error("Error fetching catalog snapshots from Firestore:", error);
+    throw new Error("Failed to load snapshots. Please check your connection and Firestore rules.");
+  }
+}
+
+/**
+ * Lists what restoring a snapshot would change in the live catalog.
+ */
+export async function compareSnapshotWithLive(
+  snapshot: CatalogSnapshot
+): Promise<CatalogDocChange[]> {
+  return diffCatalog(snapshot.contents, await readLiveCatalog());
+}
+
+/**
+ * Restores the catalog to a snapshot. Only documents that differ are written, each with
+ * its audit_log entry in the same batch, so up to FIRESTORE_BATCH_LIMIT / 2 changed
+ * documents restore in one atomic batch. Larger restores are chunked, so the live
+ * catalog is snapshotted first and a failed chunk can be undone from that backup.
+ */
+export async function restoreCatalogSnapshot(snapshot: CatalogSnapshot): Promise<RestoreResult> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot restore a snapshot.");
+  }
+
+  const live = await readLiveCatalog();
+  const changes = diffCatalog(snapshot.contents, live);
+  if (changes.length === 0) {
+    return { restored: 0, backupSnapshotId: null };
+  }
+
+  const backupName = `Before restoring "${snapshot.name}"`;
+  const backupSnapshotId = await saveSnapshot(backupName, live);
+
+  // Each restored document also writes its audit_log entry in the same batch
+  const chunkSize = FIRESTORE_BATCH_LIMIT / 2;
+  for (let i = 0; i < changes.length; i += chunkSize) {
+    const batch = writeBatch(db);
+    for (const change of changes.slice(i, i + chunkSize)) {
+      const ref = doc(db, scopedCollection(change.collection), change.docId);
+      if (change.snapshot) {
+        batch.set(ref, change.snapshot);
+      } else {
+        batch.delete(ref);
+      }
+      addAuditEntryToBatch(
+        batch,
+        buildAuditEntry({
+          collection: change.collection,
+          docId: change.docId,
+          before: change.live,
+          after: change.snapshot,
+        })
+      );
+    }
+
+    try {
+      await batch.commit();
+    } catch (error) {
+      console.error(`Catalog restore failed after ${i} of ${changes.length} documents:`, error);
+      throw new Error(
+        i === 0
+          ? "Failed to restore the snapshot. Please check your connection and Firestore rules."
+          : `The restore stopped partway through. Restore the snapshot "${backupName}" to undo it.`
+      );
+    }
+  }
+
+  return { restored: changes.length, backupSnapshotId };
+}
@@ -23,6 +23,7 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { db } from "../firebase";
+import { scopedCollection } from "../dealerships";
 import type { ProductFeature, FeatureConnector, PackageTier } from "../types";
 import { AlaCarteAdminPanel } from "./AlaCarteAdminPanel";
 import {
@@ -33,12 +34,44 @@ import {
 } from "../data";
 import { groupFeaturesByColumn, normalizePositions, sortFeatures } from "../utils/featureOrdering";
 import { ProductHub } from "./ProductHub";
+import { PricingPolicyPanel } from "./PricingPolicyPanel";
+import { TaxFeesPanel } from "./TaxFeesPanel";
+import { PresentationSlidesPanel } from "./PresentationSlidesPanel";
+import { PaymentDefaultsPanel } from "./PaymentDefaultsPanel";
+import { AuditLogPanel } from "./AuditLogPanel";
+import { CatalogSnapshotsPanel } from "./CatalogSnapshotsPanel";
+import { ScheduledChangesPanel } from "./ScheduledChangesPanel";
+import { PromotionsPanel } from "./PromotionsPanel";
 
 interface AdminPanelProps {
   onDataUpdate: () => void;
 }
 
-type AdminTab = "features" | "alacarte" | "product-hub";
+type AdminTab =
+  | "features"
+  | "alacarte"
+  | "product-hub"
+  | "pricing"
+  | "promotions"
+  | "presentation"
+  | "schedule"
+  | "activity"
+  | "snapshots";
+
+const ADMIN_TABS: readonly AdminTab[] = [
+  "features",
+  "alacarte",
+  "product-hub",
+  "pricing",
+  "promotions",
+  "presentation",
+  "schedule",
+  "activity",
+  "snapshots",
+];
+
+const isAdminTab = (value: string | null): value is AdminTab =>
+  value !== null && (ADMIN_TABS as readonly string[]).includes(value);
 
 // Column configuration - strict 1:1 mapping and display order
 // Gold = Column 1, Elite = Column 2, Platinum = Column 3
@@ -256,9 +289,7 @@ const STORAGE_KEY_TAB = "adminPanel_lastTab";
 const getStoredTab = (): AdminTab | null => {
   try {
     const stored = localStorage.getItem(STORAGE_KEY_TAB);
-    return stored === "features" || stored === "alacarte" || stored === "product-hub"
-      ? (stored as AdminTab)
-      : null;
+    return isAdminTab(stored) ? stored : null;
   } catch {
     return null;
   }
@@ -277,8 +308,8 @@ const getInitialTab = (): AdminTab => {
   // Check query string first
   const params = new URLSearchParams(window.location.search);
   const tabParam = params.get("tab");
-  if (tabParam === "alacarte" || tabParam === "features" || tabParam === "product-hub") {
-    return tabParam as AdminTab;
+  if (isAdminTab(tabParam)) {
+    return tabParam;
   }
 
   // Fall back to localStorage
@@ -339,7 +370,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onDataUpdate }) => {
     setIsLoading(true);
     setError(null);
     try {
-      const featuresQuery = query(collection(db, "features"), orderBy("name"));
+      const featuresQuery = query(collection(db, scopedCollection("features")), orderBy("name"));
       const querySnapshot = await getDocs(featuresQuery);
       const featuresData = querySnapshot.docs.map(
         (doc) => ({ ...(doc.data() as object), id: doc.id }) as ProductFeature
@@ -363,7 +394,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onDataUpdate }) => {
     }
 
     try {
-      const packagesSnapshot = await getDocs(collection(db, "packages"));
+      const packagesSnapshot = await getDocs(collection(db, scopedCollection("packages")));
       const packageData: PackageTier[] = packagesSnapshot.docs.map((pkgDoc) => {
         const data = pkgDoc.data() as Partial<PackageTier>;
         const isRecommended = data.isRecommended ?? data.is_recommended ?? false;
@@ -373,7 +404,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onDataUpdate }) => {
           price: data.price ?? 0,
           cost: data.cost ?? 0,
           features: data.features ?? [],
-          tier_color: data.tier_color ?? "",
+          ...(data.tier_color !== undefined ? { tier_color: data.tier_color } : {}),
           isRecommended,
           is_recommended: data.is_recommended,
         };
@@ -398,7 +429,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onDataUpdate }) => {
     }
     setIsLoadingCount(true);
     try {
-      const alaCarteQuery = collection(db, "ala_carte_options");
+      const alaCarteQuery = collection(db, scopedCollection("ala_carte_options"));
       const querySnapshot = await getDocs(alaCarteQuery);
       const docs = querySnapshot.docs;
       const total = querySnapshot.size;
@@ -470,6 +501,13 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onDataUpdate }) => {
     onDataUpdate();
   }, [fetchFeatures, onDataUpdate]);
 
+  const handleCatalogRestored = useCallback(() => {
+    fetchFeatures();
+    fetchPackages();
+    fetchAlaCarteCount();
+    onDataUpdate();
+  }, [fetchFeatures, fetchPackages, fetchAlaCarteCount, onDataUpdate]);
+
   const handleRecommendedChange = useCallback(
     async (packageId: string | "none") => {
       const previousSelection = recommendedSelection;
@@ -947,11 +985,87 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onDataUpdate }) => {
             >
               Product Hub
             </button>
+            <button
+              onClick={() => handleTabChange("pricing")}
+              className={`px-3 sm:px-6 py-2 sm:py-3 font-semibold font-teko text-base sm:text-lg tracking-wider transition-colors whitespace-nowrap ${
+                activeTab === "pricing"
+                  ? "text-blue-400 border-b-2 border-blue-400"
+                  : "text-gray-400 hover:text-gray-300"
+              }`}
+            >
+              Pricing Rules
+            </button>
+            <button
+              onClick={() => handleTabChange("promotions")}
+              className={`px-3 sm:px-6 py-2 sm:py-3 font-semibold font-teko text-base sm:text-lg tracking-wider transition-colors whitespace-nowrap ${
+                activeTab === "promotions"
+                  ? "text-blue-400 border-b-2 border-blue-400"
+                  : "text-gray-400 hover:text-gray-300"
+              }`}
+            >
+              Promotions
+            </button>
+            <button
+              onClick={() => handleTabChange("presentation")}
+              className={`px-3 sm:px-6 py-2 sm:py-3 font-semibold font-teko text-base sm:text-lg tracking-wider transition-colors whitespace-nowrap ${
+                activeTab === "presentation"
+                  ? "text-blue-400 border-b-2 border-blue-400"
+                  : "text-gray-400 hover:text-gray-300"
+              }`}
+            >
+              Presentation
+            </button>
+            <button
+              onClick={() => handleTabChange("schedule")}
+              className={`px-3 sm:px-6 py-2 sm:py-3 font-semibold font-teko text-base sm:text-lg tracking-wider transition-colors whitespace-nowrap ${
+                activeTab === "schedule"
+                  ? "text-blue-400 border-b-2 border-blue-400"
+                  : "text-gray-400 hover:text-gray-300"
+              }`}
+            >
+              Schedule
+            </button>
+            <button
+              onClick={() => handleTabChange("activity")}
+              className={`px-3 sm:px-6 py-2 sm:py-3 font-semibold font-teko text-base sm:text-lg tracking-wider transition-colors whitespace-nowrap ${
+                activeTab === "activity"
+                  ? "text-blue-400 border-b-2 border-blue-400"
+                  : "text-gray-400 hover:text-gray-300"
+              }`}
+            >
+              Activity
+            </button>
+            <button
+              onClick={() => handleTabChange("snapshots")}
+              className={`px-3 sm:px-6 py-2 sm:py-3 font-semibold font-teko text-base sm:text-lg tracking-wider transition-colors whitespace-nowrap ${
+                activeTab === "snapshots"
+                  ? "text-blue-400 border-b-2 border-blue-400"
+                  : "text-gray-400 hover:text-gray-300"
+              }`}
+            >
+              Snapshots
+            </button>
           </div>
         </div>
 
         {/* Tab Content */}
-        {activeTab === "alacarte" ? (
+        {activeTab === "snapshots" ? (
+          <CatalogSnapshotsPanel onRestored={handleCatalogRestored} />
+        ) : activeTab === "promotions" ? (
+          <PromotionsPanel />
+        ) : activeTab === "presentation" ? (
+          <PresentationSlidesPanel />
+        ) : activeTab === "schedule" ? (
+          <ScheduledChangesPanel />
+        ) : activeTab === "activity" ? (
+          <AuditLogPanel />
+        ) : activeTab === "pricing" ? (
+          <>
+            <PricingPolicyPanel />
+            <TaxFeesPanel />
+            <PaymentDefaultsPanel />
+          </>
+        ) : activeTab === "alacarte" ? (
           <AlaCarteAdminPanel
             onDataUpdate={handleAlaCarteDataUpdate}
             onEditItem={handleEditInProductHub}
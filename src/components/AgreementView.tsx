@@ -1,14 +1,43 @@
 import React, { useState } from "react";
-import type { PackageTier, AlaCarteOption } from "../types";
+import type {
+  PackageTier,
+  AlaCarteOption,
+  PriceApproval,
+  Quote,
+  AppliedPromotion,
+  TaxBreakdown,
+  DealSignatures,
+  DeclinedProduct,
+  SignatureCapture,
+  CustomerInfo,
+  DealershipBranding,
+} from "../types";
 import { PrintView } from "./PrintView";
-import { trackQuotePrint } from "../analytics";
-
-interface CustomerInfo {
-  name: string;
-  year: string;
-  make: string;
-  model: string;
-}
+import { DealershipLogo } from "./DealershipLogo";
+import { SignaturePad } from "./SignaturePad";
+import { SendToCustomer } from "./SendToCustomer";
+import { ShareQuoteLink } from "./ShareQuoteLink";
+import { CustomerInfoModal } from "./CustomerInfoModal";
+import {
+  trackCustomerSummarySent,
+  trackQuoteLinkCreated,
+  trackQuotePdfDownload,
+  trackQuotePrint,
+} from "../analytics";
+import { getMessageTransport, sendCustomerSummary } from "../customerMessaging";
+import { buildSharedQuote, createQuoteLink } from "../quoteLinks";
+import type { MessageChannel } from "../customerMessaging";
+import { describePriceApproval } from "../utils/pricingFloor";
+import { feeGrossProfit, formatTaxRate } from "../utils/taxFees";
+import { declinedProductLabel } from "../utils/declinations";
+import {
+  agreementPdfFilename,
+  buildAgreementPdf,
+  loadAgreementPdfImages,
+} from "../utils/agreementPdf";
+import { downloadPdf } from "../utils/pdfWriter";
+import type { TermComparison } from "../utils/payments";
+import { formatVehicle, vehicleDetailRows } from "../utils/vehicle";
 
 interface AgreementViewProps {
   onBack: () => void;
@@ -21,30 +50,29 @@ interface AgreementViewProps {
   baseTotalPrice?: number;
   basePackagePricesById?: Record<string, number>;
   baseAddonPricesById?: Record<string, number>;
+  // Promotions behind the prices above, itemized under their lines
+  promotions?: AppliedPromotion[];
+  // Sales tax and dealer fees; the grand total row is shown when there are any
+  taxBreakdown?: TaxBreakdown | null;
+  termComparison?: TermComparison | null;
+  savedQuote?: Pick<Quote, "id" | "quoteNumber" | "status" | "createdAt" | "voidReason"> | null;
+  // Manager sign-off for overrides below the pricing floor; shown on the manager view
+  priceApproval?: PriceApproval | null;
+  quoteSaveState?: "idle" | "saving" | "saved" | "error";
+  // Products shown on the menu and not bought, each initialed by the customer as declined
+  declinedProducts?: DeclinedProduct[];
+  // Signatures drawn on screen. Without a change handler the paper signature lines are shown.
+  signatures?: DealSignatures;
+  onSignaturesChange?: (signatures: DealSignatures) => void;
+  isIpadLandscape?: boolean;
+  // Lets the rep add the customer's email or mobile number before sending the summary
+  onSaveCustomerInfo?: (info: CustomerInfo) => void;
+  // Reps never see dealer cost: the manager view toggle is hidden for them.
+  canViewCost: boolean;
+  // The selling store, on the agreement, its PDF, the customer summary and shared link
+  branding?: DealershipBranding;
 }
 
-const LexusLogo: React.FC<{ isPrint?: boolean }> = ({ isPrint }) => (
-  <div
-    className={`font-teko tracking-widest ${
-      isPrint ? "text-black" : "text-white"
-    }`}
-  >
-    <p className={`text-3xl font-bold`}>
-      PRIORITY{" "}
-      <span className={isPrint ? "font-light text-gray-700" : "text-gray-400"}>
-        LEXUS
-      </span>
-    </p>
-    <p
-      className={`text-sm tracking-widest ${
-        isPrint ? "text-gray-600" : "text-gray-500"
-      } -mt-2`}
-    >
-      VIRGINIA BEACH
-    </p>
-  </div>
-);
-
 export const AgreementView: React.FC<AgreementViewProps> = ({
   onBack,
   selectedPackage,
@@ -56,21 +84,64 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
   baseTotalPrice,
   basePackagePricesById,
   baseAddonPricesById,
+  promotions = [],
+  taxBreakdown = null,
+  termComparison = null,
+  savedQuote = null,
+  quoteSaveState = "idle",
+  canViewCost,
+  priceApproval = null,
+  declinedProducts = [],
+  signatures = {},
+  onSignaturesChange,
+  isIpadLandscape = false,
+  onSaveCustomerInfo,
+  branding,
 }) => {
-  const [isManagerView, setIsManagerView] = useState(false);
+  const [managerViewRequested, setManagerViewRequested] = useState(false);
+  const [isContactModalOpen, setIsContactModalOpen] = useState(false);
+  const isManagerView = canViewCost && managerViewRequested;
+
+  // Builds the same agreement as PrintView into a PDF file, no print dialog involved.
+  const handleDownloadPdf = async () => {
+    trackQuotePdfDownload(totalPrice);
+    const images = await loadAgreementPdfImages(signatures, branding);
+    const pdf = buildAgreementPdf({
+      selectedPackage,
+      customPackageItems,
+      pick2,
+      totalPrice,
+      totalCost,
+      customerInfo,
+      isManagerView,
+      baseTotalPrice,
+      basePackagePricesById,
+      baseAddonPricesById,
+      promotions,
+      taxBreakdown,
+      termComparison,
+      quoteNumber: savedQuote?.quoteNumber,
+      priceApproval,
+      signatures,
+      declinedProducts,
+      branding,
+      images,
+      // A saved deal carries its own date, so downloading it again gives the same file.
+      date: savedQuote?.createdAt ?? Date.now(),
+    });
+    downloadPdf(pdf, agreementPdfFilename(savedQuote?.quoteNumber, isManagerView));
+  };
 
   const handlePrint = () => {
     // Track print action
     trackQuotePrint(totalPrice);
 
-    // Quick note for users in restrictive environments like the previewer
+    // Kiosk and preview browsers can block the print dialog; hand over a PDF instead.
     try {
       window.print();
     } catch (e) {
-      alert(
-        "Printing is disabled in this preview environment. This feature will work on a live website."
-      );
       console.error("Print failed:", e);
+      void handleDownloadPdf();
     }
   };
 
@@ -79,22 +150,112 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
     : null;
   const pick2Line = pick2 && pick2.items.length > 0 ? pick2 : null;
 
-  const vehicleString = [
-    customerInfo.year,
-    customerInfo.make,
-    customerInfo.model,
-  ]
-    .filter(Boolean)
-    .join(" ");
+  const vehicleString = formatVehicle(customerInfo);
   const todayDate = new Date().toLocaleDateString("en-US", {
     year: "numeric",
     month: "long",
     day: "numeric",
   });
-  const grossProfit = totalPrice - totalCost;
+  const hasTaxOrFees =
+    !!taxBreakdown &&
+    (taxBreakdown.taxes.length > 0 || taxBreakdown.fees.length > 0);
+  const feeCost = taxBreakdown
+    ? taxBreakdown.fees.reduce((sum, fee) => sum + fee.cost, 0)
+    : 0;
+  // Fees are dealer income; sales tax is collected for the state and never profit.
+  const grossProfit =
+    totalPrice - totalCost + (taxBreakdown ? feeGrossProfit(taxBreakdown) : 0);
   const showDiscountTotal =
     typeof baseTotalPrice === "number" && baseTotalPrice > totalPrice;
 
+  // The customer's copy of the menu: retail prices only, whichever view is showing.
+  const handleSendToCustomer = async (channels: MessageChannel[]) => {
+    const sent = await sendCustomerSummary(
+      {
+        customerName: customerInfo.name,
+        vehicle: vehicleString,
+        selectedPackage: selectedPackage
+          ? { name: selectedPackage.name, price: selectedPackage.price }
+          : null,
+        addons: customPackageItems.map((item) => ({
+          name: item.name,
+          price: item.price,
+        })),
+        pick2: pick2Line
+          ? { price: pick2Line.price, items: pick2Line.items }
+          : null,
+        totalPrice,
+        ...(hasTaxOrFees && taxBreakdown
+          ? { grandTotal: taxBreakdown.grandTotal }
+          : {}),
+        ...(savedQuote ? { quoteNumber: savedQuote.quoteNumber } : {}),
+        ...(branding ? { branding } : {}),
+      },
+      { email: customerInfo.email, phone: customerInfo.phone },
+      channels
+    );
+    trackCustomerSummarySent(sent, totalPrice);
+    return sent;
+  };
+
+  // A read-only copy for the customer to forward; cost is never part of it.
+  const handleCreateShareLink = async () => {
+    const link = await createQuoteLink(
+      buildSharedQuote({
+        customerName: customerInfo.name,
+        vehicle: vehicleString,
+        selectedPackage,
+        customPackageItems,
+        pick2: pick2Line,
+        totalPrice,
+        ...(hasTaxOrFees && taxBreakdown
+          ? { grandTotal: taxBreakdown.grandTotal }
+          : {}),
+        ...(savedQuote ? { quoteNumber: savedQuote.quoteNumber } : {}),
+        ...(branding ? { branding } : {}),
+      }),
+      savedQuote?.id
+    );
+    trackQuoteLinkCreated(totalPrice);
+    return link;
+  };
+
+  const handleSignatureChange =
+    (slot: "customer" | "manager") => (capture: SignatureCapture | null) =>
+      onSignaturesChange?.({ ...signatures, [slot]: capture ?? undefined });
+
+  const declinedInitialsFor = (productId: string) =>
+    signatures.declined?.find((initials) => initials.productId === productId) ?? null;
+
+  const handleDeclinedInitialsChange =
+    (productId: string) => (capture: SignatureCapture | null) => {
+      const others = (signatures.declined ?? []).filter(
+        (initials) => initials.productId !== productId
+      );
+      onSignaturesChange?.({
+        ...signatures,
+        declined: capture ? [...others, { ...capture, productId }] : others,
+      });
+    };
+
+  const renderSignatureSlot = (
+    label: string,
+    slot: "customer" | "manager"
+  ) =>
+    onSignaturesChange ? (
+      <SignaturePad
+        label={label}
+        value={signatures[slot] ?? null}
+        onChange={handleSignatureChange(slot)}
+        isIpadLandscape={isIpadLandscape}
+      />
+    ) : (
+      <>
+        <div className="border-b-2 border-gray-700 pt-12"></div>
+        <p className="mt-2 font-bold">{label}</p>
+      </>
+    );
+
   const formatCurrency = (amount: number) =>
     new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -109,6 +270,67 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
     return currentRetail;
   };
 
+  const renderPromotionRows = (itemId: string) =>
+    promotions
+      .filter((promotion) => promotion.itemId === itemId)
+      .map((promotion) => (
+        <tr
+          key={`promo-${itemId}-${promotion.promotionId}`}
+          className="border-b border-gray-900/40"
+          data-testid="promotion-line"
+        >
+          <td className="py-2 pr-2 pl-6 text-xs text-emerald-300">
+            Promotion: {promotion.name}
+          </td>
+          <td className="text-right font-mono pr-2 text-xs text-emerald-300">
+            -{formatCurrency(promotion.amount)}
+          </td>
+          {isManagerView && <td className="text-right font-mono text-xs text-gray-500"></td>}
+        </tr>
+      ));
+
+  const renderTaxRows = () => {
+    if (!taxBreakdown || !hasTaxOrFees) return null;
+    return (
+      <>
+        {taxBreakdown.taxes.length > 0 && (
+          <tr className="text-gray-300">
+            <td className={`text-right pt-2 ${isManagerView ? "col-span-2" : ""}`}>
+              Taxable Subtotal:
+            </td>
+            <td className="text-right pt-2 font-mono">
+              {formatCurrency(taxBreakdown.taxableSubtotal)}
+            </td>
+          </tr>
+        )}
+        {taxBreakdown.taxes.map((tax) => (
+          <tr key={`tax-${tax.label}`} className="text-gray-300" data-testid="tax-line">
+            <td className={`text-right pt-1 ${isManagerView ? "col-span-2" : ""}`}>
+              {tax.label} ({formatTaxRate(tax.rate)}):
+            </td>
+            <td className="text-right pt-1 font-mono">{formatCurrency(tax.amount)}</td>
+          </tr>
+        ))}
+        {taxBreakdown.fees.map((fee) => (
+          <tr key={`fee-${fee.label}`} className="text-gray-300" data-testid="fee-line">
+            <td className={`text-right pt-1 ${isManagerView ? "col-span-2" : ""}`}>
+              {fee.label}:
+            </td>
+            <td className="text-right pt-1 font-mono">{formatCurrency(fee.amount)}</td>
+          </tr>
+        ))}
+        <tr className="font-bold border-t-2 border-gray-700">
+          <td className={`text-right pt-2 ${isManagerView ? "col-span-2" : ""}`}>
+            Grand Total:
+          </td>
+          <td className="text-right pt-2 font-mono text-lg" data-testid="grand-total">
+            {formatCurrency(taxBreakdown.grandTotal)}
+          </td>
+        </tr>
+      </>
+    );
+  };
+
   const renderScreenTable = () => (
     <table className="w-full text-sm">
       <thead>
@@ -128,27 +350,30 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
       </thead>
       <tbody>
         {packageLine ? (
-          <tr key={packageLine.id} className="border-b border-gray-800">
-            <td className="py-3 pr-2">{packageLine.name}</td>
-            <td className="text-right font-mono pr-2">
-              {(() => {
-                const baseRetail = getBaseRetailPrice(packageLine.id, packageLine.price);
-                const isDiscounted = baseRetail > packageLine.price;
-                if (!isDiscounted) return formatCurrency(packageLine.price);
-                return (
-                  <div className="inline-flex flex-col items-end">
-                    <span className="text-xs text-gray-400 line-through decoration-2 decoration-gray-500/60">
-                      {formatCurrency(baseRetail)}
-                    </span>
-                    <span className="text-white">{formatCurrency(packageLine.price)}</span>
-                  </div>
-                );
-              })()}
-            </td>
-            {isManagerView && (
-              <td className="text-right font-mono">{formatCurrency(packageLine.cost)}</td>
-            )}
-          </tr>
+          <React.Fragment key={packageLine.id}>
+            <tr className="border-b border-gray-800">
+              <td className="py-3 pr-2">{packageLine.name}</td>
+              <td className="text-right font-mono pr-2">
+                {(() => {
+                  const baseRetail = getBaseRetailPrice(packageLine.id, packageLine.price);
+                  const isDiscounted = baseRetail > packageLine.price;
+                  if (!isDiscounted) return formatCurrency(packageLine.price);
+                  return (
+                    <div className="inline-flex flex-col items-end">
+                      <span className="text-xs text-gray-400 line-through decoration-2 decoration-gray-500/60">
+                        {formatCurrency(baseRetail)}
+                      </span>
+                      <span className="text-white">{formatCurrency(packageLine.price)}</span>
+                    </div>
+                  );
+                })()}
+              </td>
+              {isManagerView && (
+                <td className="text-right font-mono">{formatCurrency(packageLine.cost)}</td>
+              )}
+            </tr>
+            {renderPromotionRows(packageLine.id)}
+          </React.Fragment>
         ) : null}
 
         {pick2Line ? (
@@ -171,27 +396,30 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
         ) : null}
 
         {customPackageItems.map((item) => (
-          <tr key={item.id} className="border-b border-gray-800">
-            <td className="py-3 pr-2">{item.name}</td>
-            <td className="text-right font-mono pr-2">
-              {(() => {
-                const baseRetail = getBaseRetailPrice(item.id, item.price);
-                const isDiscounted = baseRetail > item.price;
-                if (!isDiscounted) return formatCurrency(item.price);
-                return (
-                  <div className="inline-flex flex-col items-end">
-                    <span className="text-xs text-gray-400 line-through decoration-2 decoration-gray-500/60">
-                      {formatCurrency(baseRetail)}
-                    </span>
-                    <span className="text-white">{formatCurrency(item.price)}</span>
-                  </div>
-                );
-              })()}
-            </td>
-            {isManagerView && (
-              <td className="text-right font-mono">{formatCurrency(item.cost)}</td>
-            )}
-          </tr>
+          <React.Fragment key={item.id}>
+            <tr className="border-b border-gray-800">
+              <td className="py-3 pr-2">{item.name}</td>
+              <td className="text-right font-mono pr-2">
+                {(() => {
+                  const baseRetail = getBaseRetailPrice(item.id, item.price);
+                  const isDiscounted = baseRetail > item.price;
+                  if (!isDiscounted) return formatCurrency(item.price);
+                  return (
+                    <div className="inline-flex flex-col items-end">
+                      <span className="text-xs text-gray-400 line-through decoration-2 decoration-gray-500/60">
+                        {formatCurrency(baseRetail)}
+                      </span>
+                      <span className="text-white">{formatCurrency(item.price)}</span>
+                    </div>
+                  );
+                })()}
+              </td>
+              {isManagerView && (
+                <td className="text-right font-mono">{formatCurrency(item.cost)}</td>
+              )}
+            </tr>
+            {renderPromotionRows(item.id)}
+          </React.Fragment>
         ))}
       </tbody>
       <tfoot>
@@ -214,6 +442,7 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
             )}
           </td>
         </tr>
+        {renderTaxRows()}
         {isManagerView && (
           <>
             <tr className="font-bold">
@@ -221,7 +450,7 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
                 Total Internal Cost:
               </td>
               <td className="text-right pt-2 font-mono text-lg">
-                {formatCurrency(totalCost)}
+                {formatCurrency(totalCost + feeCost)}
               </td>
             </tr>
             <tr className="font-bold border-t-2 border-gray-700">
@@ -260,21 +489,56 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
             Back to Menu
           </button>
           <div className="flex items-center gap-4">
-            <div className="flex items-center gap-2">
-              <span className="text-xs font-bold text-gray-400">
-                MANAGER VIEW
+            {quoteSaveState !== "idle" && (
+              <span
+                className={`text-xs font-semibold ${
+                  quoteSaveState === "error" ? "text-red-300" : "text-gray-400"
+                }`}
+                role="status"
+              >
+                {quoteSaveState === "saving"
+                  ? "Saving deal..."
+                  : quoteSaveState === "error"
+                    ? "Deal not saved"
+                    : savedQuote
+                      ? `Quote ${savedQuote.quoteNumber}`
+                      : "Deal saved"}
               </span>
-              <label className="relative inline-flex items-center cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={isManagerView}
-                  onChange={() => setIsManagerView(!isManagerView)}
-                  className="sr-only peer"
-                  aria-label="Manager view"
-                />
-                <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-focus:ring-4 peer-focus:ring-blue-800 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
-              </label>
-            </div>
+            )}
+            {canViewCost && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-bold text-gray-400">
+                  MANAGER VIEW
+                </span>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isManagerView}
+                    onChange={() => setManagerViewRequested(!managerViewRequested)}
+                    className="sr-only peer"
+                    aria-label="Manager view"
+                  />
+                  <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-focus:ring-4 peer-focus:ring-blue-800 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+            )}
+            <ShareQuoteLink onCreateLink={handleCreateShareLink} />
+            <SendToCustomer
+              contact={{ email: customerInfo.email, phone: customerInfo.phone }}
+              delivery={getMessageTransport().delivery}
+              onSend={handleSendToCustomer}
+              onEditContact={
+                onSaveCustomerInfo
+                  ? () => setIsContactModalOpen(true)
+                  : undefined
+              }
+            />
+            <button
+              onClick={handleDownloadPdf}
+              className="border border-gray-600 text-gray-200 px-4 py-2 rounded-md font-bold text-sm hover:text-white hover:border-gray-400 transition-colors"
+            >
+              Download PDF
+            </button>
             <button
               onClick={handlePrint}
               className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors flex items-center gap-2"
@@ -298,10 +562,17 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
           </div>
         </header>
 
+        {savedQuote?.status === "void" && (
+          <div className="mx-8 mt-6 bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-red-200">
+            <p className="font-bold uppercase tracking-wider">This deal has been voided</p>
+            {savedQuote.voidReason && <p className="text-sm mt-1">{savedQuote.voidReason}</p>}
+          </div>
+        )}
+
         {/* Main Content Area */}
         <div className="p-8">
           <header className="flex justify-between items-start mb-8">
-            <LexusLogo />
+            <DealershipLogo branding={branding} showAddress />
             <div className="text-right">
               <h1 className="text-3xl font-bold font-teko tracking-wider uppercase">
                 {isManagerView
@@ -325,10 +596,65 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
             <div>
               <strong>Date:</strong> {todayDate}
             </div>
+            <div
+              className="col-span-3 flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-300"
+              data-testid="vehicle-details"
+            >
+              {vehicleDetailRows(customerInfo).map((row) => (
+                <span key={row.label}>
+                  <strong>{row.label}:</strong>{" "}
+                  <span className={row.label === "VIN" ? "font-mono" : undefined}>
+                    {row.value}
+                  </span>
+                </span>
+              ))}
+            </div>
           </section>
 
           {renderScreenTable()}
 
+          {isManagerView && priceApproval && (
+            <p className="mt-6 text-sm text-amber-200" data-testid="price-approval">
+              {describePriceApproval(priceApproval)}
+            </p>
+          )}
+
+          {declinedProducts.length > 0 && (
+            <section className="mt-12 text-sm text-gray-400" data-testid="declined-products">
+              <h2 className="font-bold uppercase tracking-wider text-gray-300 border-b-2 border-gray-700 pb-2">
+                Declined Coverage
+              </h2>
+              <p className="mt-2">
+                I was offered the following products and chose not to purchase them.
+              </p>
+              {declinedProducts.map((product) => (
+                <div
+                  key={`${product.kind}-${product.id}`}
+                  className="flex flex-wrap items-end justify-between gap-4 border-b border-gray-800 py-4"
+                  data-testid="declined-product"
+                >
+                  <p>
+                    <span className="text-gray-200">{declinedProductLabel(product)}</span>{" "}
+                    <span className="font-mono">{formatCurrency(product.price)}</span>
+                  </p>
+                  {isManagerView || !onSignaturesChange ? (
+                    <span className="text-xs uppercase tracking-wider">
+                      {declinedInitialsFor(product.id) ? "Initialed" : "Not initialed"}
+                    </span>
+                  ) : (
+                    <SignaturePad
+                      label={`${declinedProductLabel(product)} initials`}
+                      variant="initials"
+                      value={declinedInitialsFor(product.id)}
+                      onChange={handleDeclinedInitialsChange(product.id)}
+                      isIpadLandscape={isIpadLandscape}
+                    />
+                  )}
+                </div>
+              ))}
+            </section>
+          )}
+
           <footer className="mt-24 pt-8 text-sm text-gray-400">
             {!isManagerView && (
               <p className="mb-8">
@@ -340,16 +666,19 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
             )}
             <div className="grid grid-cols-2 gap-12">
               <div>
-                <div className="border-b-2 border-gray-700 pt-12"></div>
-                <p className="mt-2 font-bold">
-                  {isManagerView ? "Manager Signature" : "Customer Signature"}
-                </p>
+                {isManagerView
+                  ? renderSignatureSlot("Manager Signature", "manager")
+                  : renderSignatureSlot("Customer Signature", "customer")}
               </div>
               <div>
-                <div className="border-b-2 border-gray-700 pt-12"></div>
-                <p className="mt-2 font-bold">
-                  {isManagerView ? "Date Processed" : "Manager Signature"}
-                </p>
+                {isManagerView ? (
+                  <>
+                    <div className="border-b-2 border-gray-700 pt-12"></div>
+                    <p className="mt-2 font-bold">Date Processed</p>
+                  </>
+                ) : (
+                  renderSignatureSlot("Manager Signature", "manager")
+                )}
               </div>
             </div>
           </footer>
@@ -369,8 +698,24 @@ export const AgreementView: React.FC<AgreementViewProps> = ({
           baseTotalPrice={baseTotalPrice}
           basePackagePricesById={basePackagePricesById}
           baseAddonPricesById={baseAddonPricesById}
+          promotions={promotions}
+          taxBreakdown={taxBreakdown}
+          termComparison={termComparison}
+          quoteNumber={savedQuote?.quoteNumber}
+          priceApproval={priceApproval}
+          signatures={signatures}
+          declinedProducts={declinedProducts}
+          branding={branding}
         />
       </div>
+      {onSaveCustomerInfo && (
+        <CustomerInfoModal
+          isOpen={isContactModalOpen}
+          onClose={() => setIsContactModalOpen(false)}
+          onSave={onSaveCustomerInfo}
+          currentInfo={customerInfo}
+        />
+      )}
     </>
   );
 };
@@ -22,6 +22,7 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { db } from "../firebase";
+import { scopedCollection } from "../dealerships";
 import type { AlaCarteOption, FeatureConnector } from "../types";
 import { batchUpdateAlaCartePositions, updateAlaCarteOption } from "../data";
 import { sortOrderableItems } from "../utils/featureOrdering";
@@ -266,7 +267,7 @@ export const AlaCarteAdminPanel: React.FC<AlaCarteAdminPanelProps> = ({
     setIsLoading(true);
     setError(null);
     try {
-      const optionsQuery = query(collection(db, "ala_carte_options"), orderBy("name"));
+      const optionsQuery = query(collection(db, scopedCollection("ala_carte_options")), orderBy("name"));
       const querySnapshot = await getDocs(optionsQuery);
       const optionsData = querySnapshot.docs.map(
         (doc) => ({ id: doc.id, ...doc.data() }) as AlaCarteOption
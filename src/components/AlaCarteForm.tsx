@@ -2,6 +2,12 @@ import React, { useState, useEffect } from "react";
 import { addAlaCarteOption, updateAlaCarteOption } from "../data";
 import { MIN_COLUMN, MAX_COLUMN } from "../constants";
 import type { AlaCarteOption, FeatureConnector } from "../types";
+import { EligibilityFields } from "./EligibilityFields";
+import {
+  EMPTY_ELIGIBILITY_INPUTS,
+  eligibilityInputsFromRule,
+  parseEligibilityInputs,
+} from "../utils/eligibility";
 
 interface AlaCarteFormProps {
   onSaveSuccess: () => void;
@@ -31,6 +37,7 @@ export const AlaCarteForm: React.FC<AlaCarteFormProps> = ({
   onCancelEdit,
 }) => {
   const [formData, setFormData] = useState(initialFormState);
+  const [eligibilityInputs, setEligibilityInputs] = useState(EMPTY_ELIGIBILITY_INPUTS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -55,8 +62,10 @@ export const AlaCarteForm: React.FC<AlaCarteFormProps> = ({
         connector: editingOption.connector || "AND",
         isNew: editingOption.isNew || false,
       });
+      setEligibilityInputs(eligibilityInputsFromRule(editingOption.eligibility));
     } else {
       setFormData(initialFormState);
+      setEligibilityInputs(EMPTY_ELIGIBILITY_INPUTS);
     }
   }, [editingOption]);
 
@@ -97,6 +106,8 @@ export const AlaCarteForm: React.FC<AlaCarteFormProps> = ({
         throw new Error("Cost must be a valid non-negative number.");
       }
 
+      const eligibility = parseEligibilityInputs(eligibilityInputs);
+
       // Build the option data object with proper typing
       const optionData: Omit<AlaCarteOption, "id"> = {
         name: formData.name,
@@ -113,6 +124,8 @@ export const AlaCarteForm: React.FC<AlaCarteFormProps> = ({
         ...(formData.thumbnailUrl && { thumbnailUrl: formData.thumbnailUrl.trim() }),
         ...(formData.videoUrl && { videoUrl: formData.videoUrl.trim() }),
         ...(formData.isNew && { isNew: formData.isNew }),
+        // Left undefined on edit so a cleared rule is deleted
+        ...((eligibility || isEditMode) && { eligibility }),
       };
 
       // Add column if valid
@@ -133,6 +146,7 @@ export const AlaCarteForm: React.FC<AlaCarteFormProps> = ({
 
       // Reset form and notify parent
       setFormData(initialFormState);
+      setEligibilityInputs(EMPTY_ELIGIBILITY_INPUTS);
       onSaveSuccess();
     } catch (error) {
       console.error("Error saving A La Carte option:", error);
@@ -144,6 +158,7 @@ export const AlaCarteForm: React.FC<AlaCarteFormProps> = ({
 
   const handleCancel = () => {
     setFormData(initialFormState);
+    setEligibilityInputs(EMPTY_ELIGIBILITY_INPUTS);
     setError(null);
     if (onCancelEdit) onCancelEdit();
   };
@@ -319,6 +334,11 @@ export const AlaCarteForm: React.FC<AlaCarteFormProps> = ({
           </label>
         </div>
 
+        <div className="pt-4 border-t border-gray-700 space-y-3">
+          <h3 className="text-sm font-semibold text-gray-300">Vehicle Eligibility (optional)</h3>
+          <EligibilityFields value={eligibilityInputs} onChange={setEligibilityInputs} />
+        </div>
+
         <div>
           <label htmlFor="imageUrl" className="block text-sm font-semibold text-gray-300 mb-1">
             Image URL
@@ -4,6 +4,7 @@ import type { AlaCarteOption } from "../types";
 interface AlaCarteItemProps {
   item: AlaCarteOption;
   basePrice?: number;
+  promoBadge?: string; // Name of a live promotion on this option
   onViewItem: () => void;
   onDragStart: (e: React.DragEvent) => void;
   disableDrag?: boolean;
@@ -15,6 +16,7 @@ interface AlaCarteItemProps {
 export const AlaCarteItem: React.FC<AlaCarteItemProps> = ({
   item,
   basePrice,
+  promoBadge,
   onViewItem,
   onDragStart,
   disableDrag = false,
@@ -65,6 +67,11 @@ export const AlaCarteItem: React.FC<AlaCarteItemProps> = ({
                 {item.name}
               </span>
               {item.isNew && <span className="lux-chip-gold">New</span>}
+              {promoBadge && (
+                <span className="lux-chip-promo" data-testid="promo-badge">
+                  {promoBadge}
+                </span>
+              )}
             </div>
             {item.warranty && (
               <div className="text-sm font-bold text-lux-gold mt-0.5">{item.warranty}</div>
@@ -125,6 +132,11 @@ export const AlaCarteItem: React.FC<AlaCarteItemProps> = ({
               {item.name}
             </span>
             {item.isNew && <span className="lux-chip-gold">New</span>}
+            {promoBadge && (
+              <span className="lux-chip-promo" data-testid="promo-badge">
+                {promoBadge}
+              </span>
+            )}
           </div>
           {item.warranty && (
             <div className="text-sm font-bold text-lux-gold mt-0.5">{item.warranty}</div>
@@ -190,6 +202,11 @@ export const AlaCarteItem: React.FC<AlaCarteItemProps> = ({
         />
       )}
       {item.isNew && <div className="absolute top-0 right-0 -mt-3 -mr-3 lux-chip-gold">New</div>}
+      {promoBadge && (
+        <div className="absolute top-0 left-0 -mt-3 -ml-3 lux-chip-promo" data-testid="promo-badge">
+          {promoBadge}
+        </div>
+      )}
 
       <div className="flex-grow relative z-10">
         <button
@@ -95,4 +95,43 @@ describe("AlaCarteSelector", () => {
     expect(screen.getByText("Tap Add")).toBeInTheDocument();
     expect(screen.getByRole("button", { name: /REMOVE/i })).toBeEnabled();
   });
+
+  it("hides options the vehicle isn't eligible for unless already selected", () => {
+    const items: AlaCarteOption[] = [
+      createOption({ id: "1", name: "Tint", isPublished: true }),
+      createOption({
+        id: "2",
+        name: "Wheel & Tire",
+        isPublished: true,
+        eligibility: { models: ["LX"] },
+      }),
+      createOption({
+        id: "3",
+        name: "Used Vehicle Warranty",
+        isPublished: true,
+        eligibility: { conditions: ["used"] },
+      }),
+    ];
+    const vehicle = { year: "2025", model: "RX 350", condition: "new" as const };
+
+    const { rerender } = render(
+      <AlaCarteSelector items={items} onViewItem={mockOnViewItem} vehicle={vehicle} />
+    );
+
+    expect(screen.getByText("Tint")).toBeInTheDocument();
+    expect(screen.queryByLabelText("Learn more about Wheel & Tire")).not.toBeInTheDocument();
+    expect(screen.getByTestId("unavailable-items")).toHaveTextContent(
+      "Wheel & Tire (Not offered on the RX 350), Used Vehicle Warranty (Used vehicles only)"
+    );
+
+    rerender(
+      <AlaCarteSelector
+        items={items}
+        onViewItem={mockOnViewItem}
+        vehicle={vehicle}
+        selectedIds={["2"]}
+      />
+    );
+    expect(screen.getByLabelText("Learn more about Wheel & Tire")).toBeInTheDocument();
+  });
 });
@@ -1,7 +1,9 @@
 import React from "react";
 import type { AlaCarteOption, ProductFeature } from "../types";
 import { AlaCarteItem } from "./AlaCarteItem";
+import { UnavailableItemsNote } from "./UnavailableItemsNote";
 import { isCuratedOption } from "../utils/alaCarte";
+import { ineligibleReasonsById, type EligibilityVehicle } from "../utils/eligibility";
 
 interface AlaCarteSelectorProps {
   items: AlaCarteOption[];
@@ -11,6 +13,9 @@ interface AlaCarteSelectorProps {
   selectedIds?: string[];
   isCompact?: boolean;
   basePricesById?: Record<string, number>;
+  promoBadgesById?: Record<string, string>;
+  // Options that can't be sold on this vehicle are hidden unless already selected
+  vehicle?: EligibilityVehicle;
 }
 
 export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
@@ -21,9 +26,16 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
   selectedIds = [],
   isCompact = false,
   basePricesById,
+  promoBadgesById,
+  vehicle,
 }) => {
   const [compactPage, setCompactPage] = React.useState(1);
-  const curatedItems = items.filter(isCuratedOption);
+  const selectedSet = new Set(selectedIds);
+  const unavailableReasons = ineligibleReasonsById(items, vehicle);
+  const isHidden = (item: AlaCarteOption) =>
+    Boolean(unavailableReasons[item.id]) && !selectedSet.has(item.id);
+  const unavailableItems = items.filter((item) => isCuratedOption(item) && isHidden(item));
+  const curatedItems = items.filter((item) => isCuratedOption(item) && !isHidden(item));
 
   const featuredItems = curatedItems
     .filter((item) => item.column === 4)
@@ -43,8 +55,6 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
       return a.name.localeCompare(b.name);
     });
 
-  const selectedSet = new Set(selectedIds);
-
   const handleDragStart = (e: React.DragEvent, item: AlaCarteOption) => {
     if (disableDrag) return;
     e.dataTransfer.setData("application/json", JSON.stringify(item));
@@ -69,9 +79,14 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
           />
         </svg>
         <h4 className="text-xl font-bold font-teko text-lux-textStrong tracking-wider">
-          No add-ons configured
+          {unavailableItems.length > 0 ? "No add-ons for this vehicle" : "No add-ons configured"}
         </h4>
         <p className="lux-subtitle mt-1">Please check back for curated options.</p>
+        <UnavailableItemsNote
+          items={unavailableItems}
+          reasonsById={unavailableReasons}
+          className="mt-3"
+        />
       </div>
     );
   }
@@ -129,6 +144,7 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
               key={item.id}
               item={item}
               basePrice={basePricesById?.[item.id]}
+              promoBadge={promoBadgesById?.[item.id]}
               onViewItem={() => onViewItem(item)}
               onDragStart={(e) => handleDragStart(e, item)}
               disableDrag={disableDrag}
@@ -138,6 +154,11 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
             />
           ))}
         </div>
+        <UnavailableItemsNote
+          items={unavailableItems}
+          reasonsById={unavailableReasons}
+          className="mt-3 shrink-0"
+        />
       </div>
     );
   }
@@ -158,6 +179,7 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
                 key={item.id}
                 item={item}
                 basePrice={basePricesById?.[item.id]}
+                promoBadge={promoBadgesById?.[item.id]}
                 onViewItem={() => onViewItem(item)}
                 onDragStart={(e) => handleDragStart(e, item)}
                 disableDrag={disableDrag}
@@ -178,6 +200,7 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
                 key={item.id}
                 item={item}
                 basePrice={basePricesById?.[item.id]}
+                promoBadge={promoBadgesById?.[item.id]}
                 onViewItem={() => onViewItem(item)}
                 onDragStart={(e) => handleDragStart(e, item)}
                 disableDrag={disableDrag}
@@ -188,6 +211,8 @@ export const AlaCarteSelector: React.FC<AlaCarteSelectorProps> = ({
           </div>
         </div>
       )}
+
+      <UnavailableItemsNote items={unavailableItems} reasonsById={unavailableReasons} />
     </div>
   );
 };
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { AuditLogPanel } from "./AuditLogPanel";
+import { fetchAuditLog } from "../auditLog";
+import type { AuditLogEntry } from "../types";
+
+vi.mock("../auditLog", () => ({
+  fetchAuditLog: vi.fn(),
+}));
+
+const createEntry = (overrides: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+  id: "entry-1",
+  collection: "features",
+  docId: "ceramic",
+  docName: "Ceramic Coating",
+  action: "update",
+  changes: { price: { before: 900, after: 1100 } },
+  user: { uid: "admin-1", email: "admin@example.com" },
+  timestamp: 1767225600000,
+  ...overrides,
+});
+
+describe("AuditLogPanel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchAuditLog).mockResolvedValue([
+      createEntry(),
+      createEntry({
+        id: "entry-2",
+        collection: "ala_carte_options",
+        docId: "tint",
+        docName: "Window Tint",
+        action: "create",
+        changes: { name: { before: null, after: "Window Tint" } },
+        user: { uid: "admin-2", email: "other@example.com" },
+      }),
+    ]);
+  });
+
+  it("shows each change with before and after values", async () => {
+    render(<AuditLogPanel />);
+
+    const entries = await screen.findAllByTestId("audit-entry");
+    expect(entries).toHaveLength(2);
+    const first = within(entries[0]!);
+    expect(first.getByText(/Updated Ceramic Coating/)).toBeInTheDocument();
+    expect(first.getByText("price")).toBeInTheDocument();
+    expect(first.getByText("900")).toBeInTheDocument();
+    expect(first.getByText("1100")).toBeInTheDocument();
+    expect(first.getByText(/admin@example.com/)).toBeInTheDocument();
+  });
+
+  it("filters by collection, user and search", async () => {
+    const user = userEvent.setup();
+    render(<AuditLogPanel />);
+    await screen.findAllByTestId("audit-entry");
+
+    await user.selectOptions(screen.getByLabelText("Collection"), "ala_carte_options");
+    expect(screen.getAllByTestId("audit-entry")).toHaveLength(1);
+    expect(screen.getByText(/Created Window Tint/)).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText("Collection"), "all");
+    await user.selectOptions(screen.getByLabelText("User"), "admin@example.com");
+    expect(screen.getAllByTestId("audit-entry")).toHaveLength(1);
+
+    await user.selectOptions(screen.getByLabelText("User"), "all");
+    await user.type(screen.getByLabelText("Search"), "price");
+    expect(screen.getAllByTestId("audit-entry")).toHaveLength(1);
+    expect(screen.getByText(/Updated Ceramic Coating/)).toBeInTheDocument();
+  });
+
+  it("shows the load error", async () => {
+    vi.mocked(fetchAuditLog).mockRejectedValue(new Error("Failed to load the audit log."));
+    render(<AuditLogPanel />);
+
+    expect(await screen.findByText("Failed to load the audit log.")).toBeInTheDocument();
+  });
+});
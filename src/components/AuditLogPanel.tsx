@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { AuditLogEntry } from "../types";
+import { fetchAuditLog } from "../auditLog";
+
+const COLLECTION_LABELS: Record<string, string> = {
+  features: "Package Features",
+  ala_carte_options: "A La Carte Options",
+  packages: "Packages",
+  app_config: "App Config",
+  packages_versions: "Package Schedule",
+  features_versions: "Package Feature Schedule",
+  ala_carte_options_versions: "A La Carte Schedule",
+  pick2_versions: "Pick 2 Schedule",
+  promotions: "Promotions",
+};
+
+const ACTION_LABELS: Record<AuditLogEntry["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const collectionLabel = (name: string) => COLLECTION_LABELS[name] ?? name;
+
+const userLabel = (user: AuditLogEntry["user"]) => user.email ?? user.uid;
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value || '""';
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+};
+
+/**
+ * Admin "Activity" tab: browses the append-only audit_log of catalog writes.
+ */
+export const AuditLogPanel: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [collectionFilter, setCollectionFilter] = useState("all");
+  const [userFilter, setUserFilter] = useState("all");
+  const [search, setSearch] = useState("");
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await fetchAuditLog());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the audit log.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries]);
+
+  const collections = useMemo(
+    () => [...new Set(entries.map((entry) => entry.collection))].sort(),
+    [entries]
+  );
+  const users = useMemo(
+    () => [...new Set(entries.map((entry) => userLabel(entry.user)))].sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (collectionFilter !== "all" && entry.collection !== collectionFilter) return false;
+      if (userFilter !== "all" && userLabel(entry.user) !== userFilter) return false;
+      if (!term) return true;
+      return [entry.docId, entry.docName ?? "", ...Object.keys(entry.changes)].some((value) =>
+        value.toLowerCase().includes(term)
+      );
+    });
+  }, [entries, collectionFilter, userFilter, search]);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-4">
+        <div>
+          <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">Activity</h3>
+          <p className="text-sm text-gray-400">
+            Every catalog change, who made it and what it changed. Showing the latest{" "}
+            {entries.length} entries.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void loadEntries()}
+          className="btn-lux-ghost text-sm px-3"
+          disabled={isLoading}
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <div>
+          <label htmlFor="audit-collection" className="block text-sm text-gray-300 mb-1">
+            Collection
+          </label>
+          <select
+            id="audit-collection"
+            value={collectionFilter}
+            onChange={(e) => setCollectionFilter(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          >
+            <option value="all">All collections</option>
+            {collections.map((name) => (
+              <option key={name} value={name}>
+                {collectionLabel(name)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-user" className="block text-sm text-gray-300 mb-1">
+            User
+          </label>
+          <select
+            id="audit-user"
+            value={userFilter}
+            onChange={(e) => setUserFilter(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          >
+            <option value="all">All users</option>
+            {users.map((user) => (
+              <option key={user} value={user}>
+                {user}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor="audit-search" className="block text-sm text-gray-300 mb-1">
+            Search
+          </label>
+          <input
+            id="audit-search"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Item name, ID or field (e.g. price)"
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4 text-red-200 font-semibold">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-400">Loading activity...</p>
+      ) : filteredEntries.length === 0 ? (
+        <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 text-gray-300">
+          {entries.length === 0 ? "No catalog changes recorded yet." : "No matching activity."}
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {filteredEntries.map((entry) => (
+            <li
+              key={entry.id}
+              className="bg-gray-900/40 border border-gray-700 rounded-lg p-4"
+              data-testid="audit-entry"
+            >
+              <div className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                <p className="text-white font-semibold">
+                  {ACTION_LABELS[entry.action]} {entry.docName ?? entry.docId}
+                  <span className="ml-2 text-xs font-normal text-gray-400">
+                    {collectionLabel(entry.collection)} / {entry.docId}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {userLabel(entry.user)} on {formatTimestamp(entry.timestamp)}
+                </p>
+              </div>
+              <table className="w-full text-sm mt-2">
+                <thead>
+                  <tr className="text-gray-400 text-xs uppercase tracking-wider">
+                    <th className="text-left font-semibold pb-1">Field</th>
+                    <th className="text-left font-semibold pb-1">Before</th>
+                    <th className="text-left font-semibold pb-1">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <tr key={field} className="border-t border-gray-800 align-top">
+                      <td className="py-1 pr-3 text-gray-300 font-mono">{field}</td>
+                      <td className="py-1 pr-3 text-gray-500 break-all">
+                        {formatValue(change.before)}
+                      </td>
+                      <td className="py-1 text-white break-all">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useState } from "react";
+import type { CatalogSnapshot } from "../types";
+import type { CatalogDocChange } from "../utils/catalogDiff";
+import {
+  compareSnapshotWithLive,
+  createCatalogSnapshot,
+  fetchCatalogSnapshots,
+  restoreCatalogSnapshot,
+} from "../catalogSnapshots";
+
+interface CatalogSnapshotsPanelProps {
+  // Called after a restore so the admin screens and the menu reload the catalog
+  onRestored: () => void;
+}
+
+const COLLECTION_LABELS: Record<CatalogDocChange["collection"], string> = {
+  packages: "Package",
+  features: "Feature",
+  ala_carte_options: "A La Carte",
+  app_config: "Config",
+};
+
+const RESTORE_ACTION_LABELS: Record<CatalogDocChange["action"], string> = {
+  create: "Recreate",
+  update: "Revert",
+  delete: "Remove",
+};
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const describeContents = (snapshot: CatalogSnapshot) => {
+  const { packages, features, ala_carte_options: alaCarte } = snapshot.contents;
+  return `${Object.keys(packages).length} packages, ${Object.keys(features).length} features, ${
+    Object.keys(alaCarte).length
+  } A La Carte options`;
+};
+
+/**
+ * Admin "Snapshots" tab: saves named copies of the catalog, compares them with the
+ * live catalog and restores them.
+ */
+export const CatalogSnapshotsPanel: React.FC<CatalogSnapshotsPanelProps> = ({ onRestored }) => {
+  const [snapshots, setSnapshots] = useState<CatalogSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [comparison, setComparison] = useState<{
+    snapshotId: string;
+    changes: CatalogDocChange[];
+  } | null>(null);
+  const [busySnapshotId, setBusySnapshotId] = useState<string | null>(null);
+  const [confirmRestoreId, setConfirmRestoreId] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSnapshots(await fetchCatalogSnapshots());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load snapshots.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSnapshots();
+  }, [loadSnapshots]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await createCatalogSnapshot(name);
+      setName("");
+      setMessage("Snapshot saved.");
+      await loadSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the snapshot.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCompare = async (snapshot: CatalogSnapshot) => {
+    setBusySnapshotId(snapshot.id);
+    setError(null);
+    setMessage(null);
+    try {
+      setComparison({ snapshotId: snapshot.id, changes: await compareSnapshotWithLive(snapshot) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare the snapshot.");
+    } finally {
+      setBusySnapshotId(null);
+    }
+  };
+
+  const handleRestore = async (snapshot: CatalogSnapshot) => {
+    setConfirmRestoreId(null);
+    setBusySnapshotId(snapshot.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await restoreCatalogSnapshot(snapshot);
+      setComparison(null);
+      if (result.restored === 0) {
+        setMessage(`The live catalog already matches "${snapshot.name}".`);
+        return;
+      }
+      setMessage(
+        `Restored "${snapshot.name}" (${result.restored} documents). The previous catalog was saved as a snapshot.`
+      );
+      onRestored();
+      await loadSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore the snapshot.");
+    } finally {
+      setBusySnapshotId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">Catalog Snapshots</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Save the packages, features, A La Carte options and Pick 2 settings before a big change,
+        then restore them if something goes wrong.
+      </p>
+
+      <form onSubmit={(e) => void handleSave(e)} className="flex items-end gap-3 mb-6">
+        <div className="flex-1 max-w-md">
+          <label htmlFor="snapshot-name" className="block text-sm font-medium text-gray-300 mb-1">
+            Snapshot name
+          </label>
+          <input
+            id="snapshot-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Before spring price update"
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          disabled={isSaving || !name.trim()}
+        >
+          {isSaving ? "Saving..." : "Save snapshot"}
+        </button>
+      </form>
+
+      {error && (
+        <div
+          className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4 text-red-200 font-semibold"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+      {message && <p className="text-sm text-emerald-300 mb-4">{message}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-400">Loading snapshots...</p>
+      ) : snapshots.length === 0 ? (
+        <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 text-gray-300">
+          No snapshots saved yet.
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {snapshots.map((snapshot) => {
+            const isBusy = busySnapshotId === snapshot.id;
+            const changes = comparison?.snapshotId === snapshot.id ? comparison.changes : null;
+            return (
+              <li
+                key={snapshot.id}
+                className="bg-gray-900/40 border border-gray-700 rounded-lg p-4"
+                data-testid="catalog-snapshot"
+              >
+                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+                  <div>
+                    <p className="text-white font-semibold">{snapshot.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {snapshot.createdBy.email ?? snapshot.createdBy.uid} on{" "}
+                      {formatTimestamp(snapshot.createdAt)} · {describeContents(snapshot)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => void handleCompare(snapshot)}
+                      className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+                      disabled={isBusy}
+                    >
+                      Compare with live
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmRestoreId(snapshot.id)}
+                      className="btn-lux-secondary text-sm px-3 min-h-[40px]"
+                      disabled={isBusy}
+                    >
+                      {isBusy ? "Working..." : "Restore"}
+                    </button>
+                  </div>
+                </div>
+
+                {confirmRestoreId === snapshot.id && (
+                  <div className="mt-3 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <p className="text-sm text-amber-100">
+                      Replace the live catalog with &ldquo;{snapshot.name}&rdquo;? The current
+                      catalog is saved as a snapshot first.
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setConfirmRestoreId(null)}
+                        className="btn-lux-ghost px-3 min-h-[40px]"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleRestore(snapshot)}
+                        className="bg-amber-500 text-black px-3 min-h-[40px] rounded-md font-bold"
+                      >
+                        Restore now
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {changes &&
+                  (changes.length === 0 ? (
+                    <p className="mt-3 text-sm text-gray-300">Matches the live catalog.</p>
+                  ) : (
+                    <ul className="mt-3 space-y-1 text-sm" data-testid="snapshot-diff">
+                      {changes.map((change) => (
+                        <li key={`${change.collection}/${change.docId}`} className="text-gray-300">
+                          <span className="font-semibold text-white">
+                            {RESTORE_ACTION_LABELS[change.action]}
+                          </span>{" "}
+                          {COLLECTION_LABELS[change.collection]}: {change.name ?? change.docId}
+                          {change.action === "update" && (
+                            <span className="text-gray-500">
+                              {" "}
+                              ({Object.keys(change.changes).join(", ")})
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  ))}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { CustomerInfoModal } from "./CustomerInfoModal";
+
+const emptyInfo = { name: "Jane Doe", year: "", make: "", model: "" };
+
+describe("CustomerInfoModal VIN decoding", () => {
+  it("fills in the vehicle once the VIN is complete", async () => {
+    const user = userEvent.setup();
+    render(<CustomerInfoModal isOpen onClose={vi.fn()} onSave={vi.fn()} currentInfo={emptyInfo} />);
+
+    await user.type(screen.getByLabelText("VIN"), "jthbzmca3k2000123");
+
+    expect(screen.getByLabelText("VIN")).toHaveValue("JTHBZMCA3K2000123");
+    expect(screen.getByLabelText("Year")).toHaveValue("2019");
+    expect(screen.getByLabelText("Make")).toHaveValue("Lexus");
+    expect(screen.getByLabelText("Model")).toHaveValue("RX 350");
+    expect(screen.getByLabelText("Trim")).toHaveValue("AWD");
+    expect(screen.getByRole("status")).toHaveTextContent("Filled from VIN: 2019 Lexus RX 350 AWD");
+  });
+
+  it("lists a VIN typo with the other validation errors", async () => {
+    const user = userEvent.setup();
+    render(<CustomerInfoModal isOpen onClose={vi.fn()} onSave={vi.fn()} currentInfo={emptyInfo} />);
+
+    await user.type(screen.getByLabelText("VIN"), "JTHBZMCA3K2000124");
+
+    expect(screen.getByText("Please fix:")).toBeInTheDocument();
+    expect(screen.getByText(/VIN check digit doesn't match/)).toBeInTheDocument();
+    expect(screen.getByLabelText("Make")).toHaveValue("");
+
+    await user.type(screen.getByLabelText(/^VIN/), "{Backspace}");
+    expect(screen.queryByText("Please fix:")).not.toBeInTheDocument();
+  });
+});
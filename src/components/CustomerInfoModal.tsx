@@ -1,12 +1,29 @@
 import React, { useEffect, useState } from "react";
 import { CustomerInfoSchema } from "../schemas";
+import type { CustomerInfo, DealType, VehicleCondition } from "../types";
+import {
+  DEAL_TYPE_LABELS,
+  formatVehicle,
+  normalizeVin,
+  VEHICLE_CONDITION_LABELS,
+} from "../utils/vehicle";
+import { decodeVin } from "../utils/vinDecoder";
 
-export interface CustomerInfo {
-  name: string;
-  year: string;
-  make: string;
-  model: string;
-}
+const parseAmountFinanced = (raw: string): number | undefined | null => {
+  const normalized = raw.trim().replace(/[$,\s]/g, "");
+  if (!normalized) return undefined;
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const parseOdometer = (raw: string): number | undefined | null => {
+  const normalized = raw.trim().replace(/[,\s]/g, "");
+  if (!normalized) return undefined;
+  return /^\d{1,6}$/.test(normalized) ? Number(normalized) : null;
+};
+
+// Optional text fields are saved without surrounding space, and left off when blank.
+const optionalText = (value: string | undefined) => value?.trim() || undefined;
 
 interface CustomerInfoModalProps {
   isOpen: boolean;
@@ -22,14 +39,20 @@ export const CustomerInfoModal: React.FC<CustomerInfoModalProps> = ({
   currentInfo,
 }) => {
   const [info, setInfo] = useState<CustomerInfo>(currentInfo);
+  const [amountFinancedInput, setAmountFinancedInput] = useState("");
+  const [odometerInput, setOdometerInput] = useState("");
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [vinNote, setVinNote] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
       setInfo(currentInfo);
+      setAmountFinancedInput(currentInfo.amountFinanced?.toString() ?? "");
+      setOdometerInput(currentInfo.odometer?.toString() ?? "");
       setValidationErrors({});
       setSaveSuccess(false);
+      setVinNote(null);
     }
   }, [currentInfo, isOpen]);
 
@@ -49,30 +72,103 @@ export const CustomerInfoModal: React.FC<CustomerInfoModalProps> = ({
     };
   }, [isOpen, onClose]);
 
+  const clearValidationError = (...fields: string[]) => {
+    if (fields.some((field) => validationErrors[field])) {
+      setValidationErrors((prev) => {
+        const next = { ...prev };
+        fields.forEach((field) => delete next[field]);
+        return next;
+      });
+    }
+  };
+
   const handleInfoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setInfo((prev) => ({ ...prev, [name]: value }));
     setSaveSuccess(false);
+    clearValidationError(name);
+  };
 
-    if (validationErrors[name]) {
-      setValidationErrors((prev) => {
-        const next = { ...prev };
-        delete next[name];
-        return next;
-      });
+  // Once all 17 characters are in, the VIN is decoded from the bundled table and fills
+  // in the vehicle. Fields the table doesn't know are left as typed.
+  const handleVinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // VINs are always upper case; I, O and Q are caught by validation.
+    const vin = e.target.value.toUpperCase();
+    setInfo((prev) => ({ ...prev, vin }));
+    setSaveSuccess(false);
+    setVinNote(null);
+
+    if (normalizeVin(vin).length < 17) {
+      clearValidationError("vin");
+      return;
     }
+
+    const result = decodeVin(vin);
+    if (!result.ok) {
+      setValidationErrors((prev) => ({ ...prev, vin: result.error }));
+      return;
+    }
+
+    const { year, make, model, trim } = result.decoded;
+    const decoded = {
+      year,
+      ...(make ? { make } : {}),
+      ...(model ? { model } : {}),
+      ...(trim ? { trim } : {}),
+    };
+    setInfo((prev) => ({ ...prev, ...decoded }));
+    clearValidationError("vin", ...Object.keys(decoded));
+    const vehicle = formatVehicle({ year, make: make ?? "", model: model ?? "", trim });
+    setVinNote(
+      model
+        ? `Filled from VIN: ${vehicle}`
+        : `Filled from VIN: ${vehicle}. Enter the ${make ? "model" : "make and model"}.`
+    );
+  };
+
+  const handleConditionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const condition = e.target.value as VehicleCondition | "";
+    setInfo((prev) => ({ ...prev, condition: condition || undefined }));
+    setSaveSuccess(false);
+  };
+
+  const handleDealTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const dealType = e.target.value as DealType | "";
+    setInfo((prev) => ({ ...prev, dealType: dealType || undefined }));
+    setSaveSuccess(false);
+  };
+
+  const handleOdometerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setOdometerInput(e.target.value);
+    setSaveSuccess(false);
+    clearValidationError("odometer");
+  };
+
+  const handleAmountFinancedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setAmountFinancedInput(e.target.value);
+    setSaveSuccess(false);
+    clearValidationError("amountFinanced");
   };
 
   const handleSave = () => {
-    const validation = CustomerInfoSchema.safeParse(info);
+    const vin = info.vin ? normalizeVin(info.vin) : undefined;
+    const validation = CustomerInfoSchema.safeParse({ ...info, vin });
+    const amountFinanced = parseAmountFinanced(amountFinancedInput);
+    const odometer = parseOdometer(odometerInput);
 
-    if (!validation.success) {
+    if (!validation.success || amountFinanced === null || odometer === null) {
       const errors: Record<string, string> = {};
-      validation.error.issues.forEach((issue) => {
+      validation.error?.issues.forEach((issue) => {
         if (issue.path[0]) {
           errors[issue.path[0].toString()] = issue.message;
         }
       });
+      if (amountFinanced === null) {
+        errors["amountFinanced"] = "Amount financed must be a dollar amount";
+      }
+      if (odometer === null) {
+        errors["odometer"] = "Odometer must be whole miles";
+      }
       setValidationErrors(errors);
       return;
     }
@@ -82,7 +178,17 @@ export const CustomerInfoModal: React.FC<CustomerInfoModalProps> = ({
 
     setTimeout(() => {
       try {
-        onSave(info);
+        onSave({
+          ...info,
+          trim: optionalText(info.trim),
+          vin: vin || undefined,
+          odometer,
+          stockNumber: optionalText(info.stockNumber),
+          dealNumber: optionalText(info.dealNumber),
+          amountFinanced,
+          email: optionalText(info.email),
+          phone: optionalText(info.phone),
+        });
       } finally {
         onClose();
       }
@@ -237,6 +343,239 @@ export const CustomerInfoModal: React.FC<CustomerInfoModalProps> = ({
                   />
                 </div>
               </div>
+              <div>
+                <label
+                  htmlFor="amountFinanced"
+                  className="block text-sm font-medium text-gray-300 mb-1"
+                >
+                  Amount Financed
+                  {validationErrors["amountFinanced"] && (
+                    <span className="text-red-400 text-xs"> *</span>
+                  )}
+                </label>
+                <input
+                  type="text"
+                  name="amountFinanced"
+                  id="amountFinanced"
+                  value={amountFinancedInput}
+                  onChange={handleAmountFinancedChange}
+                  inputMode="decimal"
+                  placeholder="Optional, for payment quotes"
+                  autoComplete="off"
+                  className={`w-full md:w-64 bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["amountFinanced"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400 mb-3">
+              Vehicle Details
+            </h3>
+            <p className="text-gray-500 text-xs -mt-2 mb-3">Optional. Printed on the agreement.</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="trim" className="block text-sm font-medium text-gray-300 mb-1">
+                  Trim
+                  {validationErrors["trim"] && <span className="text-red-400 text-xs"> *</span>}
+                </label>
+                <input
+                  type="text"
+                  name="trim"
+                  id="trim"
+                  value={info.trim ?? ""}
+                  onChange={handleInfoChange}
+                  autoCapitalize="characters"
+                  placeholder="e.g. F SPORT"
+                  autoComplete="off"
+                  className={`w-full bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["trim"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+              </div>
+              <div>
+                <label htmlFor="condition" className="block text-sm font-medium text-gray-300 mb-1">
+                  Condition
+                </label>
+                <select
+                  name="condition"
+                  id="condition"
+                  value={info.condition ?? ""}
+                  onChange={handleConditionChange}
+                  className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Not set</option>
+                  {(Object.keys(VEHICLE_CONDITION_LABELS) as VehicleCondition[]).map(
+                    (condition) => (
+                      <option key={condition} value={condition}>
+                        {VEHICLE_CONDITION_LABELS[condition]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="dealType" className="block text-sm font-medium text-gray-300 mb-1">
+                  Deal Type
+                </label>
+                <select
+                  name="dealType"
+                  id="dealType"
+                  value={info.dealType ?? ""}
+                  onChange={handleDealTypeChange}
+                  className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Not set</option>
+                  {(Object.keys(DEAL_TYPE_LABELS) as DealType[]).map((dealType) => (
+                    <option key={dealType} value={dealType}>
+                      {DEAL_TYPE_LABELS[dealType]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="odometer" className="block text-sm font-medium text-gray-300 mb-1">
+                  Odometer
+                  {validationErrors["odometer"] && <span className="text-red-400 text-xs"> *</span>}
+                </label>
+                <input
+                  type="text"
+                  name="odometer"
+                  id="odometer"
+                  value={odometerInput}
+                  onChange={handleOdometerChange}
+                  inputMode="numeric"
+                  placeholder="Miles"
+                  autoComplete="off"
+                  className={`w-full bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["odometer"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label htmlFor="vin" className="block text-sm font-medium text-gray-300 mb-1">
+                  VIN
+                  {validationErrors["vin"] && <span className="text-red-400 text-xs"> *</span>}
+                </label>
+                <input
+                  type="text"
+                  name="vin"
+                  id="vin"
+                  value={info.vin ?? ""}
+                  onChange={handleVinChange}
+                  maxLength={20}
+                  autoCapitalize="characters"
+                  spellCheck={false}
+                  placeholder="17 characters. Fills in the vehicle"
+                  autoComplete="off"
+                  className={`w-full md:w-96 font-mono bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["vin"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+                {vinNote && (
+                  <p className="text-green-400 text-xs mt-1" role="status">
+                    {vinNote}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label
+                  htmlFor="stockNumber"
+                  className="block text-sm font-medium text-gray-300 mb-1"
+                >
+                  Stock #
+                  {validationErrors["stockNumber"] && (
+                    <span className="text-red-400 text-xs"> *</span>
+                  )}
+                </label>
+                <input
+                  type="text"
+                  name="stockNumber"
+                  id="stockNumber"
+                  value={info.stockNumber ?? ""}
+                  onChange={handleInfoChange}
+                  autoCapitalize="characters"
+                  placeholder="e.g. L12345"
+                  autoComplete="off"
+                  className={`w-full bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["stockNumber"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="dealNumber"
+                  className="block text-sm font-medium text-gray-300 mb-1"
+                >
+                  DMS Deal #
+                  {validationErrors["dealNumber"] && (
+                    <span className="text-red-400 text-xs"> *</span>
+                  )}
+                </label>
+                <input
+                  type="text"
+                  name="dealNumber"
+                  id="dealNumber"
+                  value={info.dealNumber ?? ""}
+                  onChange={handleInfoChange}
+                  placeholder="Deal number in the DMS"
+                  autoComplete="off"
+                  className={`w-full bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["dealNumber"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400 mb-3">
+              Contact
+            </h3>
+            <p className="text-gray-500 text-xs -mt-2 mb-3">
+              Optional. Used to send the customer their menu summary.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-1">
+                  Email
+                  {validationErrors["email"] && <span className="text-red-400 text-xs"> *</span>}
+                </label>
+                <input
+                  type="email"
+                  name="email"
+                  id="email"
+                  value={info.email ?? ""}
+                  onChange={handleInfoChange}
+                  placeholder="e.g. jane@example.com"
+                  autoCapitalize="none"
+                  autoComplete="off"
+                  className={`w-full bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["email"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+              </div>
+              <div>
+                <label htmlFor="phone" className="block text-sm font-medium text-gray-300 mb-1">
+                  Mobile Phone
+                  {validationErrors["phone"] && <span className="text-red-400 text-xs"> *</span>}
+                </label>
+                <input
+                  type="tel"
+                  name="phone"
+                  id="phone"
+                  value={info.phone ?? ""}
+                  onChange={handleInfoChange}
+                  inputMode="tel"
+                  placeholder="e.g. (757) 555-0123"
+                  autoComplete="off"
+                  className={`w-full bg-gray-900 border rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500 ${
+                    validationErrors["phone"] ? "border-red-500" : "border-gray-600"
+                  }`}
+                />
+              </div>
             </div>
           </section>
         </div>
@@ -0,0 +1,60 @@
+import React from "react";
+import type { DealershipBranding } from "../types";
+import { DEFAULT_BRANDING } from "../constants";
+
+interface DealershipLogoProps {
+  branding?: DealershipBranding;
+  // Black on white for paper; white on the dark screens otherwise
+  isPrint?: boolean;
+  // The street address under the logo, for the agreement
+  showAddress?: boolean;
+}
+
+/**
+ * The store's logo: its image when it has one, otherwise the text wordmark with the
+ * location underneath, in the store's colors.
+ */
+export const DealershipLogo: React.FC<DealershipLogoProps> = ({
+  branding = DEFAULT_BRANDING,
+  isPrint = false,
+  showAddress = false,
+}) => (
+  <div className={`font-teko tracking-widest ${isPrint ? "text-black" : "text-white"}`}>
+    {branding.logoUrl ? (
+      <img src={branding.logoUrl} alt={branding.name} className="h-12 w-auto" />
+    ) : (
+      <p
+        className="text-3xl font-bold"
+        style={branding.primaryColor ? { color: branding.primaryColor } : undefined}
+      >
+        {branding.wordmark}
+        {branding.wordmarkAccent ? (
+          <>
+            {" "}
+            <span
+              className={isPrint ? "font-light text-gray-700" : "text-gray-400"}
+              style={branding.accentColor ? { color: branding.accentColor } : undefined}
+            >
+              {branding.wordmarkAccent}
+            </span>
+          </>
+        ) : null}
+      </p>
+    )}
+    {branding.location ? (
+      <p
+        className={`text-sm tracking-widest ${isPrint ? "text-gray-600" : "text-gray-500"} -mt-2`}
+        style={branding.accentColor ? { color: branding.accentColor } : undefined}
+      >
+        {branding.location}
+      </p>
+    ) : null}
+    {showAddress && branding.address ? (
+      <p
+        className={`font-sans text-xs tracking-normal ${isPrint ? "text-gray-600" : "text-gray-400"}`}
+      >
+        {branding.address}
+      </p>
+    ) : null}
+  </div>
+);
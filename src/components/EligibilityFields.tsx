@@ -0,0 +1,127 @@
+import React from "react";
+import type { VehicleCondition } from "../types";
+import type { EligibilityInputs } from "../utils/eligibility";
+import { VEHICLE_CONDITION_LABELS } from "../utils/vehicle";
+
+interface EligibilityFieldsProps {
+  value: EligibilityInputs;
+  onChange: (value: EligibilityInputs) => void;
+}
+
+const inputClass =
+  "w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500";
+
+/**
+ * Admin fields for which vehicles a product can be sold on. Blank fields allow any
+ * vehicle; the menu greys out or hides the product when the deal's vehicle doesn't match.
+ */
+export const EligibilityFields: React.FC<EligibilityFieldsProps> = ({ value, onChange }) => {
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...value, [e.target.name]: e.target.value });
+  };
+
+  const handleConditionToggle = (condition: VehicleCondition) => {
+    const conditions = value.conditions.includes(condition)
+      ? value.conditions.filter((existing) => existing !== condition)
+      : [...value.conditions, condition];
+    onChange({ ...value, conditions });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label
+          htmlFor="eligibility-models"
+          className="block text-sm font-semibold text-gray-300 mb-1"
+        >
+          Models
+        </label>
+        <input
+          type="text"
+          id="eligibility-models"
+          name="models"
+          value={value.models}
+          onChange={handleTextChange}
+          placeholder="All models, or e.g. RX, NX 350h"
+          className={inputClass}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Comma separated. A model line covers its models: RX includes RX 350 and RX 450h.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label
+            htmlFor="eligibility-minYear"
+            className="block text-sm font-semibold text-gray-300 mb-1"
+          >
+            Oldest Model Year
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            id="eligibility-minYear"
+            name="minYear"
+            value={value.minYear}
+            onChange={handleTextChange}
+            placeholder="Any"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="eligibility-maxYear"
+            className="block text-sm font-semibold text-gray-300 mb-1"
+          >
+            Newest Model Year
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            id="eligibility-maxYear"
+            name="maxYear"
+            value={value.maxYear}
+            onChange={handleTextChange}
+            placeholder="Any"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="eligibility-maxOdometer"
+            className="block text-sm font-semibold text-gray-300 mb-1"
+          >
+            Mileage Cap
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            id="eligibility-maxOdometer"
+            name="maxOdometer"
+            value={value.maxOdometer}
+            onChange={handleTextChange}
+            placeholder="No cap"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <fieldset>
+        <legend className="block text-sm font-semibold text-gray-300 mb-1">Condition</legend>
+        <div className="flex flex-wrap gap-4">
+          {(Object.keys(VEHICLE_CONDITION_LABELS) as VehicleCondition[]).map((condition) => (
+            <label key={condition} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={value.conditions.includes(condition)}
+                onChange={() => handleConditionToggle(condition)}
+                className="w-4 h-4 text-blue-500 bg-gray-900 border-gray-600 rounded focus:ring-blue-500 focus:ring-offset-gray-800"
+              />
+              <span className="text-gray-300">{VEHICLE_CONDITION_LABELS[condition]}</span>
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Leave all unchecked for any condition.</p>
+      </fieldset>
+    </div>
+  );
+};
@@ -6,8 +6,14 @@ import {
   unpublishAlaCarteFromFeature,
 } from "../data";
 import { ImageUploader } from "./ImageUploader";
+import { EligibilityFields } from "./EligibilityFields";
 import { MIN_COLUMN, MAX_COLUMN } from "../constants";
 import type { ProductFeature, FeatureConnector } from "../types";
+import {
+  EMPTY_ELIGIBILITY_INPUTS,
+  eligibilityInputsFromRule,
+  parseEligibilityInputs,
+} from "../utils/eligibility";
 
 interface FeatureFormProps {
   onSaveSuccess: () => void;
@@ -40,6 +46,7 @@ export const FeatureForm: React.FC<FeatureFormProps> = ({
   onCancelEdit,
 }) => {
   const [formData, setFormData] = useState(initialFormState);
+  const [eligibilityInputs, setEligibilityInputs] = useState(EMPTY_ELIGIBILITY_INPUTS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -72,8 +79,10 @@ export const FeatureForm: React.FC<FeatureFormProps> = ({
         alaCarteWarranty: editingFeature.alaCarteWarranty || "",
         alaCarteIsNew: editingFeature.alaCarteIsNew || false,
       });
+      setEligibilityInputs(eligibilityInputsFromRule(editingFeature.eligibility));
     } else {
       setFormData(initialFormState);
+      setEligibilityInputs(EMPTY_ELIGIBILITY_INPUTS);
     }
   }, [editingFeature]);
 
@@ -124,6 +133,8 @@ export const FeatureForm: React.FC<FeatureFormProps> = ({
         }
       }
 
+      const eligibility = parseEligibilityInputs(eligibilityInputs);
+
       // Build the feature data object with proper typing
       const featureData: Omit<ProductFeature, "id"> = {
         name: formData.name,
@@ -142,6 +153,8 @@ export const FeatureForm: React.FC<FeatureFormProps> = ({
           alaCartePrice && { alaCartePrice: parseFloat(alaCartePrice) }),
         ...(formData.alaCarteWarranty && { alaCarteWarranty: formData.alaCarteWarranty }),
         ...(formData.publishToAlaCarte && { alaCarteIsNew: formData.alaCarteIsNew }),
+        // Left undefined on edit so a cleared rule is deleted
+        ...((eligibility || isEditMode) && { eligibility }),
       };
 
       // Add column if valid
@@ -162,6 +175,7 @@ export const FeatureForm: React.FC<FeatureFormProps> = ({
         // For new features, we don't have the ID, so we can't publish to A La Carte in the same operation
         // The admin will need to edit the feature after creation to publish it
         setFormData(initialFormState); // Only reset for add mode
+        setEligibilityInputs(EMPTY_ELIGIBILITY_INPUTS);
         onSaveSuccess();
         return;
       }
@@ -441,6 +455,13 @@ export const FeatureForm: React.FC<FeatureFormProps> = ({
           )}
         </div>
 
+        <div className="pt-4 border-t border-gray-700/50 space-y-4">
+          <h3 className="text-lg font-teko font-semibold text-gray-200 tracking-wider">
+            Vehicle Eligibility (Optional)
+          </h3>
+          <EligibilityFields value={eligibilityInputs} onChange={setEligibilityInputs} />
+        </div>
+
         <FormRow>
           <Label htmlFor="points" text="Key Features" helpText="One per line" />
           <textarea
@@ -1,8 +1,9 @@
 import React, { useEffect } from "react";
-import type { ProductFeature, AlaCarteOption } from "../types";
+import type { ProductFeature, AlaCarteOption, SharedProduct } from "../types";
 
 interface FeatureModalProps {
-  feature: ProductFeature | AlaCarteOption;
+  // Shared quote links pass the cost-free copy of a product
+  feature: ProductFeature | AlaCarteOption | SharedProduct;
   onClose: () => void;
 }
 
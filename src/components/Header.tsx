@@ -1,5 +1,7 @@
 import React, { forwardRef, useEffect, useMemo, useState } from "react";
 import { User } from "firebase/auth";
+import type { Dealership, DealershipBranding } from "../types";
+import { DEFAULT_BRANDING } from "../constants";
 
 type BeforeInstallPromptEvent = Event & {
   prompt: () => Promise<void>;
@@ -33,9 +35,21 @@ interface HeaderProps {
   onLogout: () => void;
   onToggleAdminView: () => void;
   isAdminView: boolean;
+  // False for roles that cannot edit the catalog (see roles.ts canManageCatalog)
+  showAdminToggle?: boolean;
   onPrint: () => void;
   onShowPresentation?: () => void;
   showPresentationButton?: boolean;
+  onShowRecentDeals?: () => void;
+  // Rejects with a user-facing message when the quote cannot be found
+  onLookupQuote?: (quoteNumber: string) => Promise<void>;
+  // Managers only: opens the price-override approval inbox
+  onShowApprovals?: () => void;
+  branding?: DealershipBranding;
+  // Stores the user works at; a picker shows when there is more than one
+  dealerships?: Dealership[];
+  activeDealershipId?: string;
+  onSelectDealership?: (dealershipId: string) => void;
 }
 
 export const Header = forwardRef<HTMLElement, HeaderProps>(
@@ -49,12 +63,23 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
       onLogout,
       onToggleAdminView,
       isAdminView,
+      showAdminToggle = true,
       onPrint,
       onShowPresentation,
       showPresentationButton = false,
+      onShowRecentDeals,
+      onLookupQuote,
+      onShowApprovals,
+      branding = DEFAULT_BRANDING,
+      dealerships = [],
+      activeDealershipId,
+      onSelectDealership,
     },
     ref
   ) => {
+    const [quoteLookup, setQuoteLookup] = useState("");
+    const [quoteLookupError, setQuoteLookupError] = useState<string | null>(null);
+    const [isLookingUpQuote, setIsLookingUpQuote] = useState(false);
     const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
     const [isInstalled, setIsInstalled] = useState(false);
 
@@ -102,6 +127,22 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
       };
     }, [installSupport.isStandalone]);
 
+    const handleQuoteLookup = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!onLookupQuote || !quoteLookup.trim()) return;
+
+      setIsLookingUpQuote(true);
+      setQuoteLookupError(null);
+      try {
+        await onLookupQuote(quoteLookup);
+        setQuoteLookup("");
+      } catch (err) {
+        setQuoteLookupError(err instanceof Error ? err.message : "Quote lookup failed.");
+      } finally {
+        setIsLookingUpQuote(false);
+      }
+    };
+
     const canShowInstallButton = !installSupport.isStandalone && !isInstalled;
 
     const handleInstallApp = async () => {
@@ -131,12 +172,45 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
       >
       <div className="am-app-header-inner container mx-auto px-4 sm:px-8 flex flex-col sm:flex-row justify-between items-center gap-4">
         <div className="am-app-header-brand text-center sm:text-left">
-          <h1 className="am-app-header-title text-3xl sm:text-4xl font-bold tracking-widest font-teko text-lux-textStrong">
-            PRIORITY <span className="text-lux-textMuted">LEXUS</span>
-          </h1>
-          <p className="am-app-header-subtitle text-sm text-lux-textMuted tracking-widest">
-            VIRGINIA BEACH
-          </p>
+          {branding.logoUrl ? (
+            <img src={branding.logoUrl} alt={branding.name} className="h-10 w-auto mx-auto sm:mx-0" />
+          ) : (
+            <h1
+              className="am-app-header-title text-3xl sm:text-4xl font-bold tracking-widest font-teko text-lux-textStrong"
+              style={branding.primaryColor ? { color: branding.primaryColor } : undefined}
+            >
+              {branding.wordmark}
+              {branding.wordmarkAccent ? (
+                <>
+                  {" "}
+                  <span
+                    className="text-lux-textMuted"
+                    style={branding.accentColor ? { color: branding.accentColor } : undefined}
+                  >
+                    {branding.wordmarkAccent}
+                  </span>
+                </>
+              ) : null}
+            </h1>
+          )}
+          {dealerships.length > 1 && onSelectDealership ? (
+            <select
+              value={activeDealershipId ?? ""}
+              onChange={(e) => onSelectDealership(e.target.value)}
+              className="am-app-header-subtitle mt-1 bg-transparent text-sm text-lux-textMuted tracking-widest uppercase border border-lux-border/60 rounded px-2 py-0.5"
+              aria-label="Store"
+            >
+              {dealerships.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.location || store.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p className="am-app-header-subtitle text-sm text-lux-textMuted tracking-widest">
+              {branding.location}
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-3">
           {canShowInstallButton && (
@@ -165,9 +239,11 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
           </button>
           {(!guestMode || isDemoMode) && (
             <>
-              <button onClick={onToggleAdminView} className="btn-lux-secondary text-sm px-3">
-                {isAdminView ? "View Menu" : isDemoMode ? "Admin Setup" : "Admin Panel"}
-              </button>
+              {showAdminToggle && (
+                <button onClick={onToggleAdminView} className="btn-lux-secondary text-sm px-3">
+                  {isAdminView ? "View Menu" : isDemoMode ? "Admin Setup" : "Admin Panel"}
+                </button>
+              )}
               {showPresentationButton && onShowPresentation && (
                 <button
                   type="button"
@@ -179,6 +255,70 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
                   Presentation
                 </button>
               )}
+              {!isDemoMode && onLookupQuote && (
+                <form
+                  onSubmit={(e) => {
+                    void handleQuoteLookup(e);
+                  }}
+                  className="relative flex items-center"
+                  role="search"
+                >
+                  <label htmlFor="quote-lookup" className="sr-only">
+                    Quote number
+                  </label>
+                  <input
+                    id="quote-lookup"
+                    type="search"
+                    value={quoteLookup}
+                    onChange={(e) => {
+                      setQuoteLookup(e.target.value);
+                      setQuoteLookupError(null);
+                    }}
+                    placeholder="Quote #"
+                    autoComplete="off"
+                    disabled={isLookingUpQuote}
+                    aria-invalid={quoteLookupError ? true : undefined}
+                    aria-describedby={quoteLookupError ? "quote-lookup-error" : undefined}
+                    className="w-36 bg-lux-bg2 border border-lux-border rounded-md px-2 py-1.5 text-sm text-lux-textStrong placeholder:text-lux-textMuted"
+                  />
+                  <button
+                    type="submit"
+                    className="btn-lux-ghost text-sm px-3"
+                    disabled={isLookingUpQuote || !quoteLookup.trim()}
+                  >
+                    {isLookingUpQuote ? "Finding..." : "Find"}
+                  </button>
+                  {quoteLookupError && (
+                    <p
+                      id="quote-lookup-error"
+                      role="alert"
+                      className="absolute top-full left-0 mt-1 w-64 text-xs text-red-300"
+                    >
+                      {quoteLookupError}
+                    </p>
+                  )}
+                </form>
+              )}
+              {!isDemoMode && onShowRecentDeals && (
+                <button
+                  type="button"
+                  onClick={onShowRecentDeals}
+                  className="btn-lux-ghost text-sm px-3"
+                  title="Reopen, duplicate or void a saved deal"
+                >
+                  Recent Deals
+                </button>
+              )}
+              {!isDemoMode && onShowApprovals && (
+                <button
+                  type="button"
+                  onClick={onShowApprovals}
+                  className="btn-lux-ghost text-sm px-3"
+                  title="Approve or deny discounts below the pricing floor"
+                >
+                  Approvals
+                </button>
+              )}
               {user && (
                 <button onClick={onLogout} className="btn-lux-ghost text-sm px-3">
                   Logout
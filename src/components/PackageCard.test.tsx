@@ -219,4 +219,25 @@ describe("PackageCard", () => {
     // For 2499.99, it will display as $2,499.99 (not rounded)
     expect(container.textContent).toContain("$2,499.99");
   });
+
+  it("shows a promotion badge and the monthly payment impact when given", () => {
+    render(<PackageCard {...defaultProps} promoBadge="Spring Sale" monthlyImpact={24.1} />);
+
+    expect(screen.getByTestId("promo-badge")).toHaveTextContent("Spring Sale");
+    expect(screen.getByTestId("monthly-impact")).toHaveTextContent("+$25/mo");
+  });
+
+  it("omits the monthly payment impact without payment terms", () => {
+    render(<PackageCard {...defaultProps} />);
+
+    expect(screen.queryByTestId("monthly-impact")).not.toBeInTheDocument();
+  });
+
+  it("accents the card in the theme's color for the tier", () => {
+    render(<PackageCard {...defaultProps} />);
+
+    expect(screen.getByTestId("package-tier-accent").style.backgroundColor).toBe(
+      "var(--tier-silver, rgb(var(--lux-accent)))"
+    );
+  });
 });
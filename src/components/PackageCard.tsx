@@ -1,5 +1,7 @@
 import React from "react";
 import type { PackageTier, ProductFeature, AlaCarteOption } from "../types";
+import { formatMonthlyImpact } from "../utils/payments";
+import { tierColor } from "../utils/theme";
 
 interface PackageCardProps {
   packageInfo: PackageTier;
@@ -10,11 +12,15 @@ interface PackageCardProps {
   onMagnify?: () => void;
   showRecommendedBadge?: boolean;
   basePrice?: number;
+  promoBadge?: string; // Name of a live promotion on this package
+  monthlyImpact?: number; // What the package adds to the customer's monthly payment
   className?: string;
   isCompact?: boolean;
   isMagnified?: boolean;
   textSize?: "normal" | "large" | "xl";
   pick2Summary?: string;
+  // Features that can't be sold on the deal's vehicle, with why; shown greyed out
+  unavailableFeatureReasons?: Record<string, string>;
 }
 
 const MagnifyIcon: React.FC<{ className?: string }> = ({ className }) => (
@@ -74,11 +80,14 @@ export const PackageCard: React.FC<PackageCardProps> = ({
   onMagnify,
   showRecommendedBadge = false,
   basePrice,
+  promoBadge,
+  monthlyImpact,
   className = "",
   isCompact = false,
   isMagnified = false,
   textSize = "normal",
   pick2Summary,
+  unavailableFeatureReasons = {},
 }) => {
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -183,6 +192,13 @@ export const PackageCard: React.FC<PackageCardProps> = ({
       ${className}
     `}
     >
+      {/* Tier accent in the theme's color for this package */}
+      <span
+        aria-hidden="true"
+        data-testid="package-tier-accent"
+        className="absolute inset-x-0 top-0 h-1"
+        style={{ backgroundColor: tierColor(packageInfo.name) }}
+      />
       <div
         className={`${
           isCompact ? "am-package-header-compact" : "am-package-header"
@@ -235,6 +251,11 @@ export const PackageCard: React.FC<PackageCardProps> = ({
               <MagnifyIcon className="w-4 h-4" />
             </button>
           )}
+          {promoBadge && (
+            <span className="lux-chip-promo" data-testid="promo-badge">
+              {promoBadge}
+            </span>
+          )}
           {shouldShowRecommended && (
             <span className="lux-chip-gold shadow-glow-gold">Recommended</span>
           )}
@@ -259,10 +280,16 @@ export const PackageCard: React.FC<PackageCardProps> = ({
                 )
               ) : null;
 
+            const unavailableReason = unavailableFeatureReasons[feature.id];
+
             return (
               <div key={feature.id}>
                 {divider}
-                <div className={`text-center ${isCompact ? "mt-0" : "mt-2"}`}>
+                <div
+                  className={`text-center ${isCompact ? "mt-0" : "mt-2"} ${
+                    unavailableReason ? "opacity-50" : ""
+                  }`}
+                >
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -286,6 +313,14 @@ export const PackageCard: React.FC<PackageCardProps> = ({
                       {feature.name}
                     </span>
                   </button>
+                  {unavailableReason && (
+                    <p
+                      className="text-xs text-lux-textMuted"
+                      data-testid="package-feature-unavailable"
+                    >
+                      Not for this vehicle: {unavailableReason}
+                    </p>
+                  )}
                   <ul className={`text-lux-textMuted ${pointsClass} ${pointsListLayoutClass}`}>
                     {feature.points.map((p, idx) => (
                       <li
@@ -370,6 +405,11 @@ export const PackageCard: React.FC<PackageCardProps> = ({
             <p className="am-text-price font-teko text-lux-textStrong">
               {formatPrice(packageInfo.price)}
             </p>
+            {typeof monthlyImpact === "number" && (
+              <p className="text-sm font-semibold text-lux-gold" data-testid="monthly-impact">
+                {formatMonthlyImpact(monthlyImpact)}
+              </p>
+            )}
           </div>
           <div className="text-right">
             <p className="text-xs text-lux-textMuted">Includes listed coverage</p>
@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { PackageSelector } from "./PackageSelector";
 import {
   createMockAlaCarteOption,
@@ -100,4 +100,67 @@ describe("PackageSelector layout", () => {
       screen.queryByRole("dialog", { name: /magnified elite package/i })
     ).not.toBeInTheDocument();
   });
+
+  it("toggles to the term comparison grid and selects a package from it", async () => {
+    const user = userEvent.setup();
+    const packages = [
+      createMockPackageTier({ id: "gold", name: "Gold", price: 2000 }),
+      createMockPackageTier({ id: "platinum", name: "Platinum", price: 3500 }),
+    ];
+    const onSelectPackage = vi.fn();
+    const onToggleTermComparison = vi.fn();
+    const props = {
+      packages,
+      allFeaturesForDisplay: [],
+      selectedPackage: null,
+      onSelectPackage,
+      onViewFeature: () => {},
+      paymentTerms: { termMonths: 72, apr: 6.9, amountFinanced: 40000 },
+      onToggleTermComparison,
+    };
+
+    const { rerender } = render(<PackageSelector {...props} showTermComparison={false} />);
+    await user.click(screen.getByRole("button", { name: /compare payments/i }));
+    expect(onToggleTermComparison).toHaveBeenCalledTimes(1);
+
+    rerender(<PackageSelector {...props} showTermComparison={true} />);
+    expect(screen.getByTestId("term-comparison")).toBeInTheDocument();
+    expect(screen.getByText("No Package")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Platinum" }));
+    expect(onSelectPackage).toHaveBeenCalledWith(packages[1]);
+  });
+
+  it("greys out package features the vehicle isn't eligible for", () => {
+    const packages = [
+      createMockPackageTier({
+        id: "elite",
+        name: "Elite",
+        features: [
+          createMockFeature({ id: "f1", name: "Ceramic Coating" }),
+          createMockFeature({
+            id: "f2",
+            name: "Wheel & Tire",
+            eligibility: { maxOdometer: 36000 },
+          }),
+        ],
+      }),
+    ];
+
+    render(
+      <PackageSelector
+        packages={packages}
+        allFeaturesForDisplay={[]}
+        selectedPackage={null}
+        onSelectPackage={vi.fn()}
+        onViewFeature={vi.fn()}
+        vehicle={{ year: "2022", model: "ES 350", odometer: 41000 }}
+      />
+    );
+
+    const notes = screen.getAllByTestId("package-feature-unavailable");
+    expect(notes).toHaveLength(1);
+    expect(notes[0]).toHaveTextContent("Not for this vehicle: Up to 36,000 mi only");
+    expect(screen.getByLabelText("Learn more about Wheel & Tire")).toBeInTheDocument();
+  });
 });
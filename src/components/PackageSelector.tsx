@@ -1,8 +1,11 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import type { PackageTier, ProductFeature, AlaCarteOption } from "../types";
+import type { PackageTier, ProductFeature, AlaCarteOption, PaymentTerms } from "../types";
 import { PackageCard } from "./PackageCard";
 import { AddonSelector } from "./AddonSelector";
 import { AddonDrawer } from "./AddonDrawer";
+import { TermComparisonGrid } from "./TermComparisonGrid";
+import { buildTermComparison, paymentImpact } from "../utils/payments";
+import { ineligibleReasonsById, type EligibilityVehicle } from "../utils/eligibility";
 
 interface PackageSelectorProps {
   packages: PackageTier[];
@@ -11,6 +14,11 @@ interface PackageSelectorProps {
   onSelectPackage: (pkg: PackageTier) => void;
   onViewFeature: (feature: ProductFeature | AlaCarteOption) => void;
   basePackagePricesById?: Record<string, number>;
+  promoBadgesById?: Record<string, string>;
+  paymentTerms?: PaymentTerms | null;
+  // Swaps the cards for the term comparison grid; the toggle shows when a handler is given
+  showTermComparison?: boolean;
+  onToggleTermComparison?: () => void;
   addonItems?: AlaCarteOption[];
   selectedAddons?: AlaCarteOption[];
   onToggleAddon?: (item: AlaCarteOption) => void;
@@ -20,6 +28,8 @@ interface PackageSelectorProps {
   gridClassName?: string;
   isIpadLandscape?: boolean;
   textSize?: "normal" | "large" | "xl";
+  // Greys out package features that can't be sold on this vehicle and hides such add-ons
+  vehicle?: EligibilityVehicle;
 }
 
 export const PackageSelector: React.FC<PackageSelectorProps> = ({
@@ -29,6 +39,10 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
   onSelectPackage,
   onViewFeature,
   basePackagePricesById,
+  promoBadgesById,
+  paymentTerms = null,
+  showTermComparison = false,
+  onToggleTermComparison,
   addonItems,
   selectedAddons,
   onToggleAddon,
@@ -38,6 +52,7 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
   gridClassName,
   isIpadLandscape = false,
   textSize = "normal",
+  vehicle,
 }) => {
   const storageKey = "aftermarketMenu:addonDrawerOpen";
   const enableMagnify = Boolean(isIpadLandscape);
@@ -112,6 +127,22 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
     return packages.find((pkg) => pkg.id === magnifiedPackageId) ?? null;
   }, [magnifiedPackageId, packages]);
 
+  const unavailableFeatureReasons = useMemo(
+    () =>
+      ineligibleReasonsById(
+        packages.flatMap((pkg) => pkg.features ?? []),
+        vehicle
+      ),
+    [packages, vehicle]
+  );
+
+  const visibleAddonItems = useMemo(() => {
+    if (!addonItems) return addonItems;
+    const reasons = ineligibleReasonsById(addonItems, vehicle);
+    const selectedIds = new Set((selectedAddons ?? []).map((item) => item.id));
+    return addonItems.filter((item) => !reasons[item.id] || selectedIds.has(item.id));
+  }, [addonItems, selectedAddons, vehicle]);
+
   useEffect(() => {
     if (!magnifiedPackage) return;
 
@@ -137,12 +168,44 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
       : "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-5 lg:gap-6 xl:gap-8";
   const gridClasses = `${baseGrid} stagger-children${gridClassName ? ` ${gridClassName}` : ""}`;
 
+  const withComparisonToggle = (content: React.ReactElement) =>
+    onToggleTermComparison && paymentTerms ? (
+      <div className="flex flex-col h-full min-h-0">
+        <div className="flex justify-end mb-2 shrink-0">
+          <button
+            type="button"
+            onClick={onToggleTermComparison}
+            className="btn-lux-ghost min-h-[44px] px-4 text-sm"
+            aria-pressed={showTermComparison}
+          >
+            {showTermComparison ? "Show packages" : "Compare payments"}
+          </button>
+        </div>
+        <div className="flex-1 min-h-0">{content}</div>
+      </div>
+    ) : (
+      content
+    );
+
+  if (showTermComparison && paymentTerms) {
+    return withComparisonToggle(
+      <TermComparisonGrid
+        comparison={buildTermComparison(packages, paymentTerms)}
+        selectedPackageId={selectedPackage?.id ?? null}
+        onSelectPackage={(packageId) => {
+          const pkg = packages.find((candidate) => candidate.id === packageId);
+          if (pkg) onSelectPackage(pkg);
+        }}
+      />
+    );
+  }
+
   if (isIpadLandscape && hasAddonColumn) {
     const outerClasses = gridClassName ? `stagger-children ${gridClassName}` : "stagger-children";
     const packageGridClasses = `am-packages-grid-compact ${outerClasses}`;
     const addonCount = selectedAddons?.length ?? 0;
 
-    return (
+    return withComparisonToggle(
       <>
         <div className="flex h-full min-h-0" data-testid="package-grid">
           <div className="flex-1 min-w-0 min-h-0 h-full">
@@ -152,7 +215,10 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
                   key={pkg.id}
                   packageInfo={pkg}
                   allFeaturesForDisplay={allFeaturesForDisplay}
+                  unavailableFeatureReasons={unavailableFeatureReasons}
                   basePrice={basePackagePricesById?.[pkg.id]}
+                  promoBadge={promoBadgesById?.[pkg.id]}
+                  monthlyImpact={paymentTerms ? paymentImpact(pkg.price, paymentTerms) : undefined}
                   isSelected={selectedPackage?.id === pkg.id}
                   onSelect={() => onSelectPackage(pkg)}
                   onViewFeature={onViewFeature}
@@ -179,9 +245,9 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
           onClose={() => setIsAddonDrawerOpen(false)}
           selectedCount={addonCount}
         >
-          {addonItems && selectedAddons && onToggleAddon && onViewAddon ? (
+          {visibleAddonItems && selectedAddons && onToggleAddon && onViewAddon ? (
             <AddonSelector
-              items={addonItems}
+              items={visibleAddonItems}
               selectedItems={selectedAddons}
               onToggleItem={onToggleAddon}
               onViewItem={onViewAddon}
@@ -225,7 +291,12 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
                 <PackageCard
                   packageInfo={magnifiedPackage}
                   allFeaturesForDisplay={allFeaturesForDisplay}
+                  unavailableFeatureReasons={unavailableFeatureReasons}
                   basePrice={basePackagePricesById?.[magnifiedPackage.id]}
+                  promoBadge={promoBadgesById?.[magnifiedPackage.id]}
+                  monthlyImpact={
+                    paymentTerms ? paymentImpact(magnifiedPackage.price, paymentTerms) : undefined
+                  }
                   isSelected={selectedPackage?.id === magnifiedPackage.id}
                   onSelect={() => onSelectPackage(magnifiedPackage)}
                   onViewFeature={onViewFeature}
@@ -241,14 +312,17 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
     );
   }
 
-  return (
+  return withComparisonToggle(
     <div className={`${gridClasses} min-h-0`} data-testid="package-grid">
       {packages.map((pkg) => (
         <PackageCard
           key={pkg.id}
           packageInfo={pkg}
           allFeaturesForDisplay={allFeaturesForDisplay}
+          unavailableFeatureReasons={unavailableFeatureReasons}
           basePrice={basePackagePricesById?.[pkg.id]}
+          promoBadge={promoBadgesById?.[pkg.id]}
+          monthlyImpact={paymentTerms ? paymentImpact(pkg.price, paymentTerms) : undefined}
           isSelected={selectedPackage?.id === pkg.id}
           onSelect={() => onSelectPackage(pkg)}
           onViewFeature={onViewFeature}
@@ -258,9 +332,9 @@ export const PackageSelector: React.FC<PackageSelectorProps> = ({
           pick2Summary={selectedPackage?.id === pkg.id ? pick2Summary : undefined}
         />
       ))}
-      {hasAddonColumn && addonItems && selectedAddons && onToggleAddon && onViewAddon ? (
+      {hasAddonColumn && visibleAddonItems && selectedAddons && onToggleAddon && onViewAddon ? (
         <AddonSelector
-          items={addonItems}
+          items={visibleAddonItems}
           selectedItems={selectedAddons}
           onToggleItem={onToggleAddon}
           onViewItem={onViewAddon}
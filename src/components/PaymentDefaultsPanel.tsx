@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from "react";
+import { fetchPaymentDefaults, updatePaymentDefaults } from "../paymentDefaults";
+import { PAYMENT_TERM_OPTIONS } from "../utils/payments";
+
+/**
+ * Admin editor for the payment estimator's default term and APR
+ * (app_config/payment_defaults). Reps can still change both per deal.
+ */
+export const PaymentDefaultsPanel: React.FC = () => {
+  const [termMonths, setTermMonths] = useState("");
+  const [apr, setApr] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPaymentDefaults()
+      .then((defaults) => {
+        if (cancelled) return;
+        setTermMonths(String(defaults.termMonths));
+        setApr(String(defaults.apr));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const parsedApr = Number(apr.trim().replace(/[%\s]/g, ""));
+    if (!apr.trim() || !Number.isFinite(parsedApr) || parsedApr < 0) {
+      setError("APR must be a percentage, e.g. 6.9.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updatePaymentDefaults({ termMonths: Number(termMonths), apr: parsedApr });
+      setMessage("Payment defaults saved.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save payment defaults.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-xl mt-10">
+      <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">Payment Estimator</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        The term and APR the menu quotes &quot;+$X/mo&quot; against until the rep changes them.
+      </p>
+
+      {isLoading ? (
+        <p className="text-gray-400">Loading payment defaults...</p>
+      ) : (
+        <form onSubmit={(e) => void handleSave(e)} className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <label
+                htmlFor="default-term-months"
+                className="block text-sm font-medium text-gray-300 mb-1"
+              >
+                Term
+              </label>
+              <select
+                id="default-term-months"
+                value={termMonths}
+                onChange={(e) => setTermMonths(e.target.value)}
+                className="w-32 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white"
+              >
+                {[...new Set([...PAYMENT_TERM_OPTIONS, Number(termMonths)])]
+                  .sort((a, b) => a - b)
+                  .map((months) => (
+                    <option key={months} value={months}>
+                      {months} months
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="default-apr" className="block text-sm font-medium text-gray-300 mb-1">
+                APR %
+              </label>
+              <input
+                id="default-apr"
+                inputMode="decimal"
+                value={apr}
+                onChange={(e) => setApr(e.target.value)}
+                className="w-32 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-300" role="alert">
+              {error}
+            </p>
+          )}
+          {message && <p className="text-sm text-emerald-300">{message}</p>}
+
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {isSaving ? "Saving..." : "Save payment defaults"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import React, { useState } from "react";
+import { render, screen } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { PaymentEstimator } from "./PaymentEstimator";
+import type { PaymentTerms } from "../types";
+
+const Harness: React.FC = () => {
+  const [terms, setTerms] = useState<PaymentTerms>({
+    termMonths: 60,
+    apr: 5,
+    amountFinanced: 0,
+  });
+  return (
+    <>
+      <PaymentEstimator terms={terms} onChange={setTerms} totalPrice={3000} />
+      <output data-testid="apr">{terms.apr}</output>
+    </>
+  );
+};
+
+describe("PaymentEstimator", () => {
+  it("lets a rep type a decimal APR", async () => {
+    const user = userEvent.setup();
+    render(<Harness />);
+
+    const input = screen.getByLabelText("APR percent");
+    await user.clear(input);
+    await user.type(input, "6.9");
+
+    expect(input).toHaveValue("6.9");
+    expect(screen.getByTestId("apr")).toHaveTextContent("6.9");
+  });
+
+  it("tidies the APR when the field is left", async () => {
+    const user = userEvent.setup();
+    render(<Harness />);
+
+    const input = screen.getByLabelText("APR percent");
+    await user.clear(input);
+    await user.type(input, "7.");
+    expect(input).toHaveValue("7.");
+
+    await user.tab();
+    expect(input).toHaveValue("7");
+  });
+});
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from "react";
+import type { PaymentTerms } from "../types";
+import {
+  formatMonthlyImpact,
+  formatMonthlyPayment,
+  monthlyPayment,
+  paymentImpact,
+  PAYMENT_TERM_OPTIONS,
+} from "../utils/payments";
+
+interface PaymentEstimatorProps {
+  terms: PaymentTerms;
+  onChange: (terms: PaymentTerms) => void;
+  totalPrice: number;
+  className?: string;
+}
+
+const parseNumberInput = (raw: string) => {
+  const parsed = Number(raw.replace(/[$,%\s]/g, ""));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+const inputClass =
+  "w-full bg-lux-bg2 border border-lux-border/70 rounded-lg px-3 min-h-[44px] text-lux-textStrong focus:outline-none focus:ring-2 focus:ring-lux-blue/70";
+
+/**
+ * Term, APR and amount financed for the "+$X/mo" figures on the menu.
+ * With an amount financed, also shows the customer's payment before and after products.
+ */
+export const PaymentEstimator: React.FC<PaymentEstimatorProps> = ({
+  terms,
+  onChange,
+  totalPrice,
+  className = "",
+}) => {
+  // The APR as typed, so a rep can get through "6." on the way to 6.9
+  const [aprInput, setAprInput] = useState(String(terms.apr));
+
+  useEffect(() => {
+    setAprInput((current) =>
+      parseNumberInput(current) === terms.apr ? current : String(terms.apr)
+    );
+  }, [terms.apr]);
+
+  const basePayment = monthlyPayment(terms.amountFinanced, terms.apr, terms.termMonths);
+  const productPayment = paymentImpact(totalPrice, terms);
+
+  return (
+    <div className={`lux-card p-4 space-y-3 ${className}`} data-testid="payment-estimator">
+      <p className="text-xs uppercase tracking-[0.2em] text-lux-textMuted">Payment Estimate</p>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-xs text-lux-textMuted space-y-1">
+          <span>Term</span>
+          <select
+            value={terms.termMonths}
+            onChange={(e) => onChange({ ...terms, termMonths: Number(e.target.value) })}
+            className={inputClass}
+            aria-label="Term in months"
+          >
+            {[...new Set([...PAYMENT_TERM_OPTIONS, terms.termMonths])]
+              .sort((a, b) => a - b)
+              .map((months) => (
+                <option key={months} value={months}>
+                  {months} mo
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="text-xs text-lux-textMuted space-y-1">
+          <span>APR %</span>
+          <input
+            inputMode="decimal"
+            value={aprInput}
+            onChange={(e) => {
+              setAprInput(e.target.value);
+              onChange({ ...terms, apr: parseNumberInput(e.target.value) });
+            }}
+            onBlur={() => setAprInput(String(terms.apr))}
+            className={inputClass}
+            aria-label="APR percent"
+          />
+        </label>
+        <label className="text-xs text-lux-textMuted space-y-1">
+          <span>Financed</span>
+          <input
+            inputMode="numeric"
+            value={terms.amountFinanced || ""}
+            placeholder="$0"
+            onChange={(e) =>
+              onChange({ ...terms, amountFinanced: parseNumberInput(e.target.value) })
+            }
+            className={inputClass}
+            aria-label="Amount financed"
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-lux-textMuted">Protection adds</span>
+        <span className="font-semibold text-lux-gold" data-testid="estimator-impact">
+          {formatMonthlyImpact(productPayment)}
+        </span>
+      </div>
+      {terms.amountFinanced > 0 && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-lux-textMuted">Payment</span>
+          <span className="text-lux-textStrong" data-testid="estimator-payment">
+            {formatMonthlyPayment(basePayment)} &rarr;{" "}
+            {formatMonthlyPayment(basePayment + productPayment)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
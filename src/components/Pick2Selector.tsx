@@ -1,6 +1,9 @@
 import React, { useEffect, useMemo, useState } from "react";
-import type { AlaCarteOption, ProductFeature } from "../types";
+import type { AlaCarteOption, PaymentTerms, ProductFeature } from "../types";
 import { AddonItem } from "./AddonItem";
+import { UnavailableItemsNote } from "./UnavailableItemsNote";
+import { formatMonthlyImpact, paymentImpact } from "../utils/payments";
+import { ineligibleReasonsById, type EligibilityVehicle } from "../utils/eligibility";
 
 interface Pick2SelectorProps {
   items: AlaCarteOption[];
@@ -9,6 +12,7 @@ interface Pick2SelectorProps {
   onToggle: (item: AlaCarteOption) => void;
   onView: (item: ProductFeature | AlaCarteOption) => void;
   bundlePrice: number;
+  paymentTerms?: PaymentTerms | null;
   recommendedPairs?: Array<{
     label: string;
     optionIds: [string, string];
@@ -24,6 +28,9 @@ interface Pick2SelectorProps {
   className?: string;
   isCompact?: boolean;
   textSize?: "normal" | "large" | "xl";
+  // Options that can't be sold on this vehicle are hidden unless already picked, along
+  // with any recommended pair that includes one
+  vehicle?: EligibilityVehicle;
 }
 
 const formatPrice = (price: number) =>
@@ -40,6 +47,7 @@ export const Pick2Selector: React.FC<Pick2SelectorProps> = ({
   onToggle,
   onView,
   bundlePrice,
+  paymentTerms = null,
   recommendedPairs,
   featuredPresetLabel,
   presetOrder,
@@ -52,6 +60,7 @@ export const Pick2Selector: React.FC<Pick2SelectorProps> = ({
   className,
   isCompact = false,
   textSize = "normal",
+  vehicle,
 }) => {
   const [blockedMessage, setBlockedMessage] = useState<string | null>(null);
   const [isInfoOpen, setIsInfoOpen] = useState(false);
@@ -72,7 +81,22 @@ export const Pick2Selector: React.FC<Pick2SelectorProps> = ({
     () => items.filter((item) => selectedIdSet.has(item.id)),
     [items, selectedIdSet]
   );
-  const itemById = useMemo(() => new Map(items.map((item) => [item.id, item])), [items]);
+  const unavailableReasons = useMemo(
+    () => ineligibleReasonsById(items, vehicle),
+    [items, vehicle]
+  );
+  const visibleItems = useMemo(
+    () => items.filter((item) => !unavailableReasons[item.id] || selectedIdSet.has(item.id)),
+    [items, unavailableReasons, selectedIdSet]
+  );
+  const unavailableItems = useMemo(
+    () => items.filter((item) => unavailableReasons[item.id] && !selectedIdSet.has(item.id)),
+    [items, unavailableReasons, selectedIdSet]
+  );
+  const itemById = useMemo(
+    () => new Map(visibleItems.map((item) => [item.id, item])),
+    [visibleItems]
+  );
   const headerClass = isCompact
     ? textSize === "xl"
       ? "text-2xl"
@@ -204,6 +228,14 @@ export const Pick2Selector: React.FC<Pick2SelectorProps> = ({
               >
                 {formatPrice(bundlePrice)} total
               </p>
+              {paymentTerms && (
+                <p
+                  className={`${isCompact ? "text-xs" : "text-sm"} font-semibold text-lux-gold`}
+                  data-testid="pick2-monthly-impact"
+                >
+                  {formatMonthlyImpact(paymentImpact(bundlePrice, paymentTerms))}
+                </p>
+              )}
               <p className={`${isCompact ? "text-[11px]" : "text-xs"} text-gray-400`}>
                 Installed today
               </p>
@@ -352,7 +384,7 @@ export const Pick2Selector: React.FC<Pick2SelectorProps> = ({
         className={`${isCompact ? "mt-2" : "mt-3"} flex-1 min-h-0 overflow-y-auto ios-scroll scrollbar-luxury`}
         data-testid="pick2-list"
       >
-        {items.length === 0 ? (
+        {visibleItems.length === 0 ? (
           <div className="text-sm text-gray-400 space-y-1">
             <p>No eligible Pick2 items configured yet.</p>
           </div>
@@ -364,7 +396,7 @@ export const Pick2Selector: React.FC<Pick2SelectorProps> = ({
                 : "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 pr-2"
             }
           >
-            {items.map((item) => {
+            {visibleItems.map((item) => {
               const isSelected = selectedIdSet.has(item.id);
               return (
                 <AddonItem
@@ -387,6 +419,11 @@ export const Pick2Selector: React.FC<Pick2SelectorProps> = ({
             })}
           </div>
         )}
+        <UnavailableItemsNote
+          items={unavailableItems}
+          reasonsById={unavailableReasons}
+          className="mt-3"
+        />
       </div>
 
       <div
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { render, screen, within } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { PresentationAnalyticsPanel } from "./PresentationAnalyticsPanel";
+import { savePresentationStats } from "../utils/presentationAnalytics";
+import type { PresentationSlide } from "../types";
+
+const slides: PresentationSlide[] = [
+  { id: "welcome", layout: "title", title: "Protecting\nYour Vehicle" },
+  { id: "rustguard", layout: "image-right", title: "RustGuard Pro" },
+];
+
+describe("PresentationAnalyticsPanel", () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("shows each slide's views, time, skips and drop-offs in deck order", () => {
+    savePresentationStats({
+      sessions: 4,
+      completed: 3,
+      slides: {
+        rustguard: { views: 4, skips: 1, totalDwellMs: 60000, dropOffs: 1 },
+        welcome: { views: 4, skips: 0, totalDwellMs: 20000, dropOffs: 0 },
+        "old-slide": { views: 1, skips: 1, totalDwellMs: 500, dropOffs: 0 },
+      },
+    });
+
+    render(<PresentationAnalyticsPanel slides={slides} />);
+
+    expect(
+      screen.getByRole("heading", { name: "Slide Analytics on This Device" })
+    ).toBeInTheDocument();
+    expect(screen.getByText(/Only presentations shown in this browser/)).toBeInTheDocument();
+    expect(screen.getByText(/4 presentations recorded on this device; 75%/)).toBeInTheDocument();
+    const rows = screen.getAllByTestId("slide-analytics-row");
+    expect(rows).toHaveLength(3);
+    expect(within(rows[0]!).getByText("Protecting Your Vehicle")).toBeInTheDocument();
+    const rustguard = within(rows[1]!);
+    expect(rustguard.getByText("15.0s")).toBeInTheDocument();
+    expect(rustguard.getByText("25%")).toBeInTheDocument();
+    expect(within(rows[2]!).getByText("old-slide (removed)")).toBeInTheDocument();
+  });
+
+  it("clears the device's totals", async () => {
+    savePresentationStats({
+      sessions: 1,
+      completed: 1,
+      slides: { welcome: { views: 1, skips: 0, totalDwellMs: 5000, dropOffs: 0 } },
+    });
+    const user = userEvent.setup();
+    render(<PresentationAnalyticsPanel slides={slides} />);
+
+    await user.click(screen.getByRole("button", { name: "Reset this device's analytics" }));
+
+    expect(screen.getByText(/No presentations recorded on this device yet/)).toBeInTheDocument();
+    expect(window.localStorage.getItem("am_presentation_stats:default")).toBeNull();
+  });
+});
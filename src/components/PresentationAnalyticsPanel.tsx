@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import type { PresentationSlide, PresentationStats } from "../types";
+import {
+  EMPTY_PRESENTATION_STATS,
+  SKIP_THRESHOLD_MS,
+  clearPresentationStats,
+  loadPresentationStats,
+} from "../utils/presentationAnalytics";
+
+interface PresentationAnalyticsPanelProps {
+  slides: PresentationSlide[]; // The deck, for slide titles and order
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const formatPercent = (part: number, whole: number) =>
+  whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—";
+
+/**
+ * How each slide has done in the presentations recorded on this device: views, average
+ * time on screen, skips, and where presentations were left before the last slide.
+ * Totals live in this browser only; store-wide numbers come from the analytics events
+ * each showing also sends.
+ */
+export const PresentationAnalyticsPanel: React.FC<PresentationAnalyticsPanelProps> = ({
+  slides,
+}) => {
+  const [stats, setStats] = useState<PresentationStats>(loadPresentationStats);
+
+  const handleReset = () => {
+    clearPresentationStats();
+    setStats(EMPTY_PRESENTATION_STATS);
+  };
+
+  // Deck order first, then slides since removed from the deck
+  const deckIds = new Set(slides.map((slide) => slide.id));
+  const rows = [
+    ...slides.map((slide) => ({ id: slide.id, title: slide.title.split("\n").join(" ") })),
+    ...Object.keys(stats.slides)
+      .filter((id) => !deckIds.has(id))
+      .map((id) => ({ id, title: `${id} (removed)` })),
+  ];
+
+  return (
+    <section className="mt-10" aria-labelledby="presentation-analytics-heading">
+      <h3
+        id="presentation-analytics-heading"
+        className="text-xl sm:text-2xl font-teko tracking-wider text-white"
+      >
+        Slide Analytics on This Device
+      </h3>
+      <p className="text-xs text-gray-500 mb-2">
+        Only presentations shown in this browser are counted here. For every device in the store,
+        see the presentation_slide_view and presentation_end events in Firebase Analytics.
+      </p>
+      {stats.sessions === 0 ? (
+        <p className="text-sm text-gray-400">
+          No presentations recorded on this device yet. Turn on slide analytics above to start.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400 mb-4">
+            {stats.sessions} presentation{stats.sessions === 1 ? "" : "s"} recorded on this device;{" "}
+            {formatPercent(stats.completed, stats.sessions)} reached the last slide. A slide left
+            within {SKIP_THRESHOLD_MS / 1000} seconds counts as skipped.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs uppercase text-gray-500 border-b border-gray-700">
+                <tr>
+                  <th className="py-2 pr-4">Slide</th>
+                  <th className="py-2 pr-4 text-right">Views</th>
+                  <th className="py-2 pr-4 text-right">Avg. time</th>
+                  <th className="py-2 pr-4 text-right">Skipped</th>
+                  <th className="py-2 text-right">Drop-offs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const slideStats = stats.slides[row.id];
+                  return (
+                    <tr
+                      key={row.id}
+                      data-testid="slide-analytics-row"
+                      className="border-b border-gray-800"
+                    >
+                      <td className="py-2 pr-4 text-white">{row.title}</td>
+                      <td className="py-2 pr-4 text-right">{slideStats?.views ?? 0}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {slideStats?.views
+                          ? formatSeconds(slideStats.totalDwellMs / slideStats.views)
+                          : "—"}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {slideStats ? formatPercent(slideStats.skips, slideStats.views) : "—"}
+                      </td>
+                      <td className="py-2 text-right">{slideStats?.dropOffs ?? 0}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="mt-4 btn-lux-ghost text-sm px-3 min-h-[40px]"
+          >
+            Reset this device's analytics
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,389 @@
+import React from "react";
+import {
+  Activity,
+  Anchor,
+  Atom,
+  CheckCircle2,
+  CircleDollarSign,
+  Crown,
+  Droplets,
+  FileWarning,
+  FlaskConical,
+  Gauge,
+  Gem,
+  HeartPulse,
+  Layers,
+  MapPin,
+  Microscope,
+  Settings,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldX,
+  Sparkles,
+  ThermometerSun,
+  TrendingDown,
+  Truck,
+  UserCheck,
+  Waves,
+  Wrench,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import type {
+  DealershipBranding,
+  PresentationSlide,
+  SlideFooter,
+  SlideIcon,
+  Theme,
+} from "../types";
+import { slideImage } from "../utils/theme";
+import { fillSlideText, splitBulletLabel } from "../utils/slides";
+
+export const SLIDE_ICONS: Record<SlideIcon, LucideIcon> = {
+  Activity,
+  Anchor,
+  Atom,
+  CheckCircle2,
+  CircleDollarSign,
+  Crown,
+  Droplets,
+  FileWarning,
+  FlaskConical,
+  Gauge,
+  Gem,
+  HeartPulse,
+  Layers,
+  MapPin,
+  Microscope,
+  Settings,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldX,
+  Sparkles,
+  ThermometerSun,
+  TrendingDown,
+  Truck,
+  UserCheck,
+  Waves,
+  Wrench,
+  Zap,
+};
+
+interface PresentationSlideViewProps {
+  slide: PresentationSlide;
+  // Slides fade in as they scroll into view
+  isActive: boolean;
+  branding: DealershipBranding;
+  slideImages?: Theme["slideImages"];
+  preparedForName?: string;
+  preparedForVehicle?: string;
+  vehicleModel?: string;
+  // The package the closing slide ends on; its tier card is highlighted
+  recommendedPackage?: string;
+  // The closing slide's button back to the menu
+  onComplete: () => void;
+}
+
+/**
+ * Technical Restoration: Standardized Bullet Component
+ * Ensures 100% UI consistency and vertical alignment for iPad displays.
+ */
+const ExecutiveBulletRow = ({ children }: { children: React.ReactNode }) => (
+  <div className="flex items-start gap-3 text-white/70 font-light leading-snug">
+    <div className="w-2 h-2 bg-lux-accent rounded-full mt-1.5 flex-shrink-0 shadow-[0_0_8px_rgb(var(--lux-accent)/0.8)]" />
+    <div className="text-sm lg:text-base leading-relaxed">{children}</div>
+  </div>
+);
+
+const SlidePhoto = ({ src, alt, className }: { src: string; alt: string; className?: string }) => (
+  <div
+    className={`relative rounded-xl overflow-hidden border border-white/10 shadow-2xl bg-black/30 ${
+      className ?? "aspect-video max-h-[40vh]"
+    }`}
+  >
+    <img
+      src={src}
+      alt={alt}
+      className="h-full w-full object-cover object-center"
+      draggable={false}
+    />
+  </div>
+);
+
+const SlideFooterBar = ({ footer }: { footer: SlideFooter }) => {
+  const isWarning = footer.tone === "warning";
+  const TagIcon = isWarning ? ShieldAlert : ShieldCheck;
+  return (
+    <div
+      className={`mt-6 border-l-4 p-4 rounded-r-xl backdrop-blur-xl shadow-lg flex items-center justify-between gap-6 ${
+        isWarning ? "bg-red-500/5 border-red-600" : "bg-lux-accent/10 border-lux-accent"
+      }`}
+    >
+      <div className="max-w-3xl text-left">
+        {footer.label && (
+          <p
+            className={`font-black text-[10px] uppercase mb-1.5 tracking-[0.25em] ${
+              isWarning ? "text-red-500" : "text-lux-accentBright"
+            }`}
+          >
+            {footer.label}
+          </p>
+        )}
+        <p className="text-xs lg:text-sm text-white/90 font-light italic leading-relaxed">
+          &quot;{footer.quote}&quot;
+        </p>
+      </div>
+      {footer.tag && (
+        <div
+          className={`flex items-center gap-3 font-black text-xs uppercase tracking-[0.2em] border-l border-white/10 pl-8 shrink-0 ${
+            isWarning ? "text-red-500" : "text-lux-accentBright"
+          }`}
+        >
+          <TagIcon size={16} aria-hidden="true" />
+          {footer.tag}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * One slide of the value presentation, laid out by its layout type. Renders the slide's
+ * content only; the presentation (or the admin preview) supplies the frame around it.
+ */
+export const PresentationSlideView: React.FC<PresentationSlideViewProps> = ({
+  slide,
+  isActive,
+  branding,
+  slideImages,
+  preparedForName = "",
+  preparedForVehicle = "",
+  vehicleModel,
+  recommendedPackage,
+  onComplete,
+}) => {
+  const fill = (text: string) => fillSlideText(text, branding);
+  const reveal = isActive ? "opacity-100 translate-y-0" : "opacity-0 translate-y-10";
+  const bullets = slide.bullets ?? [];
+  const callouts = slide.callouts ?? [];
+
+  if (slide.layout === "title") {
+    return (
+      <>
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_0%_0%,rgb(var(--lux-accent)/0.05)_0%,transparent_50%)]" />
+        <div className={`m-auto text-center z-10 transition-all duration-1000 transform ${reveal}`}>
+          {slide.kicker && (
+            <p className="text-lux-accentBright font-bold text-[10px] tracking-[0.4em] uppercase mb-6">
+              {fill(slide.kicker)}
+            </p>
+          )}
+          <h1 className="text-5xl md:text-6xl lg:text-7xl font-black uppercase tracking-[0.06em] lg:tracking-[0.08em] mb-5 leading-none whitespace-pre-line">
+            {fill(slide.title)}
+          </h1>
+          <div className="w-16 h-0.5 bg-lux-accent mx-auto opacity-50" />
+
+          <div className="mt-8">
+            <p className="text-[10px] uppercase tracking-[0.4em] text-white/40 font-black">
+              Prepared for
+            </p>
+            <p className="mt-2 text-lg lg:text-2xl text-white/80 font-light">
+              {preparedForName || "__________"}
+            </p>
+            {preparedForVehicle ? (
+              <p className="mt-2 text-sm lg:text-base text-white/45 font-light">
+                on their {preparedForVehicle}
+              </p>
+            ) : null}
+          </div>
+
+          {slide.body && (
+            <p className="mt-8 italic text-white/35 font-light text-lg">{fill(slide.body)}</p>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  if (slide.layout === "closing") {
+    const reviewCtaName = preparedForName ? preparedForName.toUpperCase() : "";
+    const isRecommended = (title: string) =>
+      Boolean(recommendedPackage) &&
+      fill(title).trim().toLowerCase() === recommendedPackage?.trim().toLowerCase();
+    return (
+      <>
+        <div className="absolute inset-0 bg-black" />
+        <div className={`m-auto text-center max-w-5xl z-10 transition-all duration-1000 ${reveal}`}>
+          <h2 className="text-4xl md:text-5xl lg:text-6xl font-black text-lux-accentBright uppercase tracking-[0.06em] lg:tracking-[0.08em] mb-6 leading-none whitespace-pre-line">
+            {fill(slide.title)}
+          </h2>
+          {slide.body && (
+            <p className="text-base md:text-lg lg:text-xl text-white/65 mb-10 font-light leading-relaxed max-w-3xl mx-auto">
+              {fill(slide.body)}
+            </p>
+          )}
+
+          {callouts.length > 0 && (
+            <div className="grid grid-cols-3 gap-6 mb-12">
+              {callouts.map((callout, index) => {
+                const Icon = SLIDE_ICONS[callout.icon ?? "ShieldCheck"];
+                const recommended = isRecommended(callout.title);
+                return (
+                  <div
+                    key={index}
+                    data-recommended={recommended || undefined}
+                    className={`relative p-8 rounded-[2rem] bg-white/[0.03] border backdrop-blur-3xl group hover:border-lux-accentBright/50 transition-all duration-700 hover:-translate-y-2 shadow-2xl ${
+                      recommended
+                        ? "border-lux-accentBright shadow-[0_0_40px_rgb(var(--lux-accent-bright)/0.25)]"
+                        : "border-white/10"
+                    }`}
+                  >
+                    {recommended && (
+                      <span className="absolute -top-3 left-1/2 -translate-x-1/2 rounded-full bg-lux-accent px-4 py-1 text-[10px] font-black uppercase tracking-[0.25em] text-white">
+                        Recommended
+                      </span>
+                    )}
+                    <div className="text-lux-accentBright mb-6 flex justify-center group-hover:scale-110 transition-transform duration-500 drop-shadow-[0_0_10px_rgb(var(--lux-accent-bright)/0.3)]">
+                      <Icon size={32} aria-hidden="true" />
+                    </div>
+                    <div className="font-black text-lg lg:text-xl mb-2 tracking-[0.25em] uppercase">
+                      {fill(callout.title)}
+                    </div>
+                    <p className="text-xs text-white/45 uppercase tracking-[0.16em] font-bold leading-snug">
+                      {fill(callout.text)}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {recommendedPackage && (
+            <p className="mb-8 text-sm lg:text-base uppercase tracking-[0.2em] text-white/60">
+              {vehicleModel ? `Recommended for your ${vehicleModel}: ` : "Our recommendation: "}
+              <span className="font-black text-lux-accentBright">{recommendedPackage}</span>
+            </p>
+          )}
+
+          <button
+            onClick={onComplete}
+            className="bg-lux-accent hover:bg-lux-accentBright text-white font-black text-base uppercase tracking-[0.25em] px-12 py-6 rounded-full shadow-[0_20px_60px_rgb(var(--lux-accent)/0.4)] transition-all duration-500 hover:scale-105 group"
+          >
+            {reviewCtaName ? (
+              <span className="inline-flex flex-col items-center">
+                <span>REVIEW PERSONALIZED OPTIONS FOR</span>
+                <span className="mt-2 text-white/90">{reviewCtaName}</span>
+              </span>
+            ) : (
+              "Review Package Options"
+            )}
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  const HeadingIcon = slide.headingIcon ? SLIDE_ICONS[slide.headingIcon] : null;
+  const photo = slide.image ? (
+    <SlidePhoto
+      src={slideImage(slide.image, slideImages)}
+      alt={slide.imageAlt ?? ""}
+      className="aspect-video max-h-[38vh]"
+    />
+  ) : null;
+  const photoFirst = slide.layout === "image-left";
+
+  return (
+    <div className={`my-auto z-10 transition-all duration-1000 max-w-6xl mx-auto w-full ${reveal}`}>
+      {slide.kicker && (
+        <span className="text-lux-accentBright font-bold text-[10px] tracking-[0.4em] block mb-2 uppercase">
+          {fill(slide.kicker)}
+        </span>
+      )}
+      {slide.badge && (
+        <div className="inline-flex items-center gap-2 bg-lux-accent text-[10px] font-black px-3 py-1 rounded-full mb-4 shadow-lg shadow-lux-accent/20 uppercase">
+          <Zap size={12} className="text-white" aria-hidden="true" />
+          {fill(slide.badge)}
+        </div>
+      )}
+      <h2 className="text-3xl md:text-4xl lg:text-5xl font-black uppercase tracking-[0.06em] lg:tracking-[0.08em] mb-6 lg:mb-8 pb-6 border-b border-white/10 leading-none whitespace-pre-line">
+        {fill(slide.title)}
+      </h2>
+
+      <div
+        className={`grid ${photo ? "grid-cols-2" : "grid-cols-1"} gap-10 lg:gap-12 items-center`}
+      >
+        {photoFirst && photo}
+        <div className="space-y-6">
+          <div>
+            {slide.heading && (
+              <h3 className="text-white text-sm md:text-base font-black uppercase tracking-[0.18em] flex items-center gap-2">
+                {HeadingIcon && (
+                  <HeadingIcon size={18} className="text-lux-accentBright" aria-hidden="true" />
+                )}
+                {fill(slide.heading)}
+              </h3>
+            )}
+            {slide.body && (
+              <p className="text-base md:text-lg lg:text-xl text-white/80 font-light leading-relaxed mt-2">
+                {fill(slide.body)}
+              </p>
+            )}
+            {bullets.length > 0 && (
+              <ul className="space-y-2 list-none mt-4">
+                {bullets.map((bullet, index) => {
+                  const { label, text } = splitBulletLabel(fill(bullet));
+                  return (
+                    <li key={index}>
+                      <ExecutiveBulletRow>
+                        {label ? (
+                          <>
+                            <strong>{label}:</strong> {text}
+                          </>
+                        ) : (
+                          text
+                        )}
+                      </ExecutiveBulletRow>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {callouts.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              {callouts.map((callout, index) => {
+                const Icon = SLIDE_ICONS[callout.icon ?? "ShieldCheck"];
+                return (
+                  <div
+                    key={index}
+                    className="bg-white/5 border border-white/10 p-4 rounded-xl backdrop-blur-md flex items-center gap-4"
+                  >
+                    <Icon
+                      size={24}
+                      className="text-lux-accentBright flex-shrink-0"
+                      aria-hidden="true"
+                    />
+                    <div className="text-left">
+                      <h4 className="text-[10px] font-black uppercase tracking-widest text-white">
+                        {fill(callout.title)}
+                      </h4>
+                      <p className="text-[9px] text-white/40 leading-tight mt-1">
+                        {fill(callout.text)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        {!photoFirst && photo}
+      </div>
+
+      {slide.footer && (
+        <SlideFooterBar footer={{ ...slide.footer, quote: fill(slide.footer.quote) }} />
+      )}
+    </div>
+  );
+};
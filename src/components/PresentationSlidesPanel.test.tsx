@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { PresentationSlidesPanel } from "./PresentationSlidesPanel";
+import { fetchPresentation, updatePresentation } from "../presentation";
+import type { PresentationSlide } from "../types";
+
+vi.mock("../presentation", () => ({
+  fetchPresentation: vi.fn(),
+  updatePresentation: vi.fn(),
+}));
+
+const slides: PresentationSlide[] = [
+  { id: "welcome", layout: "title", title: "Protecting Your Vehicle" },
+  {
+    id: "rustguard",
+    layout: "image-right",
+    title: "RustGuard Pro",
+    bullets: ["Sealant: penetrates seams"],
+  },
+];
+
+describe("PresentationSlidesPanel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchPresentation).mockResolvedValue({ slides });
+    vi.mocked(updatePresentation).mockResolvedValue();
+  });
+
+  it("reorders, hides and adds slides, then saves the deck in order", async () => {
+    const user = userEvent.setup();
+    render(<PresentationSlidesPanel />);
+
+    await user.click(await screen.findByRole("button", { name: "Move RustGuard Pro up" }));
+    const rows = screen.getAllByTestId("presentation-slide");
+    await user.click(within(rows[1]!).getByRole("button", { name: "Hide" }));
+    await user.click(screen.getByRole("button", { name: "Add slide" }));
+    await user.click(screen.getByRole("button", { name: "Save presentation" }));
+
+    expect(updatePresentation).toHaveBeenCalledWith({
+      slides: [
+        slides[1],
+        { ...slides[0], hidden: true },
+        { id: "slide-3", layout: "image-right", title: "New slide" },
+      ],
+    });
+    expect(await screen.findByText("Presentation saved.")).toBeInTheDocument();
+  });
+
+  it("previews the selected slide as it is edited", async () => {
+    const user = userEvent.setup();
+    render(<PresentationSlidesPanel />);
+
+    await user.click(await screen.findByRole("button", { name: /RustGuard Pro$/ }));
+    const title = screen.getByLabelText("Title");
+    await user.clear(title);
+    await user.type(title, "RustGuard Max");
+
+    const preview = screen.getByTestId("slide-preview");
+    expect(within(preview).getByText("RustGuard Max")).toBeInTheDocument();
+    expect(within(preview).getByText("Sealant:")).toBeInTheDocument();
+  });
+
+  it("saves who each slide is for and the deck's recommendation rules", async () => {
+    const user = userEvent.setup();
+    render(<PresentationSlidesPanel />);
+
+    await user.click(await screen.findByRole("button", { name: /RustGuard Pro$/ }));
+    await user.type(screen.getByLabelText("Models"), "RX, NX");
+    await user.click(screen.getByRole("checkbox", { name: "Purchase deals" }));
+    await user.click(screen.getByRole("button", { name: "Add recommendation" }));
+    await user.type(screen.getByLabelText("Recommended package"), "Elite");
+    await user.selectOptions(screen.getByLabelText("Recommended for deal type"), "lease");
+    await user.click(screen.getByRole("button", { name: "Save presentation" }));
+
+    expect(updatePresentation).toHaveBeenCalledWith({
+      slides: [
+        slides[0],
+        { ...slides[1], audience: { models: ["RX", "NX"], dealTypes: ["purchase"] } },
+      ],
+      recommendations: [{ packageName: "Elite", audience: { dealTypes: ["lease"] } }],
+    });
+  });
+
+  it("turns on sampled slide analytics", async () => {
+    const user = userEvent.setup();
+    render(<PresentationSlidesPanel />);
+
+    await user.click(await screen.findByRole("checkbox", { name: "Record time on each slide" }));
+    const sampleRate = screen.getByLabelText("Sample rate percent");
+    await user.clear(sampleRate);
+    await user.type(sampleRate, "25");
+    await user.click(screen.getByRole("button", { name: "Save presentation" }));
+
+    expect(updatePresentation).toHaveBeenCalledWith({
+      slides,
+      telemetryEnabled: true,
+      telemetrySampleRate: 0.25,
+    });
+  });
+
+  it("shows why a save was rejected", async () => {
+    vi.mocked(updatePresentation).mockRejectedValue(new Error("Keep at least one slide visible."));
+    const user = userEvent.setup();
+    render(<PresentationSlidesPanel />);
+
+    await user.click(await screen.findByRole("button", { name: "Save presentation" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Keep at least one slide visible.");
+  });
+});
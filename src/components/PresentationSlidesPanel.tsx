@@ -0,0 +1,860 @@
+import React, { useEffect, useState } from "react";
+import type {
+  DealType,
+  FactoryWarranty,
+  ModelImage,
+  PackageRecommendation,
+  PresentationDeck,
+  PresentationSlide,
+  SlideCallout,
+  SlideFooter,
+  SlideIcon,
+  SlideLayout,
+} from "../types";
+import { DEFAULT_BRANDING } from "../constants";
+import { fetchPresentation, updatePresentation } from "../presentation";
+import { SLIDE_LAYOUT_LABELS, createSlide, moveSlide } from "../utils/slides";
+import {
+  audienceInputsFromAudience,
+  parseAudienceInputs,
+  type AudienceInputs,
+} from "../utils/personalization";
+import { DEAL_TYPE_LABELS } from "../utils/vehicle";
+import { EligibilityFields } from "./EligibilityFields";
+import { PresentationSlideView, SLIDE_ICONS } from "./PresentationSlideView";
+import { PresentationAnalyticsPanel } from "./PresentationAnalyticsPanel";
+
+interface WarrantyRow {
+  model: string;
+  basicMonths: string;
+  basicMiles: string;
+  powertrainMonths: string;
+  powertrainMiles: string;
+}
+
+interface RecommendationRow {
+  packageName: string;
+  models: string; // Comma separated
+  dealType: DealType | "";
+  audience?: PackageRecommendation["audience"]; // As loaded, for conditions not edited here
+}
+
+const inputClass = "bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white";
+
+const ICON_NAMES = Object.keys(SLIDE_ICONS) as SlideIcon[];
+const EMPTY_CALLOUT: SlideCallout = { title: "", text: "" };
+const EMPTY_MODEL_IMAGE: ModelImage = { model: "", image: "" };
+const EMPTY_WARRANTY: WarrantyRow = {
+  model: "",
+  basicMonths: "",
+  basicMiles: "",
+  powertrainMonths: "",
+  powertrainMiles: "",
+};
+const EMPTY_RECOMMENDATION: RecommendationRow = { packageName: "", models: "", dealType: "" };
+
+const parseWholeNumber = (raw: string): number | null => {
+  const normalized = raw.trim().replace(/,/g, "");
+  return /^\d+$/.test(normalized) && Number(normalized) > 0 ? Number(normalized) : null;
+};
+
+const toWarrantyRow = (warranty: FactoryWarranty): WarrantyRow => ({
+  model: warranty.model ?? "",
+  basicMonths: String(warranty.basicMonths),
+  basicMiles: String(warranty.basicMiles),
+  powertrainMonths: String(warranty.powertrainMonths),
+  powertrainMiles: String(warranty.powertrainMiles),
+});
+
+const toRecommendationRow = (recommendation: PackageRecommendation): RecommendationRow => ({
+  packageName: recommendation.packageName,
+  models: recommendation.audience?.models?.join(", ") ?? "",
+  dealType: recommendation.audience?.dealTypes?.[0] ?? "",
+  ...(recommendation.audience ? { audience: recommendation.audience } : {}),
+});
+
+const noop = () => undefined;
+
+/**
+ * Admin editor for the value presentation (app_config/presentation): add, reorder,
+ * hide and edit slides, with a preview of the selected one, and the rules that
+ * personalize the deck for each deal.
+ */
+export const PresentationSlidesPanel: React.FC = () => {
+  const [deck, setDeck] = useState<PresentationDeck>({ slides: [] });
+  const [audienceInputs, setAudienceInputs] = useState<Record<string, AudienceInputs>>({});
+  const [warrantyRows, setWarrantyRows] = useState<WarrantyRow[]>([]);
+  const [recommendationRows, setRecommendationRows] = useState<RecommendationRow[]>([]);
+  const [sampleRateInput, setSampleRateInput] = useState("100");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPresentation()
+      .then((loaded) => {
+        if (cancelled) return;
+        setDeck(loaded);
+        setWarrantyRows((loaded.warranties ?? []).map(toWarrantyRow));
+        setRecommendationRows((loaded.recommendations ?? []).map(toRecommendationRow));
+        setSampleRateInput(String(Math.round((loaded.telemetrySampleRate ?? 1) * 100)));
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load the presentation.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const slides = deck.slides;
+  const selected = slides[selectedIndex];
+  const selectedAudience = selected
+    ? (audienceInputs[selected.id] ?? audienceInputsFromAudience(selected.audience))
+    : undefined;
+
+  const setSlides = (update: (prev: PresentationSlide[]) => PresentationSlide[]) =>
+    setDeck((prev) => ({ ...prev, slides: update(prev.slides) }));
+
+  const updateAudience = (inputs: AudienceInputs) => {
+    if (!selected) return;
+    setAudienceInputs((prev) => ({ ...prev, [selected.id]: inputs }));
+  };
+
+  const handleDealTypeToggle = (dealType: DealType) => {
+    if (!selectedAudience) return;
+    const dealTypes = selectedAudience.dealTypes.includes(dealType)
+      ? selectedAudience.dealTypes.filter((existing) => existing !== dealType)
+      : [...selectedAudience.dealTypes, dealType];
+    updateAudience({ ...selectedAudience, dealTypes });
+  };
+
+  const updateModelImage = (index: number, patch: Partial<ModelImage>) =>
+    updateSelected({
+      modelImages: (selected?.modelImages ?? []).map((row, i) =>
+        i === index ? { ...row, ...patch } : row
+      ),
+    });
+
+  const updateWarrantyRow = (index: number, patch: Partial<WarrantyRow>) =>
+    setWarrantyRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const updateRecommendationRow = (index: number, patch: Partial<RecommendationRow>) =>
+    setRecommendationRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...patch } : row))
+    );
+
+  const updateSelected = (patch: Partial<PresentationSlide>) =>
+    setSlides((prev) =>
+      prev.map((slide, i) => (i === selectedIndex ? { ...slide, ...patch } : slide))
+    );
+
+  const updateCallout = (index: number, patch: Partial<SlideCallout>) =>
+    updateSelected({
+      callouts: (selected?.callouts ?? []).map((callout, i) =>
+        i === index ? { ...callout, ...patch } : callout
+      ),
+    });
+
+  const updateFooter = (patch: Partial<SlideFooter>) =>
+    updateSelected({ footer: { quote: "", ...selected?.footer, ...patch } });
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    setSlides((prev) => moveSlide(prev, index, offset));
+    if (selectedIndex === index) setSelectedIndex(index + offset);
+    else if (selectedIndex === index + offset) setSelectedIndex(index);
+  };
+
+  const handleAdd = () => {
+    setSlides((prev) => [...prev, createSlide(prev)]);
+    setSelectedIndex(slides.length);
+  };
+
+  const handleRemove = (index: number) => {
+    const removedId = slides[index]?.id ?? "";
+    setSlides((prev) => prev.filter((_, i) => i !== index));
+    setAudienceInputs((prev) => {
+      const { [removedId]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (selectedIndex > index || selectedIndex === slides.length - 1) {
+      setSelectedIndex(Math.max(0, selectedIndex - 1));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    let slidesToSave: PresentationSlide[];
+    try {
+      slidesToSave = slides.map((slide) => {
+        const inputs = audienceInputs[slide.id];
+        if (!inputs) return slide;
+        try {
+          const { audience: _previous, ...rest } = slide;
+          const audience = parseAudienceInputs(inputs);
+          return audience ? { ...rest, audience } : rest;
+        } catch (err) {
+          throw new Error(`${slide.title}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Check the slides' audiences.");
+      return;
+    }
+
+    const parsedWarranties = warrantyRows.map((row) => ({
+      model: row.model.trim(),
+      basicMonths: parseWholeNumber(row.basicMonths),
+      basicMiles: parseWholeNumber(row.basicMiles),
+      powertrainMonths: parseWholeNumber(row.powertrainMonths),
+      powertrainMiles: parseWholeNumber(row.powertrainMiles),
+    }));
+    if (
+      parsedWarranties.some(
+        (row) =>
+          row.basicMonths === null ||
+          row.basicMiles === null ||
+          row.powertrainMonths === null ||
+          row.powertrainMiles === null
+      )
+    ) {
+      setError("Each warranty needs its months and miles as whole numbers.");
+      return;
+    }
+    if (recommendationRows.some((row) => !row.packageName.trim())) {
+      setError("Each recommendation needs a package.");
+      return;
+    }
+    const sampleRate = Number(sampleRateInput.trim().replace(/%/g, ""));
+    if (
+      deck.telemetryEnabled &&
+      (!sampleRateInput.trim() || !(sampleRate >= 0 && sampleRate <= 100))
+    ) {
+      setError("Sample rate must be a percentage between 0 and 100.");
+      return;
+    }
+
+    const warranties: FactoryWarranty[] = parsedWarranties.map((row) => ({
+      ...(row.model ? { model: row.model } : {}),
+      basicMonths: row.basicMonths as number,
+      basicMiles: row.basicMiles as number,
+      powertrainMonths: row.powertrainMonths as number,
+      powertrainMiles: row.powertrainMiles as number,
+    }));
+    const recommendations: PackageRecommendation[] = recommendationRows.map((row) => {
+      const { models: _models, dealTypes: _dealTypes, ...otherConditions } = row.audience ?? {};
+      const models = row.models
+        .split(",")
+        .map((model) => model.trim())
+        .filter(Boolean);
+      const audience = {
+        ...otherConditions,
+        ...(models.length > 0 ? { models } : {}),
+        ...(row.dealType ? { dealTypes: [row.dealType] } : {}),
+      };
+      return {
+        packageName: row.packageName.trim(),
+        ...(Object.keys(audience).length > 0 ? { audience } : {}),
+      };
+    });
+
+    setIsSaving(true);
+    try {
+      await updatePresentation({
+        slides: slidesToSave,
+        ...(warranties.length > 0 ? { warranties } : {}),
+        ...(recommendations.length > 0 ? { recommendations } : {}),
+        ...(deck.telemetryEnabled
+          ? { telemetryEnabled: true, telemetrySampleRate: sampleRate / 100 }
+          : {}),
+      });
+      setMessage("Presentation saved.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the presentation.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-gray-400">Loading presentation...</p>;
+  }
+
+  return (
+    <div className="mt-10">
+      <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">
+        Value Presentation
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Slides show in this order. Hidden slides stay in the deck but are skipped when presenting.
+        Use {"{store}"} and {"{location}"} in any text for the store&apos;s name and location.
+      </p>
+
+      <form onSubmit={(e) => void handleSave(e)} className="space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-6">
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-300 mb-1">Slides</legend>
+            <ol className="space-y-2">
+              {slides.map((slide, index) => (
+                <li
+                  key={slide.id}
+                  data-testid="presentation-slide"
+                  className={`rounded-md border p-2 ${
+                    index === selectedIndex
+                      ? "border-blue-400 bg-gray-800"
+                      : "border-gray-700 bg-gray-800/50"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    aria-pressed={index === selectedIndex}
+                    className={`w-full text-left text-sm ${
+                      slide.hidden ? "text-gray-500 line-through" : "text-white"
+                    }`}
+                  >
+                    {index + 1}. {slide.title.split("\n").join(" ")}
+                  </button>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${slide.title} up`}
+                      className="btn-lux-ghost text-xs px-2 min-h-[32px] disabled:opacity-40"
+                    >
+                      Up
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === slides.length - 1}
+                      aria-label={`Move ${slide.title} down`}
+                      className="btn-lux-ghost text-xs px-2 min-h-[32px] disabled:opacity-40"
+                    >
+                      Down
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSlides((prev) =>
+                          prev.map((s, i) => (i === index ? { ...s, hidden: !s.hidden } : s))
+                        )
+                      }
+                      className="btn-lux-ghost text-xs px-2 min-h-[32px]"
+                    >
+                      {slide.hidden ? "Show" : "Hide"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(index)}
+                      className="btn-lux-ghost text-xs px-2 min-h-[32px]"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+            >
+              Add slide
+            </button>
+          </fieldset>
+
+          {selected && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Layout
+                  <select
+                    value={selected.layout}
+                    onChange={(e) => updateSelected({ layout: e.target.value as SlideLayout })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(SLIDE_LAYOUT_LABELS) as SlideLayout[]).map((layout) => (
+                      <option key={layout} value={layout}>
+                        {SLIDE_LAYOUT_LABELS[layout]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Kicker
+                  <input
+                    value={selected.kicker ?? ""}
+                    onChange={(e) => updateSelected({ kicker: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Title
+                  <textarea
+                    rows={2}
+                    value={selected.title}
+                    onChange={(e) => updateSelected({ title: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Badge
+                  <input
+                    value={selected.badge ?? ""}
+                    onChange={(e) => updateSelected({ badge: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Heading
+                  <input
+                    value={selected.heading ?? ""}
+                    onChange={(e) => updateSelected({ heading: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Heading icon
+                  <select
+                    value={selected.headingIcon ?? ""}
+                    onChange={(e) =>
+                      updateSelected({ headingIcon: (e.target.value || undefined) as SlideIcon })
+                    }
+                    className={inputClass}
+                  >
+                    <option value="">None</option>
+                    {ICON_NAMES.map((icon) => (
+                      <option key={icon} value={icon}>
+                        {icon}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <label className="flex flex-col gap-1 text-sm text-gray-300">
+                Body
+                <textarea
+                  rows={3}
+                  value={selected.body ?? ""}
+                  onChange={(e) => updateSelected({ body: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-gray-300">
+                Bullets (one per line; &quot;Label: text&quot; bolds the label)
+                <textarea
+                  rows={4}
+                  value={(selected.bullets ?? []).join("\n")}
+                  onChange={(e) => updateSelected({ bullets: e.target.value.split("\n") })}
+                  className={inputClass}
+                />
+              </label>
+
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-gray-300 mb-1">Callouts</legend>
+                {(selected.callouts ?? []).map((callout, index) => (
+                  <div
+                    key={index}
+                    className="flex flex-wrap items-center gap-2"
+                    data-testid="slide-callout"
+                  >
+                    <input
+                      aria-label="Callout title"
+                      value={callout.title}
+                      onChange={(e) => updateCallout(index, { title: e.target.value })}
+                      placeholder="Title"
+                      className={`${inputClass} w-40`}
+                    />
+                    <input
+                      aria-label="Callout text"
+                      value={callout.text}
+                      onChange={(e) => updateCallout(index, { text: e.target.value })}
+                      placeholder="Text"
+                      className={`${inputClass} flex-1 min-w-[12rem]`}
+                    />
+                    <select
+                      aria-label="Callout icon"
+                      value={callout.icon ?? ""}
+                      onChange={(e) =>
+                        updateCallout(index, { icon: (e.target.value || undefined) as SlideIcon })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="">Default</option>
+                      {ICON_NAMES.map((icon) => (
+                        <option key={icon} value={icon}>
+                          {icon}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateSelected({
+                          callouts: (selected.callouts ?? []).filter((_, i) => i !== index),
+                        })
+                      }
+                      className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateSelected({ callouts: [...(selected.callouts ?? []), EMPTY_CALLOUT] })
+                  }
+                  className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+                >
+                  Add callout
+                </button>
+              </fieldset>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Image URL
+                  <input
+                    value={selected.image ?? ""}
+                    onChange={(e) => updateSelected({ image: e.target.value })}
+                    placeholder="/MENU1.png"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Image description
+                  <input
+                    value={selected.imageAlt ?? ""}
+                    onChange={(e) => updateSelected({ imageAlt: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <legend className="text-sm font-medium text-gray-300 mb-1">Footer</legend>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Footer quote
+                  <input
+                    value={selected.footer?.quote ?? ""}
+                    onChange={(e) => updateFooter({ quote: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Footer label
+                  <input
+                    value={selected.footer?.label ?? ""}
+                    onChange={(e) => updateFooter({ label: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                  Footer tag
+                  <input
+                    value={selected.footer?.tag ?? ""}
+                    onChange={(e) => updateFooter({ tag: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={selected.footer?.tone === "warning"}
+                    onChange={(e) =>
+                      updateFooter({ tone: e.target.checked ? "warning" : "accent" })
+                    }
+                    className="form-checkbox h-4 w-4 text-blue-500"
+                  />
+                  Warning footer
+                </label>
+              </fieldset>
+
+              {selectedAudience && (
+                <fieldset className="space-y-3">
+                  <legend className="text-sm font-medium text-gray-300 mb-1">
+                    Show this slide for
+                  </legend>
+                  <p className="text-xs text-gray-500">
+                    Leave blank to show it on every deal. A detail the deal doesn&apos;t have yet
+                    doesn&apos;t hide the slide.
+                  </p>
+                  <EligibilityFields
+                    value={selectedAudience}
+                    onChange={(value) => updateAudience({ ...selectedAudience, ...value })}
+                  />
+                  <div className="flex flex-wrap gap-4">
+                    {(Object.keys(DEAL_TYPE_LABELS) as DealType[]).map((dealType) => (
+                      <label
+                        key={dealType}
+                        className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedAudience.dealTypes.includes(dealType)}
+                          onChange={() => handleDealTypeToggle(dealType)}
+                          className="form-checkbox h-4 w-4 text-blue-500"
+                        />
+                        {DEAL_TYPE_LABELS[dealType]} deals
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              )}
+
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-gray-300 mb-1">Model photos</legend>
+                <p className="text-xs text-gray-500">
+                  Replace the slide&apos;s photo for a model line or model, e.g. RX or RX 350h.
+                </p>
+                {(selected.modelImages ?? []).map((row, index) => (
+                  <div
+                    key={index}
+                    className="flex flex-wrap items-center gap-2"
+                    data-testid="slide-model-image"
+                  >
+                    <input
+                      aria-label="Photo model"
+                      value={row.model}
+                      onChange={(e) => updateModelImage(index, { model: e.target.value })}
+                      placeholder="RX"
+                      className={`${inputClass} w-32`}
+                    />
+                    <input
+                      aria-label="Photo URL"
+                      value={row.image}
+                      onChange={(e) => updateModelImage(index, { image: e.target.value })}
+                      placeholder="https://..."
+                      className={`${inputClass} flex-1 min-w-[12rem]`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateSelected({
+                          modelImages: (selected.modelImages ?? []).filter((_, i) => i !== index),
+                        })
+                      }
+                      className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateSelected({
+                      modelImages: [...(selected.modelImages ?? []), EMPTY_MODEL_IMAGE],
+                    })
+                  }
+                  className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+                >
+                  Add model photo
+                </button>
+              </fieldset>
+
+              <div>
+                <p className="text-sm font-medium text-gray-300 mb-1">Preview</p>
+                <div
+                  data-testid="slide-preview"
+                  className="relative aspect-video overflow-hidden flex flex-col px-8 rounded-lg border border-gray-700 bg-lux-bg1 text-white"
+                >
+                  <PresentationSlideView
+                    slide={selected}
+                    isActive
+                    branding={DEFAULT_BRANDING}
+                    onComplete={noop}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-300 mb-1">Factory warranty</legend>
+          <p className="text-xs text-gray-500">
+            Quoted wherever a slide says {"{basicWarranty}"} or {"{powertrainWarranty}"}. A row
+            without a model covers every model; with none, the standard Lexus terms are quoted.
+          </p>
+          {warrantyRows.map((row, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2" data-testid="warranty">
+              <input
+                aria-label="Warranty model"
+                value={row.model}
+                onChange={(e) => updateWarrantyRow(index, { model: e.target.value })}
+                placeholder="All models"
+                className={`${inputClass} w-32`}
+              />
+              <input
+                aria-label="Basic months"
+                inputMode="numeric"
+                value={row.basicMonths}
+                onChange={(e) => updateWarrantyRow(index, { basicMonths: e.target.value })}
+                placeholder="Basic months"
+                className={`${inputClass} w-32`}
+              />
+              <input
+                aria-label="Basic miles"
+                inputMode="numeric"
+                value={row.basicMiles}
+                onChange={(e) => updateWarrantyRow(index, { basicMiles: e.target.value })}
+                placeholder="Basic miles"
+                className={`${inputClass} w-32`}
+              />
+              <input
+                aria-label="Powertrain months"
+                inputMode="numeric"
+                value={row.powertrainMonths}
+                onChange={(e) => updateWarrantyRow(index, { powertrainMonths: e.target.value })}
+                placeholder="Powertrain months"
+                className={`${inputClass} w-40`}
+              />
+              <input
+                aria-label="Powertrain miles"
+                inputMode="numeric"
+                value={row.powertrainMiles}
+                onChange={(e) => updateWarrantyRow(index, { powertrainMiles: e.target.value })}
+                placeholder="Powertrain miles"
+                className={`${inputClass} w-40`}
+              />
+              <button
+                type="button"
+                onClick={() => setWarrantyRows((prev) => prev.filter((_, i) => i !== index))}
+                className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setWarrantyRows((prev) => [...prev, EMPTY_WARRANTY])}
+            className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+          >
+            Add warranty
+          </button>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-300 mb-1">Recommended package</legend>
+          <p className="text-xs text-gray-500">
+            The closing slide ends on the first package whose models and deal type match the deal.
+            Without a match, it ends on the package marked recommended in the Product Hub.
+          </p>
+          {recommendationRows.map((row, index) => (
+            <div
+              key={index}
+              className="flex flex-wrap items-center gap-2"
+              data-testid="recommendation"
+            >
+              <input
+                aria-label="Recommended package"
+                value={row.packageName}
+                onChange={(e) => updateRecommendationRow(index, { packageName: e.target.value })}
+                placeholder="Platinum"
+                className={`${inputClass} w-40`}
+              />
+              <input
+                aria-label="Recommended for models"
+                value={row.models}
+                onChange={(e) => updateRecommendationRow(index, { models: e.target.value })}
+                placeholder="All models, or e.g. RX, NX"
+                className={`${inputClass} flex-1 min-w-[12rem]`}
+              />
+              <select
+                aria-label="Recommended for deal type"
+                value={row.dealType}
+                onChange={(e) =>
+                  updateRecommendationRow(index, { dealType: e.target.value as DealType | "" })
+                }
+                className={inputClass}
+              >
+                <option value="">Any deal</option>
+                {(Object.keys(DEAL_TYPE_LABELS) as DealType[]).map((dealType) => (
+                  <option key={dealType} value={dealType}>
+                    {DEAL_TYPE_LABELS[dealType]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setRecommendationRows((prev) => prev.filter((_, i) => i !== index))}
+                className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setRecommendationRows((prev) => [...prev, EMPTY_RECOMMENDATION])}
+            className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+          >
+            Add recommendation
+          </button>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-300 mb-1">Slide analytics</legend>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-200">
+              <input
+                type="checkbox"
+                checked={Boolean(deck.telemetryEnabled)}
+                onChange={(e) =>
+                  setDeck((prev) => ({ ...prev, telemetryEnabled: e.target.checked }))
+                }
+                className="form-checkbox h-4 w-4 text-blue-500"
+              />
+              Record time on each slide
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              Sample
+              <input
+                aria-label="Sample rate percent"
+                inputMode="decimal"
+                value={sampleRateInput}
+                onChange={(e) => setSampleRateInput(e.target.value)}
+                disabled={!deck.telemetryEnabled}
+                className={`${inputClass} w-20 disabled:opacity-50`}
+              />
+              % of presentations
+            </label>
+          </div>
+        </fieldset>
+
+        {error && (
+          <p className="text-sm text-red-300" role="alert">
+            {error}
+          </p>
+        )}
+        {message && <p className="text-sm text-emerald-300">{message}</p>}
+
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          disabled={isSaving}
+        >
+          {isSaving ? "Saving..." : "Save presentation"}
+        </button>
+      </form>
+
+      <PresentationAnalyticsPanel slides={slides} />
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from "react";
+import type { PriceApprovalRequest } from "../types";
+import { decidePriceApproval, fetchPendingPriceApprovals, setManagerPin } from "../approvals";
+
+interface PriceApprovalInboxProps {
+  onBack: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Manager inbox for remote price-override approval requests, plus the manager's own
+ * approval PIN used for in-person sign-off on a rep's device.
+ */
+export const PriceApprovalInbox: React.FC<PriceApprovalInboxProps> = ({ onBack }) => {
+  const [requests, setRequests] = useState<PriceApprovalRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [isSavingPin, setIsSavingPin] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRequests(await fetchPendingPriceApprovals());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load approval requests.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRequests();
+  }, [loadRequests]);
+
+  const handleDecision = async (requestId: string, status: "approved" | "denied") => {
+    setDecidingId(requestId);
+    setError(null);
+    try {
+      await decidePriceApproval(requestId, status, notes[requestId]);
+      setRequests((prev) => prev.filter((request) => request.id !== requestId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record the decision.");
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleSavePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingPin(true);
+    setPinError(null);
+    setPinMessage(null);
+    try {
+      await setManagerPin(pin.trim());
+      setPin("");
+      setPinMessage("Approval PIN saved.");
+    } catch (err) {
+      setPinError(err instanceof Error ? err.message : "Failed to save the approval PIN.");
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl mx-auto border border-gray-700 animate-fade-in">
+      <header className="p-4 flex justify-between items-center gap-3 border-b border-gray-700">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 20 20"
+            fill="currentColor"
+            className="w-5 h-5"
+          >
+            <path
+              fillRule="evenodd"
+              d="M12.79 5.23a.75.75 0 0 1-.02 1.06L8.832 10l3.938 3.71a.75.75 0 1 1-1.04 1.08l-4.5-4.25a.75.75 0 0 1 0-1.08l4.5-4.25a.75.75 0 0 1 1.06.02Z"
+              clipRule="evenodd"
+            />
+          </svg>
+          Back to Menu
+        </button>
+        <button
+          type="button"
+          onClick={() => void loadRequests()}
+          className="btn-lux-ghost text-sm px-3"
+          disabled={isLoading}
+        >
+          Refresh
+        </button>
+      </header>
+
+      <div className="p-6 space-y-8">
+        <section>
+          <h2 className="text-3xl font-bold font-teko tracking-wider uppercase text-white mb-4">
+            Price Approvals
+          </h2>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4 text-red-200 font-semibold">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-gray-400">Loading approval requests...</p>
+          ) : requests.length === 0 ? (
+            <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 text-gray-300">
+              No pending approval requests.
+            </div>
+          ) : (
+            <ul className="space-y-4" data-testid="approval-requests">
+              {requests.map((request) => (
+                <li
+                  key={request.id}
+                  className="bg-gray-900/40 border border-gray-700 rounded-lg p-4"
+                  data-testid="approval-request"
+                >
+                  <div className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                    <p className="text-white font-semibold">
+                      {request.customerName || "Unnamed customer"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {request.requestedBy.email ?? request.requestedBy.uid} at{" "}
+                      {formatTime(request.requestedAt)}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-300 mt-1">Reason: {request.reason}</p>
+                  <table className="w-full text-sm mt-3">
+                    <thead>
+                      <tr className="text-gray-400 text-xs uppercase tracking-wider">
+                        <th className="text-left font-semibold pb-1">Item</th>
+                        <th className="text-right font-semibold pb-1">Standard</th>
+                        <th className="text-right font-semibold pb-1">Requested</th>
+                        <th className="text-right font-semibold pb-1">Gross Profit</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {request.items.map((item) => (
+                        <tr key={item.id} className="border-t border-gray-800">
+                          <td className="py-1 text-gray-200">{item.name}</td>
+                          <td className="py-1 text-right font-mono text-gray-400">
+                            {formatCurrency(item.standardPrice)}
+                          </td>
+                          <td className="py-1 text-right font-mono text-white">
+                            {formatCurrency(item.price)}
+                          </td>
+                          <td
+                            className={`py-1 text-right font-mono ${
+                              item.grossProfit < 0 ? "text-red-300" : "text-gray-200"
+                            }`}
+                          >
+                            {formatCurrency(item.grossProfit)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-sm text-gray-300 mt-2 text-right">
+                    Deal gross profit:{" "}
+                    <span className="font-mono text-white">
+                      {formatCurrency(request.dealGrossProfit)}
+                    </span>
+                  </p>
+                  <div className="mt-3 flex flex-col sm:flex-row sm:items-end gap-3">
+                    <div className="flex-1">
+                      <label
+                        htmlFor={`approval-note-${request.id}`}
+                        className="block text-sm font-medium text-gray-300 mb-1"
+                      >
+                        Note (optional)
+                      </label>
+                      <input
+                        id={`approval-note-${request.id}`}
+                        value={notes[request.id] ?? ""}
+                        onChange={(e) =>
+                          setNotes((prev) => ({ ...prev, [request.id]: e.target.value }))
+                        }
+                        className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 justify-end">
+                      <button
+                        type="button"
+                        onClick={() => void handleDecision(request.id, "denied")}
+                        className="btn-lux-ghost px-3 min-h-[40px]"
+                        disabled={decidingId === request.id}
+                      >
+                        Deny
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleDecision(request.id, "approved")}
+                        className="bg-blue-600 text-white px-3 min-h-[40px] rounded-md font-bold hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        disabled={decidingId === request.id}
+                      >
+                        Approve
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="border-t border-gray-700 pt-6">
+          <h3 className="text-xl font-teko tracking-wider text-white">Your approval PIN</h3>
+          <p className="text-sm text-gray-400 mb-3">
+            Enter this on a rep&apos;s tablet to approve a discount in person.
+          </p>
+          <form onSubmit={(e) => void handleSavePin(e)} className="flex items-end gap-3">
+            <div>
+              <label htmlFor="manager-pin" className="block text-sm font-medium text-gray-300 mb-1">
+                New PIN (6-8 digits)
+              </label>
+              <input
+                id="manager-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                className="w-40 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm tracking-widest"
+              />
+            </div>
+            <button
+              type="submit"
+              className="btn-lux-secondary text-sm px-3 min-h-[40px]"
+              disabled={isSavingPin || !pin.trim()}
+            >
+              {isSavingPin ? "Saving..." : "Save PIN"}
+            </button>
+          </form>
+          {pinMessage && <p className="text-sm text-emerald-300 mt-2">{pinMessage}</p>}
+          {pinError && (
+            <p className="text-sm text-red-300 mt-2" role="alert">
+              {pinError}
+            </p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { PriceApprovalPanel } from "./PriceApprovalPanel";
+import { fetchApprovers, requestPriceApproval, verifyManagerPin } from "../approvals";
+import type { FloorViolation, PricedFloorLine } from "../utils/pricingFloor";
+
+vi.mock("../approvals", () => ({
+  fetchApprovers: vi.fn(),
+  fetchPriceApprovalRequest: vi.fn(),
+  requestPriceApproval: vi.fn(),
+  verifyManagerPin: vi.fn(),
+}));
+
+const lines: PricedFloorLine[] = [
+  {
+    id: "gold",
+    name: "Gold Package",
+    standardPrice: 2500,
+    standardCost: 900,
+    price: 1000,
+    cost: 900,
+    grossProfit: 100,
+    isOverridden: true,
+  },
+];
+
+const violations: FloorViolation[] = [
+  { id: "gold", name: "Gold Package", grossProfit: 100, floor: 500 },
+];
+
+describe("PriceApprovalPanel", () => {
+  const defaultProps = {
+    violations,
+    lines,
+    dealGrossProfit: 100,
+    overrides: { gold: { price: 1000 } },
+    showAmounts: false,
+    canRequestRemote: true,
+    onApproved: vi.fn(),
+    onCancel: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchApprovers).mockResolvedValue([
+      { uid: "manager-1", name: "Pat" },
+      { uid: "manager-2", name: "Sam" },
+    ]);
+  });
+
+  it("lists the items below the floor without amounts for reps", () => {
+    render(<PriceApprovalPanel {...defaultProps} />);
+
+    expect(screen.getByText("Gold Package")).toBeInTheDocument();
+    expect(screen.queryByText(/\$100/)).not.toBeInTheDocument();
+  });
+
+  it("explains an approval needed for prices above the floor", () => {
+    render(<PriceApprovalPanel {...defaultProps} violations={[]} />);
+
+    expect(
+      screen.getByText(/need a manager's approval while pricing floors are set/)
+    ).toBeInTheDocument();
+  });
+
+  it("requires a reason before approving", async () => {
+    const user = userEvent.setup();
+    render(
+      <PriceApprovalPanel {...defaultProps} selfApprover={{ uid: "manager-1", name: "Pat" }} />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Approve & save" }));
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Enter a reason");
+    expect(defaultProps.onApproved).not.toHaveBeenCalled();
+  });
+
+  it("lets a manager approve their own override", async () => {
+    const user = userEvent.setup();
+    render(
+      <PriceApprovalPanel {...defaultProps} selfApprover={{ uid: "manager-1", name: "Pat" }} />
+    );
+
+    await user.type(screen.getByLabelText("Reason"), "Loyal customer");
+    await user.click(screen.getByRole("button", { name: "Approve & save" }));
+
+    expect(defaultProps.onApproved).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "self",
+        approvedBy: { uid: "manager-1", name: "Pat" },
+        reason: "Loyal customer",
+        overrides: { gold: { price: 1000 } },
+      })
+    );
+  });
+
+  it("approves with a manager's PIN", async () => {
+    vi.mocked(verifyManagerPin).mockResolvedValue({
+      approvedBy: { uid: "manager-2", name: "Sam" },
+      requestId: "pin-approval-1",
+    });
+    const user = userEvent.setup();
+    render(<PriceApprovalPanel {...defaultProps} />);
+
+    await user.type(screen.getByLabelText("Reason"), "Competitor match");
+    await user.selectOptions(await screen.findByLabelText("Manager"), "Sam");
+    await user.type(screen.getByLabelText("Manager PIN"), "246813");
+    await user.click(screen.getByRole("button", { name: "Approve & save" }));
+
+    await waitFor(() =>
+      expect(defaultProps.onApproved).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: "pin",
+          approvedBy: { uid: "manager-2", name: "Sam" },
+          requestId: "pin-approval-1",
+        })
+      )
+    );
+    expect(verifyManagerPin).toHaveBeenCalledWith({ uid: "manager-2", name: "Sam" }, "246813", {
+      reason: "Competitor match",
+      overrides: defaultProps.overrides,
+    });
+  });
+
+  it("rejects a PIN that isn't the chosen manager's", async () => {
+    vi.mocked(verifyManagerPin).mockResolvedValue(null);
+    const user = userEvent.setup();
+    render(<PriceApprovalPanel {...defaultProps} />);
+
+    await user.type(screen.getByLabelText("Reason"), "Competitor match");
+    await user.selectOptions(await screen.findByLabelText("Manager"), "Sam");
+    await user.type(screen.getByLabelText("Manager PIN"), "000000");
+    await user.click(screen.getByRole("button", { name: "Approve & save" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("does not match Sam's");
+    expect(defaultProps.onApproved).not.toHaveBeenCalled();
+  });
+
+  it("waits for a manager to be chosen before checking a PIN", async () => {
+    const user = userEvent.setup();
+    render(<PriceApprovalPanel {...defaultProps} />);
+
+    await user.type(screen.getByLabelText("Reason"), "Competitor match");
+    await user.type(screen.getByLabelText("Manager PIN"), "246813");
+
+    expect(screen.getByRole("button", { name: "Approve & save" })).toBeDisabled();
+    expect(verifyManagerPin).not.toHaveBeenCalled();
+  });
+
+  it("sends a remote request with the overridden lines", async () => {
+    vi.mocked(requestPriceApproval).mockResolvedValue("request-1");
+    const user = userEvent.setup();
+    render(<PriceApprovalPanel {...defaultProps} customerName="Jane Doe" />);
+
+    await user.click(screen.getByRole("radio", { name: "Request remotely" }));
+    await user.type(screen.getByLabelText("Reason"), "Competitor match");
+    await user.click(screen.getByRole("button", { name: "Send request" }));
+
+    expect(await screen.findByText(/Waiting for a manager/)).toBeInTheDocument();
+    expect(requestPriceApproval).toHaveBeenCalledWith({
+      reason: "Competitor match",
+      customerName: "Jane Doe",
+      items: [
+        { id: "gold", name: "Gold Package", standardPrice: 2500, price: 1000, grossProfit: 100 },
+      ],
+      dealGrossProfit: 100,
+      overrides: { gold: { price: 1000 } },
+    });
+  });
+});
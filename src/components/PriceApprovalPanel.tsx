@@ -0,0 +1,347 @@
+import React, { useEffect, useState } from "react";
+import type { PriceApproval, PriceApprovalRequest, PriceOverrides } from "../types";
+import type { FloorViolation, PricedFloorLine } from "../utils/pricingFloor";
+import {
+  fetchApprovers,
+  fetchPriceApprovalRequest,
+  requestPriceApproval,
+  verifyManagerPin,
+} from "../approvals";
+
+// How often the rep's device checks whether a manager has decided a remote request
+const APPROVAL_POLL_INTERVAL_MS = 5000;
+
+type ApprovalMode = "pin" | "remote" | "self";
+
+interface PriceApprovalPanelProps {
+  violations: FloorViolation[];
+  lines: PricedFloorLine[];
+  dealGrossProfit: number;
+  overrides: PriceOverrides;
+  customerName?: string;
+  // Reps don't see dealer cost, so gross-profit amounts are only shown to managers
+  showAmounts: boolean;
+  // Set when the signed-in user can approve their own overrides (manager/admin)
+  selfApprover?: PriceApproval["approvedBy"] | null;
+  // Remote requests need Firestore; hidden in demo mode
+  canRequestRemote: boolean;
+  onApproved: (approval: PriceApproval) => void;
+  onCancel: () => void;
+}
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+  }).format(value);
+
+export const PriceApprovalPanel: React.FC<PriceApprovalPanelProps> = ({
+  violations,
+  lines,
+  dealGrossProfit,
+  overrides,
+  customerName,
+  showAmounts,
+  selfApprover = null,
+  canRequestRemote,
+  onApproved,
+  onCancel,
+}) => {
+  const [mode, setMode] = useState<ApprovalMode>(selfApprover ? "self" : "pin");
+  const [reason, setReason] = useState("");
+  const [approvers, setApprovers] = useState<PriceApproval["approvedBy"][]>([]);
+  const [approverUid, setApproverUid] = useState("");
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [pendingRequestId, setPendingRequestId] = useState<string | null>(null);
+  const [deniedRequest, setDeniedRequest] = useState<PriceApprovalRequest | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchApprovers()
+      .then((list) => {
+        if (!cancelled) setApprovers(list);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load managers.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!pendingRequestId) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const request = await fetchPriceApprovalRequest(pendingRequestId);
+        if (cancelled || !request || request.status === "pending") return;
+
+        setPendingRequestId(null);
+        if (request.status === "denied") {
+          setDeniedRequest(request);
+          return;
+        }
+        onApproved({
+          method: "remote",
+          approvedBy: request.decidedBy ?? { uid: "unknown" },
+          approvedAt: request.decidedAt ?? Date.now(),
+          reason: request.decisionNote
+            ? `${request.reason} (${request.decisionNote})`
+            : request.reason,
+          overrides: request.overrides,
+          requestId: request.id,
+        });
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to check the approval request.");
+        }
+      }
+    };
+
+    const interval = window.setInterval(() => void poll(), APPROVAL_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [pendingRequestId, onApproved]);
+
+  const trimmedReason = reason.trim();
+  const approver = approvers.find((candidate) => candidate.uid === approverUid) ?? null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmedReason) {
+      setError("Enter a reason for the discount.");
+      return;
+    }
+
+    setError(null);
+    setDeniedRequest(null);
+
+    if (mode === "self" && selfApprover) {
+      onApproved({
+        method: "self",
+        approvedBy: selfApprover,
+        approvedAt: Date.now(),
+        reason: trimmedReason,
+        overrides,
+      });
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      if (mode === "pin") {
+        if (!approver) {
+          setError("Choose the manager approving.");
+          return;
+        }
+        const verified = await verifyManagerPin(approver, pin.trim(), {
+          reason: trimmedReason,
+          overrides,
+        });
+        if (!verified) {
+          setError(`That PIN does not match ${approver.name ?? "that manager"}'s.`);
+          setPin("");
+          return;
+        }
+        onApproved({
+          method: "pin",
+          approvedBy: verified.approvedBy,
+          approvedAt: Date.now(),
+          reason: trimmedReason,
+          overrides,
+          requestId: verified.requestId,
+        });
+      } else {
+        const requestId = await requestPriceApproval({
+          reason: trimmedReason,
+          ...(customerName ? { customerName } : {}),
+          items: lines
+            .filter((line) => line.isOverridden)
+            .map((line) => ({
+              id: line.id,
+              name: line.name,
+              standardPrice: line.standardPrice,
+              price: line.price,
+              grossProfit: line.grossProfit,
+            })),
+          dealGrossProfit,
+          overrides,
+        });
+        setPendingRequestId(requestId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Approval failed.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const modes: Array<{ id: ApprovalMode; label: string }> = [
+    ...(selfApprover ? [{ id: "self" as const, label: "Approve myself" }] : []),
+    { id: "pin", label: "Manager PIN" },
+    ...(canRequestRemote ? [{ id: "remote" as const, label: "Request remotely" }] : []),
+  ];
+
+  return (
+    <div
+      className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 animate-fade-in"
+      role="region"
+      aria-label="Manager approval required"
+    >
+      <p className="font-semibold text-amber-100">Manager approval required</p>
+      {violations.length > 0 ? (
+        <>
+          <p className="text-sm text-amber-200/80 mt-0.5">
+            These prices are below the minimum gross profit:
+          </p>
+          <ul className="mt-2 text-sm text-amber-100 list-disc list-inside">
+            {violations.map((violation) => (
+              <li key={violation.id ?? "deal"}>
+                {violation.name}
+                {showAmounts &&
+                  ` — gross profit ${formatMoney(violation.grossProfit)} (floor ${formatMoney(violation.floor)})`}
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="text-sm text-amber-200/80 mt-0.5">
+          Adjusted prices need a manager&apos;s approval while pricing floors are set.
+        </p>
+      )}
+
+      {pendingRequestId ? (
+        <div className="mt-4 flex items-center justify-between gap-3" role="status">
+          <p className="text-sm text-amber-100">Waiting for a manager to respond...</p>
+          <button
+            type="button"
+            onClick={() => setPendingRequestId(null)}
+            className="btn-lux-ghost px-3 min-h-[40px]"
+          >
+            Stop waiting
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={(e) => void handleSubmit(e)} className="mt-4 space-y-3">
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Approval method">
+            {modes.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={mode === option.id}
+                onClick={() => {
+                  setMode(option.id);
+                  setError(null);
+                }}
+                className={`px-3 py-1.5 rounded-md text-sm font-semibold border transition-colors ${
+                  mode === option.id
+                    ? "bg-amber-500 text-black border-amber-500"
+                    : "border-amber-500/40 text-amber-100 hover:bg-amber-500/10"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label
+              htmlFor="approval-reason"
+              className="block text-sm font-medium text-amber-100 mb-1"
+            >
+              Reason
+            </label>
+            <input
+              id="approval-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Matching competitor quote"
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+            />
+          </div>
+
+          {mode === "pin" && (
+            <div>
+              <label
+                htmlFor="approval-manager"
+                className="block text-sm font-medium text-amber-100 mb-1"
+              >
+                Manager
+              </label>
+              <select
+                id="approval-manager"
+                value={approverUid}
+                onChange={(e) => setApproverUid(e.target.value)}
+                className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+              >
+                <option value="">
+                  {approvers.length > 0 ? "Choose a manager" : "No manager has set a PIN"}
+                </option>
+                {approvers.map((candidate) => (
+                  <option key={candidate.uid} value={candidate.uid}>
+                    {candidate.name ?? candidate.uid}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {mode === "pin" && (
+            <div>
+              <label
+                htmlFor="approval-pin"
+                className="block text-sm font-medium text-amber-100 mb-1"
+              >
+                Manager PIN
+              </label>
+              <input
+                id="approval-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                className="w-40 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm tracking-widest"
+              />
+            </div>
+          )}
+
+          {deniedRequest && (
+            <p className="text-sm text-red-300" role="alert">
+              Denied by {deniedRequest.decidedBy?.name ?? "a manager"}
+              {deniedRequest.decisionNote ? `: ${deniedRequest.decisionNote}` : "."}
+            </p>
+          )}
+          {error && (
+            <p className="text-sm text-red-300" role="alert">
+              {error}
+            </p>
+          )}
+
+          <div className="flex items-center gap-2 justify-end">
+            <button type="button" onClick={onCancel} className="btn-lux-ghost px-3 min-h-[40px]">
+              Keep editing
+            </button>
+            <button
+              type="submit"
+              className="bg-amber-500 text-black px-3 min-h-[40px] rounded-md font-bold disabled:opacity-50"
+              disabled={isWorking || (mode === "pin" && (!approver || !pin.trim()))}
+            >
+              {isWorking ? "Checking..." : mode === "remote" ? "Send request" : "Approve & save"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import { fetchPricingPolicy, updatePricingPolicy } from "../approvals";
+
+const parseFloorInput = (raw: string): number | undefined | null => {
+  const normalized = raw.trim().replace(/[$,\s]/g, "");
+  if (!normalized) return undefined;
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Admin editor for the minimum gross-profit floors (app_config/pricing_policy).
+ * Overrides that go below a floor need manager approval in the pricing adjustments modal.
+ */
+export const PricingPolicyPanel: React.FC = () => {
+  const [itemFloor, setItemFloor] = useState("");
+  const [dealFloor, setDealFloor] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPricingPolicy()
+      .then((policy) => {
+        if (cancelled) return;
+        setItemFloor(policy.minItemGrossProfit?.toString() ?? "");
+        setDealFloor(policy.minDealGrossProfit?.toString() ?? "");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const minItemGrossProfit = parseFloorInput(itemFloor);
+    const minDealGrossProfit = parseFloorInput(dealFloor);
+    if (minItemGrossProfit === null || minDealGrossProfit === null) {
+      setError("Floors must be dollar amounts, or blank for no floor.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updatePricingPolicy({ minItemGrossProfit, minDealGrossProfit });
+      setMessage("Pricing floors saved.");
+    } catch (err) {
+      console.error("Failed to save pricing policy:", err);
+      setError("Failed to save pricing floors. Please check your connection and try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-xl">
+      <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">
+        Minimum Gross Profit
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Price overrides that take an item or the whole deal below these floors need a manager&apos;s
+        approval. Leave blank for no floor.
+      </p>
+
+      {isLoading ? (
+        <p className="text-gray-400">Loading pricing floors...</p>
+      ) : (
+        <form onSubmit={(e) => void handleSave(e)} className="space-y-4">
+          <div>
+            <label
+              htmlFor="min-item-gross-profit"
+              className="block text-sm font-medium text-gray-300 mb-1"
+            >
+              Per item
+            </label>
+            <input
+              id="min-item-gross-profit"
+              inputMode="numeric"
+              value={itemFloor}
+              onChange={(e) => setItemFloor(e.target.value)}
+              placeholder="No floor"
+              className="w-48 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="min-deal-gross-profit"
+              className="block text-sm font-medium text-gray-300 mb-1"
+            >
+              Per deal
+            </label>
+            <input
+              id="min-deal-gross-profit"
+              inputMode="numeric"
+              value={dealFloor}
+              onChange={(e) => setDealFloor(e.target.value)}
+              placeholder="No floor"
+              className="w-48 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white"
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-300" role="alert">
+              {error}
+            </p>
+          )}
+          {message && <p className="text-sm text-emerald-300">{message}</p>}
+
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {isSaving ? "Saving..." : "Save floors"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
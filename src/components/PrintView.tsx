@@ -1,12 +1,24 @@
 import React from "react";
-import type { PackageTier, AlaCarteOption } from "../types";
-
-interface CustomerInfo {
-  name: string;
-  year: string;
-  make: string;
-  model: string;
-}
+import type {
+  PackageTier,
+  AlaCarteOption,
+  PriceApproval,
+  AppliedPromotion,
+  TaxBreakdown,
+  DealSignatures,
+  DeclinedProduct,
+  SignatureCapture,
+  CustomerInfo,
+  DealershipBranding,
+} from "../types";
+import { describePriceApproval } from "../utils/pricingFloor";
+import { feeGrossProfit, formatTaxRate } from "../utils/taxFees";
+import { declinedProductLabel } from "../utils/declinations";
+import type { TermComparison } from "../utils/payments";
+import { formatMonthlyPayment } from "../utils/payments";
+import { formatVehicle, vehicleDetailRows } from "../utils/vehicle";
+import { tierColor } from "../utils/theme";
+import { DealershipLogo } from "./DealershipLogo";
 
 interface PrintViewProps {
   selectedPackage: PackageTier | null;
@@ -19,19 +31,19 @@ interface PrintViewProps {
   baseTotalPrice?: number;
   basePackagePricesById?: Record<string, number>;
   baseAddonPricesById?: Record<string, number>;
+  promotions?: AppliedPromotion[];
+  taxBreakdown?: TaxBreakdown | null;
+  termComparison?: TermComparison | null;
+  quoteNumber?: string;
+  priceApproval?: PriceApproval | null;
+  signatures?: DealSignatures;
+  // Offered products the customer did not buy, each printed with an initials line.
+  // Printed on the manager copy too, for the deal jacket.
+  declinedProducts?: DeclinedProduct[];
+  // The selling store's logo and address. Unset: the default branding
+  branding?: DealershipBranding;
 }
 
-const LexusLogo: React.FC = () => (
-  <div className="font-teko tracking-widest text-black">
-    <p className="text-3xl font-bold">
-      PRIORITY <span className="font-light text-gray-700">LEXUS</span>
-    </p>
-    <p className="text-sm tracking-widest text-gray-600 -mt-2">
-      VIRGINIA BEACH
-    </p>
-  </div>
-);
-
 const formatCurrency = (amount: number) =>
   new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(
     amount
@@ -48,24 +60,33 @@ export const PrintView: React.FC<PrintViewProps> = ({
   baseTotalPrice,
   basePackagePricesById,
   baseAddonPricesById,
+  promotions = [],
+  taxBreakdown = null,
+  termComparison = null,
+  quoteNumber,
+  priceApproval = null,
+  signatures = {},
+  declinedProducts = [],
+  branding,
 }) => {
   const packageLine = selectedPackage
     ? ({ ...selectedPackage, name: `${selectedPackage.name} Package` } as const)
     : null;
   const pick2Line = pick2 && pick2.items.length > 0 ? pick2 : null;
-  const vehicleString = [
-    customerInfo.year,
-    customerInfo.make,
-    customerInfo.model,
-  ]
-    .filter(Boolean)
-    .join(" ");
+  const vehicleString = formatVehicle(customerInfo);
   const todayDate = new Date().toLocaleDateString("en-US", {
     year: "numeric",
     month: "long",
     day: "numeric",
   });
-  const grossProfit = totalPrice - totalCost;
+  const hasTaxOrFees =
+    !!taxBreakdown &&
+    (taxBreakdown.taxes.length > 0 || taxBreakdown.fees.length > 0);
+  const feeCost = taxBreakdown
+    ? taxBreakdown.fees.reduce((sum, fee) => sum + fee.cost, 0)
+    : 0;
+  const grossProfit =
+    totalPrice - totalCost + (taxBreakdown ? feeGrossProfit(taxBreakdown) : 0);
   const showDiscountTotal =
     typeof baseTotalPrice === "number" && baseTotalPrice > totalPrice;
 
@@ -77,10 +98,93 @@ export const PrintView: React.FC<PrintViewProps> = ({
     return currentRetail;
   };
 
+  const renderPromotionRows = (itemId: string) =>
+    promotions
+      .filter((promotion) => promotion.itemId === itemId)
+      .map((promotion) => (
+        <tr
+          key={`promo-${itemId}-${promotion.promotionId}`}
+          className="border-b border-gray-200"
+        >
+          <td className="py-2 pr-2 pl-6 text-xs text-gray-700">
+            Promotion: {promotion.name}
+          </td>
+          <td className="text-right font-mono pr-2 text-xs text-gray-700">
+            -{formatCurrency(promotion.amount)}
+          </td>
+          {isManagerView && (
+            <td className="text-right font-mono text-xs text-gray-500"></td>
+          )}
+        </tr>
+      ));
+
+  // A captured signature sits on its line; an unsigned one leaves the line blank for pen.
+  const renderSignatureLine = (label: string, capture?: SignatureCapture) => (
+    <div>
+      {capture ? (
+        <img
+          src={capture.image}
+          alt={label}
+          className="h-12 w-full object-contain object-left border-b-2 border-black"
+        />
+      ) : (
+        <div className="border-b-2 border-black pt-12"></div>
+      )}
+      <p className="mt-2 font-bold">{label}</p>
+      {capture && (
+        <p className="text-xs">
+          Signed {new Date(capture.signedAt).toLocaleString("en-US")}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderTaxRows = () => {
+    if (!taxBreakdown || !hasTaxOrFees) return null;
+    return (
+      <>
+        {taxBreakdown.taxes.length > 0 && (
+          <tr className="text-gray-700">
+            <td className={`text-right pt-2 ${isManagerView ? "col-span-2" : ""}`}>
+              Taxable Subtotal:
+            </td>
+            <td className="text-right pt-2 font-mono">
+              {formatCurrency(taxBreakdown.taxableSubtotal)}
+            </td>
+          </tr>
+        )}
+        {taxBreakdown.taxes.map((tax) => (
+          <tr key={`tax-${tax.label}`} className="text-gray-700">
+            <td className={`text-right pt-1 ${isManagerView ? "col-span-2" : ""}`}>
+              {tax.label} ({formatTaxRate(tax.rate)}):
+            </td>
+            <td className="text-right pt-1 font-mono">{formatCurrency(tax.amount)}</td>
+          </tr>
+        ))}
+        {taxBreakdown.fees.map((fee) => (
+          <tr key={`fee-${fee.label}`} className="text-gray-700">
+            <td className={`text-right pt-1 ${isManagerView ? "col-span-2" : ""}`}>
+              {fee.label}:
+            </td>
+            <td className="text-right pt-1 font-mono">{formatCurrency(fee.amount)}</td>
+          </tr>
+        ))}
+        <tr className="font-bold border-t-2 border-black">
+          <td className={`text-right pt-2 ${isManagerView ? "col-span-2" : ""}`}>
+            Grand Total:
+          </td>
+          <td className="text-right pt-2 font-mono text-lg">
+            {formatCurrency(taxBreakdown.grandTotal)}
+          </td>
+        </tr>
+      </>
+    );
+  };
+
   return (
     <div className="bg-white text-black p-8 font-sans">
       <header className="flex justify-between items-start mb-8">
-        <LexusLogo />
+        <DealershipLogo branding={branding} isPrint showAddress />
         <div className="text-right">
           <h1 className="text-3xl font-bold font-teko tracking-wider uppercase">
             {isManagerView
@@ -90,6 +194,11 @@ export const PrintView: React.FC<PrintViewProps> = ({
           <p className="font-semibold text-gray-700 -mt-1">
             {isManagerView ? "Confidential - Manager Copy" : "Customer Copy"}
           </p>
+          {quoteNumber && (
+            <p className="text-sm font-mono text-gray-700 mt-1">
+              Quote # <span className="font-bold text-black">{quoteNumber}</span>
+            </p>
+          )}
         </div>
       </header>
 
@@ -103,6 +212,19 @@ export const PrintView: React.FC<PrintViewProps> = ({
         <div>
           <strong>Date:</strong> {todayDate}
         </div>
+        <div
+          className="col-span-3 flex flex-wrap gap-x-6 gap-y-1 text-xs"
+          data-testid="print-vehicle-details"
+        >
+          {vehicleDetailRows(customerInfo).map((row) => (
+            <span key={row.label}>
+              <strong>{row.label}:</strong>{" "}
+              <span className={row.label === "VIN" ? "font-mono" : undefined}>
+                {row.value}
+              </span>
+            </span>
+          ))}
+        </div>
       </section>
 
       <table className="w-full text-sm">
@@ -123,27 +245,38 @@ export const PrintView: React.FC<PrintViewProps> = ({
         </thead>
         <tbody>
           {packageLine ? (
-            <tr key={packageLine.id} className="border-b border-gray-300">
-              <td className="py-3 pr-2">{packageLine.name}</td>
-              <td className="text-right font-mono pr-2">
-                {(() => {
-                  const baseRetail = getBaseRetailPrice(packageLine.id, packageLine.price);
-                  const isDiscounted = baseRetail > packageLine.price;
-                  if (!isDiscounted) return formatCurrency(packageLine.price);
-                  return (
-                    <div className="inline-flex flex-col items-end">
-                      <span className="text-xs text-gray-500 line-through decoration-2 decoration-gray-400/60">
-                        {formatCurrency(baseRetail)}
-                      </span>
-                      <span className="text-black">{formatCurrency(packageLine.price)}</span>
-                    </div>
-                  );
-                })()}
-              </td>
-              {isManagerView && (
-                <td className="text-right font-mono">{formatCurrency(packageLine.cost)}</td>
-              )}
-            </tr>
+            <React.Fragment key={packageLine.id}>
+              <tr className="border-b border-gray-300">
+                <td className="py-3 pr-2">
+                  {/* Drawn as a border: browsers skip background colors when printing */}
+                  <span
+                    aria-hidden="true"
+                    className="inline-block rounded-full mr-2 align-middle border-[5px]"
+                    style={{ borderColor: tierColor(selectedPackage?.name ?? "") }}
+                  />
+                  {packageLine.name}
+                </td>
+                <td className="text-right font-mono pr-2">
+                  {(() => {
+                    const baseRetail = getBaseRetailPrice(packageLine.id, packageLine.price);
+                    const isDiscounted = baseRetail > packageLine.price;
+                    if (!isDiscounted) return formatCurrency(packageLine.price);
+                    return (
+                      <div className="inline-flex flex-col items-end">
+                        <span className="text-xs text-gray-500 line-through decoration-2 decoration-gray-400/60">
+                          {formatCurrency(baseRetail)}
+                        </span>
+                        <span className="text-black">{formatCurrency(packageLine.price)}</span>
+                      </div>
+                    );
+                  })()}
+                </td>
+                {isManagerView && (
+                  <td className="text-right font-mono">{formatCurrency(packageLine.cost)}</td>
+                )}
+              </tr>
+              {renderPromotionRows(packageLine.id)}
+            </React.Fragment>
           ) : null}
 
           {pick2Line ? (
@@ -168,27 +301,30 @@ export const PrintView: React.FC<PrintViewProps> = ({
           ) : null}
 
           {customPackageItems.map((item) => (
-            <tr key={item.id} className="border-b border-gray-300">
-              <td className="py-3 pr-2">{item.name}</td>
-              <td className="text-right font-mono pr-2">
-                {(() => {
-                  const baseRetail = getBaseRetailPrice(item.id, item.price);
-                  const isDiscounted = baseRetail > item.price;
-                  if (!isDiscounted) return formatCurrency(item.price);
-                  return (
-                    <div className="inline-flex flex-col items-end">
-                      <span className="text-xs text-gray-500 line-through decoration-2 decoration-gray-400/60">
-                        {formatCurrency(baseRetail)}
-                      </span>
-                      <span className="text-black">{formatCurrency(item.price)}</span>
-                    </div>
-                  );
-                })()}
-              </td>
-              {isManagerView && (
-                <td className="text-right font-mono">{formatCurrency(item.cost)}</td>
-              )}
-            </tr>
+            <React.Fragment key={item.id}>
+              <tr className="border-b border-gray-300">
+                <td className="py-3 pr-2">{item.name}</td>
+                <td className="text-right font-mono pr-2">
+                  {(() => {
+                    const baseRetail = getBaseRetailPrice(item.id, item.price);
+                    const isDiscounted = baseRetail > item.price;
+                    if (!isDiscounted) return formatCurrency(item.price);
+                    return (
+                      <div className="inline-flex flex-col items-end">
+                        <span className="text-xs text-gray-500 line-through decoration-2 decoration-gray-400/60">
+                          {formatCurrency(baseRetail)}
+                        </span>
+                        <span className="text-black">{formatCurrency(item.price)}</span>
+                      </div>
+                    );
+                  })()}
+                </td>
+                {isManagerView && (
+                  <td className="text-right font-mono">{formatCurrency(item.cost)}</td>
+                )}
+              </tr>
+              {renderPromotionRows(item.id)}
+            </React.Fragment>
           ))}
         </tbody>
         <tfoot>
@@ -213,6 +349,7 @@ export const PrintView: React.FC<PrintViewProps> = ({
               )}
             </td>
           </tr>
+          {renderTaxRows()}
           {isManagerView && (
             <>
               <tr className="font-bold">
@@ -220,7 +357,7 @@ export const PrintView: React.FC<PrintViewProps> = ({
                   Total Internal Cost:
                 </td>
                 <td className="text-right pt-2 font-mono text-lg">
-                  {formatCurrency(totalCost)}
+                  {formatCurrency(totalCost + feeCost)}
                 </td>
               </tr>
               <tr className="font-bold border-t-2 border-black">
@@ -234,6 +371,97 @@ export const PrintView: React.FC<PrintViewProps> = ({
         </tfoot>
       </table>
 
+      {termComparison && termComparison.columns.length > 1 && (
+        <section className="mt-8 text-sm" data-testid="print-term-comparison">
+          <h2 className="font-bold uppercase tracking-wider border-b-2 border-black pb-2">
+            Payment Options
+          </h2>
+          <table className="w-full mt-2">
+            <thead>
+              <tr className="border-b border-gray-300">
+                <th className="text-left font-bold pb-2">Term</th>
+                {termComparison.columns.map((column) => (
+                  <th
+                    key={column.id ?? "none"}
+                    className="text-right font-bold pb-2"
+                  >
+                    {column.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {termComparison.rows.map((row) => (
+                <tr key={row.termMonths} className="border-b border-gray-200">
+                  <td className="py-2">{row.termMonths} months</td>
+                  {row.payments.map((payment, index) => (
+                    <td
+                      key={termComparison.columns[index]?.id ?? "none"}
+                      className="text-right font-mono"
+                    >
+                      {formatMonthlyPayment(payment)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-600">
+            Estimated payments at {termComparison.apr}% APR on{" "}
+            {formatCurrency(termComparison.amountFinanced)} financed plus the
+            products shown, before taxes and fees. Not a commitment to lend.
+          </p>
+        </section>
+      )}
+
+      {isManagerView && priceApproval && (
+        <p className="mt-6 text-sm">
+          <strong>Price override:</strong> {describePriceApproval(priceApproval)}
+        </p>
+      )}
+
+      {declinedProducts.length > 0 && (
+        <section className="mt-8 text-sm" data-testid="print-declined-products">
+          <h2 className="font-bold uppercase tracking-wider border-b-2 border-black pb-2">
+            Declined Coverage
+          </h2>
+          <p className="mt-2 text-gray-700">
+            I was offered the following products and chose not to purchase
+            them. My initials confirm each one was declined.
+          </p>
+          {declinedProducts.map((product) => {
+            const initials = signatures.declined?.find(
+              (declined) => declined.productId === product.id
+            );
+            return (
+              <div
+                key={`${product.kind}-${product.id}`}
+                className="flex items-end justify-between gap-4 border-b border-gray-200 py-2"
+              >
+                <p>
+                  {declinedProductLabel(product)}{" "}
+                  <span className="font-mono text-gray-600">
+                    {formatCurrency(product.price)}
+                  </span>
+                </p>
+                <div className="w-32 text-center">
+                  {initials ? (
+                    <img
+                      src={initials.image}
+                      alt={`${declinedProductLabel(product)} initials`}
+                      className="h-8 w-full object-contain border-b border-black"
+                    />
+                  ) : (
+                    <div className="border-b border-black pt-8"></div>
+                  )}
+                  <p className="text-xs text-gray-600">Initials</p>
+                </div>
+              </div>
+            );
+          })}
+        </section>
+      )}
+
       <footer className="mt-24 pt-8 text-sm text-gray-600">
         {!isManagerView && (
           <p className="mb-8">
@@ -244,18 +472,12 @@ export const PrintView: React.FC<PrintViewProps> = ({
           </p>
         )}
         <div className="grid grid-cols-2 gap-12">
-          <div>
-            <div className="border-b-2 border-black pt-12"></div>
-            <p className="mt-2 font-bold">
-              {isManagerView ? "Manager Signature" : "Customer Signature"}
-            </p>
-          </div>
-          <div>
-            <div className="border-b-2 border-black pt-12"></div>
-            <p className="mt-2 font-bold">
-              {isManagerView ? "Date Processed" : "Manager Signature"}
-            </p>
-          </div>
+          {isManagerView
+            ? renderSignatureLine("Manager Signature", signatures.manager)
+            : renderSignatureLine("Customer Signature", signatures.customer)}
+          {isManagerView
+            ? renderSignatureLine("Date Processed")
+            : renderSignatureLine("Manager Signature", signatures.manager)}
         </div>
       </footer>
     </div>
@@ -15,6 +15,7 @@ import type { AlaCarteOption, ProductFeature } from "../types";
 const mockUpdateFeature = vi.fn().mockResolvedValue(undefined);
 const mockUpsert = vi.fn().mockResolvedValue(undefined);
 const mockUnpublish = vi.fn().mockResolvedValue(undefined);
+const mockUpdateAlaCarteOption = vi.fn().mockResolvedValue(undefined);
 const mockGetDocs = vi.fn();
 const mockAddDoc = vi.fn();
 
@@ -22,6 +23,7 @@ vi.mock("../data", () => ({
   updateFeature: (...args: unknown[]) => mockUpdateFeature(...args),
   upsertAlaCarteFromFeature: (...args: unknown[]) => mockUpsert(...args),
   unpublishAlaCarteFromFeature: (...args: unknown[]) => mockUnpublish(...args),
+  updateAlaCarteOption: (...args: unknown[]) => mockUpdateAlaCarteOption(...args),
   batchUpdateFeaturePositions: vi.fn().mockResolvedValue(undefined),
   fetchPick2Config: vi.fn().mockResolvedValue({
     enabled: false,
@@ -326,3 +328,45 @@ describe("ProductHub drag-and-drop interface", () => {
     expect(screen.queryByText("Unassigned Products")).not.toBeInTheDocument();
   });
 });
+
+describe("ProductHub model pricing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("saves an A La Carte option's price for a model", async () => {
+    await renderHub({ publishToAlaCarte: true }, { isPublished: true, price: 899 });
+
+    await userEvent.selectOptions(
+      screen.getByLabelText("Product to price by model"),
+      "option:feature-1"
+    );
+    await userEvent.click(screen.getByRole("button", { name: "+ Add model price" }));
+    await userEvent.type(screen.getByLabelText("Model 1"), "RX");
+    await userEvent.selectOptions(screen.getByLabelText("Condition 1"), "used");
+    await userEvent.type(screen.getByLabelText("Price 1"), "749");
+    await userEvent.click(screen.getByRole("button", { name: "Save model prices" }));
+
+    await waitFor(() =>
+      expect(mockUpdateAlaCarteOption).toHaveBeenCalledWith("feature-1", {
+        priceMatrix: [{ model: "RX", condition: "used", price: 749 }],
+      })
+    );
+    expect(await screen.findByText("Saved")).toBeInTheDocument();
+  });
+
+  it("shows the problem instead of saving an invalid row", async () => {
+    await renderHub({ publishToAlaCarte: true }, { isPublished: true });
+
+    await userEvent.selectOptions(
+      screen.getByLabelText("Product to price by model"),
+      "option:feature-1"
+    );
+    await userEvent.click(screen.getByRole("button", { name: "+ Add model price" }));
+    await userEvent.type(screen.getByLabelText("Price 1"), "749");
+    await userEvent.click(screen.getByRole("button", { name: "Save model prices" }));
+
+    expect(await screen.findByText("Enter a model for each price.")).toBeInTheDocument();
+    expect(mockUpdateAlaCarteOption).not.toHaveBeenCalled();
+  });
+});
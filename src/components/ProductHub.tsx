@@ -19,12 +19,20 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { db } from "../firebase";
-import type { AlaCarteOption, Pick2Config, ProductFeature, PackageTier } from "../types";
+import { scopedCollection } from "../dealerships";
+import type {
+  AlaCarteOption,
+  ModelPrice,
+  Pick2Config,
+  ProductFeature,
+  PackageTier,
+} from "../types";
 import {
   updateFeature,
   upsertAlaCarteFromFeature,
   unpublishAlaCarteFromFeature,
   updateAlaCarteOption,
+  updatePackagePriceMatrix,
   fetchPick2Config,
   updatePick2Config,
   batchUpdateFeaturesPositions,
@@ -37,6 +45,7 @@ import {
   DroppableColumn,
   DuplicatesPanel,
   RecommendedPackagePanel,
+  PriceMatrixPanel,
   FilterBar,
   BulkActionsBar,
 } from "./product-hub";
@@ -229,8 +238,8 @@ export const ProductHub: React.FC<ProductHubProps> = ({
     setError(null);
     try {
       const [featuresSnap, alaCarteSnap] = await Promise.all([
-        getDocs(query(collection(db, "features"), orderBy("name"))),
-        getDocs(query(collection(db, "ala_carte_options"), orderBy("name"))),
+        getDocs(query(collection(db, scopedCollection("features")), orderBy("name"))),
+        getDocs(query(collection(db, scopedCollection("ala_carte_options")), orderBy("name"))),
       ]);
 
       setFeatures(
@@ -663,6 +672,25 @@ export const ProductHub: React.FC<ProductHubProps> = ({
     }
   };
 
+  const handleSavePackagePriceMatrix = async (
+    packageId: string,
+    priceMatrix: ModelPrice[] | undefined
+  ) => {
+    await updatePackagePriceMatrix(packageId, priceMatrix);
+    onDataUpdate();
+  };
+
+  const handleSaveOptionPriceMatrix = async (
+    optionId: string,
+    priceMatrix: ModelPrice[] | undefined
+  ) => {
+    await updateAlaCarteOption(optionId, { priceMatrix });
+    setAlaCarteOptions((prev) =>
+      prev.map((option) => (option.id === optionId ? { ...option, priceMatrix } : option))
+    );
+    requestMenuRefresh();
+  };
+
   const updateRecommendedPairDraft = useCallback(
     (index: number, updates: Partial<{ label: string; optionIds: [string, string] }>) => {
       setPick2RecommendedPairsDraft((prev) =>
@@ -869,7 +897,7 @@ export const ProductHub: React.FC<ProductHubProps> = ({
         sourceFeatureId: feature.sourceFeatureId ?? feature.id,
       };
 
-      const docRef = await addDoc(collection(db, "features"), payload);
+      const docRef = await addDoc(collection(db, scopedCollection("features")), payload);
       setFeatures((prev) => [...prev, { ...payload, id: docRef.id }]);
       onDataUpdate();
       markSaved(docRef.id);
@@ -1641,6 +1669,13 @@ export const ProductHub: React.FC<ProductHubProps> = ({
         />
       ) : null}
 
+      <PriceMatrixPanel
+        packages={packages ?? []}
+        alaCarteOptions={alaCarteOptions.filter((option) => option.isPublished !== false)}
+        onSavePackage={handleSavePackagePriceMatrix}
+        onSaveOption={handleSaveOptionPriceMatrix}
+      />
+
       <DuplicatesPanel possibleDuplicates={possibleDuplicates} />
 
       <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4">
@@ -0,0 +1,478 @@
+import React, { useCallback, useEffect, useState } from "react";
+import type { AlaCarteOption, PackageTier, Promotion, PromotionKind } from "../types";
+import { fetchAllData } from "../data";
+import {
+  deletePromotion,
+  fetchPromotions,
+  savePromotion,
+  type PromotionDraft,
+} from "../promotions";
+import {
+  formatDateInput,
+  isEffective,
+  parseDateInput,
+  systemClock,
+  type Clock,
+} from "../utils/effectiveDates";
+
+interface PromotionsPanelProps {
+  // Decides which promotions show as live; injectable for tests
+  clock?: Clock;
+}
+
+interface PromotionForm {
+  name: string;
+  kind: PromotionKind;
+  amount: string; // percentOff, amountOff or bundlePrice depending on kind
+  packageIds: string[];
+  alaCarteIds: string[];
+  stackable: boolean;
+  enabled: boolean;
+  startDate: string;
+  endDate: string;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  name: "",
+  kind: "package_percent",
+  amount: "",
+  packageIds: [],
+  alaCarteIds: [],
+  stackable: false,
+  enabled: true,
+  startDate: "",
+  endDate: "",
+};
+
+const KIND_LABELS: Record<PromotionKind, string> = {
+  package_percent: "Percent off packages",
+  alacarte_amount: "Dollars off a la carte",
+  package_bundle: "Buy a package, get options at a set price",
+};
+
+const AMOUNT_LABELS: Record<PromotionKind, string> = {
+  package_percent: "Percent off",
+  alacarte_amount: "Dollars off each",
+  package_bundle: "Bundle price each",
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const describeOffer = (promotion: Promotion) => {
+  switch (promotion.kind) {
+    case "package_percent":
+      return `${promotion.percentOff ?? 0}% off`;
+    case "alacarte_amount":
+      return `${formatCurrency(promotion.amountOff ?? 0)} off`;
+    case "package_bundle":
+      return `${formatCurrency(promotion.bundlePrice ?? 0)} with package`;
+  }
+};
+
+const promotionStatus = (promotion: Promotion, now: number) => {
+  if (!promotion.enabled) return "Paused";
+  if (isEffective(promotion, now)) return "Live";
+  return typeof promotion.effectiveFrom === "number" && now < promotion.effectiveFrom
+    ? "Scheduled"
+    : "Ended";
+};
+
+const toForm = (promotion: Promotion): PromotionForm => ({
+  name: promotion.name,
+  kind: promotion.kind,
+  amount: String(
+    promotion.kind === "package_percent"
+      ? (promotion.percentOff ?? "")
+      : promotion.kind === "alacarte_amount"
+        ? (promotion.amountOff ?? "")
+        : (promotion.bundlePrice ?? "")
+  ),
+  packageIds: promotion.packageIds,
+  alaCarteIds: promotion.alaCarteIds,
+  stackable: promotion.stackable,
+  enabled: promotion.enabled,
+  startDate:
+    typeof promotion.effectiveFrom === "number" ? formatDateInput(promotion.effectiveFrom) : "",
+  endDate:
+    typeof promotion.effectiveUntil === "number" ? formatDateInput(promotion.effectiveUntil) : "",
+});
+
+const toggleId = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+/**
+ * Admin "Promotions" tab: create, edit and delete time-boxed promotions.
+ */
+export const PromotionsPanel: React.FC<PromotionsPanelProps> = ({ clock = systemClock }) => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [packages, setPackages] = useState<PackageTier[]>([]);
+  const [alaCarteOptions, setAlaCarteOptions] = useState<AlaCarteOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [loaded, catalog] = await Promise.all([fetchPromotions(), fetchAllData()]);
+      setPromotions(loaded);
+      setPackages(catalog.packages);
+      setAlaCarteOptions(catalog.alaCarteOptions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load promotions.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const updateForm = (patch: Partial<PromotionForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setForm(toForm(promotion));
+    setEditingId(promotion.id);
+    setMessage(null);
+    setError(null);
+  };
+
+  const buildDraft = (): PromotionDraft | string => {
+    const name = form.name.trim();
+    if (!name) return "Give the promotion a name customers will see.";
+    const amount = Number(form.amount.trim().replace(/[$,%\s]/g, ""));
+    if (!form.amount.trim() || !Number.isFinite(amount) || amount < 0) {
+      return `Enter the ${AMOUNT_LABELS[form.kind].toLowerCase()}.`;
+    }
+    const effectiveFrom = form.startDate ? parseDateInput(form.startDate) : undefined;
+    const effectiveUntil = form.endDate ? parseDateInput(form.endDate) : undefined;
+
+    return {
+      name,
+      kind: form.kind,
+      enabled: form.enabled,
+      stackable: form.stackable,
+      packageIds: form.kind === "alacarte_amount" ? [] : form.packageIds,
+      alaCarteIds: form.kind === "package_percent" ? [] : form.alaCarteIds,
+      ...(form.kind === "package_percent" ? { percentOff: amount } : {}),
+      ...(form.kind === "alacarte_amount" ? { amountOff: amount } : {}),
+      ...(form.kind === "package_bundle" ? { bundlePrice: amount } : {}),
+      ...(effectiveFrom !== undefined ? { effectiveFrom } : {}),
+      ...(effectiveUntil !== undefined ? { effectiveUntil } : {}),
+    };
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    const draft = buildDraft();
+    if (typeof draft === "string") {
+      setError(draft);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await savePromotion(draft, editingId ?? undefined);
+      setMessage(editingId ? `Updated ${draft.name}.` : `Created ${draft.name}.`);
+      resetForm();
+      setPromotions(await fetchPromotions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the promotion.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await deletePromotion(promotion.id);
+      setPromotions((prev) => prev.filter((existing) => existing.id !== promotion.id));
+      if (editingId === promotion.id) resetForm();
+      setMessage(`Deleted ${promotion.name}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete the promotion.");
+    } finally {
+      setConfirmDeleteId(null);
+    }
+  };
+
+  const now = clock();
+  const showPackages = form.kind !== "alacarte_amount";
+  const showAlaCarte = form.kind !== "package_percent";
+
+  return (
+    <div>
+      <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">Promotions</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Promotions come off catalog prices before any rep price override, and show a badge on the
+        menu while they are live.
+      </p>
+
+      {error && (
+        <div
+          className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4 text-red-200 font-semibold"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+      {message && <p className="text-sm text-emerald-300 mb-4">{message}</p>}
+
+      <form
+        onSubmit={(e) => void handleSave(e)}
+        className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 mb-6 space-y-4"
+      >
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          <div>
+            <label htmlFor="promotion-name" className="block text-sm text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              id="promotion-name"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="Spring Protection Event"
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="promotion-kind" className="block text-sm text-gray-300 mb-1">
+              Type
+            </label>
+            <select
+              id="promotion-kind"
+              value={form.kind}
+              onChange={(e) => updateForm({ kind: e.target.value as PromotionKind })}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+            >
+              {(Object.keys(KIND_LABELS) as PromotionKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {KIND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="promotion-amount" className="block text-sm text-gray-300 mb-1">
+              {AMOUNT_LABELS[form.kind]}
+            </label>
+            <input
+              id="promotion-amount"
+              inputMode="decimal"
+              value={form.amount}
+              onChange={(e) => updateForm({ amount: e.target.value })}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="promotion-start" className="block text-sm text-gray-300 mb-1">
+              Starts (optional)
+            </label>
+            <input
+              id="promotion-start"
+              type="date"
+              value={form.startDate}
+              onChange={(e) => updateForm({ startDate: e.target.value })}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="promotion-end" className="block text-sm text-gray-300 mb-1">
+              Ends (optional)
+            </label>
+            <input
+              id="promotion-end"
+              type="date"
+              value={form.endDate}
+              onChange={(e) => updateForm({ endDate: e.target.value })}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+            />
+          </div>
+          <div className="flex flex-col justify-end gap-2 text-sm text-gray-300">
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.stackable}
+                onChange={(e) => updateForm({ stackable: e.target.checked })}
+              />
+              Combines with other stackable promotions
+            </label>
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.enabled}
+                onChange={(e) => updateForm({ enabled: e.target.checked })}
+              />
+              Enabled
+            </label>
+          </div>
+        </div>
+
+        {showPackages && (
+          <fieldset>
+            <legend className="text-sm text-gray-300 mb-1">
+              {form.kind === "package_bundle" ? "Qualifying packages" : "Packages"}{" "}
+              <span className="text-gray-500">(none checked = all)</span>
+            </legend>
+            <div className="flex flex-wrap gap-3">
+              {packages.map((pkg) => (
+                <label
+                  key={pkg.id}
+                  className="inline-flex items-center gap-2 text-sm text-gray-200"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.packageIds.includes(pkg.id)}
+                    onChange={() => updateForm({ packageIds: toggleId(form.packageIds, pkg.id) })}
+                  />
+                  {pkg.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        {showAlaCarte && (
+          <fieldset>
+            <legend className="text-sm text-gray-300 mb-1">
+              A la carte options{" "}
+              <span className="text-gray-500">
+                {form.kind === "package_bundle"
+                  ? "(offered in the bundle)"
+                  : "(none checked = all)"}
+              </span>
+            </legend>
+            <div className="flex flex-wrap gap-3">
+              {alaCarteOptions.map((option) => (
+                <label
+                  key={option.id}
+                  className="inline-flex items-center gap-2 text-sm text-gray-200"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.alaCarteIds.includes(option.id)}
+                    onChange={() =>
+                      updateForm({ alaCarteIds: toggleId(form.alaCarteIds, option.id) })
+                    }
+                  />
+                  {option.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            disabled={isSaving || isLoading}
+          >
+            {isSaving ? "Saving..." : editingId ? "Save promotion" : "Create promotion"}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="btn-lux-ghost text-sm px-3">
+              Cancel edit
+            </button>
+          )}
+        </div>
+      </form>
+
+      {isLoading ? (
+        <p className="text-gray-400">Loading promotions...</p>
+      ) : promotions.length === 0 ? (
+        <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 text-gray-300">
+          No promotions yet.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {promotions.map((promotion) => (
+            <li
+              key={promotion.id}
+              className="bg-gray-900/40 border border-gray-700 rounded-lg p-3"
+              data-testid="promotion"
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <p className="text-sm text-white">
+                    <span className="font-semibold">{promotion.name}</span>{" "}
+                    <span className="text-gray-400">
+                      {describeOffer(promotion)}
+                      {promotion.stackable ? ", stackable" : ""}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {promotionStatus(promotion, now)}
+                    {typeof promotion.effectiveFrom === "number"
+                      ? ` · from ${new Date(promotion.effectiveFrom).toLocaleDateString("en-US")}`
+                      : ""}
+                    {typeof promotion.effectiveUntil === "number"
+                      ? ` · until ${new Date(promotion.effectiveUntil).toLocaleDateString("en-US")}`
+                      : ""}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(promotion)}
+                    className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmDeleteId(promotion.id)}
+                    className="btn-lux-ghost text-sm px-3 min-h-[40px] text-red-200"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {confirmDeleteId === promotion.id && (
+                <div className="mt-3 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <p className="text-sm text-amber-100">
+                    Delete &ldquo;{promotion.name}&rdquo;? Finalized deals keep their promotion
+                    lines.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setConfirmDeleteId(null)}
+                      className="btn-lux-ghost px-3 min-h-[40px]"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void handleDelete(promotion)}
+                      className="bg-amber-500 text-black px-3 min-h-[40px] rounded-md font-bold"
+                    >
+                      Delete now
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
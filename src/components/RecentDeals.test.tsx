@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { RecentDeals } from "./RecentDeals";
+import { fetchRecentQuotes, voidQuote } from "../quotes";
+import type { Quote } from "../types";
+
+vi.mock("../quotes", () => ({
+  fetchRecentQuotes: vi.fn(),
+  voidQuote: vi.fn(),
+}));
+
+vi.mock("../analytics", () => ({
+  trackQuoteAction: vi.fn(),
+}));
+
+const createQuote = (overrides: Partial<Quote> = {}): Quote => ({
+  id: "quote-1",
+  quoteNumber: "PLX-2026-000001",
+  status: "final",
+  createdAt: 1767225600000,
+  customerInfo: { name: "John Doe", year: "2024", make: "Lexus", model: "RX 350" },
+  selectedPackage: { id: "gold", name: "Gold", price: 2500 },
+  customPackageItems: [],
+  pick2: null,
+  priceOverrides: {},
+  totalPrice: 2500,
+  baseTotalPrice: 2500,
+  ...overrides,
+});
+
+describe("RecentDeals", () => {
+  const defaultProps = {
+    onBack: vi.fn(),
+    onReopen: vi.fn(),
+    onDuplicate: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list recent deals and filter them by customer or quote number", async () => {
+    vi.mocked(fetchRecentQuotes).mockResolvedValue([
+      createQuote(),
+      createQuote({
+        id: "quote-2",
+        quoteNumber: "PLX-2026-000002",
+        customerInfo: { name: "Ada Smith", year: "2025", make: "Lexus", model: "NX 350h" },
+      }),
+    ]);
+    const user = userEvent.setup();
+
+    render(<RecentDeals {...defaultProps} />);
+
+    expect(await screen.findAllByTestId("recent-deal")).toHaveLength(2);
+
+    await user.type(screen.getByLabelText("Search recent deals"), "nx 350");
+
+    expect(screen.getAllByTestId("recent-deal")).toHaveLength(1);
+    expect(screen.getByText("Ada Smith")).toBeInTheDocument();
+
+    await user.clear(screen.getByLabelText("Search recent deals"));
+    await user.type(screen.getByLabelText("Search recent deals"), "000001");
+
+    expect(screen.getAllByTestId("recent-deal")).toHaveLength(1);
+    expect(screen.getByText("John Doe")).toBeInTheDocument();
+  });
+
+  it("should reopen and duplicate a deal", async () => {
+    const quote = createQuote();
+    vi.mocked(fetchRecentQuotes).mockResolvedValue([quote]);
+    const user = userEvent.setup();
+
+    render(<RecentDeals {...defaultProps} />);
+
+    await user.click(await screen.findByRole("button", { name: "Reopen" }));
+    expect(defaultProps.onReopen).toHaveBeenCalledWith(quote);
+
+    await user.click(screen.getByRole("button", { name: "Duplicate" }));
+    expect(defaultProps.onDuplicate).toHaveBeenCalledWith(quote);
+  });
+
+  it("should void a deal after confirmation", async () => {
+    vi.mocked(fetchRecentQuotes).mockResolvedValue([createQuote()]);
+    vi.mocked(voidQuote).mockResolvedValue();
+    const user = userEvent.setup();
+
+    render(<RecentDeals {...defaultProps} />);
+
+    await user.click(await screen.findByRole("button", { name: "Void" }));
+    await user.type(screen.getByLabelText("Void this deal? Reason (optional)"), "Duplicate entry");
+    await user.click(screen.getByRole("button", { name: "Void deal" }));
+
+    await waitFor(() => {
+      expect(voidQuote).toHaveBeenCalledWith("quote-1", "Duplicate entry");
+    });
+    expect(await screen.findByText(/Voided: Duplicate entry/)).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Void" })).not.toBeInTheDocument();
+  });
+
+  it("should show the load error", async () => {
+    vi.mocked(fetchRecentQuotes).mockRejectedValue(new Error("Failed to load recent deals."));
+
+    render(<RecentDeals {...defaultProps} />);
+
+    expect(await screen.findByText("Failed to load recent deals.")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,283 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { Quote } from "../types";
+import { fetchRecentQuotes, voidQuote } from "../quotes";
+import { trackQuoteAction } from "../analytics";
+
+interface RecentDealsProps {
+  onBack: () => void;
+  onReopen: (quote: Quote) => void;
+  onDuplicate: (quote: Quote) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const describeVehicle = (quote: Quote) =>
+  [quote.customerInfo.year, quote.customerInfo.make, quote.customerInfo.model]
+    .filter(Boolean)
+    .join(" ");
+
+const describeSelection = (quote: Quote) => {
+  const parts: string[] = [];
+  if (quote.selectedPackage) parts.push(`${quote.selectedPackage.name} Package`);
+  if (quote.pick2) parts.push("You Pick 2 Bundle");
+  if (quote.customPackageItems.length > 0) {
+    parts.push(
+      `${quote.customPackageItems.length} add-on${quote.customPackageItems.length === 1 ? "" : "s"}`
+    );
+  }
+  return parts.length > 0 ? parts.join(" + ") : "No products";
+};
+
+export const RecentDeals: React.FC<RecentDealsProps> = ({ onBack, onReopen, onDuplicate }) => {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [pendingVoidId, setPendingVoidId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [isVoiding, setIsVoiding] = useState(false);
+
+  const loadQuotes = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setQuotes(await fetchRecentQuotes());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load recent deals.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadQuotes();
+  }, [loadQuotes]);
+
+  const filteredQuotes = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return quotes;
+    return quotes.filter((quote) =>
+      [quote.quoteNumber, quote.customerInfo.name, describeVehicle(quote)].some((value) =>
+        value.toLowerCase().includes(term)
+      )
+    );
+  }, [quotes, search]);
+
+  const handleConfirmVoid = async (quote: Quote) => {
+    setIsVoiding(true);
+    setError(null);
+    try {
+      await voidQuote(quote.id, voidReason);
+      trackQuoteAction("void", quote.id);
+      setQuotes((prev) =>
+        prev.map((q) =>
+          q.id === quote.id
+            ? {
+                ...q,
+                status: "void",
+                voidedAt: Date.now(),
+                ...(voidReason.trim() ? { voidReason: voidReason.trim() } : {}),
+              }
+            : q
+        )
+      );
+      setPendingVoidId(null);
+      setVoidReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to void the quote.");
+    } finally {
+      setIsVoiding(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl mx-auto border border-gray-700 animate-fade-in">
+      <header className="p-4 flex flex-col sm:flex-row justify-between sm:items-center gap-3 border-b border-gray-700">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 20 20"
+            fill="currentColor"
+            className="w-5 h-5"
+          >
+            <path
+              fillRule="evenodd"
+              d="M12.79 5.23a.75.75 0 0 1-.02 1.06L8.832 10l3.938 3.71a.75.75 0 1 1-1.04 1.08l-4.5-4.25a.75.75 0 0 1 0-1.08l4.5-4.25a.75.75 0 0 1 1.06.02Z"
+              clipRule="evenodd"
+            />
+          </svg>
+          Back to Menu
+        </button>
+        <div className="flex items-center gap-2">
+          <label htmlFor="recent-deals-search" className="sr-only">
+            Search recent deals
+          </label>
+          <input
+            id="recent-deals-search"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search quote #, customer or vehicle"
+            autoComplete="off"
+            className="w-64 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="button"
+            onClick={() => void loadQuotes()}
+            className="btn-lux-ghost text-sm px-3"
+            disabled={isLoading}
+          >
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      <div className="p-6">
+        <h2 className="text-3xl font-bold font-teko tracking-wider uppercase text-white mb-4">
+          Recent Deals
+        </h2>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4 text-red-200 font-semibold">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-400">Loading recent deals...</p>
+        ) : filteredQuotes.length === 0 ? (
+          <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 text-gray-300">
+            {quotes.length === 0
+              ? "No finalized deals yet. Deals are saved when an agreement is finalized."
+              : "No deals match your search."}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-700" data-testid="recent-deals-list">
+            {filteredQuotes.map((quote) => {
+              const isVoid = quote.status === "void";
+              const vehicle = describeVehicle(quote);
+              return (
+                <li key={quote.id} className="py-4" data-testid="recent-deal">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-white font-semibold truncate">
+                        {quote.customerInfo.name || "Unnamed customer"}
+                        {isVoid && (
+                          <span className="ml-2 text-xs font-bold uppercase tracking-wider text-red-300 bg-red-500/10 border border-red-500/30 rounded px-1.5 py-0.5">
+                            Void
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-400 truncate">
+                        {vehicle || "No vehicle"} &bull; {describeSelection(quote)}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        <span className="font-mono text-gray-400">{quote.quoteNumber}</span>
+                        {" · "}
+                        {formatDateTime(quote.createdAt)}
+                        {quote.createdBy?.email ? ` by ${quote.createdBy.email}` : ""}
+                        {isVoid && quote.voidReason ? ` — Voided: ${quote.voidReason}` : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span
+                        className={`font-mono text-lg ${
+                          isVoid ? "text-gray-500 line-through" : "text-white"
+                        }`}
+                      >
+                        {formatCurrency(quote.totalPrice)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          trackQuoteAction("reopen", quote.id);
+                          onReopen(quote);
+                        }}
+                        className="bg-blue-600 text-white px-3 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors"
+                      >
+                        Reopen
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          trackQuoteAction("duplicate", quote.id);
+                          onDuplicate(quote);
+                        }}
+                        className="btn-lux-ghost text-sm px-3"
+                      >
+                        Duplicate
+                      </button>
+                      {!isVoid && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setPendingVoidId(quote.id);
+                            setVoidReason("");
+                          }}
+                          className="text-sm text-red-300 hover:text-red-200 underline underline-offset-4"
+                        >
+                          Void
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {pendingVoidId === quote.id && (
+                    <div className="mt-3 bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 flex flex-col sm:flex-row sm:items-end gap-3 animate-fade-in">
+                      <div className="flex-1">
+                        <label
+                          htmlFor={`void-reason-${quote.id}`}
+                          className="block text-sm font-medium text-amber-100 mb-1"
+                        >
+                          Void this deal? Reason (optional)
+                        </label>
+                        <input
+                          id={`void-reason-${quote.id}`}
+                          value={voidReason}
+                          onChange={(e) => setVoidReason(e.target.value)}
+                          placeholder="e.g. Customer declined"
+                          className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2 justify-end">
+                        <button
+                          type="button"
+                          onClick={() => setPendingVoidId(null)}
+                          className="btn-lux-ghost px-3 min-h-[40px]"
+                          disabled={isVoiding}
+                        >
+                          Keep
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleConfirmVoid(quote)}
+                          className="bg-amber-500 text-black px-3 min-h-[40px] rounded-md font-bold disabled:opacity-50"
+                          disabled={isVoiding}
+                        >
+                          {isVoiding ? "Voiding..." : "Void deal"}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,349 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  cancelScheduledChange,
+  fetchActivePick2Config,
+  fetchAllData,
+  fetchUpcomingChanges,
+  scheduleCatalogChange,
+  type SchedulableCollection,
+} from "../data";
+import {
+  parseDateInput,
+  systemClock,
+  type Clock,
+  type UpcomingCatalogChange,
+} from "../utils/effectiveDates";
+
+interface ScheduledChangesPanelProps {
+  // Source of "now" for what counts as upcoming; injectable for tests
+  clock?: Clock;
+}
+
+interface SchedulableItem {
+  collection: SchedulableCollection;
+  id: string;
+  name: string;
+  price: number;
+}
+
+const COLLECTION_LABELS: Record<SchedulableCollection, string> = {
+  packages: "Package",
+  features: "Feature",
+  ala_carte_options: "A La Carte",
+  pick2: "Pick 2",
+};
+
+const isSchedulableCollection = (value: string): value is SchedulableCollection =>
+  value in COLLECTION_LABELS;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const parseAmount = (raw: string): number | undefined | null => {
+  const normalized = raw.trim().replace(/[$,\s]/g, "");
+  if (!normalized) return undefined;
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const describeFields = (fields: Record<string, unknown>) =>
+  Object.entries(fields)
+    .map(([field, value]) =>
+      typeof value === "number" && (field === "price" || field === "cost")
+        ? `${field} ${formatCurrency(value)}`
+        : `${field} ${String(value)}`
+    )
+    .join(", ");
+
+const describeChange = (change: UpcomingCatalogChange) => {
+  const isVersion = change.docId !== change.itemId;
+  if (isVersion) {
+    const summary = describeFields(change.fields);
+    return change.kind === "start" ? `changes to ${summary}` : `${summary} ends`;
+  }
+  return change.kind === "start" ? "goes live" : "is retired";
+};
+
+/**
+ * Admin "Schedule" tab: lists upcoming catalog changes (scheduled price changes and items
+ * starting or ending) and schedules new price changes for a future date.
+ */
+export const ScheduledChangesPanel: React.FC<ScheduledChangesPanelProps> = ({
+  clock = systemClock,
+}) => {
+  const [upcoming, setUpcoming] = useState<UpcomingCatalogChange[]>([]);
+  const [items, setItems] = useState<SchedulableItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [target, setTarget] = useState("");
+  const [price, setPrice] = useState("");
+  const [cost, setCost] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [changes, catalog, pick2] = await Promise.all([
+        fetchUpcomingChanges(clock),
+        fetchAllData(clock),
+        fetchActivePick2Config(clock),
+      ]);
+      setUpcoming(changes);
+      setItems([
+        ...catalog.packages.map((pkg) => ({
+          collection: "packages" as const,
+          id: pkg.id,
+          name: pkg.name,
+          price: pkg.price,
+        })),
+        ...catalog.features.map((feature) => ({
+          collection: "features" as const,
+          id: feature.id,
+          name: feature.name,
+          price: feature.price,
+        })),
+        ...catalog.alaCarteOptions.map((option) => ({
+          collection: "ala_carte_options" as const,
+          id: option.id,
+          name: option.name,
+          price: option.price,
+        })),
+        { collection: "pick2", id: "pick2", name: "You Pick 2 Bundle", price: pick2.price },
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load scheduled changes.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clock]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const selectedItem = items.find((item) => `${item.collection}:${item.id}` === target);
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    if (!selectedItem) {
+      setError("Choose the item to change.");
+      return;
+    }
+    const newPrice = parseAmount(price);
+    const newCost = parseAmount(cost);
+    if (newPrice === null || newCost === null) {
+      setError("Prices must be dollar amounts.");
+      return;
+    }
+    const effectiveFrom = parseDateInput(startDate);
+    if (effectiveFrom === undefined) {
+      setError("Choose the date the change starts.");
+      return;
+    }
+    if (effectiveFrom <= clock()) {
+      setError("The start date must be in the future. Edit the item directly to change it now.");
+      return;
+    }
+    const effectiveUntil = endDate ? parseDateInput(endDate) : undefined;
+
+    setIsSaving(true);
+    try {
+      await scheduleCatalogChange(
+        { collection: selectedItem.collection, itemId: selectedItem.id },
+        {
+          ...(newPrice !== undefined ? { price: newPrice } : {}),
+          ...(newCost !== undefined ? { cost: newCost } : {}),
+        },
+        { effectiveFrom, ...(effectiveUntil !== undefined ? { effectiveUntil } : {}) }
+      );
+      setMessage(`Scheduled a change to ${selectedItem.name}.`);
+      setPrice("");
+      setCost("");
+      setStartDate("");
+      setEndDate("");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to schedule the change.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (change: UpcomingCatalogChange) => {
+    if (!isSchedulableCollection(change.collection)) return;
+    setCancellingId(change.docId);
+    setError(null);
+    setMessage(null);
+    try {
+      await cancelScheduledChange(change.collection, change.docId);
+      setUpcoming((prev) => prev.filter((entry) => entry.docId !== change.docId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel the scheduled change.");
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">Scheduled Changes</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Price changes take effect at midnight on the start date, the next time the menu loads.
+      </p>
+
+      {error && (
+        <div
+          className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4 text-red-200 font-semibold"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+      {message && <p className="text-sm text-emerald-300 mb-4">{message}</p>}
+
+      <form
+        onSubmit={(e) => void handleSchedule(e)}
+        className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 mb-6 grid gap-3 sm:grid-cols-2 lg:grid-cols-5 items-end"
+      >
+        <div className="lg:col-span-2">
+          <label htmlFor="schedule-item" className="block text-sm text-gray-300 mb-1">
+            Item
+          </label>
+          <select
+            id="schedule-item"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+            disabled={isLoading}
+          >
+            <option value="">Choose an item...</option>
+            {items.map((item) => (
+              <option key={`${item.collection}:${item.id}`} value={`${item.collection}:${item.id}`}>
+                {COLLECTION_LABELS[item.collection]}: {item.name} ({formatCurrency(item.price)})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="schedule-price" className="block text-sm text-gray-300 mb-1">
+            New price
+          </label>
+          <input
+            id="schedule-price"
+            inputMode="decimal"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder="Unchanged"
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="schedule-cost" className="block text-sm text-gray-300 mb-1">
+            New cost
+          </label>
+          <input
+            id="schedule-cost"
+            inputMode="decimal"
+            value={cost}
+            onChange={(e) => setCost(e.target.value)}
+            placeholder="Unchanged"
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          />
+        </div>
+        <div />
+        <div>
+          <label htmlFor="schedule-start" className="block text-sm text-gray-300 mb-1">
+            Starts
+          </label>
+          <input
+            id="schedule-start"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="schedule-end" className="block text-sm text-gray-300 mb-1">
+            Ends (optional)
+          </label>
+          <input
+            id="schedule-end"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          disabled={isSaving || isLoading}
+        >
+          {isSaving ? "Scheduling..." : "Schedule change"}
+        </button>
+      </form>
+
+      <h4 className="text-lg font-teko tracking-wider text-white mb-2">Upcoming</h4>
+      {isLoading ? (
+        <p className="text-gray-400">Loading scheduled changes...</p>
+      ) : upcoming.length === 0 ? (
+        <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4 text-gray-300">
+          Nothing scheduled.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {upcoming.map((change) => (
+            <li
+              key={`${change.collection}:${change.docId}:${change.kind}`}
+              className="bg-gray-900/40 border border-gray-700 rounded-lg p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+              data-testid="upcoming-change"
+            >
+              <div>
+                <p className="text-xs text-gray-500">{formatDate(change.at)}</p>
+                <p className="text-sm text-gray-200">
+                  <span className="text-gray-400">
+                    {isSchedulableCollection(change.collection)
+                      ? COLLECTION_LABELS[change.collection]
+                      : change.collection}
+                    :
+                  </span>{" "}
+                  <span className="font-semibold text-white">{change.name}</span>{" "}
+                  {describeChange(change)}
+                </p>
+              </div>
+              {change.docId !== change.itemId && change.kind === "start" && (
+                <button
+                  type="button"
+                  onClick={() => void handleCancel(change)}
+                  className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+                  disabled={cancellingId === change.docId}
+                >
+                  Cancel
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -121,4 +121,35 @@ describe("SelectionDrawer", () => {
     expect(totalBlock).toHaveClass("text-left");
     expect(totalBlock.className).toContain("sm:text-right");
   });
+
+  it("shows the payment impact on the total and opens the estimator", async () => {
+    const onPaymentTermsChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <SelectionDrawer
+        selectedPackage={pkg}
+        customItems={[]}
+        totalPrice={3600}
+        paymentTerms={{ termMonths: 36, apr: 0, amountFinanced: 36000 }}
+        onPaymentTermsChange={onPaymentTermsChange}
+        onRemoveItem={vi.fn()}
+        onPrint={vi.fn()}
+        variant="bar"
+      />
+    );
+
+    expect(screen.getByTestId("total-monthly-impact")).toHaveTextContent("+$100/mo");
+    expect(screen.queryByTestId("payment-estimator")).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Payment estimate" }));
+    expect(screen.getByTestId("estimator-payment")).toHaveTextContent("$1,000/mo → $1,100/mo");
+
+    await user.selectOptions(screen.getByLabelText("Term in months"), "72");
+    expect(onPaymentTermsChange).toHaveBeenCalledWith({
+      termMonths: 72,
+      apr: 0,
+      amountFinanced: 36000,
+    });
+  });
 });
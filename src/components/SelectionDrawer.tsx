@@ -1,5 +1,7 @@
-import React from "react";
-import type { AlaCarteOption, PackageTier } from "../types";
+import React, { useState } from "react";
+import type { AlaCarteOption, PackageTier, PaymentTerms } from "../types";
+import { PaymentEstimator } from "./PaymentEstimator";
+import { formatMonthlyImpact, paymentImpact } from "../utils/payments";
 
 interface SelectionDrawerProps {
   selectedPackage: PackageTier | null;
@@ -11,6 +13,9 @@ interface SelectionDrawerProps {
   baseTotalPrice?: number;
   basePackagePricesById?: Record<string, number>;
   baseAddonPricesById?: Record<string, number>;
+  // Shows "+$X/mo" on the total; the estimator opens when terms can be changed
+  paymentTerms?: PaymentTerms | null;
+  onPaymentTermsChange?: (terms: PaymentTerms) => void;
   onRemoveItem: (itemId: string) => void;
   onPrint: () => void;
   onDeselectPackage?: () => void;
@@ -40,6 +45,8 @@ export const SelectionDrawer: React.FC<SelectionDrawerProps> = ({
   baseTotalPrice,
   basePackagePricesById,
   baseAddonPricesById,
+  paymentTerms = null,
+  onPaymentTermsChange,
   onDeselectPackage,
   onShowAgreement,
   onShowPick2,
@@ -49,6 +56,19 @@ export const SelectionDrawer: React.FC<SelectionDrawerProps> = ({
 }) => {
   const showDiscountTotal = typeof baseTotalPrice === "number" && baseTotalPrice > totalPrice;
   const trustRowText = "Dealer-backed coverage | Installed today";
+  const [isEstimatorOpen, setIsEstimatorOpen] = useState(false);
+  const monthlyImpact =
+    paymentTerms && totalPrice > 0
+      ? formatMonthlyImpact(paymentImpact(totalPrice, paymentTerms))
+      : null;
+  const estimator =
+    paymentTerms && onPaymentTermsChange ? (
+      <PaymentEstimator
+        terms={paymentTerms}
+        onChange={onPaymentTermsChange}
+        totalPrice={totalPrice}
+      />
+    ) : null;
 
   const basePackagePrice = selectedPackage
     ? basePackagePricesById?.[selectedPackage.id]
@@ -137,7 +157,16 @@ export const SelectionDrawer: React.FC<SelectionDrawerProps> = ({
                 >
                   {formatPrice(totalPrice)}
                 </p>
-                <p className="text-[11px] text-lux-textMuted">Dealer-backed protection summary</p>
+                {monthlyImpact ? (
+                  <p
+                    className="text-xs font-semibold text-lux-gold"
+                    data-testid="total-monthly-impact"
+                  >
+                    {monthlyImpact}
+                  </p>
+                ) : (
+                  <p className="text-[11px] text-lux-textMuted">Dealer-backed protection summary</p>
+                )}
               </div>
               <p
                 className={`text-[10px] leading-tight text-lux-textMuted clamp-1 ${
@@ -146,7 +175,22 @@ export const SelectionDrawer: React.FC<SelectionDrawerProps> = ({
               >
                 {trustRowText}
               </p>
-              <div className={`flex items-center gap-2 ${isCompact ? "flex-nowrap" : ""}`}>
+              <div className={`relative flex items-center gap-2 ${isCompact ? "flex-nowrap" : ""}`}>
+                {estimator && isEstimatorOpen ? (
+                  <div className="absolute bottom-full right-0 mb-3 w-[min(24rem,90vw)]">
+                    {estimator}
+                  </div>
+                ) : null}
+                {estimator ? (
+                  <button
+                    onClick={() => setIsEstimatorOpen((open) => !open)}
+                    className={`btn-lux-ghost min-h-[44px] ${isCompact ? "px-3" : "px-4"}`}
+                    aria-label="Payment estimate"
+                    aria-expanded={isEstimatorOpen}
+                  >
+                    {isCompact ? "$/mo" : "Payment"}
+                  </button>
+                ) : null}
                 {pick2NeedsAttention && onShowPick2 ? (
                   <button
                     onClick={onShowPick2}
@@ -341,9 +385,15 @@ export const SelectionDrawer: React.FC<SelectionDrawerProps> = ({
             <p className="text-3xl font-teko text-lux-textStrong">{formatPrice(totalPrice)}</p>
           </div>
           <div className="text-right">
+            {monthlyImpact && (
+              <p className="text-sm font-semibold text-lux-gold" data-testid="total-monthly-impact">
+                {monthlyImpact}
+              </p>
+            )}
             <p className="text-xs text-lux-textMuted">Taxes not included</p>
           </div>
         </div>
+        {estimator}
         <button onClick={onPrint} className="btn-lux-primary w-full">
           Print Selection
         </button>
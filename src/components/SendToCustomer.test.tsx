@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { SendToCustomer } from "./SendToCustomer";
+
+describe("SendToCustomer", () => {
+  it("sends on the channels left checked", async () => {
+    const user = userEvent.setup();
+    const onSend = vi.fn().mockResolvedValue(["sms"]);
+    render(
+      <SendToCustomer
+        contact={{ email: "jane@example.com", phone: "7575550100" }}
+        delivery="send"
+        onSend={onSend}
+      />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Send to Customer" }));
+    await user.click(screen.getByRole("checkbox", { name: /email/i }));
+    await user.click(screen.getByRole("button", { name: "Send" }));
+
+    expect(onSend).toHaveBeenCalledWith(["sms"]);
+    expect(await screen.findByRole("status")).toHaveTextContent("Summary sent by text.");
+  });
+
+  it("shows why a send failed", async () => {
+    const user = userEvent.setup();
+    const onSend = vi.fn().mockRejectedValue(new Error("Failed to send the summary."));
+    render(
+      <SendToCustomer contact={{ email: "jane@example.com" }} delivery="send" onSend={onSend} />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Send to Customer" }));
+    await user.click(screen.getByRole("button", { name: "Send" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Failed to send the summary.");
+  });
+
+  it("asks for contact details when the customer has none", async () => {
+    const user = userEvent.setup();
+    const onEditContact = vi.fn();
+    render(
+      <SendToCustomer contact={{}} delivery="send" onSend={vi.fn()} onEditContact={onEditContact} />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Send to Customer" }));
+    await user.click(screen.getByRole("button", { name: "Add Contact" }));
+
+    expect(onEditContact).toHaveBeenCalled();
+  });
+
+  it("says a saved copy was saved, not sent", async () => {
+    const user = userEvent.setup();
+    const onSend = vi.fn().mockResolvedValue(["email"]);
+    render(
+      <SendToCustomer contact={{ email: "jane@example.com" }} delivery="save" onSend={onSend} />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Send to Customer" }));
+    await user.click(screen.getByRole("button", { name: "Save Copy" }));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "Summary saved as a file to send by email yourself."
+    );
+  });
+
+  it("offers no send when email and text aren't set up", async () => {
+    const user = userEvent.setup();
+    const onSend = vi.fn();
+    render(
+      <SendToCustomer contact={{ email: "jane@example.com" }} delivery="none" onSend={onSend} />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Send to Customer" }));
+
+    expect(screen.getByText(/aren't set up yet/)).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Send" })).not.toBeInTheDocument();
+    expect(onSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import type { CustomerContact, MessageChannel, MessageDelivery } from "../customerMessaging";
+
+interface SendToCustomerProps {
+  contact: CustomerContact;
+  // What the configured transport does: sends, saves a copy for the rep, or nothing
+  delivery: MessageDelivery;
+  onSend: (channels: MessageChannel[]) => Promise<MessageChannel[]>;
+  // Opens the customer info form to add an email or mobile number
+  onEditContact?: () => void;
+}
+
+const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  email: "Email",
+  sms: "Text",
+};
+
+/**
+ * "Send to customer" button and its popover: pick email and/or text, then send. When no
+ * email/SMS provider is set up, the popover says so instead of offering to send.
+ */
+export const SendToCustomer: React.FC<SendToCustomerProps> = ({
+  contact,
+  delivery,
+  onSend,
+  onEditContact,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [excluded, setExcluded] = useState<MessageChannel[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const available: Array<{ channel: MessageChannel; to: string }> = [
+    ...(contact.email ? [{ channel: "email" as const, to: contact.email }] : []),
+    ...(contact.phone ? [{ channel: "sms" as const, to: contact.phone }] : []),
+  ];
+  const channels = available
+    .map((option) => option.channel)
+    .filter((channel) => !excluded.includes(channel));
+
+  const toggleChannel = (channel: MessageChannel) => {
+    setExcluded((prev) =>
+      prev.includes(channel) ? prev.filter((c) => c !== channel) : [...prev, channel]
+    );
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const sent = await onSend(channels);
+      const labels = sent.map((c) => CHANNEL_LABELS[c].toLowerCase()).join(" and ");
+      setMessage(
+        delivery === "save"
+          ? `Summary saved as a file to send by ${labels} yourself.`
+          : `Summary sent by ${labels}.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send the summary.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => {
+          setIsOpen((open) => !open);
+          setMessage(null);
+          setError(null);
+        }}
+        aria-expanded={isOpen}
+        className="border border-gray-600 text-gray-200 px-4 py-2 rounded-md font-bold text-sm hover:text-white hover:border-gray-400 transition-colors"
+      >
+        Send to Customer
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-4 z-20 text-sm"
+          role="dialog"
+          aria-label="Send summary to customer"
+        >
+          {delivery === "none" ? (
+            <p className="text-gray-300">
+              Email and text messages aren&apos;t set up yet. Download the PDF or share a quote link
+              instead.
+            </p>
+          ) : available.length === 0 ? (
+            <>
+              <p className="text-gray-300">
+                Add the customer&apos;s email or mobile number to send them their summary.
+              </p>
+              {onEditContact && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsOpen(false);
+                    onEditContact();
+                  }}
+                  className="mt-3 bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors"
+                >
+                  Add Contact
+                </button>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="text-gray-400 mb-2">
+                {delivery === "save"
+                  ? "Saves the selections and total, without dealer cost, as a file to send yourself."
+                  : "The selections and total, without dealer cost."}
+              </p>
+              <div className="space-y-2">
+                {available.map((option) => (
+                  <label key={option.channel} className="flex items-center gap-2 text-gray-200">
+                    <input
+                      type="checkbox"
+                      checked={!excluded.includes(option.channel)}
+                      onChange={() => toggleChannel(option.channel)}
+                    />
+                    <span>
+                      {CHANNEL_LABELS[option.channel]}{" "}
+                      <span className="text-gray-400">{option.to}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div className="mt-3 flex items-center justify-between gap-2">
+                {onEditContact ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsOpen(false);
+                      onEditContact();
+                    }}
+                    className="text-xs text-gray-400 hover:text-white underline"
+                  >
+                    Edit contact
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  type="button"
+                  onClick={handleSend}
+                  disabled={isSending || channels.length === 0}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {delivery === "save"
+                    ? isSending
+                      ? "Saving..."
+                      : "Save Copy"
+                    : isSending
+                      ? "Sending..."
+                      : "Send"}
+                </button>
+              </div>
+            </>
+          )}
+          {message && (
+            <p className="mt-3 text-green-400" role="status">
+              {message}
+            </p>
+          )}
+          {error && (
+            <p className="mt-3 text-red-300" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
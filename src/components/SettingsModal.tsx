@@ -1,5 +1,13 @@
 import React, { useMemo, useState, useEffect, useCallback } from "react";
-import type { AlaCarteOption, PackageTier, PriceOverrides } from "../types";
+import type {
+  AlaCarteOption,
+  PackageTier,
+  PriceApproval,
+  PriceOverrides,
+  PricingPolicy,
+} from "../types";
+import { buildFloorCheckLines, checkPricingFloors, overridesKey } from "../utils/pricingFloor";
+import { PriceApprovalPanel } from "./PriceApprovalPanel";
 
 const parseMoneyInput = (raw: string): number | null => {
   const trimmed = raw.trim();
@@ -49,14 +57,28 @@ const overridesEqual = (a: PriceOverrides, b: PriceOverrides): boolean => {
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (priceOverrides: PriceOverrides) => void;
+  onSave: (priceOverrides: PriceOverrides, approval?: PriceApproval) => void;
   currentPriceOverrides: PriceOverrides;
+  // Approval already granted for currentPriceOverrides, if any
+  currentPriceApproval?: PriceApproval | null;
+  // Gross-profit floors; overrides below them need manager approval before saving
+  pricingPolicy?: PricingPolicy;
+  // Managers and admins approve their own overrides (with a reason)
+  selfApprover?: PriceApproval["approvedBy"] | null;
+  canRequestRemoteApproval?: boolean;
+  // Opened from finalizing a deal that is below a floor: asks for approval straight away
+  approvalRequired?: boolean;
+  customerName?: string;
   basePackagePricesById?: Record<string, number>;
   basePackageCostsById?: Record<string, number>;
   baseAddonPricesById?: Record<string, number>;
   baseAddonCostsById?: Record<string, number>;
+  // Hidden for reps, who must not see dealer cost
+  showCostOverrides?: boolean;
   selectedPackage?: PackageTier | null;
   selectedAddOns?: AlaCarteOption[];
+  // The You Pick 2 bundle: not adjustable, but counted toward the deal floor
+  pick2?: { price: number; items: AlaCarteOption[] };
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -64,54 +86,46 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   onClose,
   onSave,
   currentPriceOverrides,
+  currentPriceApproval = null,
+  pricingPolicy = {},
+  selfApprover = null,
+  canRequestRemoteApproval = false,
+  approvalRequired = false,
+  customerName,
   basePackagePricesById = {},
   basePackageCostsById = {},
   baseAddonPricesById = {},
   baseAddonCostsById = {},
+  showCostOverrides = true,
   selectedPackage = null,
   selectedAddOns = [],
+  pick2,
 }) => {
   const [overrides, setOverrides] = useState<PriceOverrides>(currentPriceOverrides);
   const [desiredTotal, setDesiredTotal] = useState<string>("");
   const [saveError, setSaveError] = useState<string | null>(null);
   const [showDiscardConfirm, setShowDiscardConfirm] = useState(false);
-
-  const selectionItems = useMemo(() => {
-    const items: Array<{
-      id: string;
-      name: string;
-      standardPrice: number;
-      standardCost: number;
-    }> = [];
-    if (selectedPackage) {
-      const standardPrice = basePackagePricesById[selectedPackage.id] ?? selectedPackage.price;
-      const standardCost = basePackageCostsById[selectedPackage.id] ?? selectedPackage.cost;
-      items.push({
-        id: selectedPackage.id,
-        name: `${selectedPackage.name} Package`,
-        standardPrice,
-        standardCost,
-      });
-    }
-    selectedAddOns.forEach((item) => {
-      const standardPrice = baseAddonPricesById[item.id] ?? item.price;
-      const standardCost = baseAddonCostsById[item.id] ?? item.cost;
-      items.push({
-        id: item.id,
-        name: item.name,
-        standardPrice,
-        standardCost,
-      });
-    });
-    return items;
-  }, [
-    baseAddonCostsById,
-    baseAddonPricesById,
-    basePackageCostsById,
-    basePackagePricesById,
-    selectedAddOns,
-    selectedPackage,
-  ]);
+  const [showApproval, setShowApproval] = useState(false);
+
+  const selectionItems = useMemo(
+    () =>
+      buildFloorCheckLines({
+        selectedPackage,
+        selectedAddOns,
+        basePackagePricesById,
+        basePackageCostsById,
+        baseAddonPricesById,
+        baseAddonCostsById,
+      }),
+    [
+      baseAddonCostsById,
+      baseAddonPricesById,
+      basePackageCostsById,
+      basePackagePricesById,
+      selectedAddOns,
+      selectedPackage,
+    ]
+  );
 
   const standardTotal = useMemo(
     () => selectionItems.reduce((sum, item) => sum + (item.standardPrice || 0), 0),
@@ -128,6 +142,34 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
   const totalDelta = useMemo(() => currentTotal - standardTotal, [currentTotal, standardTotal]);
 
+  const floorCheck = useMemo(
+    () =>
+      checkPricingFloors(
+        buildFloorCheckLines({
+          selectedPackage,
+          selectedAddOns,
+          basePackagePricesById,
+          basePackageCostsById,
+          baseAddonPricesById,
+          baseAddonCostsById,
+          pick2,
+        }),
+        overrides,
+        pricingPolicy
+      ),
+    [
+      baseAddonCostsById,
+      baseAddonPricesById,
+      basePackageCostsById,
+      basePackagePricesById,
+      overrides,
+      pick2,
+      pricingPolicy,
+      selectedAddOns,
+      selectedPackage,
+    ]
+  );
+
   const isDirty = useMemo(
     () => !overridesEqual(overrides, currentPriceOverrides),
     [overrides, currentPriceOverrides]
@@ -147,8 +189,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       setSaveError(null);
       setDesiredTotal("");
       setShowDiscardConfirm(false);
+      setShowApproval(approvalRequired);
     }
-  }, [currentPriceOverrides, isOpen]);
+  }, [approvalRequired, currentPriceOverrides, isOpen]);
 
   const setOverrideNumber = (id: string, key: "price" | "cost", raw: string) => {
     const trimmed = raw.trim();
@@ -176,6 +219,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       };
     });
     setSaveError(null);
+    setShowApproval(false);
   };
 
   const applyDesiredTotal = () => {
@@ -196,6 +240,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   const clearAllOverrides = () => {
     setOverrides({});
     setSaveError(null);
+    setShowApproval(false);
   };
 
   const requestClose = useCallback(() => {
@@ -222,16 +267,43 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     };
   }, [isOpen, requestClose]);
 
+  const saveOverrides = useCallback(
+    (nextOverrides: PriceOverrides, approval?: PriceApproval) => {
+      setSaveError(null);
+      try {
+        onSave(nextOverrides, approval);
+      } catch (error) {
+        console.error("Error saving settings:", error);
+        setSaveError("Could not save pricing adjustments. Please try again.");
+      }
+    },
+    [onSave]
+  );
+
   const handleSave = () => {
-    setSaveError(null);
-    try {
-      onSave(overrides);
-    } catch (error) {
-      console.error("Error saving settings:", error);
-      setSaveError("Could not save pricing adjustments. Please try again.");
+    if (!floorCheck.needsApproval) {
+      saveOverrides(overrides);
+      return;
     }
+    // An approval carries over only while the overrides are exactly what was approved.
+    if (
+      currentPriceApproval &&
+      overridesKey(currentPriceApproval.overrides) === overridesKey(overrides)
+    ) {
+      saveOverrides(overrides, currentPriceApproval);
+      return;
+    }
+    setShowApproval(true);
   };
 
+  const handleApproved = useCallback(
+    (approval: PriceApproval) => {
+      setShowApproval(false);
+      saveOverrides(approval.overrides, approval);
+    },
+    [saveOverrides]
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -471,7 +543,11 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                               </p>
                             </div>
 
-                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full md:w-auto">
+                            <div
+                              className={`grid grid-cols-1 ${
+                                showCostOverrides ? "sm:grid-cols-2" : ""
+                              } gap-2 w-full md:w-auto`}
+                            >
                               <div>
                                 <label
                                   htmlFor={`override-price-${item.id}`}
@@ -491,24 +567,26 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                 />
                               </div>
 
-                              <div>
-                                <label
-                                  htmlFor={`override-cost-${item.id}`}
-                                  className="block text-xs uppercase tracking-[0.2em] text-gray-400 mb-1"
-                                >
-                                  Override cost (optional)
-                                </label>
-                                <input
-                                  id={`override-cost-${item.id}`}
-                                  inputMode="numeric"
-                                  value={override.cost ?? ""}
-                                  onChange={(e) =>
-                                    setOverrideNumber(item.id, "cost", e.target.value)
-                                  }
-                                  className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500"
-                                  placeholder={String(item.standardCost)}
-                                />
-                              </div>
+                              {showCostOverrides && (
+                                <div>
+                                  <label
+                                    htmlFor={`override-cost-${item.id}`}
+                                    className="block text-xs uppercase tracking-[0.2em] text-gray-400 mb-1"
+                                  >
+                                    Override cost (optional)
+                                  </label>
+                                  <input
+                                    id={`override-cost-${item.id}`}
+                                    inputMode="numeric"
+                                    value={override.cost ?? ""}
+                                    onChange={(e) =>
+                                      setOverrideNumber(item.id, "cost", e.target.value)
+                                    }
+                                    className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-blue-500 focus:border-blue-500"
+                                    placeholder={String(item.standardCost)}
+                                  />
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -521,6 +599,30 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
           </section>
         </div>
 
+        {showApproval && floorCheck.needsApproval && (
+          <div className="px-6 pb-4">
+            {approvalRequired && (
+              <p role="alert" className="text-sm text-amber-300 mb-3">
+                {floorCheck.violations.length > 0
+                  ? "The deal changed since these prices were set and is now below the pricing floor. Get manager approval or adjust pricing before finalizing."
+                  : "These prices haven't been approved yet. Get manager approval or clear the adjustments before finalizing."}
+              </p>
+            )}
+            <PriceApprovalPanel
+              violations={floorCheck.violations}
+              lines={floorCheck.lines}
+              dealGrossProfit={floorCheck.dealGrossProfit}
+              overrides={overrides}
+              customerName={customerName}
+              showAmounts={showCostOverrides}
+              selfApprover={selfApprover}
+              canRequestRemote={canRequestRemoteApproval}
+              onApproved={handleApproved}
+              onCancel={() => setShowApproval(false)}
+            />
+          </div>
+        )}
+
         <div className="p-6 bg-gray-900/50 border-t border-gray-700 flex justify-end items-center rounded-b-xl sticky bottom-0 z-10">
           <button type="button" onClick={requestClose} className="btn-lux-ghost px-5 py-2 mr-3">
             Cancel
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import type { QuoteLink } from "../quoteLinks";
+
+interface ShareQuoteLinkProps {
+  onCreateLink: () => Promise<QuoteLink>;
+}
+
+const formatExpiry = (expiresAt: number) =>
+  new Date(expiresAt).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+/**
+ * "Share Link" button: creates a read-only, expiring link to the deal for the customer
+ * to forward, and shows it ready to copy.
+ */
+export const ShareQuoteLink: React.FC<ShareQuoteLinkProps> = ({ onCreateLink }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [link, setLink] = useState<QuoteLink | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setLink(await onCreateLink());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create the quote link.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+    } catch {
+      setError("Copy failed. Select the link and copy it instead.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => {
+          setIsOpen((open) => !open);
+          setCopied(false);
+          if (!link && !isCreating && !isOpen) void handleCreate();
+        }}
+        aria-expanded={isOpen}
+        className="border border-gray-600 text-gray-200 px-4 py-2 rounded-md font-bold text-sm hover:text-white hover:border-gray-400 transition-colors"
+      >
+        Share Link
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-4 z-20 text-sm"
+          role="dialog"
+          aria-label="Share quote link"
+        >
+          {isCreating && <p className="text-gray-300">Creating link...</p>}
+          {link && (
+            <>
+              <p className="text-gray-400 mb-2">
+                Read-only, without dealer cost. Anyone with the link can view it until{" "}
+                {formatExpiry(link.expiresAt)}.
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={link.url}
+                  onFocus={(event) => event.target.select()}
+                  aria-label="Quote link"
+                  className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200 text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="bg-blue-600 text-white px-3 py-1 rounded-md font-bold text-xs hover:bg-blue-700 transition-colors"
+                >
+                  {copied ? "Copied" : "Copy"}
+                </button>
+              </div>
+            </>
+          )}
+          {error && (
+            <div className="mt-2">
+              <p className="text-red-300" role="alert">
+                {error}
+              </p>
+              {!link && (
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  className="mt-2 text-xs text-gray-400 hover:text-white underline"
+                >
+                  Try again
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { render, screen } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { SharedQuoteView } from "./SharedQuoteView";
+import type { SharedQuote } from "../types";
+
+const TOKEN = "t".repeat(32);
+
+const sharedQuote: SharedQuote = {
+  quoteNumber: "PLX-2026-000123",
+  customerFirstName: "Jane",
+  vehicle: "2025 Lexus RX 350",
+  selectedPackage: {
+    name: "Elite",
+    price: 2500,
+    features: [
+      {
+        id: "ceramic",
+        name: "Ceramic Coating",
+        price: 900,
+        description: "Paint protection that lasts",
+        points: [],
+      },
+    ],
+  },
+  addons: [{ id: "tint", name: "Window Tint", price: 399, description: "", points: [] }],
+  pick2: null,
+  totalPrice: 2899,
+  createdAt: Date.UTC(2026, 9, 19),
+  expiresAt: Date.UTC(2026, 9, 26),
+};
+
+describe("SharedQuoteView", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows the shared selections and opens product details", async () => {
+    const user = userEvent.setup();
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(JSON.stringify(sharedQuote))));
+    render(<SharedQuoteView token={TOKEN} />);
+
+    expect(await screen.findByText("Elite Package")).toBeInTheDocument();
+    expect(screen.getByText("Quote PLX-2026-000123")).toBeInTheDocument();
+    expect(screen.getByText("$2,899.00")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Ceramic Coating" }));
+    expect(screen.getByRole("dialog")).toHaveTextContent("Paint protection that lasts");
+  });
+
+  it("explains when the link has expired", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 404 })));
+    render(<SharedQuoteView token={TOKEN} />);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(/expired/);
+  });
+});
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from "react";
+import type { SharedProduct, SharedQuote } from "../types";
+import { fetchSharedQuote } from "../quoteLinks";
+import { FeatureModal } from "./FeatureModal";
+import { DealershipLogo } from "./DealershipLogo";
+
+interface SharedQuoteViewProps {
+  token: string;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+/**
+ * The page behind a shared quote link (/q/<token>): a read-only copy of the customer's
+ * selections, with product details, for them to review at home or pass along.
+ */
+export const SharedQuoteView: React.FC<SharedQuoteViewProps> = ({ token }) => {
+  const [quote, setQuote] = useState<SharedQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [detailProduct, setDetailProduct] = useState<SharedProduct | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSharedQuote(token)
+      .then((result) => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load this quote.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const renderProduct = (product: SharedProduct, showPrice: boolean) => (
+    <li key={product.id} className="flex items-center justify-between gap-4 py-2">
+      <button
+        type="button"
+        onClick={() => setDetailProduct(product)}
+        className="text-left text-gray-200 hover:text-white underline decoration-gray-600 underline-offset-4"
+      >
+        {product.name}
+      </button>
+      {showPrice && <span className="font-mono">{formatCurrency(product.price)}</span>}
+    </li>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200 p-4 sm:p-8">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl mx-auto border border-gray-700 p-6 sm:p-8 animate-fade-in">
+        <header className="flex justify-between items-start gap-4 mb-8">
+          <DealershipLogo branding={quote?.branding} />
+          <div className="text-right">
+            <h1 className="text-3xl font-bold font-teko tracking-wider uppercase">
+              Your Protection Summary
+            </h1>
+            {quote?.quoteNumber && (
+              <p className="font-semibold text-gray-500 -mt-1">Quote {quote.quoteNumber}</p>
+            )}
+          </div>
+        </header>
+
+        {!quote && !error && <p className="text-gray-400">Loading your summary...</p>}
+
+        {error && (
+          <p className="text-red-300" role="alert">
+            {error}
+          </p>
+        )}
+
+        {quote && (
+          <>
+            <section className="mb-8 border-y-2 border-gray-700 py-4 grid sm:grid-cols-2 gap-4">
+              <div>
+                <strong>Prepared for:</strong> {quote.customerFirstName || "You"}
+              </div>
+              <div>
+                <strong>Vehicle:</strong> {quote.vehicle || "N/A"}
+              </div>
+            </section>
+
+            {quote.selectedPackage && (
+              <section className="mb-6" data-testid="shared-package">
+                <div className="flex justify-between font-bold text-lg border-b border-gray-700 pb-2">
+                  <h2>{quote.selectedPackage.name} Package</h2>
+                  <span className="font-mono">{formatCurrency(quote.selectedPackage.price)}</span>
+                </div>
+                <ul className="divide-y divide-gray-700/50">
+                  {quote.selectedPackage.features.map((feature) => renderProduct(feature, false))}
+                </ul>
+              </section>
+            )}
+
+            {quote.pick2 && (
+              <section className="mb-6" data-testid="shared-pick2">
+                <div className="flex justify-between font-bold text-lg border-b border-gray-700 pb-2">
+                  <h2>You Pick 2 Bundle</h2>
+                  <span className="font-mono">{formatCurrency(quote.pick2.price)}</span>
+                </div>
+                <ul className="divide-y divide-gray-700/50">
+                  {quote.pick2.items.map((item) => renderProduct(item, false))}
+                </ul>
+              </section>
+            )}
+
+            {quote.addons.length > 0 && (
+              <section className="mb-6" data-testid="shared-addons">
+                <h2 className="font-bold text-lg border-b border-gray-700 pb-2">Add-ons</h2>
+                <ul className="divide-y divide-gray-700/50">
+                  {quote.addons.map((addon) => renderProduct(addon, true))}
+                </ul>
+              </section>
+            )}
+
+            <div className="flex justify-between font-bold text-xl border-t-2 border-gray-700 pt-4">
+              <span>
+                {typeof quote.grandTotal === "number" ? "Total with tax and fees" : "Total"}
+              </span>
+              <span className="font-mono">
+                {formatCurrency(quote.grandTotal ?? quote.totalPrice)}
+              </span>
+            </div>
+
+            <p className="mt-8 text-sm text-gray-400">
+              Tap a product for details. This summary was prepared on {formatDate(quote.createdAt)}{" "}
+              and can be viewed until {formatDate(quote.expiresAt)}. It is for review only; your
+              sales consultant can answer any questions.
+            </p>
+          </>
+        )}
+      </div>
+
+      {detailProduct && (
+        <FeatureModal feature={detailProduct} onClose={() => setDetailProduct(null)} />
+      )}
+    </div>
+  );
+};
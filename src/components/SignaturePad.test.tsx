@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "../test/test-utils";
+import userEvent from "@testing-library/user-event";
+import { SignaturePad } from "./SignaturePad";
+
+describe("SignaturePad", () => {
+  beforeEach(() => {
+    // jsdom has no canvas backend, so drawing is stubbed out.
+    const context = {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      stroke: vi.fn(),
+      clearRect: vi.fn(),
+    };
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(context as any);
+    vi.spyOn(HTMLCanvasElement.prototype, "toDataURL").mockReturnValue(
+      "data:image/png;base64,SIGNED"
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("captures what is drawn once the signature is accepted", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<SignaturePad label="Customer Signature" onChange={onChange} />);
+
+    const acceptButton = screen.getByRole("button", { name: /accept signature/i });
+    expect(acceptButton).toBeDisabled();
+
+    const pad = screen.getByLabelText("Customer Signature pad");
+    fireEvent.pointerDown(pad, { clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(pad, { clientX: 40, clientY: 20 });
+    fireEvent.pointerUp(pad);
+
+    await user.click(acceptButton);
+    expect(onChange).toHaveBeenCalledWith({
+      image: "data:image/png;base64,SIGNED",
+      signedAt: expect.any(Number),
+    });
+  });
+
+  it("shows a captured signature and clears it for another attempt", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <SignaturePad
+        label="Manager Signature"
+        value={{ image: "data:image/png;base64,SIGNED", signedAt: Date.now() }}
+        onChange={onChange}
+      />
+    );
+
+    expect(screen.getByAltText("Manager Signature captured")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Clear" }));
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+});
@@ -0,0 +1,155 @@
+import React, { useRef, useState } from "react";
+import type { SignatureCapture } from "../types";
+
+interface SignaturePadProps {
+  label: string;
+  value?: SignatureCapture | null;
+  onChange: (capture: SignatureCapture | null) => void;
+  // Initials get a small pad; full signatures a wide one
+  variant?: "signature" | "initials";
+  // On the iPad the customer signs on the glass, so the pad is sized for a finger
+  isIpadLandscape?: boolean;
+}
+
+const PAD_SIZES = {
+  signature: { width: 600, height: 160 },
+  initials: { width: 240, height: 96 },
+} as const;
+
+/**
+ * A pad that captures a drawn signature as a PNG. Once signed it shows the captured
+ * image; clearing it hands the pad back for another attempt.
+ */
+export const SignaturePad: React.FC<SignaturePadProps> = ({
+  label,
+  value = null,
+  onChange,
+  variant = "signature",
+  isIpadLandscape = false,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const size = PAD_SIZES[variant];
+  const heightClass =
+    variant === "initials"
+      ? isIpadLandscape
+        ? "h-24"
+        : "h-16"
+      : isIpadLandscape
+        ? "h-40"
+        : "h-28";
+
+  // Maps a pointer position onto the canvas, whose drawing size differs from its CSS size.
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = rect.width ? canvas.width / rect.width : 1;
+    const scaleY = rect.height ? canvas.height / rect.height : 1;
+    return {
+      x: (event.clientX - rect.left) * scaleX,
+      y: (event.clientY - rect.top) * scaleY,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    const { x, y } = pointFor(event);
+    context.lineWidth = variant === "initials" ? 3 : 2.5;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+    context.beginPath();
+    context.moveTo(x, y);
+    drawingRef.current = true;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasStrokes(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasStrokes(false);
+    if (value) onChange(null);
+  };
+
+  const handleAccept = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasStrokes) return;
+    onChange({ image: canvas.toDataURL("image/png"), signedAt: Date.now() });
+    setHasStrokes(false);
+  };
+
+  return (
+    <div className={variant === "initials" ? "w-full max-w-[15rem]" : "w-full"}>
+      {value ? (
+        <img
+          src={value.image}
+          alt={`${label} captured`}
+          className={`w-full ${heightClass} object-contain bg-white rounded-md`}
+        />
+      ) : (
+        <canvas
+          ref={canvasRef}
+          width={size.width}
+          height={size.height}
+          aria-label={`${label} pad`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`w-full ${heightClass} bg-white rounded-md cursor-crosshair`}
+          style={{ touchAction: "none" }}
+        />
+      )}
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <p className="font-bold">{label}</p>
+        <div className="flex gap-2">
+          {!value && (
+            <button
+              type="button"
+              onClick={handleAccept}
+              disabled={!hasStrokes}
+              className={`bg-blue-600 text-white rounded-md font-bold text-xs hover:bg-blue-700 transition-colors disabled:opacity-50 ${
+                isIpadLandscape ? "px-4 py-3" : "px-3 py-1.5"
+              }`}
+            >
+              {variant === "initials" ? "Accept initials" : "Accept signature"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={!value && !hasStrokes}
+            className={`border border-gray-600 text-gray-300 rounded-md text-xs hover:text-white transition-colors disabled:opacity-50 ${
+              isIpadLandscape ? "px-4 py-3" : "px-3 py-1.5"
+            }`}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      {value && (
+        <p className="mt-1 text-xs text-gray-500">
+          Signed {new Date(value.signedAt).toLocaleString("en-US")}
+        </p>
+      )}
+    </div>
+  );
+};
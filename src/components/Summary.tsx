@@ -1,12 +1,6 @@
 import React from 'react';
-import type { PackageTier, AlaCarteOption } from '../types';
-
-interface CustomerInfo {
-  name: string;
-  year: string;
-  make: string;
-  model: string;
-}
+import type { PackageTier, AlaCarteOption, CustomerInfo } from '../types';
+import { formatVehicle } from '../utils/vehicle';
 
 interface SummaryProps {
   selectedPackage: PackageTier | null;
@@ -24,7 +18,7 @@ export const Summary: React.FC<SummaryProps> = ({ selectedPackage, customPackage
   const hasSelection = selectedPackage || customPackageItems.length > 0;
   
   const hasCustomerInfo = customerInfo && customerInfo.name;
-  const vehicleString = [customerInfo.year, customerInfo.make, customerInfo.model].filter(Boolean).join(' ');
+  const vehicleString = formatVehicle(customerInfo);
 
   return (
     <footer className={`sticky bottom-0 left-0 right-0 bg-black bg-opacity-80 backdrop-blur-md border-t border-gray-700 transition-transform duration-500 ease-in-out ${hasSelection ? 'translate-y-0' : 'translate-y-full'}`}>
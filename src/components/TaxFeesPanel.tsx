@@ -0,0 +1,309 @@
+import React, { useCallback, useEffect, useState } from "react";
+import type { AlaCarteOption, PackageTier } from "../types";
+import { fetchAllData } from "../data";
+import { fetchTaxFeeConfig, setItemTaxable, updateTaxFeeConfig } from "../taxFees";
+import { isTaxable } from "../utils/taxFees";
+
+interface TaxRateRow {
+  label: string;
+  rate: string;
+}
+
+interface FeeRow {
+  label: string;
+  amount: string;
+  cost: string;
+  taxable: boolean;
+}
+
+const EMPTY_TAX_RATE: TaxRateRow = { label: "", rate: "" };
+const EMPTY_FEE: FeeRow = { label: "", amount: "", cost: "", taxable: false };
+
+const parseAmount = (raw: string): number | undefined | null => {
+  const normalized = raw.trim().replace(/[$,%\s]/g, "");
+  if (!normalized) return undefined;
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const inputClass = "bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-white";
+
+/**
+ * Admin editor for sales tax and dealer fees (app_config/tax_fees), and for which
+ * packages and a la carte options are taxable.
+ */
+export const TaxFeesPanel: React.FC = () => {
+  const [taxRates, setTaxRates] = useState<TaxRateRow[]>([]);
+  const [fees, setFees] = useState<FeeRow[]>([]);
+  const [packages, setPackages] = useState<PackageTier[]>([]);
+  const [alaCarteOptions, setAlaCarteOptions] = useState<AlaCarteOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchTaxFeeConfig(), fetchAllData()])
+      .then(([config, catalog]) => {
+        if (cancelled) return;
+        setTaxRates(
+          config.taxRates.map((taxRate) => ({ label: taxRate.label, rate: String(taxRate.rate) }))
+        );
+        setFees(
+          config.fees.map((fee) => ({
+            label: fee.label,
+            amount: String(fee.amount),
+            cost: fee.cost?.toString() ?? "",
+            taxable: Boolean(fee.taxable),
+          }))
+        );
+        setPackages(catalog.packages);
+        setAlaCarteOptions(catalog.alaCarteOptions);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load tax and fees.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateTaxRate = (index: number, patch: Partial<TaxRateRow>) =>
+    setTaxRates((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const updateFee = (index: number, patch: Partial<FeeRow>) =>
+    setFees((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const parsedRates = taxRates.map((row) => ({
+      label: row.label.trim(),
+      rate: parseAmount(row.rate),
+    }));
+    if (parsedRates.some((row) => !row.label || typeof row.rate !== "number" || row.rate > 100)) {
+      setError("Each tax rate needs a label and a percentage between 0 and 100.");
+      return;
+    }
+    const parsedFees = fees.map((row) => ({
+      label: row.label.trim(),
+      amount: parseAmount(row.amount),
+      cost: parseAmount(row.cost),
+      taxable: row.taxable,
+    }));
+    if (
+      parsedFees.some((row) => !row.label || typeof row.amount !== "number" || row.cost === null)
+    ) {
+      setError("Each fee needs a label and a dollar amount; cost is optional.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateTaxFeeConfig({
+        taxRates: parsedRates.map((row) => ({ label: row.label, rate: row.rate as number })),
+        fees: parsedFees.map((row) => ({
+          label: row.label,
+          amount: row.amount as number,
+          ...(typeof row.cost === "number" ? { cost: row.cost } : {}),
+          ...(row.taxable ? { taxable: true } : {}),
+        })),
+      });
+      setMessage("Tax and fees saved.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save tax and fees.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTaxableChange = useCallback(
+    async (collectionName: "packages" | "ala_carte_options", itemId: string, taxable: boolean) => {
+      const setItems = (value: boolean) => {
+        if (collectionName === "packages") {
+          setPackages((prev) =>
+            prev.map((pkg) => (pkg.id === itemId ? { ...pkg, taxable: value } : pkg))
+          );
+        } else {
+          setAlaCarteOptions((prev) =>
+            prev.map((option) => (option.id === itemId ? { ...option, taxable: value } : option))
+          );
+        }
+      };
+
+      setMessage(null);
+      setError(null);
+      setItems(taxable);
+      try {
+        await setItemTaxable(collectionName, itemId, taxable);
+      } catch (err) {
+        setItems(!taxable);
+        setError(err instanceof Error ? err.message : "Failed to update the taxable flag.");
+      }
+    },
+    []
+  );
+
+  if (isLoading) {
+    return <p className="text-gray-400">Loading tax and fees...</p>;
+  }
+
+  return (
+    <div className="max-w-3xl mt-10">
+      <h3 className="text-xl sm:text-2xl font-teko tracking-wider text-white">Tax &amp; Fees</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Each tax rate applies to the taxable subtotal. Fees are added to every agreement and count
+        toward gross profit, less their cost.
+      </p>
+
+      <form onSubmit={(e) => void handleSave(e)} className="space-y-6">
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-300 mb-1">Tax rates</legend>
+          {taxRates.map((row, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2" data-testid="tax-rate">
+              <input
+                aria-label="Tax label"
+                value={row.label}
+                onChange={(e) => updateTaxRate(index, { label: e.target.value })}
+                placeholder="VA Sales Tax"
+                className={`${inputClass} flex-1 min-w-[12rem]`}
+              />
+              <input
+                aria-label="Tax rate percent"
+                inputMode="decimal"
+                value={row.rate}
+                onChange={(e) => updateTaxRate(index, { rate: e.target.value })}
+                placeholder="%"
+                className={`${inputClass} w-24`}
+              />
+              <button
+                type="button"
+                onClick={() => setTaxRates((prev) => prev.filter((_, i) => i !== index))}
+                className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setTaxRates((prev) => [...prev, EMPTY_TAX_RATE])}
+            className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+          >
+            Add tax rate
+          </button>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-300 mb-1">Fees</legend>
+          {fees.map((row, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2" data-testid="deal-fee">
+              <input
+                aria-label="Fee label"
+                value={row.label}
+                onChange={(e) => updateFee(index, { label: e.target.value })}
+                placeholder="Processing Fee"
+                className={`${inputClass} flex-1 min-w-[12rem]`}
+              />
+              <input
+                aria-label="Fee amount"
+                inputMode="decimal"
+                value={row.amount}
+                onChange={(e) => updateFee(index, { amount: e.target.value })}
+                placeholder="Amount"
+                className={`${inputClass} w-28`}
+              />
+              <input
+                aria-label="Fee cost"
+                inputMode="decimal"
+                value={row.cost}
+                onChange={(e) => updateFee(index, { cost: e.target.value })}
+                placeholder="Cost"
+                className={`${inputClass} w-28`}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={row.taxable}
+                  onChange={(e) => updateFee(index, { taxable: e.target.checked })}
+                  className="form-checkbox h-4 w-4 text-blue-500"
+                />
+                Taxable
+              </label>
+              <button
+                type="button"
+                onClick={() => setFees((prev) => prev.filter((_, i) => i !== index))}
+                className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setFees((prev) => [...prev, EMPTY_FEE])}
+            className="btn-lux-ghost text-sm px-3 min-h-[40px]"
+          >
+            Add fee
+          </button>
+        </fieldset>
+
+        {error && (
+          <p className="text-sm text-red-300" role="alert">
+            {error}
+          </p>
+        )}
+        {message && <p className="text-sm text-emerald-300">{message}</p>}
+
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-md font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          disabled={isSaving}
+        >
+          {isSaving ? "Saving..." : "Save tax & fees"}
+        </button>
+      </form>
+
+      <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-300 mb-2">Taxable packages</legend>
+          {packages.map((pkg) => (
+            <label key={pkg.id} className="flex items-center gap-2 text-sm text-gray-200 py-1">
+              <input
+                type="checkbox"
+                checked={isTaxable(pkg)}
+                onChange={(e) => void handleTaxableChange("packages", pkg.id, e.target.checked)}
+                className="form-checkbox h-4 w-4 text-blue-500"
+              />
+              {pkg.name}
+            </label>
+          ))}
+        </fieldset>
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-300 mb-2">Taxable a la carte</legend>
+          {alaCarteOptions.map((option) => (
+            <label key={option.id} className="flex items-center gap-2 text-sm text-gray-200 py-1">
+              <input
+                type="checkbox"
+                checked={isTaxable(option)}
+                onChange={(e) =>
+                  void handleTaxableChange("ala_carte_options", option.id, e.target.checked)
+                }
+                className="form-checkbox h-4 w-4 text-blue-500"
+              />
+              {option.name}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from "react";
+import type { TermComparison } from "../utils/payments";
+import { formatMonthlyImpact, formatMonthlyPayment } from "../utils/payments";
+
+interface TermComparisonGridProps {
+  comparison: TermComparison;
+  selectedPackageId?: string | null;
+  onSelectPackage?: (packageId: string) => void;
+}
+
+/**
+ * Packages side by side against monthly payments at each term. Without an amount
+ * financed, the cells show what each package adds to the payment instead.
+ */
+export const TermComparisonGrid: React.FC<TermComparisonGridProps> = ({
+  comparison,
+  selectedPackageId = null,
+  onSelectPackage,
+}) => {
+  const hasLoan = comparison.amountFinanced > 0;
+  const noPackageIndex = comparison.columns.length - 1;
+
+  return (
+    <div className="lux-card p-4 sm:p-6 overflow-x-auto" data-testid="term-comparison">
+      <table className="w-full text-center">
+        <thead>
+          <tr>
+            <th className="text-left text-xs uppercase tracking-[0.2em] text-lux-textMuted pb-3">
+              Term
+            </th>
+            {comparison.columns.map((column) => {
+              const isSelected = column.id !== null && column.id === selectedPackageId;
+              return (
+                <th key={column.id ?? "none"} className="pb-3 px-2" scope="col">
+                  {column.id !== null && onSelectPackage ? (
+                    <button
+                      type="button"
+                      onClick={() => onSelectPackage(column.id as string)}
+                      aria-pressed={isSelected}
+                      className={`lux-title text-xl sm:text-2xl min-h-[44px] px-3 rounded-lg ${
+                        isSelected ? "bg-lux-blue text-lux-textStrong" : "hover:bg-white/5"
+                      }`}
+                    >
+                      {column.name}
+                    </button>
+                  ) : (
+                    <span className="lux-title text-xl sm:text-2xl text-lux-textMuted">
+                      {column.name}
+                    </span>
+                  )}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.rows.map((row) => (
+            <tr key={row.termMonths} className="border-t border-lux-border/40">
+              <th scope="row" className="text-left py-3 font-semibold text-lux-text">
+                {row.termMonths} mo
+              </th>
+              {row.payments.map((payment, index) => {
+                const column = comparison.columns[index];
+                const isSelected = column?.id != null && column.id === selectedPackageId;
+                const baseline = row.payments[noPackageIndex] ?? 0;
+                return (
+                  <td
+                    key={column?.id ?? "none"}
+                    className={`py-3 px-2 ${isSelected ? "bg-lux-blue/20" : ""}`}
+                  >
+                    {index === noPackageIndex ? (
+                      <span className="text-lux-textMuted">
+                        {hasLoan ? formatMonthlyPayment(payment) : "—"}
+                      </span>
+                    ) : hasLoan ? (
+                      <>
+                        <span className="block font-teko text-2xl text-lux-textStrong">
+                          {formatMonthlyPayment(payment)}
+                        </span>
+                        <span className="block text-xs text-lux-gold">
+                          {formatMonthlyImpact(payment - baseline)}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="font-teko text-2xl text-lux-gold">
+                        {formatMonthlyImpact(payment)}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-lux-textMuted">
+        {hasLoan
+          ? `Estimated at ${comparison.apr}% APR on ${new Intl.NumberFormat("en-US", {
+              style: "currency",
+              currency: "USD",
+              maximumFractionDigits: 0,
+            }).format(comparison.amountFinanced)} financed.`
+          : `Estimated at ${comparison.apr}% APR. Enter the amount financed under Customer & Vehicle to show full payments.`}
+      </p>
+    </div>
+  );
+};
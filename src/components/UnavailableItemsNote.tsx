@@ -0,0 +1,25 @@
+import React from "react";
+
+interface UnavailableItemsNoteProps {
+  items: Array<{ id: string; name: string }>;
+  reasonsById: Record<string, string>;
+  className?: string;
+}
+
+/**
+ * Lists the products hidden from a selector because they can't be sold on the deal's
+ * vehicle, so the rep can tell the customer why.
+ */
+export const UnavailableItemsNote: React.FC<UnavailableItemsNoteProps> = ({
+  items,
+  reasonsById,
+  className = "",
+}) => {
+  if (items.length === 0) return null;
+  return (
+    <p className={`text-xs text-lux-textMuted ${className}`} data-testid="unavailable-items">
+      Not available for this vehicle:{" "}
+      {items.map((item) => `${item.name} (${reasonsById[item.id]})`).join(", ")}
+    </p>
+  );
+};
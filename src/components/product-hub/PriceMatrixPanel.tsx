@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from "react";
+import type { AlaCarteOption, ModelPrice, PackageTier } from "../../types";
+import {
+  modelPriceInputsFromMatrix,
+  parseModelPriceInputs,
+  type ModelPriceInput,
+} from "../../utils/priceMatrix";
+
+interface PriceMatrixPanelProps {
+  packages: PackageTier[];
+  alaCarteOptions: AlaCarteOption[];
+  onSavePackage: (packageId: string, priceMatrix: ModelPrice[] | undefined) => Promise<void>;
+  onSaveOption: (optionId: string, priceMatrix: ModelPrice[] | undefined) => Promise<void>;
+}
+
+const EMPTY_ROW: ModelPriceInput = { model: "", condition: "", price: "" };
+
+const inputClass =
+  "bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:ring-blue-500 focus:border-blue-500";
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(price);
+
+/**
+ * Per-model prices for packages and A La Carte options. The menu uses the price for the
+ * deal's model and condition, and the base price for any model not listed.
+ */
+export const PriceMatrixPanel: React.FC<PriceMatrixPanelProps> = ({
+  packages,
+  alaCarteOptions,
+  onSavePackage,
+  onSaveOption,
+}) => {
+  const [selectedKey, setSelectedKey] = useState("");
+  const [rows, setRows] = useState<ModelPriceInput[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = useMemo(() => {
+    const [kind, id] = selectedKey.split(":");
+    if (kind === "package") {
+      const pkg = packages.find((item) => item.id === id);
+      return pkg ? { kind, item: pkg } : null;
+    }
+    if (kind === "option") {
+      const option = alaCarteOptions.find((item) => item.id === id);
+      return option ? { kind, item: option } : null;
+    }
+    return null;
+  }, [selectedKey, packages, alaCarteOptions]);
+
+  const handleSelect = (key: string) => {
+    const [kind, id] = key.split(":");
+    const items: Array<PackageTier | AlaCarteOption> =
+      kind === "package" ? packages : alaCarteOptions;
+    setSelectedKey(key);
+    setRows(modelPriceInputsFromMatrix(items.find((item) => item.id === id)?.priceMatrix));
+    setMessage(null);
+    setError(null);
+  };
+
+  const updateRow = (index: number, updates: Partial<ModelPriceInput>) => {
+    setRows((prev) => prev.map((row, idx) => (idx === index ? { ...row, ...updates } : row)));
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setError(null);
+    setMessage(null);
+    setIsSaving(true);
+    try {
+      const priceMatrix = parseModelPriceInputs(rows);
+      if (selected.kind === "package") {
+        await onSavePackage(selected.item.id, priceMatrix);
+      } else {
+        await onSaveOption(selected.item.id, priceMatrix);
+      }
+      setRows(modelPriceInputsFromMatrix(priceMatrix));
+      setMessage("Saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save model prices.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <p className="text-sm text-gray-300 font-semibold">Model pricing</p>
+          <p className="text-xs text-gray-500">
+            Price a package or option by model. Models not listed use the base price.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          {isSaving ? <span className="text-blue-400">Saving...</span> : null}
+          {message && !isSaving ? <span className="text-green-400">{message}</span> : null}
+        </div>
+      </div>
+
+      <div className="mt-3">
+        <label htmlFor="price-matrix-product" className="sr-only">
+          Product to price by model
+        </label>
+        <select
+          id="price-matrix-product"
+          value={selectedKey}
+          onChange={(e) => handleSelect(e.target.value)}
+          className={`${inputClass} w-full md:w-80`}
+        >
+          <option value="">Choose a package or option...</option>
+          {packages.length > 0 ? (
+            <optgroup label="Packages">
+              {packages.map((pkg) => (
+                <option key={pkg.id} value={`package:${pkg.id}`}>
+                  {pkg.name} ({formatPrice(pkg.price)})
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
+          {alaCarteOptions.length > 0 ? (
+            <optgroup label="A La Carte">
+              {alaCarteOptions.map((option) => (
+                <option key={option.id} value={`option:${option.id}`}>
+                  {option.name} ({formatPrice(option.price)})
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
+        </select>
+      </div>
+
+      {selected ? (
+        <div className="mt-3 space-y-2">
+          {rows.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Every model pays {formatPrice(selected.item.price)}.
+            </p>
+          ) : null}
+          {rows.map((row, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                aria-label={`Model ${index + 1}`}
+                value={row.model}
+                onChange={(e) => updateRow(index, { model: e.target.value })}
+                placeholder="e.g. RX or RX 350h"
+                className={`${inputClass} w-40`}
+              />
+              <select
+                aria-label={`Condition ${index + 1}`}
+                value={row.condition}
+                onChange={(e) =>
+                  updateRow(index, { condition: e.target.value as ModelPriceInput["condition"] })
+                }
+                className={inputClass}
+              >
+                <option value="">Any condition</option>
+                <option value="new">New</option>
+                <option value="used">Used / CPO</option>
+              </select>
+              <input
+                type="text"
+                inputMode="decimal"
+                aria-label={`Price ${index + 1}`}
+                value={row.price}
+                onChange={(e) => updateRow(index, { price: e.target.value })}
+                placeholder="Price"
+                className={`${inputClass} w-28`}
+              />
+              <button
+                type="button"
+                onClick={() => setRows((prev) => prev.filter((_, idx) => idx !== index))}
+                className="text-xs text-red-400 hover:text-red-300"
+                aria-label={`Remove model price ${index + 1}`}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 pt-1">
+            <button
+              type="button"
+              onClick={() => setRows((prev) => [...prev, EMPTY_ROW])}
+              className="text-sm text-blue-400 hover:text-blue-300"
+            >
+              + Add model price
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md text-sm font-semibold"
+            >
+              Save model prices
+            </button>
+          </div>
+          {error ? <p className="text-red-400 text-sm">{error}</p> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+};
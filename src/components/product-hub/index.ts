@@ -5,5 +5,6 @@ export { DroppableColumn } from "./DroppableColumn";
 export { DuplicatesPanel } from "./DuplicatesPanel";
 export type { DuplicateGroup } from "./DuplicatesPanel";
 export { RecommendedPackagePanel } from "./RecommendedPackagePanel";
+export { PriceMatrixPanel } from "./PriceMatrixPanel";
 export { FilterBar } from "./FilterBar";
 export { BulkActionsBar } from "./BulkActionsBar";
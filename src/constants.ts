@@ -1,3 +1,5 @@
+import type { DealershipBranding } from "./types";
+
 // All data arrays have been removed and are now fetched from the Supabase backend.
 // See the data.ts file for fetching logic and the README.md for backend setup instructions.
 
@@ -16,3 +18,11 @@ export const MAX_COLUMN = 4;
 
 // UI timeout constants (in milliseconds)
 export const ERROR_AUTO_HIDE_TIMEOUT = 5000;
+
+// Branding for the single-store catalog (users without dealershipIds) and demo mode
+export const DEFAULT_BRANDING: DealershipBranding = {
+  name: "Priority Lexus Virginia Beach",
+  wordmark: "PRIORITY",
+  wordmarkAccent: "LEXUS",
+  location: "VIRGINIA BEACH",
+};
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildCustomerMessages,
+  consoleTransport,
+  getMessageTransport,
+  sendCustomerSummary,
+  setMessageTransport,
+} from "./customerMessaging";
+import type { MessageTransport } from "./customerMessaging";
+import type { CustomerSummaryInput } from "./utils/customerSummary";
+
+const summary: CustomerSummaryInput = {
+  customerName: "Jane Doe",
+  vehicle: "2025 Lexus RX 350",
+  selectedPackage: { name: "Gold", price: 1999 },
+  addons: [],
+  pick2: null,
+  totalPrice: 1999,
+};
+
+describe("customerMessaging", () => {
+  afterEach(() => {
+    setMessageTransport(null);
+    vi.restoreAllMocks();
+  });
+
+  it("builds a message only for channels the customer can be reached on", () => {
+    const messages = buildCustomerMessages(summary, { email: "jane@example.com" }, [
+      "email",
+      "sms",
+    ]);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ channel: "email", to: "jane@example.com" });
+    expect(messages[0]?.html).toContain("Gold Package");
+  });
+
+  it("uses the console stand-in by default", () => {
+    expect(getMessageTransport()).toBe(consoleTransport);
+  });
+
+  it("refuses to send when only the console stand-in is configured", async () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    await expect(
+      sendCustomerSummary(summary, { email: "jane@example.com" }, ["email"])
+    ).rejects.toThrow("Email and text messages aren't set up yet, so the summary can't be sent.");
+    expect(info).not.toHaveBeenCalled();
+  });
+
+  it("sends each message through the configured transport", async () => {
+    const transport: MessageTransport = {
+      name: "test",
+      delivery: "send",
+      send: vi.fn().mockResolvedValue(undefined),
+    };
+    setMessageTransport(transport);
+
+    const sent = await sendCustomerSummary(
+      summary,
+      { email: "jane@example.com", phone: "7575550100" },
+      ["email", "sms"]
+    );
+
+    expect(sent).toEqual(["email", "sms"]);
+    expect(transport.send).toHaveBeenCalledTimes(2);
+    expect(transport.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ channel: "sms", to: "7575550100" })
+    );
+  });
+
+  it("asks for contact details when there is nowhere to send", async () => {
+    await expect(sendCustomerSummary(summary, {}, ["email", "sms"])).rejects.toThrow(
+      "Add the customer's email or mobile number before sending."
+    );
+  });
+
+  it("reports transport failures with a friendly message", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setMessageTransport({
+      name: "test",
+      delivery: "send",
+      send: vi.fn().mockRejectedValue(new Error("503")),
+    });
+
+    await expect(
+      sendCustomerSummary(summary, { email: "jane@example.com" }, ["email"])
+    ).rejects.toThrow("Failed to send the summary to the customer. Please try again.");
+  });
+});
@@ -0,0 +1,145 @@
+import { buildSummaryEmail, buildSummarySms } from "./utils/customerSummary";
+import type { CustomerSummaryInput } from "./utils/customerSummary";
+
+export type MessageChannel = "email" | "sms";
+
+export interface CustomerMessage {
+  channel: MessageChannel;
+  to: string;
+  subject?: string; // Email only
+  text: string;
+  html?: string; // Email only
+}
+
+/**
+ * What a transport does with a message: actually sends it to the customer, saves a copy
+ * for the rep to send themselves, or nothing the customer will ever see.
+ */
+export type MessageDelivery = "send" | "save" | "none";
+
+/**
+ * Delivers messages to customers. The app ships with stand-ins that log or save each
+ * message; a real email/SMS provider plugs in through setMessageTransport.
+ */
+export interface MessageTransport {
+  name: string;
+  delivery: MessageDelivery;
+  send: (message: CustomerMessage) => Promise<void>;
+}
+
+export interface CustomerContact {
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Logs each message to the console instead of sending it.
+ */
+export const consoleTransport: MessageTransport = {
+  name: "console",
+  delivery: "none",
+  send: async (message) => {
+    console.info(`[customer message] ${message.channel} to ${message.to}`, message);
+  },
+};
+
+/**
+ * Saves each message as a file instead of sending it: an .eml for email, which opens in
+ * a mail client, and a .txt for text messages.
+ */
+export const fileTransport: MessageTransport = {
+  name: "file",
+  delivery: "save",
+  send: async (message) => {
+    const content =
+      message.channel === "email"
+        ? [
+            `To: ${message.to}`,
+            `Subject: ${message.subject ?? ""}`,
+            "MIME-Version: 1.0",
+            "Content-Type: text/html; charset=utf-8",
+            "",
+            message.html ?? message.text,
+          ].join("\r\n")
+        : `To: ${message.to}\n\n${message.text}`;
+    const blob = new Blob([content], {
+      type: message.channel === "email" ? "message/rfc822" : "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `customer-${message.channel}.${message.channel === "email" ? "eml" : "txt"}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  },
+};
+
+let configuredTransport: MessageTransport | null = null;
+
+/**
+ * Replaces the transport messages are sent through; null goes back to the default.
+ */
+export function setMessageTransport(transport: MessageTransport | null): void {
+  configuredTransport = transport;
+}
+
+/**
+ * The transport in use: the one set in code, else the stand-in named by
+ * VITE_MESSAGE_TRANSPORT ("file" or "console", the default).
+ */
+export function getMessageTransport(): MessageTransport {
+  if (configuredTransport) return configuredTransport;
+  return import.meta.env["VITE_MESSAGE_TRANSPORT"] === "file" ? fileTransport : consoleTransport;
+}
+
+/**
+ * Builds the summary messages for the channels the customer can be reached on.
+ */
+export function buildCustomerMessages(
+  summary: CustomerSummaryInput,
+  contact: CustomerContact,
+  channels: MessageChannel[]
+): CustomerMessage[] {
+  const messages: CustomerMessage[] = [];
+  const email = contact.email?.trim();
+  const phone = contact.phone?.trim();
+  if (channels.includes("email") && email) {
+    messages.push({ channel: "email", to: email, ...buildSummaryEmail(summary) });
+  }
+  if (channels.includes("sms") && phone) {
+    messages.push({ channel: "sms", to: phone, text: buildSummarySms(summary) });
+  }
+  return messages;
+}
+
+/**
+ * Sends the customer their menu summary by email and/or text message. Refuses when the
+ * transport in use would not deliver anything.
+ * @returns The channels the summary was sent (or saved) on
+ */
+export async function sendCustomerSummary(
+  summary: CustomerSummaryInput,
+  contact: CustomerContact,
+  channels: MessageChannel[]
+): Promise<MessageChannel[]> {
+  const messages = buildCustomerMessages(summary, contact, channels);
+  if (messages.length === 0) {
+    throw new Error("Add the customer's email or mobile number before sending.");
+  }
+
+  const transport = getMessageTransport();
+  if (transport.delivery === "none") {
+    throw new Error("Email and text messages aren't set up yet, so the summary can't be sent.");
+  }
+  try {
+    for (const message of messages) {
+      await transport.send(message);
+    }
+  } catch (error) {
+    console.error(`Error sending customer summary through ${transport.name}:`, error);
+    throw new Error("Failed to send the summary to the customer. Please try again.");
+  }
+  return messages.map((message) => message.channel);
+}
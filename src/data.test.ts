@@ -5,24 +5,40 @@ import {
   upsertAlaCarteFromFeature,
   unpublishAlaCarteFromFeature,
   setRecommendedPackage,
+  updateFeature,
+  fetchAllData,
+  scheduleCatalogChange,
 } from "./data";
-import { writeBatch, getDocs, doc, setDoc, updateDoc, deleteField } from "firebase/firestore/lite";
+import {
+  collection,
+  writeBatch,
+  getDoc,
+  getDocs,
+  addDoc,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteField,
+} from "firebase/firestore/lite";
 import type { ProductFeature } from "./types";
 
 // Mock firebase
 vi.mock("./firebase", () => ({
   db: null,
+  auth: null,
 }));
 
 // Mock the entire firebase/firestore/lite module
 vi.mock("firebase/firestore/lite", () => ({
   collection: vi.fn(),
+  getDoc: vi.fn(),
   getDocs: vi.fn(),
   addDoc: vi.fn(),
   updateDoc: vi.fn(),
   doc: vi.fn(),
   writeBatch: vi.fn(),
   setDoc: vi.fn(),
+  deleteDoc: vi.fn(),
   deleteField: vi.fn(() => ({ _type: "deleteField" })),
 }));
 
@@ -383,8 +399,210 @@ describe("A La Carte Publishing", () => {
   });
 });
 
+describe("updateFeature audit log", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {} as any;
+    (firebaseModule as any).auth = { currentUser: { uid: "admin-1", email: "admin@example.com" } };
+    vi.mocked(doc).mockReturnValue({ path: "features/f1" } as any);
+    vi.mocked(getDoc).mockResolvedValue({
+      exists: () => true,
+      data: () => ({ name: "Ceramic Coating", price: 900, cost: 300, warranty: "5 years" }),
+    } as any);
+    vi.mocked(updateDoc).mockResolvedValue(undefined as any);
+    vi.mocked(addDoc).mockResolvedValue({ id: "entry-1" } as any);
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+    (firebaseModule as any).auth = null;
+  });
+
+  it("records who changed which fields", async () => {
+    await updateFeature("f1", { price: 1100, warranty: undefined });
+
+    expect(addDoc).toHaveBeenCalledWith(
+      undefined,
+      expect.objectContaining({
+        collection: "features",
+        docId: "f1",
+        docName: "Ceramic Coating",
+        action: "update",
+        changes: {
+          price: { before: 900, after: 1100 },
+          warranty: { before: "5 years", after: null },
+        },
+        user: { uid: "admin-1", email: "admin@example.com" },
+      })
+    );
+  });
+
+  it("skips the entry when nothing changed", async () => {
+    await updateFeature("f1", { price: 900 });
+
+    expect(updateDoc).toHaveBeenCalled();
+    expect(addDoc).not.toHaveBeenCalled();
+  });
+
+  it("still succeeds when the audit write fails", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(addDoc).mockRejectedValue(new Error("permission-denied"));
+
+    await expect(updateFeature("f1", { price: 1100 })).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(
+      "Failed to write audit log entry for features/f1:",
+      expect.any(Error)
+    );
+    errorSpy.mockRestore();
+  });
+});
+
+describe("scheduled catalog changes", () => {
+  const JAN_1 = Date.UTC(2026, 0, 1);
+  const FEB_1 = Date.UTC(2026, 1, 1);
+
+  const feature = {
+    name: "Ceramic Coating",
+    description: "Protects paint",
+    points: [],
+    useCases: [],
+    price: 900,
+    cost: 300,
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {} as any;
+    (firebaseModule as any).auth = { currentUser: { uid: "admin-1" } };
+    vi.mocked(collection).mockImplementation((_db: any, name: string) => name as any);
+    vi.mocked(addDoc).mockResolvedValue({ id: "version-1" } as any);
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+    (firebaseModule as any).auth = null;
+  });
+
+  it("serves the price in effect at the injected time", async () => {
+    vi.mocked(getDocs).mockImplementation(
+      async (name: any) =>
+        ({
+          docs:
+            name === "features"
+              ? [{ id: "coating", data: () => feature }]
+              : name === "features_versions"
+                ? [
+                    {
+                      id: "version-1",
+                      data: () => ({ versionOf: "coating", price: 1100, effectiveFrom: FEB_1 }),
+                    },
+                  ]
+                : [],
+        }) as any
+    );
+
+    const before = await fetchAllData(() => JAN_1);
+    const after = await fetchAllData(() => FEB_1);
+
+    expect(before.features).toHaveLength(1);
+    expect(before.features[0]?.price).toBe(900);
+    expect(after.features).toHaveLength(1);
+    expect(after.features[0]?.price).toBe(1100);
+  });
+
+  it("stores a version document and logs it", async () => {
+    await scheduleCatalogChange(
+      { collection: "pick2", itemId: "pick2" },
+      { price: 1095 },
+      { effectiveFrom: FEB_1 }
+    );
+
+    expect(addDoc).toHaveBeenCalledWith("pick2_versions", {
+      versionOf: "pick2",
+      price: 1095,
+      effectiveFrom: FEB_1,
+    });
+    expect(addDoc).toHaveBeenCalledWith(
+      "audit_log",
+      expect.objectContaining({
+        collection: "pick2_versions",
+        docId: "version-1",
+        action: "create",
+      })
+    );
+  });
+
+  it("keeps scheduled package changes out of the packages collection", async () => {
+    await scheduleCatalogChange(
+      { collection: "packages", itemId: "gold" },
+      { price: 2295 },
+      { effectiveFrom: FEB_1 }
+    );
+
+    expect(addDoc).toHaveBeenCalledWith("packages_versions", {
+      versionOf: "gold",
+      price: 2295,
+      effectiveFrom: FEB_1,
+    });
+    expect(addDoc).not.toHaveBeenCalledWith("packages", expect.anything());
+  });
+
+  it("rejects a window that ends before it starts", async () => {
+    await expect(
+      scheduleCatalogChange(
+        { collection: "features", itemId: "coating" },
+        { price: 1100 },
+        { effectiveFrom: FEB_1, effectiveUntil: JAN_1 }
+      )
+    ).rejects.toThrow("The end date must be after the start date.");
+    expect(addDoc).not.toHaveBeenCalled();
+  });
+});
+
+describe("fetchAllData packages", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {} as any;
+    vi.mocked(collection).mockImplementation((_db: any, name: string) => name as any);
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+  });
+
+  it("keeps a package marked not taxable", async () => {
+    vi.mocked(getDocs).mockImplementation(
+      async (name: any) =>
+        ({
+          docs:
+            name === "packages"
+              ? [
+                  { id: "gold", data: () => ({ name: "Gold", price: 2500, cost: 900 }) },
+                  {
+                    id: "platinum",
+                    data: () => ({ name: "Platinum", price: 3500, cost: 1200, taxable: false }),
+                  },
+                ]
+              : [],
+        }) as any
+    );
+
+    const { packages } = await fetchAllData();
+
+    expect(packages.find((pkg) => pkg.id === "platinum")?.taxable).toBe(false);
+    expect(packages.find((pkg) => pkg.id === "gold")).not.toHaveProperty("taxable");
+  });
+});
+
 describe("setRecommendedPackage", () => {
   const mockUpdate = vi.fn();
+  const mockSet = vi.fn();
   const mockCommit = vi.fn();
 
   beforeEach(async () => {
@@ -393,12 +611,14 @@ describe("setRecommendedPackage", () => {
     (firebaseModule as any).db = {} as any;
     vi.mocked(writeBatch).mockReturnValue({
       update: mockUpdate,
+      set: mockSet,
       commit: mockCommit,
     } as any);
     vi.mocked(doc).mockImplementation(
       (_db: any, _collection: string, id: string) => ({ path: id }) as any
     );
     mockUpdate.mockClear();
+    mockSet.mockClear();
     mockCommit.mockClear();
   });
 
@@ -429,6 +649,35 @@ describe("setRecommendedPackage", () => {
     expect(mockCommit).toHaveBeenCalledTimes(1);
   });
 
+  it("logs changed packages in the same batch", async () => {
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [
+        { id: "elite", data: () => ({ name: "Elite", isRecommended: false }) },
+        { id: "gold", data: () => ({ name: "Gold", isRecommended: false, is_recommended: false }) },
+      ],
+      empty: false,
+    } as any);
+
+    await setRecommendedPackage("elite");
+
+    // Gold is unchanged, so only Elite gets an entry
+    expect(mockSet).toHaveBeenCalledTimes(1);
+    expect(mockSet).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        collection: "packages",
+        docId: "elite",
+        docName: "Elite",
+        action: "update",
+        changes: {
+          isRecommended: { before: false, after: true },
+          is_recommended: { before: null, after: true },
+        },
+      })
+    );
+    expect(mockCommit).toHaveBeenCalledTimes(1);
+  });
+
   it("clears all recommendations when passed null", async () => {
     vi.mocked(getDocs).mockResolvedValue({
       docs: [{ id: "elite", data: () => ({ name: "Elite", isRecommended: true }) }],
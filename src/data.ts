@@ -7,11 +7,19 @@ import {
   doc,
   writeBatch,
   setDoc,
+  deleteDoc,
   deleteField,
   type DocumentData,
 } from "firebase/firestore/lite";
 import { db } from "./firebase";
-import type { PackageTier, ProductFeature, AlaCarteOption, Pick2Config } from "./types";
+import { scopedCollection } from "./dealerships";
+import type {
+  PackageTier,
+  ProductFeature,
+  AlaCarteOption,
+  Pick2Config,
+  ModelPrice,
+} from "./types";
 import {
   MOCK_PACKAGES,
   MOCK_FEATURES,
@@ -26,9 +34,29 @@ import {
   Pick2ConfigSchema,
 } from "./schemas";
 import { deriveTierFeatures } from "./utils/featureOrdering";
+import {
+  addAuditEntryToBatch,
+  buildAuditEntry,
+  readCollectionFields,
+  readDocFields,
+  recordAuditEntry,
+} from "./auditLog";
+import { applyPatch } from "./utils/auditDiff";
+import {
+  listUpcomingChanges,
+  resolveEffectiveDocs,
+  resolveVersion,
+  systemClock,
+  type Clock,
+  type UpcomingCatalogChange,
+} from "./utils/effectiveDates";
 
 // Maximum batch size for Firestore (limit is 500)
-const FIRESTORE_BATCH_LIMIT = 500;
+export const FIRESTORE_BATCH_LIMIT = 500;
+
+// Batched updates also write one audit_log entry per document, so each chunk holds
+// half as many documents to stay under the batch limit.
+const AUDITED_BATCH_CHUNK_SIZE = FIRESTORE_BATCH_LIMIT / 2;
 
 // Maximum retries for batch updates
 const MAX_RETRIES = 3;
@@ -68,6 +96,8 @@ interface FirebasePackage {
   tierColor?: string;
   featureIds?: string[]; // Legacy field (removed by migration)
   legacyFeatureIds?: string[]; // Backup of legacy featureIds (added by migration)
+  priceMatrix?: ModelPrice[];
+  taxable?: boolean;
 }
 
 function resolvePackageFeatures(
@@ -110,15 +140,33 @@ function coerceNumber(value: unknown, fallback: number, context: string): number
   return fallback;
 }
 
-function fallbackTierColor(name: string): string {
-  const n = name.trim().toLowerCase();
-  if (/\belite\b/.test(n)) return "gray-400";
-  if (/\bplatinum\b/.test(n)) return "blue-400";
-  if (/\bgold\b/.test(n)) return "yellow-400";
-  return "gray-400";
+/**
+ * Reads a collection of scheduled changes (e.g. packages_versions). If it can't be read
+ * the current catalog is used as is, so a missing or locked-down collection never stops
+ * the menu from loading.
+ */
+async function fetchScheduledVersions(
+  collectionName: string
+): Promise<Array<Record<string, unknown> & { id: string }>> {
+  if (!db) return [];
+  try {
+    const snapshot = await getDocs(collection(db, scopedCollection(collectionName)));
+    return snapshot.docs.map((versionDoc) => ({ id: versionDoc.id, ...versionDoc.data() }));
+  } catch (error) {
+    console.warn(
+      `Error fetching scheduled changes from ${collectionName}; using current prices.`,
+      error
+    );
+    return [];
+  }
 }
 
-export async function fetchAllData(): Promise<FetchDataResult> {
+/**
+ * Fetches the catalog as it stands at `clock()`: scheduled versions are applied and
+ * items outside their effective window are left out.
+ * @param clock - Source of the current time; injectable for tests
+ */
+export async function fetchAllData(clock: Clock = systemClock): Promise<FetchDataResult> {
   // If db is null (e.g., config error), we will fall back to mock data.
   if (!db) {
     console.warn("Firebase not initialized, falling back to mock data.");
@@ -130,17 +178,33 @@ export async function fetchAllData(): Promise<FetchDataResult> {
   }
 
   try {
-    const [featuresSnapshot, alaCarteSnapshot, packagesSnapshot] = await Promise.all([
-      getDocs(collection(db, "features")),
-      getDocs(collection(db, "ala_carte_options")),
-      getDocs(collection(db, "packages")),
+    const [
+      featuresSnapshot,
+      alaCarteSnapshot,
+      packagesSnapshot,
+      featureVersions,
+      alaCarteVersions,
+      packageVersions,
+    ] = await Promise.all([
+      getDocs(collection(db, scopedCollection("features"))),
+      getDocs(collection(db, scopedCollection("ala_carte_options"))),
+      getDocs(collection(db, scopedCollection("packages"))),
+      fetchScheduledVersions("features_versions"),
+      fetchScheduledVersions("ala_carte_options_versions"),
+      fetchScheduledVersions("packages_versions"),
     ]);
 
+    const now = clock();
+
     // Fetch and validate features with Zod
-    const rawFeatures = featuresSnapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const rawFeatures = resolveEffectiveDocs(
+      featuresSnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })),
+      featureVersions,
+      now
+    );
     const features: ProductFeature[] = validateDataArray(
       ProductFeatureSchema,
       rawFeatures,
@@ -150,14 +214,18 @@ export async function fetchAllData(): Promise<FetchDataResult> {
     // Fetch and validate a la carte options with Zod.
     // Validate per-doc so console output includes the Firestore document id.
     const alaCarteOptions: AlaCarteOption[] = [];
-    alaCarteSnapshot.docs.forEach((doc) => {
-      const raw = { id: doc.id, ...doc.data() };
+    const rawAlaCarteOptions = resolveEffectiveDocs(
+      alaCarteSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })),
+      alaCarteVersions,
+      now
+    );
+    rawAlaCarteOptions.forEach((raw) => {
       const result = AlaCarteOptionSchema.safeParse(raw);
       if (result.success) {
         alaCarteOptions.push(result.data);
       } else {
         console.warn(
-          `Validation error in ala_carte_options.${doc.id}:`,
+          `Validation error in ala_carte_options.${raw.id}:`,
           result.error.format(),
           raw
         );
@@ -165,17 +233,21 @@ export async function fetchAllData(): Promise<FetchDataResult> {
     });
 
     // Map and prepare packages for validation
-    const rawPackages = packagesSnapshot.docs.map((doc) => {
-      const data = doc.data() as unknown as Omit<FirebasePackage, "id">;
+    const effectivePackages = resolveEffectiveDocs(
+      packagesSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })),
+      packageVersions,
+      now
+    );
+    const rawPackages = effectivePackages.map((doc) => {
+      const data = doc as unknown as FirebasePackage;
       const isRecommended = data.isRecommended ?? data.is_recommended ?? false;
 
       const price = coerceNumber((data as FirebasePackage).price, 0, `packages.${doc.id}.price`);
       const cost = coerceNumber((data as FirebasePackage).cost, 0, `packages.${doc.id}.cost`);
       const name = (data as FirebasePackage).name;
+      // Tier colors come from the store's theme; the stored color name is kept as is
       const tier_color =
-        (data as FirebasePackage).tier_color ??
-        (data as FirebasePackage).tierColor ??
-        fallbackTierColor(name);
+        (data as FirebasePackage).tier_color ?? (data as FirebasePackage).tierColor;
 
       const derivedFeatures = resolvePackageFeatures(
         {
@@ -200,8 +272,10 @@ export async function fetchAllData(): Promise<FetchDataResult> {
         cost,
         isRecommended,
         is_recommended: data.is_recommended,
-        tier_color,
+        ...(tier_color !== undefined ? { tier_color } : {}),
         features: derivedFeatures,
+        ...(data.priceMatrix !== undefined ? { priceMatrix: data.priceMatrix } : {}),
+        ...(data.taxable !== undefined ? { taxable: data.taxable } : {}),
       };
     });
 
@@ -243,7 +317,7 @@ export async function fetchPick2Config(): Promise<Pick2Config> {
   }
 
   try {
-    const snap = await getDoc(doc(db, "app_config", "pick2"));
+    const snap = await getDoc(doc(db, scopedCollection("app_config"), "pick2"));
     if (!snap.exists()) {
       console.warn("Pick2 config missing in Firestore; falling back to mock config.");
       return fallback;
@@ -271,16 +345,53 @@ export async function fetchPick2Config(): Promise<Pick2Config> {
   }
 }
 
+/**
+ * Fetches the Pick2 config in effect at `clock()`, applying any scheduled change from
+ * pick2_versions. Outside the base config's own window the bundle is turned off.
+ * @param clock - Source of the current time; injectable for tests
+ */
+export async function fetchActivePick2Config(clock: Clock = systemClock): Promise<Pick2Config> {
+  const base = await fetchPick2Config();
+  if (!db) {
+    return base;
+  }
+
+  const versions = await fetchScheduledVersions("pick2_versions");
+  const resolved = resolveVersion(base, versions, clock());
+  if (!resolved) {
+    return { ...base, enabled: false };
+  }
+
+  const parsed = Pick2ConfigSchema.safeParse(resolved);
+  if (!parsed.success) {
+    console.warn(
+      "Scheduled Pick2 change is invalid; using the current config.",
+      parsed.error.format()
+    );
+    return base;
+  }
+  return { ...parsed.data, maxSelections: parsed.data.maxSelections ?? 2 };
+}
+
 export async function updatePick2Config(partial: Partial<Pick2Config>): Promise<void> {
   if (!db) {
     throw new Error("Firebase is not initialized. Cannot update Pick2 config.");
   }
 
+  const before = await readDocFields("app_config", "pick2");
   await setDoc(
-    doc(db, "app_config", "pick2"),
+    doc(db, scopedCollection("app_config"), "pick2"),
     prepareUpdateData(partial as Record<string, unknown>),
     { merge: true }
   );
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: "app_config",
+      docId: "pick2",
+      before,
+      after: applyPatch(before, partial as Record<string, unknown>),
+    })
+  );
 }
 
 export async function setRecommendedPackage(packageIdOrNull: string | null): Promise<void> {
@@ -288,25 +399,72 @@ export async function setRecommendedPackage(packageIdOrNull: string | null): Pro
     throw new Error("Firebase is not initialized. Cannot update recommended package.");
   }
 
-  const packagesSnapshot = await getDocs(collection(db, "packages"));
+  const packagesSnapshot = await getDocs(collection(db, scopedCollection("packages")));
   if (packagesSnapshot.empty || packagesSnapshot.docs.length === 0) {
     return;
   }
 
   const batch = writeBatch(db);
   packagesSnapshot.docs.forEach((pkgDoc) => {
-    const targetRef = doc(db!, "packages", pkgDoc.id);
+    const targetRef = doc(db!, scopedCollection("packages"), pkgDoc.id);
     const isRecommended = packageIdOrNull !== null && pkgDoc.id === packageIdOrNull;
-    batch.update(targetRef, {
+    const update = {
       isRecommended,
       // Preserve legacy field for backward compatibility
       is_recommended: isRecommended,
-    });
+    };
+    batch.update(targetRef, update);
+
+    const before = pkgDoc.data() as Record<string, unknown>;
+    addAuditEntryToBatch(
+      batch,
+      buildAuditEntry({
+        collection: "packages",
+        docId: pkgDoc.id,
+        before,
+        after: applyPatch(before, update),
+      })
+    );
   });
 
   await batch.commit();
 }
 
+/**
+ * Sets the model-specific prices for a package. An empty or undefined matrix removes it,
+ * so the package sells at its base price on every model.
+ * @param packageId - The package to update
+ * @param priceMatrix - The rows to save
+ */
+export async function updatePackagePriceMatrix(
+  packageId: string,
+  priceMatrix: ModelPrice[] | undefined
+): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot update package prices.");
+  }
+
+  const update = { priceMatrix: priceMatrix?.length ? priceMatrix : undefined };
+  const before = await readDocFields("packages", packageId);
+  try {
+    await updateDoc(doc(db, scopedCollection("packages"), packageId), prepareUpdateData(update));
+  } catch (error) {
+    console.error("Error updating package price matrix in Firestore:", error);
+    throw new Error(
+      "Failed to update the package prices. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: "packages",
+      docId: packageId,
+      before,
+      after: applyPatch(before, update),
+    })
+  );
+}
+
 /**
  * Adds a new feature document to the 'features' collection in Firestore.
  * @param featureData - The feature data to add, without an 'id'.
@@ -317,8 +475,10 @@ export async function addFeature(featureData: Omit<ProductFeature, "id">): Promi
     throw new Error("Firebase is not initialized. Cannot add feature.");
   }
 
+  let featureId: string;
   try {
-    await addDoc(collection(db, "features"), featureData);
+    const ref = await addDoc(collection(db, scopedCollection("features")), featureData);
+    featureId = ref.id;
   } catch (error) {
     console.error("Error adding feature to Firestore:", error);
     // Re-throw the error to be handled by the calling function
@@ -326,6 +486,10 @@ export async function addFeature(featureData: Omit<ProductFeature, "id">): Promi
       "Failed to save the new feature. Please check your connection and Firestore rules."
     );
   }
+
+  await recordAuditEntry(
+    buildAuditEntry({ collection: "features", docId: featureId, before: null, after: featureData })
+  );
 }
 
 /**
@@ -343,8 +507,9 @@ export async function updateFeature(
     throw new Error("Firebase is not initialized. Cannot update feature.");
   }
 
+  const before = await readDocFields("features", featureId);
   try {
-    const featureRef = doc(db, "features", featureId);
+    const featureRef = doc(db, scopedCollection("features"), featureId);
     const updateData = prepareUpdateData(featureData as Record<string, unknown>);
     await updateDoc(featureRef, updateData);
   } catch (error) {
@@ -353,6 +518,15 @@ export async function updateFeature(
       "Failed to update the feature. Please check your connection and Firestore rules."
     );
   }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: "features",
+      docId: featureId,
+      before,
+      after: applyPatch(before, featureData as Record<string, unknown>),
+    })
+  );
 }
 
 /**
@@ -390,10 +564,12 @@ export async function batchUpdateFeaturesPositions(
     return;
   }
 
-  // Split features into chunks of FIRESTORE_BATCH_LIMIT
+  const beforeById = await readCollectionFields("features");
+
+  // Split features into chunks that fit in one batch alongside their audit entries
   const chunks: FeaturePositionUpdate[][] = [];
-  for (let i = 0; i < features.length; i += FIRESTORE_BATCH_LIMIT) {
-    chunks.push(features.slice(i, i + FIRESTORE_BATCH_LIMIT));
+  for (let i = 0; i < features.length; i += AUDITED_BATCH_CHUNK_SIZE) {
+    chunks.push(features.slice(i, i + AUDITED_BATCH_CHUNK_SIZE));
   }
 
   // Process each chunk with retry logic
@@ -408,14 +584,25 @@ export async function batchUpdateFeaturesPositions(
         const batch = writeBatch(db);
 
         for (const feature of chunk) {
-          const featureRef = doc(db, "features", feature.id);
-          const updateData = prepareUpdateData({
+          const featureRef = doc(db, scopedCollection("features"), feature.id);
+          const patch = {
             position: feature.position,
             column: feature.column,
             connector: feature.connector,
-          });
-
-          batch.update(featureRef, updateData);
+          };
+
+          batch.update(featureRef, prepareUpdateData(patch));
+
+          const before = beforeById.get(feature.id) ?? null;
+          addAuditEntryToBatch(
+            batch,
+            buildAuditEntry({
+              collection: "features",
+              docId: feature.id,
+              before,
+              after: applyPatch(before, patch),
+            })
+          );
         }
 
         await batch.commit();
@@ -452,14 +639,25 @@ export async function addAlaCarteOption(optionData: Omit<AlaCarteOption, "id">):
     throw new Error("Firebase is not initialized. Cannot add A La Carte option.");
   }
 
+  let optionId: string;
   try {
-    await addDoc(collection(db, "ala_carte_options"), optionData);
+    const ref = await addDoc(collection(db, scopedCollection("ala_carte_options")), optionData);
+    optionId = ref.id;
   } catch (error) {
     console.error("Error adding A La Carte option to Firestore:", error);
     throw new Error(
       "Failed to save the new A La Carte option. Please check your connection and Firestore rules."
     );
   }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: "ala_carte_options",
+      docId: optionId,
+      before: null,
+      after: optionData,
+    })
+  );
 }
 
 /**
@@ -477,8 +675,9 @@ export async function updateAlaCarteOption(
     throw new Error("Firebase is not initialized. Cannot update A La Carte option.");
   }
 
+  const before = await readDocFields("ala_carte_options", optionId);
   try {
-    const optionRef = doc(db, "ala_carte_options", optionId);
+    const optionRef = doc(db, scopedCollection("ala_carte_options"), optionId);
     const updateData = prepareUpdateData(optionData as Record<string, unknown>);
     await updateDoc(optionRef, updateData);
   } catch (error) {
@@ -487,6 +686,15 @@ export async function updateAlaCarteOption(
       "Failed to update the A La Carte option. Please check your connection and Firestore rules."
     );
   }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: "ala_carte_options",
+      docId: optionId,
+      before,
+      after: applyPatch(before, optionData as Record<string, unknown>),
+    })
+  );
 }
 
 /**
@@ -517,10 +725,12 @@ export async function batchUpdateAlaCartePositions(
     return;
   }
 
-  // Split options into chunks of FIRESTORE_BATCH_LIMIT
+  const beforeById = await readCollectionFields("ala_carte_options");
+
+  // Split options into chunks that fit in one batch alongside their audit entries
   const chunks: AlaCartePositionUpdate[][] = [];
-  for (let i = 0; i < options.length; i += FIRESTORE_BATCH_LIMIT) {
-    chunks.push(options.slice(i, i + FIRESTORE_BATCH_LIMIT));
+  for (let i = 0; i < options.length; i += AUDITED_BATCH_CHUNK_SIZE) {
+    chunks.push(options.slice(i, i + AUDITED_BATCH_CHUNK_SIZE));
   }
 
   // Process each chunk with retry logic
@@ -535,14 +745,25 @@ export async function batchUpdateAlaCartePositions(
         const batch = writeBatch(db);
 
         for (const option of chunk) {
-          const optionRef = doc(db, "ala_carte_options", option.id);
-          const updateData = prepareUpdateData({
+          const optionRef = doc(db, scopedCollection("ala_carte_options"), option.id);
+          const patch = {
             position: option.position,
             column: option.column,
             connector: option.connector,
-          });
-
-          batch.update(optionRef, updateData);
+          };
+
+          batch.update(optionRef, prepareUpdateData(patch));
+
+          const before = beforeById.get(option.id) ?? null;
+          addAuditEntryToBatch(
+            batch,
+            buildAuditEntry({
+              collection: "ala_carte_options",
+              docId: option.id,
+              before,
+              after: applyPatch(before, patch),
+            })
+          );
         }
 
         await batch.commit();
@@ -612,9 +833,11 @@ export async function upsertAlaCarteFromFeature(
     throw new Error("Feature must have publishToAlaCarte=true and alaCartePrice set to publish.");
   }
 
+  const before = await readDocFields("ala_carte_options", feature.id);
+  let written: Record<string, unknown>;
   try {
     // Use stable doc ID: the feature's ID
-    const alaCarteRef = doc(db, "ala_carte_options", feature.id);
+    const alaCarteRef = doc(db, scopedCollection("ala_carte_options"), feature.id);
 
     const warranty = overrides.warranty ?? feature.alaCarteWarranty ?? feature.warranty;
 
@@ -631,6 +854,7 @@ export async function upsertAlaCarteFromFeature(
       imageUrl: feature.imageUrl,
       thumbnailUrl: feature.thumbnailUrl,
       videoUrl: feature.videoUrl,
+      eligibility: feature.eligibility,
       sourceFeatureId: overrides.sourceFeatureId ?? feature.id,
       isPublished: overrides.isPublished ?? true,
     };
@@ -645,8 +869,8 @@ export async function upsertAlaCarteFromFeature(
     }
 
     // Use setDoc with merge to create or update
-    const cleaned = prepareUpdateData(alaCarteData as Record<string, unknown>);
-    await setDoc(alaCarteRef, cleaned, { merge: true });
+    written = alaCarteData as Record<string, unknown>;
+    await setDoc(alaCarteRef, prepareUpdateData(written), { merge: true });
   } catch (error) {
     console.error("Error publishing feature to A La Carte:", error);
     const message = error instanceof Error ? error.message : String(error);
@@ -657,6 +881,15 @@ export async function upsertAlaCarteFromFeature(
     const details = code ? `[${code}] ${message}` : message;
     throw new Error(`Failed to publish feature to A La Carte: ${details}`);
   }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: "ala_carte_options",
+      docId: feature.id,
+      before,
+      after: applyPatch(before, written),
+    })
+  );
 }
 
 /**
@@ -670,19 +903,18 @@ export async function unpublishAlaCarteFromFeature(featureId: string): Promise<v
     throw new Error("Firebase is not initialized. Cannot unpublish from A La Carte.");
   }
 
+  const before = await readDocFields("ala_carte_options", featureId);
+  const patch = {
+    isPublished: false,
+    column: undefined,
+    position: undefined,
+    connector: undefined,
+  };
   try {
-    const alaCarteRef = doc(db, "ala_carte_options", featureId);
+    const alaCarteRef = doc(db, scopedCollection("ala_carte_options"), featureId);
     // Use updateDoc (not setDoc) so we don't accidentally create an invalid stub doc
     // (e.g. `{ isPublished: false }`) when unpublishing something that was never published.
-    await updateDoc(
-      alaCarteRef,
-      prepareUpdateData({
-        isPublished: false,
-        column: undefined,
-        position: undefined,
-        connector: undefined,
-      } as Record<string, unknown>)
-    );
+    await updateDoc(alaCarteRef, prepareUpdateData(patch));
   } catch (error) {
     // If the doc doesn't exist, we can ignore the error (already unpublished)
     if (error && typeof error === "object" && "code" in error && error.code === "not-found") {
@@ -695,4 +927,174 @@ export async function unpublishAlaCarteFromFeature(featureId: string): Promise<v
       "Failed to unpublish feature from A La Carte. Please check your connection and Firestore rules."
     );
   }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: "ala_carte_options",
+      docId: featureId,
+      before,
+      after: applyPatch(before, patch),
+    })
+  );
+}
+
+/**
+ * Catalog items that can have scheduled changes. Each one's versions live in its own
+ * `<name>_versions` collection, so the live collections only ever hold real items;
+ * "pick2" is app_config/pick2, whose versions live in pick2_versions.
+ */
+export type SchedulableCollection = "features" | "ala_carte_options" | "packages" | "pick2";
+
+const versionCollectionFor = (target: SchedulableCollection) => `${target}_versions` as const;
+
+/**
+ * Schedules a change to a catalog item, stored as a version document that only carries
+ * the changed fields and is applied by fetchAllData / fetchActivePick2Config while in effect.
+ * @param target - The item to change
+ * @param fields - The new values, e.g. { price: 450 }
+ * @param window - When the change applies, in epoch ms; an open end makes it permanent
+ */
+export async function scheduleCatalogChange(
+  target: { collection: SchedulableCollection; itemId: string },
+  fields: { price?: number; cost?: number },
+  window: { effectiveFrom: number; effectiveUntil?: number }
+): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot schedule a change.");
+  }
+  if (Object.values(fields).every((value) => value === undefined)) {
+    throw new Error("Enter the new price or cost to schedule.");
+  }
+  if (window.effectiveUntil !== undefined && window.effectiveUntil <= window.effectiveFrom) {
+    throw new Error("The end date must be after the start date.");
+  }
+
+  const collectionName = versionCollectionFor(target.collection);
+  const versionData: Record<string, unknown> = {
+    versionOf: target.itemId,
+    ...(fields.price !== undefined ? { price: fields.price } : {}),
+    ...(fields.cost !== undefined ? { cost: fields.cost } : {}),
+    effectiveFrom: window.effectiveFrom,
+    ...(window.effectiveUntil !== undefined ? { effectiveUntil: window.effectiveUntil } : {}),
+  };
+
+  let versionId: string;
+  try {
+    const ref = await addDoc(collection(db, scopedCollection(collectionName)), versionData);
+    versionId = ref.id;
+  } catch (error) {
+    console.error("Error scheduling catalog change in Firestore:", error);
+    throw new Error(
+      "Failed to schedule the change. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: collectionName,
+      docId: versionId,
+      before: null,
+      after: versionData,
+    })
+  );
+}
+
+/**
+ * Cancels a scheduled change by deleting its version document.
+ */
+export async function cancelScheduledChange(
+  target: SchedulableCollection,
+  versionId: string
+): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot cancel a scheduled change.");
+  }
+
+  const collectionName = versionCollectionFor(target);
+  const before = await readDocFields(collectionName, versionId);
+  try {
+    await deleteDoc(doc(db, scopedCollection(collectionName), versionId));
+  } catch (error) {
+    console.error("Error cancelling scheduled change in Firestore:", error);
+    throw new Error(
+      "Failed to cancel the scheduled change. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({ collection: collectionName, docId: versionId, before, after: null })
+  );
+}
+
+/**
+ * Lists scheduled changes and items starting or ending after `clock()`, soonest first.
+ * @param clock - Source of the current time; injectable for tests
+ */
+export async function fetchUpcomingChanges(
+  clock: Clock = systemClock
+): Promise<UpcomingCatalogChange[]> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load scheduled changes.");
+  }
+
+  const now = clock();
+  try {
+    const [
+      featuresSnapshot,
+      alaCarteSnapshot,
+      packagesSnapshot,
+      featureVersionsSnapshot,
+      alaCarteVersionsSnapshot,
+      packageVersionsSnapshot,
+      pick2Snapshot,
+      pick2Snap,
+    ] = await Promise.all([
+      getDocs(collection(db, scopedCollection("features"))),
+      getDocs(collection(db, scopedCollection("ala_carte_options"))),
+      getDocs(collection(db, scopedCollection("packages"))),
+      getDocs(collection(db, scopedCollection("features_versions"))),
+      getDocs(collection(db, scopedCollection("ala_carte_options_versions"))),
+      getDocs(collection(db, scopedCollection("packages_versions"))),
+      getDocs(collection(db, scopedCollection("pick2_versions"))),
+      getDoc(doc(db, scopedCollection("app_config"), "pick2")),
+    ]);
+    const toDocs = (snapshot: typeof featuresSnapshot) =>
+      snapshot.docs.map((snap) => ({ id: snap.id, ...snap.data() }));
+
+    // Items and their versions together, so each version is named after its item
+    return [
+      ...listUpcomingChanges(
+        "features",
+        [...toDocs(featuresSnapshot), ...toDocs(featureVersionsSnapshot)],
+        now
+      ),
+      ...listUpcomingChanges(
+        "ala_carte_options",
+        [...toDocs(alaCarteSnapshot), ...toDocs(alaCarteVersionsSnapshot)],
+        now
+      ),
+      ...listUpcomingChanges(
+        "packages",
+        [...toDocs(packagesSnapshot), ...toDocs(packageVersionsSnapshot)],
+        now
+      ),
+      ...listUpcomingChanges(
+        "pick2",
+        [
+          {
+            ...(pick2Snap.exists() ? pick2Snap.data() : {}),
+            id: "pick2",
+            name: "You Pick 2 Bundle",
+          },
+          ...toDocs(pick2Snapshot),
+        ],
+        now
+      ),
+    ].sort((a, b) => a.at - b.at);
+  } catch (error) {
+    console.error("Error fetching scheduled changes from Firestore:", error);
+    throw new Error(
+      "Failed to load scheduled changes. Please check your connection and Firestore rules."
+    );
+  }
 }
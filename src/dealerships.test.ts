@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  fetchUserDealerships,
+  getActiveDealershipId,
+  scopedCollection,
+  setActiveDealershipId,
+} from "./dealerships";
+import { doc, getDoc } from "firebase/firestore/lite";
+
+vi.mock("./firebase", () => ({
+  db: null,
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+}));
+
+describe("scopedCollection", () => {
+  afterEach(() => {
+    setActiveDealershipId(null);
+  });
+
+  it("uses the root collections until a store is active", () => {
+    expect(getActiveDealershipId()).toBeNull();
+    expect(scopedCollection("packages")).toBe("packages");
+  });
+
+  it("puts the catalog and its settings under the active store", () => {
+    setActiveDealershipId("vb");
+
+    expect(scopedCollection("packages")).toBe("dealerships/vb/packages");
+    expect(scopedCollection("features")).toBe("dealerships/vb/features");
+    expect(scopedCollection("ala_carte_options")).toBe("dealerships/vb/ala_carte_options");
+    expect(scopedCollection("app_config")).toBe("dealerships/vb/app_config");
+    expect(scopedCollection("pick2_versions")).toBe("dealerships/vb/pick2_versions");
+    expect(scopedCollection("catalog_snapshots")).toBe("dealerships/vb/catalog_snapshots");
+  });
+
+  it("keeps each store's promotions, deals, approvals and audit log apart", () => {
+    setActiveDealershipId("vb");
+
+    expect(scopedCollection("promotions")).toBe("dealerships/vb/promotions");
+    expect(scopedCollection("quotes")).toBe("dealerships/vb/quotes");
+    expect(scopedCollection("quote_counters")).toBe("dealerships/vb/quote_counters");
+    expect(scopedCollection("price_approvals")).toBe("dealerships/vb/price_approvals");
+    expect(scopedCollection("audit_log")).toBe("dealerships/vb/audit_log");
+  });
+
+  it("leaves collections shared by the group at the root", () => {
+    setActiveDealershipId("vb");
+
+    expect(scopedCollection("users")).toBe("users");
+    expect(scopedCollection("manager_pins")).toBe("manager_pins");
+    expect(scopedCollection("quote_links")).toBe("quote_links");
+  });
+});
+
+describe("fetchUserDealerships", () => {
+  const stores: Record<string, Record<string, unknown> | null> = {
+    vb: {
+      name: "Priority Lexus Virginia Beach",
+      wordmark: "PRIORITY",
+      wordmarkAccent: "LEXUS",
+      location: "VIRGINIA BEACH",
+    },
+    chesapeake: {
+      name: "Priority Lexus Chesapeake",
+      wordmark: "PRIORITY",
+      location: "CHESAPEAKE",
+      address: "1800 Volvo Pkwy, Chesapeake, VA",
+      primaryColor: "#1a1a1a",
+    },
+    broken: { wordmark: "" },
+    closed: null,
+  };
+
+  const mockDocs = (user: Record<string, unknown> | null) => {
+    vi.mocked(doc).mockImplementation(((_db: unknown, collection: string, id: string) => ({
+      collection,
+      id,
+    })) as any);
+    vi.mocked(getDoc).mockImplementation((async (ref: { collection: string; id: string }) => {
+      const data = ref.collection === "users" ? user : (stores[ref.id] ?? null);
+      return { id: ref.id, exists: () => data !== null, data: () => data ?? undefined };
+    }) as any);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {};
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+  });
+
+  it("throws when firebase is not initialized", async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+
+    await expect(fetchUserDealerships("uid-1")).rejects.toThrow("Firebase is not initialized");
+  });
+
+  it("returns the assigned stores in order, with their branding", async () => {
+    mockDocs({ role: "rep", dealershipIds: ["chesapeake", "vb"] });
+
+    const dealerships = await fetchUserDealerships("uid-1");
+
+    expect(dealerships.map((store) => store.id)).toEqual(["chesapeake", "vb"]);
+    expect(dealerships[0]).toMatchObject({
+      location: "CHESAPEAKE",
+      address: "1800 Volvo Pkwy, Chesapeake, VA",
+      primaryColor: "#1a1a1a",
+    });
+  });
+
+  it("returns no stores for a user of the single-store catalog", async () => {
+    mockDocs({ role: "admin" });
+    await expect(fetchUserDealerships("uid-1")).resolves.toEqual([]);
+
+    mockDocs(null);
+    await expect(fetchUserDealerships("uid-1")).resolves.toEqual([]);
+  });
+
+  it("skips stores that are missing or malformed", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockDocs({ dealershipIds: ["closed", "broken", "vb"] });
+
+    const dealerships = await fetchUserDealerships("uid-1");
+
+    expect(dealerships.map((store) => store.id)).toEqual(["vb"]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("refuses to fall back to the single-store catalog when no assigned store exists", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockDocs({ dealershipIds: ["closed", "broken"] });
+
+    await expect(fetchUserDealerships("uid-1")).rejects.toThrow(
+      "None of the stores on your account are available."
+    );
+    warn.mockRestore();
+  });
+
+  it("throws a user-facing message when the stores can't be read", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(getDoc).mockRejectedValue(new Error("permission-denied"));
+
+    await expect(fetchUserDealerships("uid-1")).rejects.toThrow("Failed to load your dealerships.");
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,104 @@
+import { doc, getDoc } from "firebase/firestore/lite";
+import { db } from "./firebase";
+import type { Dealership } from "./types";
+import { DealershipBrandingSchema, UserProfileSchema } from "./schemas";
+
+// Collections that each store keeps under dealerships/{id}: the catalog, its settings,
+// scheduled changes and snapshots, its promotions, its deals and their quote counter,
+// remote price approvals and the audit log. Users, manager PINs and shared quote links
+// stay at the root and are shared by the group.
+const DEALERSHIP_COLLECTIONS = new Set([
+  "packages",
+  "features",
+  "ala_carte_options",
+  "app_config",
+  "packages_versions",
+  "features_versions",
+  "ala_carte_options_versions",
+  "pick2_versions",
+  "catalog_snapshots",
+  "promotions",
+  "quotes",
+  "quote_counters",
+  "price_approvals",
+  "audit_log",
+]);
+
+// The store whose catalog is read and written. null uses the root collections, which is
+// how a single-store deployment (users without dealershipIds) has always worked.
+let activeDealershipId: string | null = null;
+
+export function getActiveDealershipId(): string | null {
+  return activeDealershipId;
+}
+
+/**
+ * Points catalog reads and writes at a store's collections. Callers reload the catalog
+ * afterwards; data already loaded from the previous store is not touched.
+ */
+export function setActiveDealershipId(dealershipId: string | null): void {
+  activeDealershipId = dealershipId;
+}
+
+/**
+ * The Firestore path of a collection for the active store, e.g.
+ * "dealerships/vb/packages". Collections shared by the group are returned as is.
+ */
+export function scopedCollection(collectionName: string): string {
+  return activeDealershipId && DEALERSHIP_COLLECTIONS.has(collectionName)
+    ? `dealerships/${activeDealershipId}/${collectionName}`
+    : collectionName;
+}
+
+/**
+ * Fetches the stores a user is assigned to (users/{uid}.dealershipIds), in the order
+ * assigned. A store whose document is missing or malformed is skipped.
+ * @returns The stores, or an empty list for a user of the single-store catalog
+ * @throws Error when the user or store documents can't be read, or when none of the
+ *   assigned stores can be opened
+ */
+export async function fetchUserDealerships(uid: string): Promise<Dealership[]> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load dealerships.");
+  }
+  const firestore = db;
+
+  let assigned: Dealership[];
+  try {
+    const userSnap = await getDoc(doc(firestore, "users", uid));
+    if (!userSnap.exists()) return [];
+
+    const ids = UserProfileSchema.shape.dealershipIds.safeParse(userSnap.data()["dealershipIds"]);
+    if (!ids.success || !ids.data?.length) return [];
+
+    const snapshots = await Promise.all(
+      ids.data.map((id) => getDoc(doc(firestore, "dealerships", id)))
+    );
+    assigned = snapshots.flatMap((snap) => {
+      if (!snap.exists()) {
+        console.warn(`Dealership ${snap.id} is assigned but does not exist; skipping.`);
+        return [];
+      }
+      const result = DealershipBrandingSchema.safeParse(snap.data());
+      if (!result.success) {
+        console.warn(`Invalid dealerships.${snap.id}; skipping.`, result.error);
+        return [];
+      }
+      return [{ ...result.data, id: snap.id }];
+    });
+  } catch (error) {
+    console.error("Error fetching dealerships from Firestore:", error);
+    throw new Error(
+      "Failed to load your dealerships. Please check your connection and Firestore rules."
+    );
+  }
+
+  // The rules keep a user with stores out of the single-store catalog, so falling back
+  // to it would show an empty menu and fail every save.
+  if (assigned.length === 0) {
+    throw new Error(
+      "None of the stores on your account are available. Ask an admin to check your store assignments."
+    );
+  }
+  return assigned;
+}
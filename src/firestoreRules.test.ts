@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { deleteApp, initializeApp, type FirebaseApp } from "firebase/app";
+import {
+  collection,
+  connectFirestoreEmulator,
+  doc,
+  getFirestore,
+  setDoc,
+  writeBatch,
+  type Firestore,
+} from "firebase/firestore/lite";
+import {
+  initializeApp as initializeAdminApp,
+  deleteApp as deleteAdminApp,
+} from "firebase-admin/app";
+import { getFirestore as getAdminFirestore } from "firebase-admin/firestore";
+
+// Checks firestore.rules against the Firestore emulator, which loads them from
+// firebase.json. Run with `npm run test:rules`; skipped when no emulator is running.
+const emulatorHost = process.env["FIRESTORE_EMULATOR_HOST"];
+const PROJECT_ID = process.env["GCLOUD_PROJECT"] ?? "demo-aftermarket-menu";
+
+const apps: FirebaseApp[] = [];
+
+// A client signed in as uid, held to the rules
+const signedIn = (uid: string): Firestore => {
+  const app = initializeApp({ projectId: PROJECT_ID }, `rules-${uid}-${apps.length}`);
+  apps.push(app);
+  const db = getFirestore(app);
+  const [host, port] = (emulatorHost ?? "").split(":");
+  connectFirestoreEmulator(db, host ?? "127.0.0.1", Number(port), {
+    mockUserToken: { user_id: uid },
+  });
+  return db;
+};
+
+const adminApp = emulatorHost ? initializeAdminApp({ projectId: PROJECT_ID }, "rules-admin") : null;
+// Seeds data past the rules
+const admin = () => getAdminFirestore(adminApp!);
+
+const year = new Date().getFullYear();
+
+const quote = (overrides: Record<string, unknown> = {}) => ({
+  customerInfo: { name: "Jane Doe" },
+  selectedPackage: null,
+  customPackageItems: [],
+  pick2: null,
+  priceOverrides: {},
+  totalPrice: 1995,
+  baseTotalPrice: 1995,
+  quoteNumber: `PLX-${year}-000001`,
+  status: "final",
+  createdAt: Date.now(),
+  createdBy: { uid: "rep-1" },
+  ...overrides,
+});
+
+// Saves a quote the way quotes.ts saveQuote does: counter and quote in one write
+const saveQuote = (db: Firestore, base: string, data: Record<string, unknown>, last = 1) => {
+  const batch = writeBatch(db);
+  batch.set(doc(db, `${base}quote_counters`, String(year)), { last });
+  batch.set(doc(collection(db, `${base}quotes`)), data);
+  return batch.commit();
+};
+
+describe.skipIf(!emulatorHost)("firestore.rules", () => {
+  beforeEach(async () => {
+    await fetch(
+      `http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+      { method: "DELETE" }
+    );
+  });
+
+  afterAll(async () => {
+    await Promise.all(apps.map((app) => deleteApp(app)));
+    if (adminApp) await deleteAdminApp(adminApp);
+  });
+
+  describe("saving a quote", () => {
+    it("accepts a deal in the rep's own name under the number the counter issues", async () => {
+      await expect(saveQuote(signedIn("rep-1"), "", quote())).resolves.toBeUndefined();
+    });
+
+    it("refuses a deal saved in someone else's name", async () => {
+      await expect(
+        saveQuote(signedIn("rep-1"), "", quote({ createdBy: { uid: "rep-2" } }))
+      ).rejects.toThrow();
+    });
+
+    it("refuses a number the counter didn't issue", async () => {
+      await expect(
+        saveQuote(signedIn("rep-1"), "", quote({ quoteNumber: `PLX-${year}-000007` }))
+      ).rejects.toThrow();
+    });
+
+    it("refuses a number already handed out", async () => {
+      await admin().doc(`quote_counters/${year}`).set({ last: 1 });
+      const db = signedIn("rep-1");
+      const batch = writeBatch(db);
+      batch.set(doc(collection(db, "quotes")), quote());
+
+      await expect(batch.commit()).rejects.toThrow();
+    });
+
+    it("refuses a deal saved already voided or signed", async () => {
+      const db = signedIn("rep-1");
+
+      await expect(saveQuote(db, "", quote({ status: "void" }))).rejects.toThrow();
+      await expect(
+        saveQuote(db, "", quote({ signatures: { customer: { dataUrl: "x", signedAt: 1 } } }))
+      ).rejects.toThrow();
+    });
+
+    it("refuses adjusted prices without an approval while the store sets a floor", async () => {
+      const db = signedIn("rep-1");
+      const adjusted = quote({ priceOverrides: { gold: { price: 1500 } } });
+
+      await expect(saveQuote(db, "", adjusted)).resolves.toBeUndefined();
+      await admin().doc("app_config/pricing_policy").set({ minDealGrossProfit: 500 });
+      await expect(
+        saveQuote(db, "", { ...adjusted, quoteNumber: `PLX-${year}-000002` }, 2)
+      ).rejects.toThrow();
+    });
+
+    it("holds a store's deals to the store's own counter", async () => {
+      await admin()
+        .doc("users/rep-1")
+        .set({ dealershipIds: ["vb"] });
+      await admin().doc(`dealerships/vb/quote_counters/${year}`).set({ last: 4 });
+      const db = signedIn("rep-1");
+
+      await expect(
+        saveQuote(db, "dealerships/vb/", quote({ quoteNumber: `VB-${year}-000001` }))
+      ).rejects.toThrow();
+      await expect(
+        saveQuote(db, "dealerships/vb/", quote({ quoteNumber: `VB-${year}-000005` }), 5)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("deciding an approval request", () => {
+    const request = {
+      status: "pending",
+      requestedAt: 1,
+      requestedBy: { uid: "rep-1" },
+      reason: "Competitor match",
+      items: [],
+      dealGrossProfit: 600,
+      overrides: { gold: { price: 1500 } },
+    };
+    const decision = {
+      status: "approved",
+      decidedAt: 2,
+      decidedBy: { uid: "manager-1", name: "Pat" },
+    };
+
+    beforeEach(async () => {
+      await admin().doc("users/manager-1").set({ role: "manager" });
+      await admin().doc("price_approvals/request-1").set(request);
+    });
+
+    it("lets a manager record a decision", async () => {
+      const db = signedIn("manager-1");
+
+      await expect(
+        setDoc(doc(db, "price_approvals", "request-1"), { ...request, ...decision })
+      ).resolves.toBeUndefined();
+    });
+
+    it("keeps the manager from rewriting the rep's request", async () => {
+      const db = signedIn("manager-1");
+
+      await expect(
+        setDoc(doc(db, "price_approvals", "request-1"), {
+          ...request,
+          ...decision,
+          overrides: { gold: { price: 500 } },
+        })
+      ).rejects.toThrow();
+    });
+  });
+});
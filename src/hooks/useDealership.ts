@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from "react";
+import type { User } from "firebase/auth";
+import type { Dealership } from "../types";
+import { fetchUserDealerships, setActiveDealershipId } from "../dealerships";
+import { setQuoteNumberPrefix } from "../quotes";
+
+// The store last picked on this device, so a rep working one rooftop isn't asked again
+const ACTIVE_DEALERSHIP_KEY = "am_active_dealership";
+
+export interface UseDealershipReturn {
+  dealerships: Dealership[]; // Stores the user is assigned to
+  dealership: Dealership | null; // The store being worked, or null for the single-store catalog
+  selectDealership: (dealershipId: string) => void;
+  isDealershipLoading: boolean;
+  dealershipError: string | null;
+}
+
+const readStoredDealershipId = () => {
+  try {
+    return window.localStorage.getItem(ACTIVE_DEALERSHIP_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const storeDealershipId = (dealershipId: string) => {
+  try {
+    window.localStorage.setItem(ACTIVE_DEALERSHIP_KEY, dealershipId);
+  } catch {
+    // Private browsing: the picker just asks again next session
+  }
+};
+
+/**
+ * Resolves the stores a signed-in user works at and which one is active. Catalog, deal
+ * and approval reads and writes follow the active store (dealerships.ts scopedCollection)
+ * and quote numbers take its prefix, so the caller reloads the catalog and starts a new
+ * deal whenever the active store changes. Demo mode has no stores.
+ */
+export function useDealership(user: User | null, isDemoMode: boolean): UseDealershipReturn {
+  const [dealerships, setDealerships] = useState<Dealership[]>([]);
+  const [dealership, setDealership] = useState<Dealership | null>(null);
+  // The user whose stores have been resolved. Loading is derived rather than set in the
+  // effect so the catalog never loads from the wrong scope on the first signed-in render.
+  const [resolvedUid, setResolvedUid] = useState<string | null>(null);
+  const [dealershipError, setDealershipError] = useState<string | null>(null);
+  const uid = user?.uid ?? null;
+  const isDealershipLoading = !isDemoMode && uid !== null && resolvedUid !== uid;
+
+  const activate = useCallback((next: Dealership | null) => {
+    // Scope the data layer before anything re-renders and reloads the catalog
+    setActiveDealershipId(next?.id ?? null);
+    setQuoteNumberPrefix(next ? (next.quotePrefix ?? next.id) : null);
+    setDealership(next);
+  }, []);
+
+  useEffect(() => {
+    setDealerships([]);
+    setDealershipError(null);
+    activate(null);
+    if (isDemoMode || !uid) return;
+
+    let cancelled = false;
+    fetchUserDealerships(uid)
+      .then((assigned) => {
+        if (cancelled) return;
+        const storedId = readStoredDealershipId();
+        setDealerships(assigned);
+        activate(assigned.find((store) => store.id === storedId) ?? assigned[0] ?? null);
+      })
+      .catch((error) => {
+        console.error("Failed to load dealerships:", error);
+        if (!cancelled) {
+          setDealershipError(
+            error instanceof Error ? error.message : "Failed to load dealerships."
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setResolvedUid(uid);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, isDemoMode, activate]);
+
+  const selectDealership = useCallback(
+    (dealershipId: string) => {
+      const next = dealerships.find((store) => store.id === dealershipId);
+      if (!next) return;
+      storeDealershipId(next.id);
+      activate(next);
+    },
+    [dealerships, activate]
+  );
+
+  return { dealerships, dealership, selectDealership, isDealershipLoading, dealershipError };
+}
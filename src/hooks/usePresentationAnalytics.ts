@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { PresentationDeck, PresentationSlide } from "../types";
+import { trackPresentationEnd, trackPresentationSlideView } from "../analytics";
+import { setPresentationTelemetryConfig, shouldRecordPresentation } from "../utils/telemetry";
+import {
+  addSessionToStats,
+  dwellTime,
+  isSkip,
+  loadPresentationStats,
+  savePresentationStats,
+  summarizeSession,
+  type SlideVisit,
+} from "../utils/presentationAnalytics";
+
+interface ShowingState {
+  recording: boolean | null; // null until the first slide shows and the showing is sampled
+  startedAt: number;
+  visits: SlideVisit[];
+  current: Omit<SlideVisit, "exitedAt"> | null;
+}
+
+const newShowing = (): ShowingState => ({
+  recording: null,
+  startedAt: 0,
+  visits: [],
+  current: null,
+});
+
+// Ends the slide visit in progress and reports it
+const closeCurrentVisit = (showing: ShowingState, now: number) => {
+  if (!showing.current) return;
+  const visit: SlideVisit = { ...showing.current, exitedAt: now };
+  showing.visits.push(visit);
+  showing.current = null;
+  trackPresentationSlideView({
+    slideId: visit.slideId,
+    slideNumber: visit.slideNumber,
+    dwellMs: dwellTime(visit),
+    skipped: isSkip(visit),
+  });
+};
+
+/**
+ * Records a showing of the value presentation when the store has slide analytics on and
+ * the showing is sampled: how long each slide was on screen, and whether the
+ * presentation was finished or where it was left. Each visit is reported through
+ * analytics.ts as it ends; the showing is added to the device's totals for the admin.
+ * @returns Call with the 1-based slide number each time a slide scrolls into view
+ */
+export function usePresentationAnalytics(
+  slides: PresentationSlide[],
+  config: Pick<PresentationDeck, "telemetryEnabled" | "telemetrySampleRate">
+): (slideNumber: number) => void {
+  const slidesRef = useRef(slides);
+  const showingRef = useRef<ShowingState>(newShowing());
+
+  useEffect(() => {
+    slidesRef.current = slides;
+  }, [slides]);
+
+  const { telemetryEnabled, telemetrySampleRate } = config;
+  useEffect(() => {
+    setPresentationTelemetryConfig({ telemetryEnabled, telemetrySampleRate });
+  }, [telemetryEnabled, telemetrySampleRate]);
+
+  const recordSlideView = useCallback((slideNumber: number) => {
+    const showing = showingRef.current;
+    const now = Date.now();
+    if (showing.recording === null) {
+      showing.recording = shouldRecordPresentation();
+      showing.startedAt = now;
+    }
+    if (!showing.recording || showing.current?.slideNumber === slideNumber) return;
+
+    const slide = slidesRef.current[slideNumber - 1];
+    closeCurrentVisit(showing, now);
+    if (slide) showing.current = { slideId: slide.id, slideNumber, enteredAt: now };
+  }, []);
+
+  useEffect(
+    () => () => {
+      const showing = showingRef.current;
+      showingRef.current = newShowing();
+      if (!showing.recording) return;
+
+      const now = Date.now();
+      closeCurrentVisit(showing, now);
+      if (showing.visits.length === 0) return;
+
+      const shownSlides = slidesRef.current;
+      const session = summarizeSession(showing.visits, shownSlides[shownSlides.length - 1]?.id);
+      trackPresentationEnd({
+        completed: session.completed,
+        ...(session.lastSlideId ? { lastSlideId: session.lastSlideId } : {}),
+        slidesViewed: new Set(session.visits.map((visit) => visit.slideId)).size,
+        durationMs: now - showing.startedAt,
+      });
+      savePresentationStats(addSessionToStats(loadPresentationStats(), session));
+    },
+    []
+  );
+
+  return recordSlideView;
+}
@@ -1,13 +1,26 @@
-import { useMemo } from "react";
-import type { PackageTier, AlaCarteOption, PriceOverrides } from "../types";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  PackageTier,
+  AlaCarteOption,
+  PriceOverrides,
+  Promotion,
+  AppliedPromotion,
+} from "../types";
 import { isCuratedOption } from "../utils/alaCarte";
 import { sortPackagesForDisplay } from "../utils/packageOrder";
+import { nextWindowBoundary, systemClock, type Clock } from "../utils/effectiveDates";
+import { applyPromotions, promotionBadgeFor } from "../utils/promotions";
+import { applyPriceMatrix, type PricingVehicle } from "../utils/priceMatrix";
 
 export interface UsePriceCalculationOptions {
   packages: PackageTier[];
   allAlaCarteOptions: AlaCarteOption[];
   priceOverrides: PriceOverrides;
   customPackageItems: AlaCarteOption[];
+  promotions?: Promotion[];
+  selectedPackageId?: string | null; // Qualifies "buy a package, get X at $Y" promotions
+  vehicle?: PricingVehicle; // Picks each item's model price from its price matrix
+  clock?: Clock;
 }
 
 export interface UsePriceCalculationReturn {
@@ -21,8 +34,16 @@ export interface UsePriceCalculationReturn {
   displayAlaCarteById: Map<string, AlaCarteOption>;
   curatedSelectedItems: AlaCarteOption[];
   displayCustomPackageItems: AlaCarteOption[];
+  // Promotions behind each display price. Omitted where a rep override sets the price.
+  appliedPromotionsById: Record<string, AppliedPromotion[]>;
+  promoBadgesById: Record<string, string>;
 }
 
+const NO_PROMOTIONS: Promotion[] = [];
+
+// Longest delay setTimeout honors; a boundary further out is waited for in steps.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 function applyOverrides<T extends { id: string; price: number; cost: number }>(
   items: T[],
   overrides: PriceOverrides
@@ -43,7 +64,30 @@ export function usePriceCalculation({
   allAlaCarteOptions,
   priceOverrides,
   customPackageItems,
+  promotions = NO_PROMOTIONS,
+  selectedPackageId = null,
+  vehicle,
+  clock = systemClock,
 }: UsePriceCalculationOptions): UsePriceCalculationReturn {
+  const vehicleModel = vehicle?.model;
+  const vehicleCondition = vehicle?.condition;
+
+  // The price for the deal's model replaces the base price before anything else, so
+  // promotions and strike-through prices start from it.
+  const modelPricedPackages = useMemo(
+    () => applyPriceMatrix(packages, { model: vehicleModel ?? "", condition: vehicleCondition }),
+    [packages, vehicleModel, vehicleCondition]
+  );
+
+  const modelPricedAlaCarte = useMemo(
+    () =>
+      applyPriceMatrix(allAlaCarteOptions, {
+        model: vehicleModel ?? "",
+        condition: vehicleCondition,
+      }),
+    [allAlaCarteOptions, vehicleModel, vehicleCondition]
+  );
+
   const hasPricingOverrides = useMemo(() => {
     return Object.values(priceOverrides).some(
       (override) =>
@@ -54,11 +98,11 @@ export function usePriceCalculation({
 
   const basePackagePricesById = useMemo(() => {
     const record: Record<string, number> = {};
-    packages.forEach((pkg) => {
+    modelPricedPackages.forEach((pkg) => {
       record[pkg.id] = pkg.price;
     });
     return record;
-  }, [packages]);
+  }, [modelPricedPackages]);
 
   const basePackageCostsById = useMemo(() => {
     const record: Record<string, number> = {};
@@ -70,11 +114,11 @@ export function usePriceCalculation({
 
   const baseAddonPricesById = useMemo(() => {
     const record: Record<string, number> = {};
-    allAlaCarteOptions.forEach((opt) => {
+    modelPricedAlaCarte.forEach((opt) => {
       record[opt.id] = opt.price;
     });
     return record;
-  }, [allAlaCarteOptions]);
+  }, [modelPricedAlaCarte]);
 
   const baseAddonCostsById = useMemo(() => {
     const record: Record<string, number> = {};
@@ -84,15 +128,44 @@ export function usePriceCalculation({
     return record;
   }, [allAlaCarteOptions]);
 
+  // A menu can stay open past a promotion's start or end, so the clock is read again
+  // when the next one comes around and the prices follow it.
+  const [now, setNow] = useState(clock);
+
+  useEffect(() => {
+    const next = nextWindowBoundary(promotions, now);
+    if (next === undefined) return;
+    const timer = window.setTimeout(
+      () => setNow(clock()),
+      Math.min(next - now, MAX_TIMER_DELAY_MS)
+    );
+    return () => window.clearTimeout(timer);
+  }, [promotions, now, clock]);
+
+  // Promotions come off catalog prices first; a rep override then has the final say.
+  const promotedPackages = useMemo(
+    () => applyPromotions(modelPricedPackages, "package", promotions, { now }),
+    [modelPricedPackages, promotions, now]
+  );
+
+  const promotedAlaCarte = useMemo(
+    () =>
+      applyPromotions(modelPricedAlaCarte, "alacarte", promotions, {
+        now,
+        selectedPackageId,
+      }),
+    [modelPricedAlaCarte, promotions, selectedPackageId, now]
+  );
+
   const displayPackages = useMemo(() => {
     // Deterministic customer-facing order: Elite  Platinum  Gold (matches requested layout).
-    const sorted = sortPackagesForDisplay(packages);
+    const sorted = sortPackagesForDisplay(promotedPackages.items);
     return applyOverrides(sorted, priceOverrides);
-  }, [packages, priceOverrides]);
+  }, [promotedPackages, priceOverrides]);
 
   const displayAllAlaCarteOptions = useMemo(
-    () => applyOverrides(allAlaCarteOptions, priceOverrides),
-    [allAlaCarteOptions, priceOverrides]
+    () => applyOverrides(promotedAlaCarte.items, priceOverrides),
+    [promotedAlaCarte, priceOverrides]
   );
 
   const displayAlaCarteById = useMemo(() => {
@@ -107,10 +180,39 @@ export function usePriceCalculation({
   );
 
   const displayCustomPackageItems = useMemo(
-    () => applyOverrides(curatedSelectedItems, priceOverrides),
-    [curatedSelectedItems, priceOverrides]
+    () =>
+      applyOverrides(
+        curatedSelectedItems.map((item) => displayAlaCarteById.get(item.id) ?? item),
+        priceOverrides
+      ),
+    [curatedSelectedItems, displayAlaCarteById, priceOverrides]
   );
 
+  const appliedPromotionsById = useMemo(() => {
+    const record: Record<string, AppliedPromotion[]> = {};
+    Object.entries({ ...promotedPackages.appliedById, ...promotedAlaCarte.appliedById }).forEach(
+      ([id, applied]) => {
+        if (typeof priceOverrides[id]?.price === "number") return;
+        record[id] = applied;
+      }
+    );
+    return record;
+  }, [promotedPackages, promotedAlaCarte, priceOverrides]);
+
+  const promoBadgesById = useMemo(() => {
+    const record: Record<string, string> = {};
+    if (promotions.length === 0) return record;
+    packages.forEach((pkg) => {
+      const badge = promotionBadgeFor("package", pkg.id, promotions, now);
+      if (badge) record[pkg.id] = badge;
+    });
+    allAlaCarteOptions.forEach((opt) => {
+      const badge = promotionBadgeFor("alacarte", opt.id, promotions, now);
+      if (badge) record[opt.id] = badge;
+    });
+    return record;
+  }, [packages, allAlaCarteOptions, promotions, now]);
+
   return {
     hasPricingOverrides,
     basePackagePricesById,
@@ -122,5 +224,7 @@ export function usePriceCalculation({
     displayAlaCarteById,
     curatedSelectedItems,
     displayCustomPackageItems,
+    appliedPromotionsById,
+    promoBadgesById,
   };
 }
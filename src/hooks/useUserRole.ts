@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import type { User } from "firebase/auth";
+import type { UserRole } from "../types";
+import { DEFAULT_USER_ROLE, fetchUserRole } from "../roles";
+
+export interface UseUserRoleReturn {
+  role: UserRole;
+  isRoleLoading: boolean;
+}
+
+/**
+ * Resolves the signed-in user's role. Demo mode runs entirely on mock data, so it
+ * keeps full access to the admin setup screens.
+ * Until the role document loads, the default (least privileged) role applies.
+ */
+export function useUserRole(user: User | null, isDemoMode: boolean): UseUserRoleReturn {
+  const [role, setRole] = useState<UserRole>(DEFAULT_USER_ROLE);
+  const [isRoleLoading, setIsRoleLoading] = useState(false);
+  const uid = user?.uid ?? null;
+
+  useEffect(() => {
+    if (isDemoMode) {
+      setRole("admin");
+      setIsRoleLoading(false);
+      return;
+    }
+    if (!uid) {
+      setRole(DEFAULT_USER_ROLE);
+      setIsRoleLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setRole(DEFAULT_USER_ROLE);
+    setIsRoleLoading(true);
+    fetchUserRole(uid)
+      .then((nextRole) => {
+        if (!cancelled) setRole(nextRole);
+      })
+      .catch((error) => {
+        console.error("Failed to load user role:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsRoleLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, isDemoMode]);
+
+  return { role, isRoleLoading };
+}
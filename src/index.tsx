@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { SharedQuoteView } from './components/SharedQuoteView';
+import { parseQuoteLinkToken } from './quoteLinks';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -9,11 +11,14 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Customers opening a shared quote link get the read-only quote, not the sales app.
+const sharedQuoteToken = parseQuoteLinkToken(window.location.pathname);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <ErrorBoundary>
-      <App />
+      {sharedQuoteToken ? <SharedQuoteView token={sharedQuoteToken} /> : <App />}
     </ErrorBoundary>
   </React.StrictMode>
 );
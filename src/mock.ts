@@ -238,7 +238,6 @@ export const MOCK_PACKAGES: PackageTier[] = [
     cost: 900,
     // Elite = Column 1 only
     features: deriveTierFeatures("Elite", MOCK_FEATURES),
-    tier_color: "gray-400",
   },
   {
     id: "package-platinum",
@@ -248,7 +247,6 @@ export const MOCK_PACKAGES: PackageTier[] = [
     // Platinum = Column 2 only
     features: deriveTierFeatures("Platinum", MOCK_FEATURES),
     isRecommended: true,
-    tier_color: "blue-400",
   },
   {
     id: "package-gold",
@@ -257,7 +255,6 @@ export const MOCK_PACKAGES: PackageTier[] = [
     cost: 550,
     // Gold = Column 3 only
     features: deriveTierFeatures("Gold", MOCK_FEATURES),
-    tier_color: "yellow-400",
   },
 ];
 
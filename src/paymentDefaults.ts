@@ -0,0 +1,61 @@
+import { doc, getDoc, setDoc } from "firebase/firestore/lite";
+import { db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type { PaymentDefaults } from "./types";
+import { PaymentDefaultsSchema } from "./schemas";
+import { buildAuditEntry, readDocFields, recordAuditEntry } from "./auditLog";
+import { DEFAULT_PAYMENT_DEFAULTS } from "./utils/payments";
+
+/**
+ * Fetches the estimator's default term and APR from app_config/payment_defaults.
+ * A missing or invalid document falls back to DEFAULT_PAYMENT_DEFAULTS.
+ */
+export async function fetchPaymentDefaults(): Promise<PaymentDefaults> {
+  if (!db) {
+    return DEFAULT_PAYMENT_DEFAULTS;
+  }
+
+  try {
+    const snap = await getDoc(doc(db, scopedCollection("app_config"), "payment_defaults"));
+    if (!snap.exists()) return DEFAULT_PAYMENT_DEFAULTS;
+
+    const parsed = PaymentDefaultsSchema.safeParse(snap.data());
+    if (!parsed.success) {
+      console.warn("Payment defaults invalid in Firestore; using built-in.", parsed.error.format());
+      return DEFAULT_PAYMENT_DEFAULTS;
+    }
+    return parsed.data;
+  } catch (error) {
+    console.warn("Error fetching payment defaults; using built-in.", error);
+    return DEFAULT_PAYMENT_DEFAULTS;
+  }
+}
+
+/**
+ * Saves the estimator's default term and APR to app_config/payment_defaults.
+ */
+export async function updatePaymentDefaults(defaults: PaymentDefaults): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot update payment defaults.");
+  }
+
+  const parsed = PaymentDefaultsSchema.safeParse(defaults);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "The payment defaults are not valid.");
+  }
+
+  const data = { termMonths: parsed.data.termMonths, apr: parsed.data.apr };
+  const before = await readDocFields("app_config", "payment_defaults");
+  try {
+    await setDoc(doc(db, scopedCollection("app_config"), "payment_defaults"), data);
+  } catch (error) {
+    console.error("Error saving payment defaults to Firestore:", error);
+    throw new Error(
+      "Failed to save payment defaults. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({ collection: "app_config", docId: "payment_defaults", before, after: data })
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { updatePresentation } from "./presentation";
+import { setDoc } from "firebase/firestore/lite";
+import { DEFAULT_PRESENTATION_SLIDES } from "./utils/defaultSlides";
+
+vi.mock("./firebase", () => ({
+  db: null,
+  auth: null,
+}));
+
+vi.mock("./auditLog", () => ({
+  buildAuditEntry: vi.fn((input: unknown) => input),
+  readDocFields: vi.fn(async () => null),
+  recordAuditEntry: vi.fn(async () => undefined),
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join("/") })),
+  getDoc: vi.fn(),
+  setDoc: vi.fn(),
+}));
+
+describe("updatePresentation", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {};
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+  });
+
+  it("saves the slide analytics settings with the deck", async () => {
+    await updatePresentation({
+      slides: DEFAULT_PRESENTATION_SLIDES,
+      telemetryEnabled: true,
+      telemetrySampleRate: 0.25,
+    });
+
+    expect(setDoc).toHaveBeenCalledWith(
+      { path: "app_config/presentation" },
+      expect.objectContaining({ telemetryEnabled: true, telemetrySampleRate: 0.25 })
+    );
+  });
+
+  it("leaves analytics settings off the document when they were never set", async () => {
+    await updatePresentation({ slides: DEFAULT_PRESENTATION_SLIDES });
+
+    const saved = vi.mocked(setDoc).mock.calls[0]?.[1] as Record<string, unknown>;
+    expect(saved).not.toHaveProperty("telemetryEnabled");
+    expect(saved).not.toHaveProperty("telemetrySampleRate");
+  });
+
+  it("refuses a deck with every slide hidden", async () => {
+    await expect(
+      updatePresentation({
+        slides: DEFAULT_PRESENTATION_SLIDES.map((slide) => ({ ...slide, hidden: true })),
+      })
+    ).rejects.toThrow("Keep at least one slide visible.");
+    expect(setDoc).not.toHaveBeenCalled();
+  });
+});
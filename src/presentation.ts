@@ -0,0 +1,82 @@
+import { doc, getDoc, setDoc } from "firebase/firestore/lite";
+import { db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type { PresentationDeck } from "./types";
+import { PresentationDeckSchema } from "./schemas";
+import { buildAuditEntry, readDocFields, recordAuditEntry } from "./auditLog";
+import { DEFAULT_PRESENTATION_DECK } from "./utils/defaultSlides";
+import { cleanSlide } from "./utils/slides";
+
+/**
+ * Fetches the value presentation from app_config/presentation: its slides in order,
+ * hidden ones included, and its personalization rules. A missing or invalid document
+ * means the default deck.
+ */
+export async function fetchPresentation(): Promise<PresentationDeck> {
+  if (!db) {
+    return DEFAULT_PRESENTATION_DECK;
+  }
+
+  try {
+    const snap = await getDoc(doc(db, scopedCollection("app_config"), "presentation"));
+    if (!snap.exists()) return DEFAULT_PRESENTATION_DECK;
+
+    const parsed = PresentationDeckSchema.safeParse(snap.data());
+    if (!parsed.success) {
+      console.warn(
+        "Presentation slides invalid in Firestore; showing the default deck.",
+        parsed.error.format()
+      );
+      return DEFAULT_PRESENTATION_DECK;
+    }
+    return parsed.data;
+  } catch (error) {
+    console.warn("Error fetching presentation slides; showing the default deck.", error);
+    return DEFAULT_PRESENTATION_DECK;
+  }
+}
+
+/**
+ * Saves the deck to app_config/presentation, replacing it. Slide order is deck order.
+ * @throws Error with the first problem found when a slide or rule is incomplete
+ */
+export async function updatePresentation(deck: PresentationDeck): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot update the presentation.");
+  }
+
+  const parsed = PresentationDeckSchema.safeParse({
+    slides: deck.slides.map(cleanSlide),
+    ...(deck.warranties?.length ? { warranties: deck.warranties } : {}),
+    ...(deck.recommendations?.length ? { recommendations: deck.recommendations } : {}),
+    ...(deck.telemetryEnabled !== undefined ? { telemetryEnabled: deck.telemetryEnabled } : {}),
+    ...(deck.telemetrySampleRate !== undefined
+      ? { telemetrySampleRate: deck.telemetrySampleRate }
+      : {}),
+  });
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "The presentation slides are not valid.");
+  }
+  const ids = parsed.data.slides.map((slide) => slide.id);
+  if (new Set(ids).size !== ids.length) {
+    throw new Error("Each slide needs its own ID.");
+  }
+  if (parsed.data.slides.every((slide) => slide.hidden)) {
+    throw new Error("Keep at least one slide visible.");
+  }
+
+  const data = parsed.data;
+  const before = await readDocFields("app_config", "presentation");
+  try {
+    await setDoc(doc(db, scopedCollection("app_config"), "presentation"), data);
+  } catch (error) {
+    console.error("Error saving presentation slides to Firestore:", error);
+    throw new Error(
+      "Failed to save the presentation. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({ collection: "app_config", docId: "presentation", before, after: data })
+  );
+}
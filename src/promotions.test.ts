@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { fetchPromotions, savePromotion } from "./promotions";
+import { addDoc, getDocs, setDoc } from "firebase/firestore/lite";
+
+vi.mock("./firebase", () => ({
+  db: null,
+  auth: null,
+}));
+
+vi.mock("./auditLog", () => ({
+  buildAuditEntry: vi.fn((input: unknown) => input),
+  readDocFields: vi.fn(async () => null),
+  recordAuditEntry: vi.fn(async () => undefined),
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  addDoc: vi.fn(),
+  collection: vi.fn((_db: unknown, name: string) => ({ name })),
+  deleteDoc: vi.fn(),
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join("/") })),
+  getDocs: vi.fn(),
+  setDoc: vi.fn(),
+}));
+
+const draft = {
+  name: "Spring Sale",
+  kind: "package_percent" as const,
+  enabled: true,
+  stackable: false,
+  packageIds: ["gold"],
+  alaCarteIds: [],
+  percentOff: 10,
+};
+
+describe("promotions", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {};
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+  });
+
+  it("returns no promotions without Firebase", async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+
+    await expect(fetchPromotions()).resolves.toEqual([]);
+    expect(getDocs).not.toHaveBeenCalled();
+  });
+
+  it("fetches valid promotions sorted by name and skips invalid ones", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [
+        { id: "b", data: () => ({ ...draft, name: "Winter" }) },
+        { id: "bad", data: () => ({ name: "No discount", kind: "package_percent" }) },
+        { id: "a", data: () => draft },
+      ],
+    } as any);
+
+    const promotions = await fetchPromotions();
+
+    expect(promotions.map((promotion) => promotion.id)).toEqual(["a", "b"]);
+  });
+
+  it("treats a failed read as no promotions", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(getDocs).mockRejectedValue(new Error("offline"));
+
+    await expect(fetchPromotions()).resolves.toEqual([]);
+  });
+
+  it("adds a new promotion without undefined fields", async () => {
+    vi.mocked(addDoc).mockResolvedValue({ id: "promo-1" } as any);
+
+    await expect(savePromotion(draft)).resolves.toBe("promo-1");
+    const written = vi.mocked(addDoc).mock.calls[0]?.[1] as Record<string, unknown>;
+    expect(written).toEqual(draft);
+    expect(Object.values(written)).not.toContain(undefined);
+  });
+
+  it("replaces an existing promotion by id", async () => {
+    await savePromotion({ ...draft, effectiveFrom: 1000 }, "promo-1");
+
+    expect(setDoc).toHaveBeenCalledWith(
+      { path: "promotions/promo-1" },
+      expect.objectContaining({ effectiveFrom: 1000 })
+    );
+  });
+
+  it("rejects a promotion that ends before it starts", async () => {
+    await expect(
+      savePromotion({ ...draft, effectiveFrom: 2000, effectiveUntil: 1000 })
+    ).rejects.toThrow("The end date must be after the start date.");
+    expect(addDoc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, setDoc } from "firebase/firestore/lite";
+import { db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type { Promotion } from "./types";
+import { PromotionSchema } from "./schemas";
+import { buildAuditEntry, readDocFields, recordAuditEntry } from "./auditLog";
+
+const PROMOTIONS_COLLECTION = "promotions";
+
+export type PromotionDraft = Omit<Promotion, "id">;
+
+/**
+ * Fetches every promotion, live or not. Whether one applies right now is decided by
+ * the promotion engine (utils/promotions.ts) at pricing time.
+ * Invalid documents are skipped; a failed read means no promotions, never an error
+ * on the sales floor.
+ */
+export async function fetchPromotions(): Promise<Promotion[]> {
+  if (!db) {
+    return [];
+  }
+
+  try {
+    const snapshot = await getDocs(collection(db, scopedCollection(PROMOTIONS_COLLECTION)));
+    const promotions: Promotion[] = [];
+    snapshot.docs.forEach((promotionDoc) => {
+      const parsed = PromotionSchema.safeParse({ id: promotionDoc.id, ...promotionDoc.data() });
+      if (parsed.success) {
+        promotions.push(parsed.data);
+      } else {
+        console.warn(`Validation error in promotions.${promotionDoc.id}:`, parsed.error.format());
+      }
+    });
+    return promotions.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.warn("Error fetching promotions; prices shown without promotions.", error);
+    return [];
+  }
+}
+
+// Firestore rejects `undefined`, so optional fields are only written when set.
+function toPromotionData(draft: PromotionDraft): Record<string, unknown> {
+  return {
+    name: draft.name,
+    kind: draft.kind,
+    enabled: draft.enabled,
+    stackable: draft.stackable,
+    packageIds: draft.packageIds,
+    alaCarteIds: draft.alaCarteIds,
+    ...(typeof draft.percentOff === "number" ? { percentOff: draft.percentOff } : {}),
+    ...(typeof draft.amountOff === "number" ? { amountOff: draft.amountOff } : {}),
+    ...(typeof draft.bundlePrice === "number" ? { bundlePrice: draft.bundlePrice } : {}),
+    ...(typeof draft.effectiveFrom === "number" ? { effectiveFrom: draft.effectiveFrom } : {}),
+    ...(typeof draft.effectiveUntil === "number" ? { effectiveUntil: draft.effectiveUntil } : {}),
+  };
+}
+
+/**
+ * Creates a promotion, or replaces an existing one when an id is given.
+ * @returns The promotion's id
+ */
+export async function savePromotion(draft: PromotionDraft, promotionId?: string): Promise<string> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot save promotion.");
+  }
+
+  const parsed = PromotionSchema.safeParse({ id: promotionId ?? "new", ...draft });
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "The promotion is not valid.");
+  }
+  if (
+    typeof draft.effectiveFrom === "number" &&
+    typeof draft.effectiveUntil === "number" &&
+    draft.effectiveUntil <= draft.effectiveFrom
+  ) {
+    throw new Error("The end date must be after the start date.");
+  }
+
+  const data = toPromotionData(draft);
+  const before = promotionId ? await readDocFields(PROMOTIONS_COLLECTION, promotionId) : null;
+  let id: string;
+  try {
+    if (promotionId) {
+      await setDoc(doc(db, scopedCollection(PROMOTIONS_COLLECTION), promotionId), data);
+      id = promotionId;
+    } else {
+      const ref = await addDoc(collection(db, scopedCollection(PROMOTIONS_COLLECTION)), data);
+      id = ref.id;
+    }
+  } catch (error) {
+    console.error("Error saving promotion to Firestore:", error);
+    throw new Error(
+      "Failed to save the promotion. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({ collection: PROMOTIONS_COLLECTION, docId: id, before, after: data })
+  );
+  return id;
+}
+
+/**
+ * Deletes a promotion. Deals already finalized keep the promotion lines they were sold with.
+ */
+export async function deletePromotion(promotionId: string): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot delete promotion.");
+  }
+
+  const before = await readDocFields(PROMOTIONS_COLLECTION, promotionId);
+  try {
+    await deleteDoc(doc(db, scopedCollection(PROMOTIONS_COLLECTION), promotionId));
+  } catch (error) {
+    console.error("Error deleting promotion from Firestore:", error);
+    throw new Error(
+      "Failed to delete the promotion. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({ collection: PROMOTIONS_COLLECTION, docId: promotionId, before, after: null })
+  );
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  buildSharedQuote,
+  createQuoteLink,
+  fetchSharedQuote,
+  generateQuoteLinkToken,
+  parseQuoteLinkToken,
+  QUOTE_LINK_TTL_DAYS,
+} from "./quoteLinks";
+import { doc, setDoc } from "firebase/firestore/lite";
+import * as firebaseModule from "./firebase";
+import type { AlaCarteOption, PackageTier, ProductFeature } from "./types";
+
+vi.mock("./firebase", () => ({
+  db: null,
+  auth: null,
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  doc: vi.fn((_db: unknown, collection: string, id: string) => ({ path: `${collection}/${id}` })),
+  setDoc: vi.fn(),
+  Timestamp: { fromMillis: vi.fn((millis: number) => ({ millis })) },
+}));
+
+const feature: ProductFeature = {
+  id: "ceramic",
+  name: "Ceramic Coating",
+  description: "Paint protection",
+  points: ["Gloss"],
+  useCases: [],
+  price: 900,
+  cost: 150,
+  warranty: "5 years",
+};
+
+const createPackage = (overrides: Partial<PackageTier> = {}): PackageTier => ({
+  id: "elite",
+  name: "Elite",
+  price: 2500,
+  cost: 900,
+  features: [feature],
+  tier_color: "gray-400",
+  ...overrides,
+});
+
+const createOption = (overrides: Partial<AlaCarteOption> = {}): AlaCarteOption => ({
+  id: "evernew",
+  name: "EverNew",
+  price: 800,
+  cost: 200,
+  description: "Appearance protection",
+  points: [],
+  isNew: true,
+  ...overrides,
+});
+
+const NOW = Date.UTC(2026, 9, 19);
+
+describe("buildSharedQuote", () => {
+  it("copies what the customer sees and never cost", () => {
+    const shared = buildSharedQuote(
+      {
+        customerName: "  Jane Doe ",
+        vehicle: "2025 Lexus RX 350",
+        selectedPackage: createPackage(),
+        customPackageItems: [createOption()],
+        pick2: { price: 599, items: [createOption({ id: "key", name: "Key" })] },
+        totalPrice: 3899,
+        grandTotal: 4100,
+        quoteNumber: "PLX-2026-000123",
+      },
+      NOW
+    );
+
+    expect(shared).toMatchObject({
+      quoteNumber: "PLX-2026-000123",
+      customerFirstName: "Jane",
+      selectedPackage: { name: "Elite", price: 2500 },
+      totalPrice: 3899,
+      grandTotal: 4100,
+      createdAt: NOW,
+      expiresAt: NOW + QUOTE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000,
+    });
+    expect(shared.selectedPackage?.features[0]).toEqual({
+      id: "ceramic",
+      name: "Ceramic Coating",
+      price: 900,
+      description: "Paint protection",
+      points: ["Gloss"],
+      warranty: "5 years",
+    });
+    expect(shared.addons[0]).toMatchObject({ id: "evernew", isNew: true });
+    expect(JSON.stringify(shared)).not.toContain("cost");
+  });
+
+  it("leaves out an empty Pick 2 and unset optional fields", () => {
+    const shared = buildSharedQuote(
+      {
+        customerName: "",
+        vehicle: "",
+        selectedPackage: null,
+        customPackageItems: [],
+        pick2: { price: 599, items: [] },
+        totalPrice: 0,
+      },
+      NOW
+    );
+
+    expect(shared.pick2).toBeNull();
+    expect(shared).not.toHaveProperty("grandTotal");
+    expect(shared).not.toHaveProperty("quoteNumber");
+  });
+});
+
+describe("quote link tokens", () => {
+  it("generates URL-safe 32 character tokens", () => {
+    const token = generateQuoteLinkToken();
+    expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(generateQuoteLinkToken()).not.toBe(token);
+  });
+
+  it("reads the token from a shared link path", () => {
+    const token = "a".repeat(32);
+    expect(parseQuoteLinkToken(`/q/${token}`)).toBe(token);
+    expect(parseQuoteLinkToken(`/q/${token}/`)).toBe(token);
+    expect(parseQuoteLinkToken("/q/short")).toBeNull();
+    expect(parseQuoteLinkToken("/")).toBeNull();
+  });
+});
+
+describe("createQuoteLink", () => {
+  const quote = buildSharedQuote(
+    {
+      customerName: "Jane Doe",
+      vehicle: "2025 Lexus RX 350",
+      selectedPackage: null,
+      customPackageItems: [],
+      totalPrice: 0,
+    },
+    NOW
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (firebaseModule as any).db = {};
+    (firebaseModule as any).auth = { currentUser: { uid: "rep-1" } };
+  });
+
+  afterEach(() => {
+    (firebaseModule as any).db = null;
+    (firebaseModule as any).auth = null;
+  });
+
+  it("throws when Firebase is not initialized", async () => {
+    (firebaseModule as any).db = null;
+    await expect(createQuoteLink(quote)).rejects.toThrow(
+      "Firebase is not initialized. Cannot create a quote link."
+    );
+  });
+
+  it("saves the copy under its token with a timestamp expiry", async () => {
+    vi.mocked(setDoc).mockResolvedValue(undefined);
+
+    const link = await createQuoteLink(quote, "quote-1");
+
+    expect(link.url).toBe(`${window.location.origin}/q/${link.token}`);
+    expect(link.expiresAt).toBe(quote.expiresAt);
+    expect(doc).toHaveBeenCalledWith({}, "quote_links", link.token);
+    expect(setDoc).toHaveBeenCalledWith(
+      { path: `quote_links/${link.token}` },
+      {
+        quote,
+        expiresAt: { millis: quote.expiresAt },
+        createdBy: { uid: "rep-1" },
+        quoteId: "quote-1",
+      }
+    );
+  });
+
+  it("rethrows a friendly error when the write fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(setDoc).mockRejectedValue(new Error("permission-denied"));
+
+    await expect(createQuoteLink(quote)).rejects.toThrow(
+      "Failed to create the quote link. Please check your connection and Firestore rules."
+    );
+  });
+});
+
+describe("fetchSharedQuote", () => {
+  const token = "b".repeat(32);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the validated copy from the server", async () => {
+    const shared = buildSharedQuote(
+      {
+        customerName: "Jane",
+        vehicle: "2025 Lexus RX 350",
+        selectedPackage: createPackage(),
+        customPackageItems: [],
+        totalPrice: 2500,
+      },
+      NOW
+    );
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(shared)));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(fetchSharedQuote(token)).resolves.toEqual(shared);
+    expect(fetchMock).toHaveBeenCalledWith(`/api/quote-links/${token}`, expect.any(Object));
+  });
+
+  it("explains an expired or unknown link", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 404 })));
+
+    await expect(fetchSharedQuote(token)).rejects.toThrow(/expired or is no longer available/);
+  });
+
+  it("rejects a response that is not a shared quote", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(JSON.stringify({ a: 1 }))));
+
+    await expect(fetchSharedQuote(token)).rejects.toThrow("Failed to load this quote.");
+  });
+});
@@ -0,0 +1,173 @@
+import { doc, setDoc, Timestamp } from "firebase/firestore/lite";
+import { auth, db } from "./firebase";
+import type {
+  AlaCarteOption,
+  DealershipBranding,
+  PackageTier,
+  ProductFeature,
+  SharedProduct,
+  SharedQuote,
+} from "./types";
+import { SharedQuoteSchema } from "./schemas";
+
+// How long a shared link keeps working. Firestore rules cap it at 30 days.
+export const QUOTE_LINK_TTL_DAYS = 7;
+const QUOTE_LINKS_COLLECTION = "quote_links";
+// Shared links read /q/<token>; index.js serves the app shell for them.
+const QUOTE_LINK_PATH = /^\/q\/([A-Za-z0-9_-]{32})\/?$/;
+const TOKEN_BYTES = 24; // 32 base64url characters
+
+export interface SharedQuoteInput {
+  customerName: string;
+  vehicle: string;
+  selectedPackage: PackageTier | null;
+  customPackageItems: AlaCarteOption[];
+  pick2?: { price: number; items: AlaCarteOption[] } | null;
+  totalPrice: number;
+  grandTotal?: number;
+  quoteNumber?: string;
+  branding?: DealershipBranding;
+}
+
+export interface QuoteLink {
+  token: string;
+  url: string;
+  expiresAt: number; // epoch ms
+}
+
+/**
+ * Copies the customer-facing fields of a product. Cost is never carried over.
+ */
+export function toSharedProduct(item: ProductFeature | AlaCarteOption): SharedProduct {
+  // Firestore rejects `undefined` values, so optional fields are only set when present.
+  return {
+    id: item.id,
+    name: item.name,
+    price: item.price,
+    description: item.description ?? "",
+    points: item.points ?? [],
+    ...(item.useCases && item.useCases.length > 0 ? { useCases: item.useCases } : {}),
+    ...(item.warranty ? { warranty: item.warranty } : {}),
+    ...("isNew" in item && item.isNew ? { isNew: true } : {}),
+  };
+}
+
+/**
+ * Builds the read-only copy of the current deal that a shared link shows.
+ */
+export function buildSharedQuote(input: SharedQuoteInput, now = Date.now()): SharedQuote {
+  const firstName = input.customerName.trim().split(/\s+/)[0] ?? "";
+  return {
+    ...(input.quoteNumber ? { quoteNumber: input.quoteNumber } : {}),
+    customerFirstName: firstName,
+    vehicle: input.vehicle,
+    selectedPackage: input.selectedPackage
+      ? {
+          name: input.selectedPackage.name,
+          price: input.selectedPackage.price,
+          features: input.selectedPackage.features.map(toSharedProduct),
+        }
+      : null,
+    addons: input.customPackageItems.map(toSharedProduct),
+    pick2:
+      input.pick2 && input.pick2.items.length > 0
+        ? { price: input.pick2.price, items: input.pick2.items.map(toSharedProduct) }
+        : null,
+    totalPrice: input.totalPrice,
+    ...(typeof input.grandTotal === "number" ? { grandTotal: input.grandTotal } : {}),
+    // The customer isn't signed in and can't read the store's document, so its branding
+    // travels with the link.
+    ...(input.branding ? { branding: input.branding } : {}),
+    createdAt: now,
+    expiresAt: now + QUOTE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * A random, unguessable link token. The token is the only thing protecting the link.
+ */
+export function generateQuoteLinkToken(): string {
+  const bytes = new Uint8Array(TOKEN_BYTES);
+  crypto.getRandomValues(bytes);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * The customer-facing URL for a link token.
+ */
+export function quoteLinkUrl(token: string, origin = window.location.origin): string {
+  return `${origin}/q/${token}`;
+}
+
+/**
+ * Reads the link token from a shared link's path.
+ * @returns The token, or null when the path is not a shared link.
+ */
+export function parseQuoteLinkToken(pathname: string): string | null {
+  return pathname.match(QUOTE_LINK_PATH)?.[1] ?? null;
+}
+
+/**
+ * Saves a shared copy of the deal to the 'quote_links' collection.
+ * @param quote - The copy built by buildSharedQuote.
+ * @param quoteId - The saved quote the link was shared from, if any.
+ * @returns The token and URL to give the customer.
+ */
+export async function createQuoteLink(quote: SharedQuote, quoteId?: string): Promise<QuoteLink> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot create a quote link.");
+  }
+
+  const currentUser = auth?.currentUser ?? null;
+  const token = generateQuoteLinkToken();
+  try {
+    await setDoc(doc(db, QUOTE_LINKS_COLLECTION, token), {
+      quote,
+      // A Firestore timestamp, so the rules can compare it against request.time
+      expiresAt: Timestamp.fromMillis(quote.expiresAt),
+      ...(currentUser ? { createdBy: { uid: currentUser.uid } } : {}),
+      ...(quoteId ? { quoteId } : {}),
+    });
+    return { token, url: quoteLinkUrl(token), expiresAt: quote.expiresAt };
+  } catch (error) {
+    console.error("Error creating quote link in Firestore:", error);
+    throw new Error(
+      "Failed to create the quote link. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+/**
+ * Loads the deal behind a shared link from the server (index.js /api/quote-links/:token).
+ * Customers are not signed in, so this never reads Firestore directly.
+ */
+export async function fetchSharedQuote(token: string): Promise<SharedQuote> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/quote-links/${encodeURIComponent(token)}`, {
+      headers: { Accept: "application/json" },
+    });
+  } catch (error) {
+    console.error("Error loading shared quote:", error);
+    throw new Error("Failed to load this quote. Please check your connection and try again.");
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    throw new Error(
+      "This quote link has expired or is no longer available. Ask your sales consultant for a new one."
+    );
+  }
+  if (!response.ok) {
+    throw new Error("Failed to load this quote. Please try again later.");
+  }
+
+  const result = SharedQuoteSchema.safeParse(await response.json());
+  if (!result.success) {
+    console.warn(`Validation error in quote_links.${token}:`, result.error.format());
+    throw new Error("Failed to load this quote. Please try again later.");
+  }
+  return result.data;
+}
@@ -0,0 +1,570 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  buildQuoteCost,
+  buildQuoteDraft,
+  quoteFingerprint,
+  resolveQuoteSelection,
+  saveQuote,
+  fetchRecentQuotes,
+  fetchQuoteByNumber,
+  voidQuote,
+  saveQuoteSignatures,
+  formatQuoteNumber,
+  parseQuoteNumber,
+  setQuoteNumberPrefix,
+} from "./quotes";
+import { setActiveDealershipId } from "./dealerships";
+import { getDocs, updateDoc, doc, runTransaction, where } from "firebase/firestore/lite";
+import type { AlaCarteOption, CustomerInfo, PackageTier, Quote } from "./types";
+
+vi.mock("./firebase", () => ({
+  db: null,
+  auth: null,
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  collection: vi.fn((_db: unknown, name: string) => ({ name })),
+  getDocs: vi.fn(),
+  updateDoc: vi.fn(),
+  doc: vi.fn(),
+  query: vi.fn((ref: unknown) => ref),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  where: vi.fn(),
+  runTransaction: vi.fn(),
+}));
+
+const createPackage = (overrides: Partial<PackageTier> = {}): PackageTier => ({
+  id: "elite",
+  name: "Elite",
+  price: 2500,
+  cost: 900,
+  features: [],
+  tier_color: "gray-400",
+  ...overrides,
+});
+
+const createOption = (overrides: Partial<AlaCarteOption> = {}): AlaCarteOption => ({
+  id: "evernew",
+  name: "EverNew",
+  price: 800,
+  cost: 200,
+  description: "Appearance protection",
+  points: [],
+  ...overrides,
+});
+
+const customerInfo = { name: "Jane Doe", year: "2025", make: "Lexus", model: "RX 350" };
+
+describe("quote numbers", () => {
+  it("formats a zero-padded yearly sequence", () => {
+    expect(formatQuoteNumber(2026, 123)).toBe("PLX-2026-000123");
+    expect(formatQuoteNumber(2026, 1234567)).toBe("PLX-2026-1234567");
+  });
+
+  it("normalizes what a rep types in", () => {
+    expect(parseQuoteNumber("PLX-2026-000123")).toBe("PLX-2026-000123");
+    expect(parseQuoteNumber("  plx 2026 123 ")).toBe("PLX-2026-000123");
+    expect(parseQuoteNumber("PLX2026-123")).toBe("PLX-2026-000123");
+    expect(parseQuoteNumber("2026-123")).toBe("PLX-2026-000123");
+  });
+
+  it("rejects input that is not a quote number", () => {
+    expect(parseQuoteNumber("")).toBeNull();
+    expect(parseQuoteNumber("Jane Doe")).toBeNull();
+    expect(parseQuoteNumber("PLX-26-123")).toBeNull();
+    expect(parseQuoteNumber("PLX-2026-000000")).toBeNull();
+  });
+
+  it("numbers and looks up a store's quotes under its own prefix", () => {
+    setQuoteNumberPrefix("pvb");
+
+    expect(formatQuoteNumber(2026, 123)).toBe("PVB-2026-000123");
+    expect(parseQuoteNumber("pvb 2026 123")).toBe("PVB-2026-000123");
+    expect(parseQuoteNumber("2026-123")).toBe("PVB-2026-000123");
+
+    setQuoteNumberPrefix(null);
+    expect(formatQuoteNumber(2026, 123)).toBe("PLX-2026-000123");
+  });
+});
+
+describe("buildQuoteDraft", () => {
+  it("captures display prices alongside standard retail", () => {
+    const draft = buildQuoteDraft({
+      selectedPackage: createPackage({ price: 2200 }),
+      customPackageItems: [createOption()],
+      priceOverrides: { elite: { price: 2200 } },
+      customerInfo,
+      totalPrice: 3000,
+      totalCost: 1100,
+      baseTotalPrice: 3300,
+      basePackagePricesById: { elite: 2500 },
+      baseAddonPricesById: { evernew: 800 },
+    });
+
+    expect(draft.selectedPackage).toEqual({
+      id: "elite",
+      name: "Elite",
+      price: 2200,
+      basePrice: 2500,
+    });
+    expect(draft.customPackageItems[0]?.basePrice).toBe(800);
+    expect(draft.pick2).toBeNull();
+    expect(draft.priceOverrides).toEqual({ elite: { price: 2200 } });
+  });
+
+  it("records the vehicle details and leaves contact details off", () => {
+    const customer: CustomerInfo = {
+      ...customerInfo,
+      trim: "F SPORT",
+      vin: "1M8GDM9AXKP042788",
+      odometer: 12,
+      condition: "new",
+      stockNumber: "L12345",
+      dealNumber: "98765",
+      email: "jane@example.com",
+      amountFinanced: 40000,
+    };
+    const draft = buildQuoteDraft({
+      selectedPackage: null,
+      customPackageItems: [],
+      priceOverrides: {},
+      customerInfo: customer,
+      totalPrice: 0,
+      totalCost: 0,
+      baseTotalPrice: 0,
+    });
+
+    expect(draft.customerInfo).toEqual({
+      ...customerInfo,
+      trim: "F SPORT",
+      vin: "1M8GDM9AXKP042788",
+      odometer: 12,
+      condition: "new",
+      stockNumber: "L12345",
+      dealNumber: "98765",
+    });
+  });
+
+  it("omits undefined optional fields so Firestore accepts the document", () => {
+    const draft = buildQuoteDraft({
+      selectedPackage: null,
+      customPackageItems: [createOption()],
+      priceOverrides: {},
+      customerInfo,
+      totalPrice: 800,
+      totalCost: 200,
+      baseTotalPrice: 800,
+    });
+
+    expect("sourceQuoteId" in draft).toBe(false);
+    expect("basePrice" in (draft.customPackageItems[0] ?? {})).toBe(false);
+  });
+
+  it("records the pick2 bundle when items are selected", () => {
+    const draft = buildQuoteDraft({
+      selectedPackage: null,
+      customPackageItems: [],
+      pick2: { price: 995, cost: 300, items: [createOption(), createOption({ id: "door-cups" })] },
+      priceOverrides: {},
+      customerInfo,
+      totalPrice: 995,
+      totalCost: 300,
+      baseTotalPrice: 995,
+      sourceQuoteId: "quote-1",
+    });
+
+    expect(draft.pick2?.items.map((item) => item.id)).toEqual(["evernew", "door-cups"]);
+    expect(draft.sourceQuoteId).toBe("quote-1");
+  });
+
+  it("records tax and fees only when there are any", () => {
+    const input = {
+      selectedPackage: createPackage(),
+      customPackageItems: [],
+      priceOverrides: {},
+      customerInfo,
+      totalPrice: 2500,
+      totalCost: 900,
+      baseTotalPrice: 2500,
+    };
+    const taxes = {
+      subtotal: 2500,
+      taxableSubtotal: 2500,
+      taxes: [{ label: "VA Sales Tax", rate: 4.15, amount: 103.75 }],
+      fees: [],
+      totalTax: 103.75,
+      totalFees: 0,
+      grandTotal: 2603.75,
+    };
+
+    expect(buildQuoteDraft({ ...input, taxes }).taxes).toEqual(taxes);
+    expect(
+      "taxes" in buildQuoteDraft({ ...input, taxes: { ...taxes, taxes: [], totalTax: 0 } })
+    ).toBe(false);
+  });
+
+  it("records the products the customer declined", () => {
+    const input = {
+      selectedPackage: createPackage(),
+      customPackageItems: [],
+      priceOverrides: {},
+      customerInfo,
+      totalPrice: 2500,
+      totalCost: 900,
+      baseTotalPrice: 2500,
+    };
+    const declinedProducts = [
+      { kind: "package" as const, id: "platinum", name: "Platinum", price: 3500 },
+    ];
+
+    expect(buildQuoteDraft({ ...input, declinedProducts }).declinedProducts).toEqual(
+      declinedProducts
+    );
+    expect("declinedProducts" in buildQuoteDraft({ ...input, declinedProducts: [] })).toBe(false);
+  });
+});
+
+describe("buildQuoteCost", () => {
+  it("keeps dealer cost off the quote and records it by line", () => {
+    const input = {
+      selectedPackage: createPackage(),
+      customPackageItems: [createOption()],
+      pick2: { price: 995, cost: 130, items: [createOption({ id: "door-cups", cost: 50 })] },
+      priceOverrides: {},
+      customerInfo,
+      totalPrice: 4295,
+      totalCost: 1230,
+      baseTotalPrice: 4295,
+      taxes: {
+        subtotal: 4295,
+        taxableSubtotal: 4295,
+        taxes: [],
+        fees: [{ label: "Processing Fee", amount: 499, cost: 75 }],
+        totalTax: 0,
+        totalFees: 499,
+        grandTotal: 4794,
+      },
+    };
+
+    const draft = buildQuoteDraft(input);
+
+    expect(JSON.stringify(draft)).not.toContain("cost");
+    expect(draft.taxes?.fees).toEqual([{ label: "Processing Fee", amount: 499 }]);
+    expect(buildQuoteCost(input)).toEqual({
+      lineCosts: { elite: 900, evernew: 200, "door-cups": 50 },
+      pick2Cost: 130,
+      feeCosts: [{ label: "Processing Fee", cost: 75 }],
+      totalCost: 1230,
+    });
+  });
+});
+
+describe("quoteFingerprint", () => {
+  it("ignores identity and authorship fields", () => {
+    const draft = buildQuoteDraft({
+      selectedPackage: createPackage(),
+      customPackageItems: [],
+      priceOverrides: {},
+      customerInfo,
+      totalPrice: 2500,
+      totalCost: 900,
+      baseTotalPrice: 2500,
+    });
+    const saved: Quote = {
+      ...draft,
+      id: "quote-1",
+      quoteNumber: "PLX-2026-000001",
+      status: "final",
+      createdAt: 1,
+      createdBy: { uid: "rep-1" },
+    };
+
+    expect(quoteFingerprint(saved)).toBe(quoteFingerprint(draft));
+    expect(quoteFingerprint({ ...draft, totalPrice: 2400 })).not.toBe(quoteFingerprint(draft));
+  });
+});
+
+describe("resolveQuoteSelection", () => {
+  const quote: Pick<Quote, "selectedPackage" | "customPackageItems" | "pick2"> = {
+    selectedPackage: { id: "elite", name: "Elite", price: 2500 },
+    customPackageItems: [
+      { id: "evernew", name: "EverNew", price: 800 },
+      { id: "retired", name: "Retired Product", price: 100 },
+    ],
+    pick2: {
+      price: 995,
+      items: [
+        { id: "door-cups", name: "Door Cups", price: 200 },
+        { id: "headlights", name: "Headlights", price: 300 },
+      ],
+    },
+  };
+
+  it("maps quote lines back onto the live catalog", () => {
+    const resolved = resolveQuoteSelection(quote, {
+      packages: [createPackage({ price: 2700 })],
+      alaCarteOptions: [
+        createOption(),
+        createOption({ id: "door-cups", name: "Door Cups" }),
+        createOption({ id: "headlights", name: "Headlights" }),
+      ],
+    });
+
+    expect(resolved.selectedPackage?.price).toBe(2700);
+    expect(resolved.customPackageItems.map((item) => item.id)).toEqual(["evernew"]);
+    expect(resolved.pick2SelectedIds).toEqual(["door-cups", "headlights"]);
+    expect(resolved.missingItemNames).toEqual(["Retired Product"]);
+  });
+
+  it("reports a removed package instead of selecting it", () => {
+    const resolved = resolveQuoteSelection(quote, { packages: [], alaCarteOptions: [] });
+
+    expect(resolved.selectedPackage).toBeNull();
+    expect(resolved.missingItemNames).toContain("Elite");
+    expect(resolved.pick2SelectedIds).toEqual([]);
+  });
+});
+
+describe("quote persistence", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {};
+    (firebaseModule as any).auth = {
+      currentUser: { uid: "rep-1", email: "rep@example.com" },
+    };
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+    (firebaseModule as any).auth = null;
+  });
+
+  it("throws when firebase is not initialized", async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+
+    await expect(fetchRecentQuotes()).rejects.toThrow("Firebase is not initialized");
+  });
+
+  const mockTransaction = (lastSequence: number | null) => {
+    const transaction = {
+      get: vi.fn().mockResolvedValue({
+        exists: () => lastSequence !== null,
+        data: () => ({ last: lastSequence }),
+      }),
+      set: vi.fn(),
+    };
+    vi.mocked(runTransaction).mockImplementation(async (_db, update) => update(transaction as any));
+    return transaction;
+  };
+
+  it("saves a final quote stamped with the signed-in user and the next quote number", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 5, 1));
+    vi.mocked(doc).mockImplementation(((...args: unknown[]) =>
+      args.length === 1 ? { id: "quote-42" } : { path: args.slice(1).join("/") }) as any);
+    const transaction = mockTransaction(122);
+    const draft = buildQuoteDraft({
+      selectedPackage: createPackage(),
+      customPackageItems: [],
+      priceOverrides: {},
+      customerInfo,
+      totalPrice: 2500,
+      totalCost: 900,
+      baseTotalPrice: 2500,
+    });
+
+    const cost = { lineCosts: { elite: 900 }, feeCosts: [], totalCost: 900 };
+
+    const saved = await saveQuote(draft, cost);
+    vi.useRealTimers();
+
+    expect(saved.id).toBe("quote-42");
+    expect(saved.quoteNumber).toBe("PLX-2026-000123");
+    expect(saved.status).toBe("final");
+    expect(transaction.set).toHaveBeenCalledWith({ path: "quote_counters/2026" }, { last: 123 });
+    expect(transaction.set).toHaveBeenCalledWith(
+      { id: "quote-42" },
+      expect.objectContaining({
+        quoteNumber: "PLX-2026-000123",
+        status: "final",
+        createdBy: { uid: "rep-1", email: "rep@example.com" },
+      })
+    );
+    expect(transaction.set).toHaveBeenCalledWith({ path: "quotes/quote-42/internal/cost" }, cost);
+  });
+
+  it("saves a store's quote and counter under that store", async () => {
+    vi.mocked(doc).mockImplementation(((...args: unknown[]) =>
+      args.length === 1 ? { id: "quote-7" } : { path: args.slice(1).join("/") }) as any);
+    const transaction = mockTransaction(null);
+    setActiveDealershipId("vb");
+    setQuoteNumberPrefix("PVB");
+
+    try {
+      const saved = await saveQuote(
+        buildQuoteDraft({
+          selectedPackage: null,
+          customPackageItems: [],
+          priceOverrides: {},
+          customerInfo,
+          totalPrice: 0,
+          totalCost: 0,
+          baseTotalPrice: 0,
+        })
+      );
+
+      expect(saved.quoteNumber).toMatch(/^PVB-\d{4}-000001$/);
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: expect.stringMatching(/^dealerships\/vb\/quote_counters\/\d{4}$/) },
+        { last: 1 }
+      );
+      expect(
+        vi.mocked(doc).mock.calls.some(([ref]) => (ref as any)?.name === "dealerships/vb/quotes")
+      ).toBe(true);
+    } finally {
+      setActiveDealershipId(null);
+      setQuoteNumberPrefix(null);
+    }
+  });
+
+  it("starts the sequence at 1 when the year has no counter yet", async () => {
+    vi.mocked(doc).mockReturnValue({ id: "quote-1" } as any);
+    mockTransaction(null);
+
+    const saved = await saveQuote(
+      buildQuoteDraft({
+        selectedPackage: null,
+        customPackageItems: [],
+        priceOverrides: {},
+        customerInfo,
+        totalPrice: 0,
+        totalCost: 0,
+        baseTotalPrice: 0,
+      })
+    );
+
+    expect(saved.quoteNumber).toMatch(/^PLX-\d{4}-000001$/);
+  });
+
+  it("reports a friendly error when the transaction fails", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(doc).mockReturnValue({ id: "quote-1" } as any);
+    vi.mocked(runTransaction).mockRejectedValue(new Error("permission-denied"));
+
+    await expect(
+      saveQuote(
+        buildQuoteDraft({
+          selectedPackage: null,
+          customPackageItems: [],
+          priceOverrides: {},
+          customerInfo,
+          totalPrice: 0,
+          totalCost: 0,
+          baseTotalPrice: 0,
+        })
+      )
+    ).rejects.toThrow("Failed to save the quote");
+    errorSpy.mockRestore();
+  });
+
+  it("skips invalid quote documents when listing", async () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [
+        {
+          id: "good",
+          data: () => ({
+            quoteNumber: "PLX-2026-000001",
+            status: "final",
+            createdAt: 1000,
+            customerInfo,
+            selectedPackage: null,
+            customPackageItems: [],
+            pick2: null,
+            priceOverrides: {},
+            totalPrice: 0,
+            totalCost: 0,
+            baseTotalPrice: 0,
+          }),
+        },
+        { id: "bad", data: () => ({ status: "unknown" }) },
+      ],
+    } as any);
+
+    const quotes = await fetchRecentQuotes();
+
+    expect(quotes.map((quote) => quote.id)).toEqual(["good"]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it("looks up a quote by its number", async () => {
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [
+        {
+          id: "quote-7",
+          data: () => ({
+            quoteNumber: "PLX-2026-000007",
+            status: "final",
+            createdAt: 1000,
+            customerInfo,
+            selectedPackage: null,
+            customPackageItems: [],
+            pick2: null,
+            priceOverrides: {},
+            totalPrice: 0,
+            totalCost: 0,
+            baseTotalPrice: 0,
+          }),
+        },
+      ],
+    } as any);
+
+    const quote = await fetchQuoteByNumber("PLX-2026-000007");
+
+    expect(where).toHaveBeenCalledWith("quoteNumber", "==", "PLX-2026-000007");
+    expect(quote?.id).toBe("quote-7");
+  });
+
+  it("returns null when no quote has the number", async () => {
+    vi.mocked(getDocs).mockResolvedValue({ docs: [] } as any);
+
+    await expect(fetchQuoteByNumber("PLX-2026-000999")).resolves.toBeNull();
+  });
+
+  it("voids a quote without deleting it", async () => {
+    vi.mocked(doc).mockReturnValue({ path: "quotes/quote-1" } as any);
+    vi.mocked(updateDoc).mockResolvedValue(undefined as any);
+
+    await voidQuote("quote-1", "  Customer declined  ");
+
+    expect(updateDoc).toHaveBeenCalledWith(
+      { path: "quotes/quote-1" },
+      expect.objectContaining({
+        status: "void",
+        voidedBy: "rep@example.com",
+        voidReason: "Customer declined",
+      })
+    );
+  });
+  it("saves signatures onto the quote, leaving out unsigned slots", async () => {
+    vi.mocked(doc).mockReturnValue({ path: "quotes/quote-1" } as any);
+    vi.mocked(updateDoc).mockResolvedValue(undefined as any);
+    const customer = { image: "data:image/png;base64,AAAA", signedAt: 1_700_000_000_000 };
+
+    await saveQuoteSignatures("quote-1", {
+      customer,
+      manager: undefined,
+      declined: [],
+    });
+
+    expect(updateDoc).toHaveBeenCalledWith(
+      { path: "quotes/quote-1" },
+      { signatures: { customer } }
+    );
+  });
+});
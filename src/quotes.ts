@@ -0,0 +1,456 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  updateDoc,
+  where,
+} from "firebase/firestore/lite";
+import { auth, db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type {
+  AlaCarteOption,
+  AppliedPromotion,
+  DealSignatures,
+  DeclinedProduct,
+  PackageTier,
+  PriceApproval,
+  PriceOverrides,
+  Quote,
+  QuoteCost,
+  QuoteCustomerInfo,
+  QuoteLine,
+  TaxBreakdown,
+} from "./types";
+import { QuoteSchema } from "./schemas";
+
+// Default number of quotes shown on the Recent Deals screen
+const RECENT_QUOTES_LIMIT = 50;
+
+// Quote numbers read <prefix>-<year>-<sequence>, e.g. PLX-2026-000123; the sequence
+// restarts every calendar year. Each store numbers its deals under its own prefix.
+const DEFAULT_QUOTE_NUMBER_PREFIX = "PLX";
+const QUOTE_SEQUENCE_DIGITS = 6;
+// One counter document per year (per store), holding the last sequence number issued.
+const QUOTE_COUNTERS_COLLECTION = "quote_counters";
+
+let quoteNumberPrefix = DEFAULT_QUOTE_NUMBER_PREFIX;
+// Each quote's dealer cost, in a subcollection only managers can read (QuoteCost)
+const QUOTE_COST_PATH = ["internal", "cost"] as const;
+
+/**
+ * The persisted portion of a quote that is derived from the current deal.
+ * Identity, status and authorship are added when the quote is saved.
+ */
+export type QuoteDraft = Omit<Quote, "id" | "quoteNumber" | "status" | "createdAt" | "createdBy">;
+
+/**
+ * Sets the prefix quote numbers are issued and looked up under: the active store's
+ * (see useDealership). Kept to letters and digits, upper-cased; null or nothing left
+ * goes back to the single-store "PLX".
+ */
+export function setQuoteNumberPrefix(prefix: string | null): void {
+  const normalized = (prefix ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  quoteNumberPrefix = normalized || DEFAULT_QUOTE_NUMBER_PREFIX;
+}
+
+/**
+ * Formats a quote number, e.g. formatQuoteNumber(2026, 123) -> "PLX-2026-000123".
+ */
+export function formatQuoteNumber(year: number, sequence: number): string {
+  return `${quoteNumberPrefix}-${year}-${String(sequence).padStart(QUOTE_SEQUENCE_DIGITS, "0")}`;
+}
+
+/**
+ * Normalizes a quote number as typed by a rep into its canonical form.
+ * Accepts any case, surrounding whitespace, spaces instead of dashes, a missing
+ * prefix and missing leading zeros ("plx 2026 123", "2026-123").
+ * @returns The canonical quote number, or null if the input is not a quote number.
+ */
+export function parseQuoteNumber(input: string): string | null {
+  const match = input
+    .trim()
+    .toUpperCase()
+    .match(new RegExp(`^(?:${quoteNumberPrefix}[\\s-]*)?(\\d{4})[\\s-]+(\\d{1,9})$`));
+  if (!match) return null;
+
+  const sequence = Number(match[2]);
+  if (sequence < 1) return null;
+  return formatQuoteNumber(Number(match[1]), sequence);
+}
+
+export interface QuoteDraftInput {
+  selectedPackage: PackageTier | null;
+  customPackageItems: AlaCarteOption[];
+  pick2?: { price: number; items: AlaCarteOption[]; cost: number };
+  priceOverrides: PriceOverrides;
+  customerInfo: QuoteCustomerInfo;
+  totalPrice: number;
+  totalCost: number;
+  baseTotalPrice: number;
+  basePackagePricesById?: Record<string, number>;
+  baseAddonPricesById?: Record<string, number>;
+  sourceQuoteId?: string;
+  priceApproval?: PriceApproval;
+  promotions?: AppliedPromotion[];
+  taxes?: TaxBreakdown;
+  declinedProducts?: DeclinedProduct[];
+}
+
+function toQuoteLine(
+  item: { id: string; name: string; price: number },
+  basePrice: number | undefined
+): QuoteLine {
+  // Firestore rejects `undefined` values, so optional fields are only set when present.
+  return {
+    id: item.id,
+    name: item.name,
+    price: item.price,
+    ...(typeof basePrice === "number" ? { basePrice } : {}),
+  };
+}
+
+function toQuoteCustomerInfo(info: QuoteCustomerInfo): QuoteCustomerInfo {
+  // Contact details and financing are left off; the quote records who and what was sold.
+  return {
+    name: info.name,
+    year: info.year,
+    make: info.make,
+    model: info.model,
+    ...(info.trim ? { trim: info.trim } : {}),
+    ...(info.vin ? { vin: info.vin } : {}),
+    ...(typeof info.odometer === "number" ? { odometer: info.odometer } : {}),
+    ...(info.condition ? { condition: info.condition } : {}),
+    ...(info.dealType ? { dealType: info.dealType } : {}),
+    ...(info.stockNumber ? { stockNumber: info.stockNumber } : {}),
+    ...(info.dealNumber ? { dealNumber: info.dealNumber } : {}),
+  };
+}
+
+/**
+ * Builds the snapshot of the current deal that is written to the 'quotes' collection.
+ * Display (override-applied) prices are captured alongside the standard retail price.
+ */
+export function buildQuoteDraft(input: QuoteDraftInput): QuoteDraft {
+  const { selectedPackage, customPackageItems, pick2 } = input;
+
+  return {
+    customerInfo: toQuoteCustomerInfo(input.customerInfo),
+    selectedPackage: selectedPackage
+      ? toQuoteLine(selectedPackage, input.basePackagePricesById?.[selectedPackage.id])
+      : null,
+    customPackageItems: customPackageItems.map((item) =>
+      toQuoteLine(item, input.baseAddonPricesById?.[item.id])
+    ),
+    pick2:
+      pick2 && pick2.items.length > 0
+        ? {
+            price: pick2.price,
+            items: pick2.items.map((item) => toQuoteLine(item, undefined)),
+          }
+        : null,
+    priceOverrides: input.priceOverrides,
+    totalPrice: input.totalPrice,
+    baseTotalPrice: input.baseTotalPrice,
+    ...(input.sourceQuoteId ? { sourceQuoteId: input.sourceQuoteId } : {}),
+    ...(input.priceApproval ? { priceApproval: input.priceApproval } : {}),
+    ...(input.promotions && input.promotions.length > 0 ? { promotions: input.promotions } : {}),
+    ...(input.taxes && (input.taxes.taxes.length > 0 || input.taxes.fees.length > 0)
+      ? {
+          taxes: {
+            ...input.taxes,
+            fees: input.taxes.fees.map((fee) => ({ label: fee.label, amount: fee.amount })),
+          },
+        }
+      : {}),
+    ...(input.declinedProducts && input.declinedProducts.length > 0
+      ? { declinedProducts: input.declinedProducts }
+      : {}),
+  };
+}
+
+/**
+ * Builds the dealer cost of the current deal, saved apart from the quote (QuoteCost).
+ */
+export function buildQuoteCost(input: QuoteDraftInput): QuoteCost {
+  const lineCosts: Record<string, number> = {};
+  const { selectedPackage, customPackageItems, pick2 } = input;
+  if (selectedPackage) lineCosts[selectedPackage.id] = selectedPackage.cost;
+  customPackageItems.forEach((item) => {
+    lineCosts[item.id] = item.cost;
+  });
+  const hasPick2 = pick2 && pick2.items.length > 0;
+  if (hasPick2) {
+    pick2.items.forEach((item) => {
+      lineCosts[item.id] = item.cost;
+    });
+  }
+
+  return {
+    lineCosts,
+    ...(hasPick2 ? { pick2Cost: pick2.cost } : {}),
+    feeCosts: (input.taxes?.fees ?? []).map((fee) => ({ label: fee.label, cost: fee.cost })),
+    totalCost: input.totalCost,
+  };
+}
+
+/**
+ * Returns a stable string describing the commercial content of a deal.
+ * Used to avoid writing a second quote when the rep re-finalizes an unchanged deal.
+ */
+export function quoteFingerprint(quote: QuoteDraft | Quote): string {
+  return JSON.stringify({
+    customerInfo: quote.customerInfo,
+    selectedPackage: quote.selectedPackage,
+    customPackageItems: quote.customPackageItems,
+    pick2: quote.pick2,
+    priceOverrides: quote.priceOverrides,
+    priceApproval: quote.priceApproval ?? null,
+    promotions: quote.promotions ?? [],
+    taxes: quote.taxes ?? null,
+    declinedProducts: quote.declinedProducts ?? [],
+    totalPrice: quote.totalPrice,
+  });
+}
+
+/**
+ * Saves a finalized deal to the 'quotes' collection in Firestore.
+ * The quote number is issued from the yearly counter in the same transaction,
+ * so two tablets finalizing at once can never receive the same number.
+ * @param draft - The deal snapshot built by buildQuoteDraft.
+ * @param cost - The deal's dealer cost (buildQuoteCost), saved where only managers read it.
+ * @returns The saved quote, including its generated id and quote number.
+ */
+export async function saveQuote(draft: QuoteDraft, cost?: QuoteCost): Promise<Quote> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot save quote.");
+  }
+  const firestore = db;
+
+  const currentUser = auth?.currentUser ?? null;
+  const createdAt = Date.now();
+  const year = new Date(createdAt).getFullYear();
+  const counterRef = doc(firestore, scopedCollection(QUOTE_COUNTERS_COLLECTION), String(year));
+  const quoteRef = doc(collection(firestore, scopedCollection("quotes")));
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const counterSnap = await transaction.get(counterRef);
+      const lastSequence = counterSnap.exists() ? Number(counterSnap.data()["last"]) || 0 : 0;
+      const sequence = lastSequence + 1;
+
+      const record: Omit<Quote, "id"> = {
+        ...draft,
+        quoteNumber: formatQuoteNumber(year, sequence),
+        status: "final",
+        createdAt,
+        ...(currentUser
+          ? {
+              createdBy: {
+                uid: currentUser.uid,
+                ...(currentUser.email ? { email: currentUser.email } : {}),
+              },
+            }
+          : {}),
+      };
+
+      transaction.set(counterRef, { last: sequence });
+      transaction.set(quoteRef, record);
+      if (cost) {
+        transaction.set(
+          doc(firestore, scopedCollection("quotes"), quoteRef.id, ...QUOTE_COST_PATH),
+          cost
+        );
+      }
+      return { id: quoteRef.id, ...record };
+    });
+  } catch (error) {
+    console.error("Error saving quote to Firestore:", error);
+    throw new Error("Failed to save the quote. Please check your connection and Firestore rules.");
+  }
+}
+
+/**
+ * Fetches the most recent quotes, newest first.
+ * Documents that fail validation are skipped with a warning.
+ * @param maxResults - Maximum number of quotes to return.
+ */
+export async function fetchRecentQuotes(maxResults = RECENT_QUOTES_LIMIT): Promise<Quote[]> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load quotes.");
+  }
+
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, scopedCollection("quotes")),
+        orderBy("createdAt", "desc"),
+        limit(maxResults)
+      )
+    );
+
+    const quotes: Quote[] = [];
+    snapshot.docs.forEach((quoteDoc) => {
+      const raw = { id: quoteDoc.id, ...quoteDoc.data() };
+      const result = QuoteSchema.safeParse(raw);
+      if (result.success) {
+        quotes.push(result.data);
+      } else {
+        console.warn(`Validation error in quotes.${quoteDoc.id}:`, result.error.format());
+      }
+    });
+    return quotes;
+  } catch (error) {
+    console.error("Error fetching quotes from Firestore:", error);
+    throw new Error(
+      "Failed to load recent deals. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+/**
+ * Looks up a single quote by the number printed on the customer's copy.
+ * @param quoteNumber - A canonical quote number (see parseQuoteNumber).
+ * @returns The quote, or null if no quote has that number.
+ */
+export async function fetchQuoteByNumber(quoteNumber: string): Promise<Quote | null> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot look up quote.");
+  }
+
+  let snapshot;
+  try {
+    snapshot = await getDocs(
+      query(
+        collection(db, scopedCollection("quotes")),
+        where("quoteNumber", "==", quoteNumber),
+        limit(1)
+      )
+    );
+  } catch (error) {
+    console.error("Error looking up quote in Firestore:", error);
+    throw new Error(
+      "Failed to look up the quote. Please check your connection and Firestore rules."
+    );
+  }
+
+  const quoteDoc = snapshot.docs[0];
+  if (!quoteDoc) return null;
+
+  const result = QuoteSchema.safeParse({ id: quoteDoc.id, ...quoteDoc.data() });
+  if (!result.success) {
+    console.warn(`Validation error in quotes.${quoteDoc.id}:`, result.error.format());
+    throw new Error(`Quote ${quoteNumber} could not be loaded because its data is invalid.`);
+  }
+  return result.data;
+}
+
+/**
+ * Marks a quote as void. Quotes are never deleted so the deal history stays complete.
+ * @param quoteId - The ID of the quote to void.
+ * @param reason - Optional free-text reason shown in the deal history.
+ */
+export async function voidQuote(quoteId: string, reason?: string): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot void quote.");
+  }
+
+  const currentUser = auth?.currentUser ?? null;
+  const voidedBy = currentUser?.email ?? currentUser?.uid;
+
+  try {
+    await updateDoc(doc(db, scopedCollection("quotes"), quoteId), {
+      status: "void",
+      voidedAt: Date.now(),
+      ...(voidedBy ? { voidedBy } : {}),
+      ...(reason?.trim() ? { voidReason: reason.trim() } : {}),
+    });
+  } catch (error) {
+    console.error("Error voiding quote in Firestore:", error);
+    throw new Error("Failed to void the quote. Please check your connection and Firestore rules.");
+  }
+}
+
+/**
+ * Saves the signatures captured on the agreement screen onto an existing quote.
+ * The whole set is replaced, so clearing a signature on screen clears it here too.
+ * @param quoteId - The ID of the quote that was signed.
+ * @param signatures - Every signature and set of initials currently on the agreement.
+ */
+export async function saveQuoteSignatures(
+  quoteId: string,
+  signatures: DealSignatures
+): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot save signatures.");
+  }
+
+  // Firestore rejects `undefined` values, so unsigned slots are left out entirely.
+  const data: DealSignatures = {
+    ...(signatures.customer ? { customer: signatures.customer } : {}),
+    ...(signatures.manager ? { manager: signatures.manager } : {}),
+    ...(signatures.declined && signatures.declined.length > 0
+      ? { declined: signatures.declined }
+      : {}),
+  };
+
+  try {
+    await updateDoc(doc(db, scopedCollection("quotes"), quoteId), { signatures: data });
+  } catch (error) {
+    console.error("Error saving signatures to Firestore:", error);
+    throw new Error(
+      "Failed to save the signatures. Please check your connection and Firestore rules."
+    );
+  }
+}
+
+export interface ResolvedQuoteSelection {
+  selectedPackage: PackageTier | null;
+  customPackageItems: AlaCarteOption[];
+  pick2SelectedIds: string[];
+  // Names of quote lines that no longer exist in the live catalog
+  missingItemNames: string[];
+}
+
+/**
+ * Maps a saved quote back onto the live catalog so the menu selection can be rehydrated.
+ * Lines whose products were removed from the catalog are reported rather than restored.
+ */
+export function resolveQuoteSelection(
+  quote: Pick<Quote, "selectedPackage" | "customPackageItems" | "pick2">,
+  catalog: { packages: PackageTier[]; alaCarteOptions: AlaCarteOption[] }
+): ResolvedQuoteSelection {
+  const packagesById = new Map(catalog.packages.map((pkg) => [pkg.id, pkg] as const));
+  const optionsById = new Map(catalog.alaCarteOptions.map((opt) => [opt.id, opt] as const));
+  const missingItemNames: string[] = [];
+
+  let selectedPackage: PackageTier | null = null;
+  if (quote.selectedPackage) {
+    selectedPackage = packagesById.get(quote.selectedPackage.id) ?? null;
+    if (!selectedPackage) missingItemNames.push(quote.selectedPackage.name);
+  }
+
+  const customPackageItems: AlaCarteOption[] = [];
+  quote.customPackageItems.forEach((line) => {
+    const option = optionsById.get(line.id);
+    if (option) {
+      customPackageItems.push(option);
+    } else {
+      missingItemNames.push(line.name);
+    }
+  });
+
+  const pick2SelectedIds: string[] = [];
+  quote.pick2?.items.forEach((line) => {
+    if (optionsById.has(line.id)) {
+      pick2SelectedIds.push(line.id);
+    } else {
+      missingItemNames.push(line.name);
+    }
+  });
+
+  return { selectedPackage, customPackageItems, pick2SelectedIds, missingItemNames };
+}
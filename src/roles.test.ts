@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { canManageCatalog, canViewCost, fetchUserRole } from "./roles";
+import { doc, getDoc } from "firebase/firestore/lite";
+
+vi.mock("./firebase", () => ({
+  db: null,
+}));
+
+vi.mock("firebase/firestore/lite", () => ({
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+}));
+
+describe("role capabilities", () => {
+  it("only lets managers and admins see dealer cost", () => {
+    expect(canViewCost("rep")).toBe(false);
+    expect(canViewCost("manager")).toBe(true);
+    expect(canViewCost("admin")).toBe(true);
+  });
+
+  it("only lets admins edit the catalog", () => {
+    expect(canManageCatalog("rep")).toBe(false);
+    expect(canManageCatalog("manager")).toBe(false);
+    expect(canManageCatalog("admin")).toBe(true);
+  });
+});
+
+describe("fetchUserRole", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(doc).mockReturnValue({ path: "users/uid-1" } as any);
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = {};
+  });
+
+  afterEach(async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+  });
+
+  const mockUserDoc = (data: Record<string, unknown> | null) => {
+    vi.mocked(getDoc).mockResolvedValue({
+      exists: () => data !== null,
+      data: () => data ?? undefined,
+    } as any);
+  };
+
+  it("throws when firebase is not initialized", async () => {
+    const firebaseModule = await import("./firebase");
+    (firebaseModule as any).db = null;
+
+    await expect(fetchUserRole("uid-1")).rejects.toThrow("Firebase is not initialized");
+  });
+
+  it("returns the role stored on the user document", async () => {
+    mockUserDoc({ uid: "uid-1", role: "manager" });
+
+    await expect(fetchUserRole("uid-1")).resolves.toBe("manager");
+    expect(doc).toHaveBeenCalledWith({}, "users", "uid-1");
+  });
+
+  it("defaults to rep when the user has no profile", async () => {
+    mockUserDoc(null);
+
+    await expect(fetchUserRole("uid-1")).resolves.toBe("rep");
+  });
+
+  it("defaults to rep when the stored role is not recognized", async () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockUserDoc({ uid: "uid-1", role: "owner" });
+
+    await expect(fetchUserRole("uid-1")).resolves.toBe("rep");
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it("defaults to rep when the read fails", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(getDoc).mockRejectedValue(new Error("permission-denied"));
+
+    await expect(fetchUserRole("uid-1")).resolves.toBe("rep");
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,50 @@
+import { doc, getDoc } from "firebase/firestore/lite";
+import { db } from "./firebase";
+import type { UserRole } from "./types";
+import { UserRoleSchema } from "./schemas";
+
+// Users without a users/{uid} document (or with an unrecognized role) get the least
+// privileged role. firestore.rules applies the same default, so the UI never offers
+// an action the server would reject.
+export const DEFAULT_USER_ROLE: UserRole = "rep";
+
+/** Whether the role may see dealer cost (manager view, cost overrides). */
+export function canViewCost(role: UserRole): boolean {
+  return role === "manager" || role === "admin";
+}
+
+/** Whether the role may approve price overrides below the gross-profit floor. */
+export function canApprovePriceOverrides(role: UserRole): boolean {
+  return role === "manager" || role === "admin";
+}
+
+/** Whether the role may edit the catalog (AdminPanel, ProductHub, app_config). */
+export function canManageCatalog(role: UserRole): boolean {
+  return role === "admin";
+}
+
+/**
+ * Fetches the role for a signed-in user from users/{uid}.
+ * Fails closed: a missing document, invalid role or read error resolves to the default role.
+ * @param uid - The Firebase Auth user ID.
+ */
+export async function fetchUserRole(uid: string): Promise<UserRole> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot load user role.");
+  }
+
+  try {
+    const snapshot = await getDoc(doc(db, "users", uid));
+    if (!snapshot.exists()) return DEFAULT_USER_ROLE;
+
+    const result = UserRoleSchema.safeParse(snapshot.data()["role"]);
+    if (!result.success) {
+      console.warn(`Invalid role in users.${uid}; falling back to "${DEFAULT_USER_ROLE}".`);
+      return DEFAULT_USER_ROLE;
+    }
+    return result.data;
+  } catch (error) {
+    console.error("Error fetching user role from Firestore:", error);
+    return DEFAULT_USER_ROLE;
+  }
+}
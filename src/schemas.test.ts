@@ -5,6 +5,8 @@ import {
   PackageTierSchema,
   PriceOverridesSchema,
   FeatureConnectorSchema,
+  QuoteSchema,
+  CustomerInfoSchema,
   validateDataArray,
   safeParseData,
 } from './schemas';
@@ -359,6 +361,84 @@ describe('PriceOverridesSchema', () => {
   });
 });
 
+describe('QuoteSchema', () => {
+  const validQuote = {
+    id: 'quote-1',
+    quoteNumber: 'PLX-2026-000123',
+    status: 'final',
+    createdAt: 1767225600000,
+    customerInfo: { name: 'John Doe', year: '2024', make: 'Lexus', model: 'RX 350' },
+    selectedPackage: { id: 'gold', name: 'Gold', price: 2500, cost: 900, basePrice: 2700 },
+    customPackageItems: [],
+    pick2: null,
+    priceOverrides: { gold: { price: 2500 } },
+    totalPrice: 2500,
+    totalCost: 900,
+    baseTotalPrice: 2700,
+  };
+
+  it('should validate a finalized quote', () => {
+    const result = QuoteSchema.safeParse(validQuote);
+    expect(result.success).toBe(true);
+  });
+
+  it('should validate a voided quote with its reason', () => {
+    const result = QuoteSchema.safeParse({
+      ...validQuote,
+      status: 'void',
+      voidedAt: 1767312000000,
+      voidedBy: 'manager@example.com',
+      voidReason: 'Customer declined',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should fail with an unknown status', () => {
+    const result = QuoteSchema.safeParse({ ...validQuote, status: 'draft' });
+    expect(result.success).toBe(false);
+  });
+
+  it('should fail with a malformed quote number', () => {
+    const result = QuoteSchema.safeParse({ ...validQuote, quoteNumber: '2026-123' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('CustomerInfoSchema', () => {
+  const customer = { name: 'Jane Doe', year: '2025', make: 'Lexus', model: 'RX 350' };
+
+  it('should accept a valid VIN and vehicle details', () => {
+    const result = CustomerInfoSchema.safeParse({
+      ...customer,
+      vin: '1M8GDM9AXKP042788',
+      odometer: 12,
+      condition: 'new',
+      stockNumber: 'L12345',
+      dealNumber: '98765',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should accept a blank VIN', () => {
+    expect(CustomerInfoSchema.safeParse({ ...customer, vin: '' }).success).toBe(true);
+  });
+
+  it('should reject a VIN with a bad check digit', () => {
+    const result = CustomerInfoSchema.safeParse({ ...customer, vin: '1M8GDM9AXKP042789' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      "VIN check digit doesn't match. Check the VIN for a typo",
+    ]);
+  });
+
+  it('should reject a VIN that is too short', () => {
+    const result = CustomerInfoSchema.safeParse({ ...customer, vin: '1M8GDM9AXKP' });
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      'VIN must be 17 letters and numbers (no I, O or Q)',
+    ]);
+  });
+});
+
 describe('safeParseData', () => {
   it('should return data on successful parse', () => {
     const validData = {
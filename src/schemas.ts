@@ -1,4 +1,11 @@
 import { z } from "zod";
+import {
+  isValidVin,
+  normalizeVin,
+  VIN_CHECK_DIGIT_MESSAGE,
+  VIN_FORMAT_MESSAGE,
+  VIN_PATTERN,
+} from "./utils/vehicle";
 
 /**
  * Zod schemas for runtime data validation.
@@ -9,6 +16,48 @@ import { z } from "zod";
 export const FeatureConnectorSchema = z.enum(["AND", "OR"]);
 export type FeatureConnector = z.infer<typeof FeatureConnectorSchema>;
 
+// Effective-date window shared by catalog items (epoch ms)
+const effectiveWindowShape = {
+  effectiveFrom: z.number().int().nonnegative().optional(),
+  effectiveUntil: z.number().int().nonnegative().optional(),
+};
+
+export const VehicleConditionSchema = z.enum(["new", "used", "cpo"]);
+
+export const DealTypeSchema = z.enum(["purchase", "lease"]);
+
+const eligibilityRuleShape = {
+  models: z.array(z.string().min(1)).optional(),
+  minYear: z.number().int().min(1900).optional(),
+  maxYear: z.number().int().min(1900).optional(),
+  conditions: z.array(VehicleConditionSchema).optional(),
+  maxOdometer: z.number().int().nonnegative().optional(),
+};
+
+const isYearRangeOrdered = (rule: { minYear?: number; maxYear?: number }) =>
+  rule.minYear === undefined || rule.maxYear === undefined || rule.minYear <= rule.maxYear;
+
+const yearRangeError = {
+  message: "Oldest model year must not be after the newest",
+  path: ["maxYear"],
+};
+
+// Which vehicles a catalog item can be sold on
+export const EligibilityRuleSchema = z
+  .object(eligibilityRuleShape)
+  .refine(isYearRangeOrdered, yearRangeError);
+
+export type EligibilityRule = z.infer<typeof EligibilityRuleSchema>;
+
+// A model-specific price for a package or a la carte option
+export const ModelPriceSchema = z.object({
+  model: z.string().min(1, "Model is required"),
+  condition: z.enum(["new", "used"]).optional(),
+  price: z.number().nonnegative("Price must be non-negative"),
+});
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
 // Product Feature Schema
 export const ProductFeatureSchema = z
   .object({
@@ -32,6 +81,8 @@ export const ProductFeatureSchema = z
     alaCartePrice: z.number().nonnegative("A La Carte price must be non-negative").optional(),
     alaCarteWarranty: z.string().optional(),
     alaCarteIsNew: z.boolean().optional(),
+    eligibility: EligibilityRuleSchema.optional(),
+    ...effectiveWindowShape,
   })
   .refine(
     (data) => {
@@ -74,6 +125,10 @@ export const AlaCarteOptionSchema = z.object({
   // Publishing fields
   sourceFeatureId: z.string().optional(),
   isPublished: z.boolean().optional().default(false),
+  taxable: z.boolean().optional(),
+  eligibility: EligibilityRuleSchema.optional(),
+  priceMatrix: z.array(ModelPriceSchema).optional(),
+  ...effectiveWindowShape,
 });
 
 export type AlaCarteOption = z.infer<typeof AlaCarteOptionSchema>;
@@ -98,6 +153,7 @@ export const Pick2ConfigSchema = z.object({
   presetOrder: z.array(z.string().min(1)).optional(),
   telemetryEnabled: z.boolean().optional(),
   telemetrySampleRate: z.number().min(0).max(1).optional(),
+  ...effectiveWindowShape,
 });
 
 export type Pick2Config = z.infer<typeof Pick2ConfigSchema>;
@@ -111,7 +167,10 @@ export const PackageTierSchema = z.object({
   features: z.array(ProductFeatureSchema),
   isRecommended: z.boolean().optional(),
   is_recommended: z.boolean().optional(),
-  tier_color: z.string().min(1, "Tier color is required"),
+  tier_color: z.string().optional(),
+  taxable: z.boolean().optional(),
+  priceMatrix: z.array(ModelPriceSchema).optional(),
+  ...effectiveWindowShape,
 });
 
 export type PackageTier = z.infer<typeof PackageTierSchema>;
@@ -126,16 +185,562 @@ export const PriceOverridesSchema = z.record(z.string(), PriceOverrideSchema);
 
 export type PriceOverrides = z.infer<typeof PriceOverridesSchema>;
 
+// Promotion Schema (promotions/{id})
+export const PromotionKindSchema = z.enum(["package_percent", "alacarte_amount", "package_bundle"]);
+
+export const PromotionSchema = z
+  .object({
+    id: z.string().min(1, "ID is required"),
+    name: z.string().min(1, "Name is required"),
+    kind: PromotionKindSchema,
+    enabled: z.boolean().optional().default(true),
+    stackable: z.boolean().optional().default(false),
+    packageIds: z.array(z.string()).optional().default([]),
+    alaCarteIds: z.array(z.string()).optional().default([]),
+    percentOff: z.number().gt(0).max(100).optional(),
+    amountOff: z.number().positive("Amount off must be positive").optional(),
+    bundlePrice: z.number().nonnegative("Bundle price must be non-negative").optional(),
+    ...effectiveWindowShape,
+  })
+  .refine(
+    (data) =>
+      (data.kind === "package_percent" && typeof data.percentOff === "number") ||
+      (data.kind === "alacarte_amount" && typeof data.amountOff === "number") ||
+      (data.kind === "package_bundle" &&
+        typeof data.bundlePrice === "number" &&
+        data.alaCarteIds.length > 0),
+    {
+      message:
+        "Percent promotions need percentOff, amount promotions need amountOff, and bundles need bundlePrice and at least one a la carte option",
+    }
+  );
+
+export type Promotion = z.infer<typeof PromotionSchema>;
+
+export const AppliedPromotionSchema = z.object({
+  promotionId: z.string().min(1),
+  name: z.string().min(1),
+  itemId: z.string().min(1),
+  amount: z.number().nonnegative(),
+});
+
 // Customer Info Schema
+// Blank is allowed; otherwise 17 VIN characters with a matching check digit.
+const VinSchema = z
+  .string()
+  .refine((value) => !value.trim() || VIN_PATTERN.test(normalizeVin(value)), VIN_FORMAT_MESSAGE)
+  .refine(
+    (value) => !VIN_PATTERN.test(normalizeVin(value)) || isValidVin(value),
+    VIN_CHECK_DIGIT_MESSAGE
+  );
+
 export const CustomerInfoSchema = z.object({
   name: z.string().min(1, "Customer name is required"),
   year: z.string().min(4, "Year must be valid"),
   make: z.string().min(1, "Make is required"),
   model: z.string().min(1, "Model is required"),
+  trim: z.string().optional(),
+  vin: VinSchema.optional(),
+  odometer: z.number().int().nonnegative().max(999999).optional(),
+  condition: VehicleConditionSchema.optional(),
+  dealType: DealTypeSchema.optional(),
+  stockNumber: z.string().optional(),
+  dealNumber: z.string().optional(),
+  amountFinanced: z.number().nonnegative().optional(),
+  // Contact details for sending the customer their summary; both optional
+  email: z.union([z.literal(""), z.email("Enter a valid email address")]).optional(),
+  phone: z
+    .string()
+    .refine((value) => {
+      const digits = value.replace(/\D/g, "").length;
+      return digits === 0 || (digits >= 10 && digits <= 15);
+    }, "Enter a valid mobile number")
+    .optional(),
 });
 
 export type CustomerInfo = z.infer<typeof CustomerInfoSchema>;
 
+// Pricing Policy Schema (app_config/pricing_policy)
+export const PricingPolicySchema = z.object({
+  minItemGrossProfit: z.number().optional(),
+  minDealGrossProfit: z.number().optional(),
+});
+
+export type PricingPolicy = z.infer<typeof PricingPolicySchema>;
+
+// Payment Defaults Schema (app_config/payment_defaults)
+export const PaymentDefaultsSchema = z.object({
+  termMonths: z.number().int().min(1, "Term must be at least one month").max(120),
+  apr: z.number().nonnegative("APR must be non-negative").max(40),
+});
+
+export type PaymentDefaults = z.infer<typeof PaymentDefaultsSchema>;
+
+// Tax and Fee Config Schema (app_config/tax_fees)
+export const TaxRateSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  rate: z.number().nonnegative("Rate must be non-negative").max(100),
+});
+
+export const DealFeeSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  amount: z.number().nonnegative("Amount must be non-negative"),
+  cost: z.number().nonnegative("Cost must be non-negative").optional(),
+  taxable: z.boolean().optional(),
+});
+
+export const TaxFeeConfigSchema = z.object({
+  taxRates: z.array(TaxRateSchema).optional().default([]),
+  fees: z.array(DealFeeSchema).optional().default([]),
+});
+
+export type TaxFeeConfig = z.infer<typeof TaxFeeConfigSchema>;
+
+export const TaxBreakdownSchema = z.object({
+  subtotal: z.number().nonnegative(),
+  taxableSubtotal: z.number().nonnegative(),
+  taxes: z.array(z.object({ label: z.string(), rate: z.number(), amount: z.number() })),
+  fees: z.array(z.object({ label: z.string(), amount: z.number(), cost: z.number() })),
+  totalTax: z.number().nonnegative(),
+  totalFees: z.number().nonnegative(),
+  grandTotal: z.number().nonnegative(),
+});
+
+export const PriceApprovalSchema = z.object({
+  method: z.enum(["pin", "remote", "self"]),
+  approvedBy: z.object({
+    uid: z.string().min(1),
+    name: z.string().optional(),
+  }),
+  approvedAt: z.number().int().nonnegative(),
+  reason: z.string().min(1, "Reason is required"),
+  overrides: PriceOverridesSchema,
+  requestId: z.string().optional(),
+});
+
+export type PriceApproval = z.infer<typeof PriceApprovalSchema>;
+
+// Price Approval Request Schema (price_approvals/{id})
+export const PriceApprovalRequestSchema = z.object({
+  id: z.string().min(1, "ID is required"),
+  status: z.enum(["pending", "approved", "denied"]),
+  requestedAt: z.number().int().nonnegative(),
+  requestedBy: z.object({
+    uid: z.string().min(1),
+    email: z.string().optional(),
+  }),
+  reason: z.string().min(1, "Reason is required"),
+  customerName: z.string().optional(),
+  items: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      standardPrice: z.number(),
+      price: z.number(),
+      grossProfit: z.number(),
+    })
+  ),
+  dealGrossProfit: z.number(),
+  overrides: PriceOverridesSchema,
+  decidedAt: z.number().int().nonnegative().optional(),
+  decidedBy: z
+    .object({
+      uid: z.string().min(1),
+      name: z.string().optional(),
+    })
+    .optional(),
+  decisionNote: z.string().optional(),
+});
+
+export type PriceApprovalRequest = z.infer<typeof PriceApprovalRequestSchema>;
+
+// Audit Log Schema (audit_log/{id})
+export const AuditLogEntrySchema = z.object({
+  id: z.string().min(1, "ID is required"),
+  collection: z.string().min(1),
+  dealershipId: z.string().optional(),
+  docId: z.string().min(1),
+  docName: z.string().optional(),
+  action: z.enum(["create", "update", "delete"]),
+  changes: z.record(
+    z.string(),
+    z.object({
+      before: z.unknown(),
+      after: z.unknown(),
+    })
+  ),
+  user: z.object({
+    uid: z.string().min(1),
+    email: z.string().optional(),
+  }),
+  timestamp: z.number().int().nonnegative(),
+});
+
+export type AuditLogEntry = z.infer<typeof AuditLogEntrySchema>;
+
+// Catalog Snapshot Schema (catalog_snapshots/{id})
+// Documents are stored raw so a restore writes back exactly what was captured.
+const CatalogDocumentsSchema = z.record(z.string(), z.record(z.string(), z.unknown()));
+
+export const CatalogSnapshotSchema = z.object({
+  id: z.string().min(1, "ID is required"),
+  name: z.string().min(1, "Name is required"),
+  createdAt: z.number().int().nonnegative(),
+  createdBy: z.object({
+    uid: z.string().min(1),
+    email: z.string().optional(),
+  }),
+  contents: z.object({
+    packages: CatalogDocumentsSchema,
+    features: CatalogDocumentsSchema,
+    ala_carte_options: CatalogDocumentsSchema,
+    pick2: z.record(z.string(), z.unknown()).nullable(),
+  }),
+});
+
+export type CatalogSnapshot = z.infer<typeof CatalogSnapshotSchema>;
+
+// User Profile Schema (users/{uid})
+export const UserRoleSchema = z.enum(["rep", "manager", "admin"]);
+
+export type UserRole = z.infer<typeof UserRoleSchema>;
+
+export const UserProfileSchema = z.object({
+  uid: z.string().min(1, "UID is required"),
+  role: UserRoleSchema,
+  email: z.string().optional(),
+  displayName: z.string().optional(),
+  dealershipIds: z.array(z.string().min(1)).optional(),
+});
+
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+// Dealership Schema (dealerships/{id})
+const hexColorValue = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Colors must be 6-digit hex colors like #1a1a1a");
+const hexColor = hexColorValue.optional();
+
+export const DealershipBrandingSchema = z.object({
+  name: z.string().min(1, "Store name is required"),
+  wordmark: z.string().min(1, "Wordmark is required"),
+  wordmarkAccent: z.string().optional(),
+  location: z.string(),
+  logoUrl: z.string().optional(),
+  address: z.string().optional(),
+  primaryColor: hexColor,
+  accentColor: hexColor,
+  quotePrefix: z
+    .string()
+    .regex(/^[A-Za-z0-9]{1,8}$/, "Quote prefix must be up to 8 letters or digits")
+    .optional(),
+});
+
+export type DealershipBranding = z.infer<typeof DealershipBrandingSchema>;
+
+export const DealershipSchema = DealershipBrandingSchema.extend({
+  id: z.string().min(1, "ID is required"),
+});
+
+export type Dealership = z.infer<typeof DealershipSchema>;
+
+// Theme Schema (app_config/theme)
+export const ThemeColorSchema = z.enum([
+  "bg0",
+  "bg1",
+  "bg2",
+  "border",
+  "textStrong",
+  "text",
+  "textMuted",
+  "gold",
+  "blue",
+  "red",
+  "accent",
+  "accentBright",
+]);
+
+export type ThemeColor = z.infer<typeof ThemeColorSchema>;
+
+export const ThemeSchema = z.object({
+  logoUrl: z.string().optional(),
+  palette: z.partialRecord(ThemeColorSchema, hexColorValue).optional(),
+  fonts: z
+    .object({
+      sans: z.string().min(1).optional(),
+      display: z.string().min(1).optional(),
+    })
+    .optional(),
+  fontUrl: z.string().url("Font stylesheet must be a URL").optional(),
+  tierColors: z.record(z.string().min(1), hexColorValue).optional(),
+  slideImages: z.record(z.string().min(1), z.string().min(1)).optional(),
+});
+
+export type Theme = z.infer<typeof ThemeSchema>;
+
+// Presentation Slide Schema (app_config/presentation)
+export const SlideLayoutSchema = z.enum(["title", "image-right", "image-left", "closing"]);
+
+export type SlideLayout = z.infer<typeof SlideLayoutSchema>;
+
+export const SlideIconSchema = z.enum([
+  "Activity",
+  "Anchor",
+  "Atom",
+  "CheckCircle2",
+  "CircleDollarSign",
+  "Crown",
+  "Droplets",
+  "FileWarning",
+  "FlaskConical",
+  "Gauge",
+  "Gem",
+  "HeartPulse",
+  "Layers",
+  "MapPin",
+  "Microscope",
+  "Settings",
+  "ShieldAlert",
+  "ShieldCheck",
+  "ShieldX",
+  "Sparkles",
+  "ThermometerSun",
+  "TrendingDown",
+  "Truck",
+  "UserCheck",
+  "Waves",
+  "Wrench",
+  "Zap",
+]);
+
+export type SlideIcon = z.infer<typeof SlideIconSchema>;
+
+export const SlideCalloutSchema = z.object({
+  title: z.string().min(1, "Each callout needs a title"),
+  text: z.string(),
+  icon: SlideIconSchema.optional(),
+});
+
+export type SlideCallout = z.infer<typeof SlideCalloutSchema>;
+
+export const SlideFooterSchema = z.object({
+  quote: z.string().min(1, "A footer needs a quote"),
+  label: z.string().optional(),
+  tag: z.string().optional(),
+  tone: z.enum(["accent", "warning"]).optional(),
+});
+
+export type SlideFooter = z.infer<typeof SlideFooterSchema>;
+
+// Which deals a slide is shown for
+export const SlideAudienceSchema = z
+  .object({ ...eligibilityRuleShape, dealTypes: z.array(DealTypeSchema).optional() })
+  .refine(isYearRangeOrdered, yearRangeError);
+
+export type SlideAudience = z.infer<typeof SlideAudienceSchema>;
+
+export const ModelImageSchema = z.object({
+  model: z.string().min(1, "Each model photo needs a model"),
+  image: z.string().min(1, "Each model photo needs an image"),
+});
+
+export type ModelImage = z.infer<typeof ModelImageSchema>;
+
+export const PresentationSlideSchema = z.object({
+  id: z.string().min(1, "ID is required"),
+  layout: SlideLayoutSchema,
+  title: z.string().min(1, "Each slide needs a title"),
+  hidden: z.boolean().optional(),
+  kicker: z.string().optional(),
+  badge: z.string().optional(),
+  heading: z.string().optional(),
+  headingIcon: SlideIconSchema.optional(),
+  body: z.string().optional(),
+  bullets: z.array(z.string().min(1)).optional(),
+  callouts: z.array(SlideCalloutSchema).optional(),
+  image: z.string().optional(),
+  imageAlt: z.string().optional(),
+  footer: SlideFooterSchema.optional(),
+  audience: SlideAudienceSchema.optional(),
+  modelImages: z.array(ModelImageSchema).optional(),
+});
+
+export type PresentationSlide = z.infer<typeof PresentationSlideSchema>;
+
+export const FactoryWarrantySchema = z.object({
+  model: z.string().min(1).optional(),
+  basicMonths: z.number().int().positive(),
+  basicMiles: z.number().int().positive(),
+  powertrainMonths: z.number().int().positive(),
+  powertrainMiles: z.number().int().positive(),
+});
+
+export type FactoryWarranty = z.infer<typeof FactoryWarrantySchema>;
+
+export const PackageRecommendationSchema = z.object({
+  packageName: z.string().min(1, "Each recommendation needs a package"),
+  audience: SlideAudienceSchema.optional(),
+});
+
+export type PackageRecommendation = z.infer<typeof PackageRecommendationSchema>;
+
+export const PresentationDeckSchema = z.object({
+  slides: z.array(PresentationSlideSchema),
+  warranties: z.array(FactoryWarrantySchema).optional(),
+  recommendations: z.array(PackageRecommendationSchema).optional(),
+  telemetryEnabled: z.boolean().optional(),
+  telemetrySampleRate: z.number().min(0).max(1).optional(),
+});
+
+export type PresentationDeck = z.infer<typeof PresentationDeckSchema>;
+
+// Presentation analytics aggregated on the device (localStorage, not Firestore)
+export const SlideStatsSchema = z.object({
+  views: z.number().int().nonnegative(),
+  skips: z.number().int().nonnegative(),
+  totalDwellMs: z.number().nonnegative(),
+  dropOffs: z.number().int().nonnegative(),
+});
+
+export type SlideStats = z.infer<typeof SlideStatsSchema>;
+
+export const PresentationStatsSchema = z.object({
+  sessions: z.number().int().nonnegative(),
+  completed: z.number().int().nonnegative(),
+  slides: z.record(z.string(), SlideStatsSchema),
+});
+
+export type PresentationStats = z.infer<typeof PresentationStatsSchema>;
+
+// Quote Schema (quotes/{id})
+// A finalized deal. Lines are snapshots (not references) so a quote still renders
+// correctly after catalog prices or names change.
+export const QuoteLineSchema = z.object({
+  id: z.string().min(1, "ID is required"),
+  name: z.string().min(1, "Name is required"),
+  price: z.number().nonnegative("Price must be non-negative"),
+  basePrice: z.number().nonnegative().optional(),
+});
+
+export type QuoteLine = z.infer<typeof QuoteLineSchema>;
+
+// Fee costs are left off; they are kept with the deal's other costs (QuoteCost).
+export const QuoteTaxesSchema = TaxBreakdownSchema.extend({
+  fees: z.array(z.object({ label: z.string(), amount: z.number() })),
+});
+
+export const QuoteStatusSchema = z.enum(["final", "void"]);
+
+// Customer info on a saved quote is stored as-entered; the rep may finalize a deal
+// before filling in every field, so nothing here is required to be non-empty.
+export const QuoteCustomerInfoSchema = z.object({
+  name: z.string(),
+  year: z.string(),
+  make: z.string(),
+  model: z.string(),
+  trim: z.string().optional(),
+  vin: z.string().optional(),
+  odometer: z.number().nonnegative().optional(),
+  condition: VehicleConditionSchema.optional(),
+  dealType: DealTypeSchema.optional(),
+  stockNumber: z.string().optional(),
+  dealNumber: z.string().optional(),
+});
+
+export const SignatureCaptureSchema = z.object({
+  image: z.string().startsWith("data:image/", "Signature must be an image"),
+  signedAt: z.number().int().nonnegative(),
+});
+
+export const DeclinedProductSchema = z.object({
+  kind: z.enum(["package", "alacarte"]),
+  id: z.string().min(1),
+  name: z.string(),
+  price: z.number().nonnegative(),
+});
+
+export const DealSignaturesSchema = z.object({
+  customer: SignatureCaptureSchema.optional(),
+  manager: SignatureCaptureSchema.optional(),
+  declined: z.array(SignatureCaptureSchema.extend({ productId: z.string().min(1) })).optional(),
+});
+
+export const QuoteSchema = z.object({
+  id: z.string().min(1, "ID is required"),
+  quoteNumber: z.string().regex(/^[A-Z0-9]+-\d{4}-\d{6,}$/, "Invalid quote number"),
+  status: QuoteStatusSchema,
+  createdAt: z.number().int().nonnegative(),
+  createdBy: z
+    .object({
+      uid: z.string().min(1),
+      email: z.string().optional(),
+    })
+    .optional(),
+  customerInfo: QuoteCustomerInfoSchema,
+  selectedPackage: QuoteLineSchema.nullable(),
+  customPackageItems: z.array(QuoteLineSchema),
+  pick2: z
+    .object({
+      price: z.number().nonnegative(),
+      items: z.array(QuoteLineSchema),
+    })
+    .nullable(),
+  priceOverrides: PriceOverridesSchema,
+  totalPrice: z.number().nonnegative(),
+  baseTotalPrice: z.number().nonnegative(),
+  sourceQuoteId: z.string().optional(),
+  priceApproval: PriceApprovalSchema.optional(),
+  promotions: z.array(AppliedPromotionSchema).optional(),
+  taxes: QuoteTaxesSchema.optional(),
+  declinedProducts: z.array(DeclinedProductSchema).optional(),
+  signatures: DealSignaturesSchema.optional(),
+  voidedAt: z.number().int().nonnegative().optional(),
+  voidedBy: z.string().optional(),
+  voidReason: z.string().optional(),
+});
+
+export type Quote = z.infer<typeof QuoteSchema>;
+
+// Shared Quote Schema (quote_links/{token}, served by /api/quote-links/:token)
+// The customer-facing copy of a deal. There is no cost anywhere in it.
+export const SharedProductSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  price: z.number().nonnegative(),
+  description: z.string(),
+  points: z.array(z.string()),
+  useCases: z.array(z.string()).optional(),
+  warranty: z.string().optional(),
+  isNew: z.boolean().optional(),
+});
+
+export const SharedQuoteSchema = z.object({
+  quoteNumber: z.string().optional(),
+  customerFirstName: z.string(),
+  vehicle: z.string(),
+  selectedPackage: z
+    .object({
+      name: z.string(),
+      price: z.number().nonnegative(),
+      features: z.array(SharedProductSchema),
+    })
+    .nullable(),
+  addons: z.array(SharedProductSchema),
+  pick2: z
+    .object({
+      price: z.number().nonnegative(),
+      items: z.array(SharedProductSchema),
+    })
+    .nullable(),
+  totalPrice: z.number().nonnegative(),
+  grandTotal: z.number().nonnegative().optional(),
+  branding: DealershipBrandingSchema.optional(),
+  createdAt: z.number().int().nonnegative(),
+  expiresAt: z.number().int().nonnegative(),
+});
+
+export type SharedQuote = z.infer<typeof SharedQuoteSchema>;
+
 // Environment Variables Schema (for validation during startup)
 export const EnvSchema = z.object({
   VITE_FIREBASE_API_KEY: z.string().min(1).optional(),
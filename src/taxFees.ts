@@ -0,0 +1,108 @@
+import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore/lite";
+import { db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type { TaxFeeConfig } from "./types";
+import { TaxFeeConfigSchema } from "./schemas";
+import { buildAuditEntry, readDocFields, recordAuditEntry } from "./auditLog";
+import { applyPatch } from "./utils/auditDiff";
+import { EMPTY_TAX_FEE_CONFIG } from "./utils/taxFees";
+
+/**
+ * Fetches the tax rates and dealer fees from app_config/tax_fees.
+ * A missing or invalid document means no tax and no fees, so the agreement shows
+ * the retail total only.
+ */
+export async function fetchTaxFeeConfig(): Promise<TaxFeeConfig> {
+  if (!db) {
+    return EMPTY_TAX_FEE_CONFIG;
+  }
+
+  try {
+    const snap = await getDoc(doc(db, scopedCollection("app_config"), "tax_fees"));
+    if (!snap.exists()) return EMPTY_TAX_FEE_CONFIG;
+
+    const parsed = TaxFeeConfigSchema.safeParse(snap.data());
+    if (!parsed.success) {
+      console.warn("Tax and fee config invalid in Firestore; not applied.", parsed.error.format());
+      return EMPTY_TAX_FEE_CONFIG;
+    }
+    return parsed.data;
+  } catch (error) {
+    console.warn("Error fetching tax and fee config; not applied.", error);
+    return EMPTY_TAX_FEE_CONFIG;
+  }
+}
+
+/**
+ * Saves the tax rates and dealer fees to app_config/tax_fees, replacing the document.
+ */
+export async function updateTaxFeeConfig(config: TaxFeeConfig): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot update tax and fees.");
+  }
+
+  const parsed = TaxFeeConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "The tax and fee settings are not valid.");
+  }
+
+  // Firestore rejects `undefined`, so optional fee fields are only written when set.
+  const data = {
+    taxRates: parsed.data.taxRates.map((taxRate) => ({
+      label: taxRate.label,
+      rate: taxRate.rate,
+    })),
+    fees: parsed.data.fees.map((fee) => ({
+      label: fee.label,
+      amount: fee.amount,
+      ...(typeof fee.cost === "number" ? { cost: fee.cost } : {}),
+      ...(fee.taxable ? { taxable: true } : {}),
+    })),
+  };
+
+  const before = await readDocFields("app_config", "tax_fees");
+  try {
+    await setDoc(doc(db, scopedCollection("app_config"), "tax_fees"), data);
+  } catch (error) {
+    console.error("Error saving tax and fee config to Firestore:", error);
+    throw new Error(
+      "Failed to save tax and fees. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({ collection: "app_config", docId: "tax_fees", before, after: data })
+  );
+}
+
+/**
+ * Marks a package or a la carte option as taxable or not.
+ */
+export async function setItemTaxable(
+  collectionName: "packages" | "ala_carte_options",
+  itemId: string,
+  taxable: boolean
+): Promise<void> {
+  if (!db) {
+    throw new Error("Firebase is not initialized. Cannot update taxable flag.");
+  }
+
+  const before = await readDocFields(collectionName, itemId);
+  try {
+    await updateDoc(doc(db, scopedCollection(collectionName), itemId), { taxable });
+  } catch (error) {
+    console.error("Error updating taxable flag in Firestore:", error);
+    throw new Error(
+      "Failed to update the taxable flag. Please check your connection and Firestore rules."
+    );
+  }
+
+  await recordAuditEntry(
+    buildAuditEntry({
+      collection: collectionName,
+      docId: itemId,
+      before,
+      after: applyPatch(before, { taxable }),
+    })
+  );
+}
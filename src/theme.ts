@@ -0,0 +1,30 @@
+import { doc, getDoc } from "firebase/firestore/lite";
+import { db } from "./firebase";
+import { scopedCollection } from "./dealerships";
+import type { Theme } from "./types";
+import { ThemeSchema } from "./schemas";
+
+/**
+ * Fetches the store's look from app_config/theme. A missing or invalid document means
+ * the default look, so a store without a theme still opens.
+ */
+export async function fetchTheme(): Promise<Theme> {
+  if (!db) {
+    return {};
+  }
+
+  try {
+    const snap = await getDoc(doc(db, scopedCollection("app_config"), "theme"));
+    if (!snap.exists()) return {};
+
+    const parsed = ThemeSchema.safeParse(snap.data());
+    if (!parsed.success) {
+      console.warn("Theme invalid in Firestore; using the default look.", parsed.error.format());
+      return {};
+    }
+    return parsed.data;
+  } catch (error) {
+    console.warn("Error fetching theme; using the default look.", error);
+    return {};
+  }
+}
@@ -9,7 +9,34 @@ export interface OrderableItem {
   connector?: FeatureConnector;
 }
 
-export interface ProductFeature extends OrderableItem {
+// When a catalog item is live, in epoch ms: [effectiveFrom, effectiveUntil). A missing
+// bound is open-ended. Scheduled changes live in a `*_versions` collection beside the
+// item's own (e.g. packages_versions): each has `versionOf` set to the item's id and only
+// carries the fields it changes (see utils/effectiveDates.ts).
+export interface EffectiveWindow {
+  effectiveFrom?: number;
+  effectiveUntil?: number;
+}
+
+// Which vehicles a product can be sold on. Every condition that is set must hold; an
+// unset condition, or no rule at all, allows any vehicle (see utils/eligibility.ts).
+export interface EligibilityRule {
+  models?: string[]; // Model lines or models, e.g. "RX" or "RX 350"
+  minYear?: number;
+  maxYear?: number;
+  conditions?: VehicleCondition[];
+  maxOdometer?: number; // Miles, inclusive
+}
+
+// A model-specific price in a package's or option's price matrix. The most specific
+// row matching the deal's vehicle replaces the base price (see utils/priceMatrix.ts).
+export interface ModelPrice {
+  model: string; // Model line or model, matched like eligibility rules
+  condition?: "new" | "used"; // Unset prices both; certified pre-owned prices as used
+  price: number;
+}
+
+export interface ProductFeature extends OrderableItem, EffectiveWindow {
   id: string;
   name: string;
   description: string;
@@ -27,9 +54,10 @@ export interface ProductFeature extends OrderableItem {
   alaCartePrice?: number; // Price when sold as A La Carte (required if publishToAlaCarte is true)
   alaCarteWarranty?: string; // Optional warranty override for A La Carte
   alaCarteIsNew?: boolean; // Optional "new" flag for A La Carte
+  eligibility?: EligibilityRule; // Copied to the A La Carte option when published
 }
 
-export interface PackageTier {
+export interface PackageTier extends EffectiveWindow {
   id: string;
   name: string;
   price: number;
@@ -39,10 +67,12 @@ export interface PackageTier {
   isRecommended?: boolean;
   // Legacy field maintained for backward compatibility with existing data
   is_recommended?: boolean;
-  tier_color: string;
+  tier_color?: string; // Legacy Tailwind color name; tier colors now come from the theme
+  taxable?: boolean; // Subject to sales tax; unset = taxable
+  priceMatrix?: ModelPrice[];
 }
 
-export interface AlaCarteOption extends OrderableItem {
+export interface AlaCarteOption extends OrderableItem, EffectiveWindow {
   id: string;
   name: string;
   price: number;
@@ -63,6 +93,9 @@ export interface AlaCarteOption extends OrderableItem {
   // Publishing fields
   sourceFeatureId?: string; // Set to feature.id when published from a feature
   isPublished?: boolean; // true/false; customer A La Carte filters on this
+  taxable?: boolean; // Subject to sales tax; unset = taxable
+  eligibility?: EligibilityRule;
+  priceMatrix?: ModelPrice[];
 }
 
 export interface PriceOverrides {
@@ -72,7 +105,38 @@ export interface PriceOverrides {
   };
 }
 
-export interface Pick2Config {
+// Admin-defined promotion (promotions collection). Applied to catalog prices before a
+// rep's PriceOverrides, and only while enabled and inside its effective window.
+//   package_percent - percentOff each package in packageIds
+//   alacarte_amount - amountOff each a la carte option in alaCarteIds
+//   package_bundle  - with a package in packageIds selected, each option in alaCarteIds
+//                     is sold at bundlePrice ("buy Gold, get tint at $199")
+// An empty packageIds / alaCarteIds means every item of that kind; a bundle must name
+// the options it offers.
+export type PromotionKind = "package_percent" | "alacarte_amount" | "package_bundle";
+
+export interface Promotion extends EffectiveWindow {
+  id: string;
+  name: string; // Shown on the promo badge and the agreement line
+  kind: PromotionKind;
+  enabled: boolean;
+  stackable: boolean; // Combines with other stackable promotions on the same item
+  packageIds: string[];
+  alaCarteIds: string[];
+  percentOff?: number;
+  amountOff?: number;
+  bundlePrice?: number;
+}
+
+// One promotion's discount on one line of the deal.
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  itemId: string;
+  amount: number; // Dollars off the line's catalog price
+}
+
+export interface Pick2Config extends EffectiveWindow {
   enabled: boolean;
   price: number;
   title?: string;
@@ -87,3 +151,444 @@ export interface Pick2Config {
   telemetryEnabled?: boolean;
   telemetrySampleRate?: number;
 }
+
+// Sales tax and dealer fees (app_config/tax_fees). Every rate applies to the taxable
+// subtotal: the items not marked `taxable: false`, plus any taxable fees.
+export interface TaxRate {
+  label: string; // e.g. "VA Sales Tax"
+  rate: number; // Percent, e.g. 4.15
+}
+
+export interface DealFee {
+  label: string; // e.g. "Processing Fee", "Installation"
+  amount: number;
+  cost?: number; // Dealer cost, deducted from gross profit on the manager view
+  taxable?: boolean; // Unset = not taxable
+}
+
+export interface TaxFeeConfig {
+  taxRates: TaxRate[];
+  fees: DealFee[];
+}
+
+// The tax and fee lines of one deal, as shown on the agreement and saved on the quote.
+export interface TaxBreakdown {
+  subtotal: number; // Retail total of the items
+  taxableSubtotal: number;
+  taxes: Array<{ label: string; rate: number; amount: number }>;
+  fees: Array<{ label: string; amount: number; cost: number }>;
+  totalTax: number;
+  totalFees: number;
+  grandTotal: number;
+}
+
+// Default financing terms for the payment estimator (app_config/payment_defaults).
+export interface PaymentDefaults {
+  termMonths: number;
+  apr: number; // Percent, e.g. 6.9
+}
+
+// The financing terms the estimator quotes "+$X/mo" against, adjustable per deal.
+export interface PaymentTerms extends PaymentDefaults {
+  amountFinanced: number; // The vehicle loan before products; 0 when not known yet
+}
+
+// Minimum gross-profit floors (app_config/pricing_policy). An override that takes an
+// item or the whole deal below its floor needs manager approval. Unset = no floor.
+export interface PricingPolicy {
+  minItemGrossProfit?: number;
+  minDealGrossProfit?: number;
+}
+
+export type PriceApprovalMethod = "pin" | "remote" | "self";
+
+// Manager sign-off for overrides below the pricing floor, recorded on the deal.
+export interface PriceApproval {
+  method: PriceApprovalMethod;
+  approvedBy: { uid: string; name?: string };
+  approvedAt: number; // epoch ms
+  reason: string;
+  overrides: PriceOverrides; // The exact overrides that were approved
+  requestId?: string; // price_approvals/{id} when approved remotely, pin_approvals/{id} by PIN
+}
+
+export type PriceApprovalRequestStatus = "pending" | "approved" | "denied";
+
+export interface PriceApprovalRequestItem {
+  id: string;
+  name: string;
+  standardPrice: number;
+  price: number;
+  grossProfit: number;
+}
+
+// A rep's request for remote approval (price_approvals/{id}), decided by a manager.
+export interface PriceApprovalRequest {
+  id: string;
+  status: PriceApprovalRequestStatus;
+  requestedAt: number; // epoch ms
+  requestedBy: { uid: string; email?: string };
+  reason: string;
+  customerName?: string;
+  items: PriceApprovalRequestItem[];
+  dealGrossProfit: number;
+  overrides: PriceOverrides;
+  decidedAt?: number;
+  decidedBy?: { uid: string; name?: string };
+  decisionNote?: string;
+}
+
+export type AuditAction = "create" | "update" | "delete";
+
+// One changed field in an audit entry. null means the field was absent.
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// An append-only record of a catalog write (audit_log/{id}).
+export interface AuditLogEntry {
+  id: string;
+  collection: string; // e.g. "features", "ala_carte_options", "packages", "app_config"
+  dealershipId?: string; // The store whose catalog changed. Unset: the single-store catalog
+  docId: string;
+  docName?: string; // The document's name at the time, for display
+  action: AuditAction;
+  changes: Record<string, AuditFieldChange>;
+  user: { uid: string; email?: string };
+  timestamp: number; // epoch ms
+}
+
+// Raw catalog documents keyed by ID, exactly as stored in Firestore.
+export type CatalogDocuments = Record<string, Record<string, unknown>>;
+
+// The whole editable catalog at one point in time.
+export interface CatalogContents {
+  packages: CatalogDocuments;
+  features: CatalogDocuments;
+  ala_carte_options: CatalogDocuments;
+  pick2: Record<string, unknown> | null; // app_config/pick2
+}
+
+// A named copy of the catalog (catalog_snapshots/{id}) that can be restored later.
+export interface CatalogSnapshot {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  createdBy: { uid: string; email?: string };
+  contents: CatalogContents;
+}
+
+// Access level stored on users/{uid}. Enforced server-side by firestore.rules.
+//   rep     - sales floor: builds and finalizes deals, never sees dealer cost
+//   manager - rep + dealer cost (manager view) and price-override approval
+//   admin   - manager + catalog editing (AdminPanel, ProductHub, app_config)
+export type UserRole = "rep" | "manager" | "admin";
+
+export interface UserProfile {
+  uid: string;
+  role: UserRole;
+  email?: string;
+  displayName?: string;
+  dealershipIds?: string[]; // Stores the user works at. Unset: the single-store catalog
+}
+
+// How a store presents itself on the menu, printed agreement and presentation
+export interface DealershipBranding {
+  name: string; // Used in sentences, e.g. "Priority Lexus Virginia Beach"
+  wordmark: string; // Bold part of the text logo, e.g. "PRIORITY"
+  wordmarkAccent?: string; // Lighter part of the text logo, e.g. "LEXUS"
+  location: string; // Line under the logo, e.g. "VIRGINIA BEACH"
+  logoUrl?: string; // Image shown in place of the text logo
+  address?: string; // Printed under the logo on the menu and agreement
+  primaryColor?: string; // Hex color of the wordmark
+  accentColor?: string; // Hex color of the lighter part and the location line
+  quotePrefix?: string; // Starts the store's quote numbers, e.g. "PVB". Unset: the store id
+}
+
+// Palette slots of the menu's color scheme, one per lux-* Tailwind color
+export type ThemeColor =
+  | "bg0"
+  | "bg1"
+  | "bg2"
+  | "border"
+  | "textStrong"
+  | "text"
+  | "textMuted"
+  | "gold"
+  | "blue"
+  | "red"
+  | "accent" // Presentation highlights: buttons, bullets, the progress bar
+  | "accentBright"; // Presentation icons and highlighted words
+
+// A store's look (app_config/theme), loaded at runtime and applied as CSS variables so a
+// sister store or another brand is a document edit rather than a code change. Anything
+// unset keeps the default look.
+export interface Theme {
+  logoUrl?: string; // Used when the store has no logo of its own
+  palette?: Partial<Record<ThemeColor, string>>; // Hex colors
+  fonts?: {
+    sans?: string; // CSS font-family list for body text
+    display?: string; // CSS font-family list for headings and prices
+  };
+  fontUrl?: string; // Stylesheet that loads the fonts, e.g. a Google Fonts link
+  tierColors?: Record<string, string>; // Hex color per package name, e.g. { Gold: "#FACC15" }
+  slideImages?: Record<string, string>; // Presentation image per default file, e.g. { "MENU1.png": url }
+}
+
+// How a presentation slide is laid out: the welcome slide with the customer's name, text
+// beside a photo (either side), or the closing slide that hands back to the menu
+export type SlideLayout = "title" | "image-right" | "image-left" | "closing";
+
+// Icons a slide can show, by lucide-react name
+export type SlideIcon =
+  | "Activity"
+  | "Anchor"
+  | "Atom"
+  | "CheckCircle2"
+  | "CircleDollarSign"
+  | "Crown"
+  | "Droplets"
+  | "FileWarning"
+  | "FlaskConical"
+  | "Gauge"
+  | "Gem"
+  | "HeartPulse"
+  | "Layers"
+  | "MapPin"
+  | "Microscope"
+  | "Settings"
+  | "ShieldAlert"
+  | "ShieldCheck"
+  | "ShieldX"
+  | "Sparkles"
+  | "ThermometerSun"
+  | "TrendingDown"
+  | "Truck"
+  | "UserCheck"
+  | "Waves"
+  | "Wrench"
+  | "Zap";
+
+// A small card on a slide; on the closing slide, one card per package tier
+export interface SlideCallout {
+  title: string;
+  text: string;
+  icon?: SlideIcon;
+}
+
+// The quote bar along the bottom of a slide
+export interface SlideFooter {
+  quote: string;
+  label?: string; // Small heading over the quote
+  tag?: string; // Beside the quote, e.g. "LIFETIME MAINTENANCE VALUE"
+  tone?: "accent" | "warning"; // warning: red, for the gaps in factory coverage
+}
+
+// Which deals a slide is shown for: the vehicle, as in an eligibility rule, and the deal
+// type. Like eligibility, a detail the deal doesn't have yet rules nothing out.
+export interface SlideAudience extends EligibilityRule {
+  dealTypes?: DealType[];
+}
+
+// A slide photo for a model line or model; the most specific match replaces the image
+export interface ModelImage {
+  model: string; // Matched like eligibility rules
+  image: string;
+}
+
+// One slide of the value presentation. The deck is stored in order in
+// app_config/presentation. Text fields may use {store} and {location}, filled in from
+// the store's branding, and {basicWarranty} and {powertrainWarranty} for the vehicle.
+export interface PresentationSlide {
+  id: string;
+  layout: SlideLayout;
+  title: string; // Line breaks are kept
+  hidden?: boolean; // Kept in the deck but skipped when presenting
+  kicker?: string; // Small line over the title
+  badge?: string; // Pill under the kicker
+  heading?: string; // Over the body text
+  headingIcon?: SlideIcon;
+  body?: string;
+  bullets?: string[]; // A leading "Label:" is shown in bold
+  callouts?: SlideCallout[];
+  image?: string; // URL, or a bundled file like "/MENU1.png"
+  imageAlt?: string;
+  footer?: SlideFooter;
+  audience?: SlideAudience; // Unset: every deal
+  modelImages?: ModelImage[];
+}
+
+// Factory warranty terms quoted on the slides. A row without a model covers every
+// model; otherwise the most specific model wins (see utils/personalization.ts).
+export interface FactoryWarranty {
+  model?: string;
+  basicMonths: number;
+  basicMiles: number;
+  powertrainMonths: number;
+  powertrainMiles: number;
+}
+
+// The package the closing slide ends on for matching deals. The first match wins.
+export interface PackageRecommendation {
+  packageName: string;
+  audience?: SlideAudience; // Unset: every deal
+}
+
+// app_config/presentation
+export interface PresentationDeck {
+  slides: PresentationSlide[];
+  warranties?: FactoryWarranty[]; // Unset: the default Lexus terms
+  recommendations?: PackageRecommendation[]; // Unset: the catalog's recommended package
+  // Per-slide analytics, sampled per showing like the Pick 2 telemetry. Off unless enabled
+  telemetryEnabled?: boolean;
+  telemetrySampleRate?: number; // 0-1
+}
+
+// How a slide has done across the presentations recorded on this device
+export interface SlideStats {
+  views: number;
+  skips: number; // Views shorter than SKIP_THRESHOLD_MS (see utils/presentationAnalytics.ts)
+  totalDwellMs: number;
+  dropOffs: number; // Presentations that ended here without reaching the last slide
+}
+
+// Local aggregation of presentation analytics, kept per store in localStorage
+export interface PresentationStats {
+  sessions: number;
+  completed: number;
+  slides: Record<string, SlideStats>;
+}
+
+// A store (rooftop) in the dealer group (dealerships/{id}). Its catalog and app_config
+// live in subcollections of the same document.
+export interface Dealership extends DealershipBranding {
+  id: string;
+}
+
+// A single priced line captured on a finalized quote. Stored as a snapshot so the
+// deal can be reviewed even after the catalog changes. Its cost is kept in QuoteCost.
+export interface QuoteLine {
+  id: string;
+  name: string;
+  price: number;
+  basePrice?: number; // Standard retail before negotiated overrides
+}
+
+// The tax and fee lines saved on a quote: the breakdown without the dealer cost of fees
+export type QuoteTaxes = Omit<TaxBreakdown, "fees"> & {
+  fees: Array<{ label: string; amount: number }>;
+};
+
+// The dealer cost of a finalized deal (quotes/{id}/internal/cost). Kept off the quote
+// itself, which every rep can read; only managers can read this.
+export interface QuoteCost {
+  lineCosts: Record<string, number>; // By line id: the package, add-ons and Pick 2 items
+  pick2Cost?: number;
+  feeCosts: Array<{ label: string; cost: number }>;
+  totalCost: number; // The products, before fee costs
+}
+
+export type QuoteStatus = "final" | "void";
+
+// A signature or set of initials drawn on the agreement's signature pad
+export interface SignatureCapture {
+  image: string; // PNG data URL
+  signedAt: number; // epoch ms
+}
+
+// A product shown on the menu that the customer did not buy, recorded when the deal is
+// finalized so the deal jacket shows what was offered and refused.
+export interface DeclinedProduct {
+  kind: "package" | "alacarte";
+  id: string;
+  name: string;
+  price: number; // Retail price as shown
+}
+
+// The customer's initials against one declined product
+export interface DeclinedProductInitials extends SignatureCapture {
+  productId: string;
+}
+
+export interface DealSignatures {
+  customer?: SignatureCapture;
+  manager?: SignatureCapture;
+  declined?: DeclinedProductInitials[];
+}
+
+export type VehicleCondition = "new" | "used" | "cpo";
+
+export type DealType = "purchase" | "lease";
+
+// The customer and the vehicle the deal is for, as entered in CustomerInfoModal
+export interface CustomerInfo {
+  name: string;
+  year: string;
+  make: string;
+  model: string;
+  trim?: string;
+  vin?: string; // 17 characters, check digit verified
+  odometer?: number; // Miles
+  condition?: VehicleCondition;
+  dealType?: DealType;
+  stockNumber?: string;
+  dealNumber?: string; // The deal's number in the DMS
+  amountFinanced?: number; // Vehicle loan before products, for payment quotes
+  email?: string;
+  phone?: string; // Mobile number for text messages
+}
+
+// Saved with a quote: the customer and vehicle, without contact details or financing
+export type QuoteCustomerInfo = Omit<CustomerInfo, "amountFinanced" | "email" | "phone">;
+
+export interface Quote {
+  id: string;
+  quoteNumber: string; // Human-readable sequential number, e.g. PLX-2026-000123; per store
+  status: QuoteStatus;
+  createdAt: number; // epoch ms
+  createdBy?: { uid: string; email?: string };
+  customerInfo: QuoteCustomerInfo;
+  selectedPackage: QuoteLine | null;
+  customPackageItems: QuoteLine[];
+  pick2: { price: number; items: QuoteLine[] } | null;
+  priceOverrides: PriceOverrides;
+  totalPrice: number;
+  baseTotalPrice: number;
+  sourceQuoteId?: string; // Set when the deal was reopened or duplicated from another quote
+  priceApproval?: PriceApproval;
+  promotions?: AppliedPromotion[]; // Promotions applied to the lines above
+  taxes?: QuoteTaxes; // Tax and fees at the time of sale
+  declinedProducts?: DeclinedProduct[]; // Offered on the menu and not bought
+  signatures?: DealSignatures; // Signed on the agreement screen after the quote is saved
+  voidedAt?: number;
+  voidedBy?: string;
+  voidReason?: string;
+}
+
+// A product as the customer sees it on a shared quote link: never cost or catalog internals
+export interface SharedProduct {
+  id: string;
+  name: string;
+  price: number;
+  description: string;
+  points: string[];
+  useCases?: string[];
+  warranty?: string;
+  isNew?: boolean;
+}
+
+// The read-only copy of a deal behind a shared quote link (quote_links/{token})
+export interface SharedQuote {
+  quoteNumber?: string;
+  customerFirstName: string; // Links get forwarded, so the full name is left off
+  vehicle: string;
+  selectedPackage: { name: string; price: number; features: SharedProduct[] } | null;
+  addons: SharedProduct[];
+  pick2: { price: number; items: SharedProduct[] } | null;
+  totalPrice: number;
+  grandTotal?: number; // With tax and fees, when the deal has them
+  branding?: DealershipBranding; // The selling store. Unset: the default branding
+  createdAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { agreementPdfFilename, buildAgreementPdf } from "./agreementPdf";
+import type { AgreementPdfInput } from "./agreementPdf";
+import { createMockAlaCarteOption, createMockPackageTier } from "../test/test-utils";
+import { DEFAULT_BRANDING } from "../constants";
+
+const asText = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+describe("buildAgreementPdf", () => {
+  const input: AgreementPdfInput = {
+    selectedPackage: createMockPackageTier({ id: "gold", name: "Gold", price: 1800, cost: 600 }),
+    customPackageItems: [
+      createMockAlaCarteOption({ id: "tint", name: "Window Tint", price: 399, cost: 120 }),
+    ],
+    totalPrice: 2199,
+    totalCost: 720,
+    customerInfo: { name: "Jane Doe", year: "2025", make: "Lexus", model: "RX 350" },
+    isManagerView: false,
+    baseTotalPrice: 2399,
+    basePackagePricesById: { gold: 2000 },
+    date: new Date(2026, 4, 12).getTime(),
+  };
+
+  it("lays out the customer, vehicle, lines and totals", () => {
+    const output = asText(buildAgreementPdf(input));
+
+    expect(output).toContain("(VEHICLE PROTECTION AGREEMENT) Tj");
+    expect(output).toContain("(Jane Doe) Tj");
+    expect(output).toContain("(2025 Lexus RX 350) Tj");
+    expect(output).toContain("(May 12, 2026) Tj");
+    expect(output).toContain("(Gold Package) Tj");
+    expect(output).toContain("(Window Tint) Tj");
+    expect(output).toContain("(Total Retail Price:) Tj");
+    expect(output).toContain("($2,199.00) Tj");
+  });
+
+  it("prints the trim, VIN and deal details under the vehicle", () => {
+    const output = asText(
+      buildAgreementPdf({
+        ...input,
+        customerInfo: {
+          ...input.customerInfo,
+          trim: "F SPORT",
+          vin: "1M8GDM9AXKP042788",
+          odometer: 12,
+          condition: "new",
+          dealNumber: "98765",
+        },
+      })
+    );
+
+    expect(output).toContain("(2025 Lexus RX 350 F SPORT) Tj");
+    expect(output).toContain("(1M8GDM9AXKP042788) Tj");
+    expect(output).toContain("(12 mi) Tj");
+    expect(output).toContain("(New) Tj");
+    expect(output).toContain("(98765) Tj");
+    expect(output).toContain("(Stock #:) Tj");
+  });
+
+  it("shows the standard retail price beside a discounted line", () => {
+    const output = asText(buildAgreementPdf(input));
+
+    expect(output).toContain("($1,800.00) Tj");
+    expect(output).toContain("($2,000.00) Tj");
+    expect(output).toContain("($2,399.00) Tj");
+  });
+
+  it("adds cost and gross profit only on the manager copy", () => {
+    const customer = asText(buildAgreementPdf(input));
+    const manager = asText(buildAgreementPdf({ ...input, isManagerView: true }));
+
+    expect(customer).not.toContain("INTERNAL COST");
+    expect(customer).not.toContain("($600.00) Tj");
+    expect(manager).toContain("(INTERNAL COST) Tj");
+    expect(manager).toContain("(Gross Profit:) Tj");
+    expect(manager).toContain("($1,479.00) Tj");
+  });
+
+  it("prints declined products and notes captured signatures", () => {
+    const output = asText(
+      buildAgreementPdf({
+        ...input,
+        declinedProducts: [{ kind: "package", id: "platinum", name: "Platinum", price: 3500 }],
+        signatures: {
+          customer: { image: "data:image/png;base64,AAAA", signedAt: input.date },
+        },
+      })
+    );
+
+    expect(output).toContain("(DECLINED COVERAGE) Tj");
+    expect(output).toContain("(Platinum Package) Tj");
+    expect(output).toContain("(Signed electronically");
+  });
+
+  it("embeds the signatures, initials and logo it was given", () => {
+    const image = (id: number) => ({ width: 200, height: 50, data: new Uint8Array([0xff, id]) });
+    const output = asText(
+      buildAgreementPdf({
+        ...input,
+        declinedProducts: [{ kind: "package", id: "platinum", name: "Platinum", price: 3500 }],
+        signatures: {
+          customer: { image: "data:image/png;base64,AAAA", signedAt: input.date },
+          declined: [
+            { productId: "platinum", image: "data:image/png;base64,AAAA", signedAt: input.date },
+          ],
+        },
+        branding: { ...DEFAULT_BRANDING, logoUrl: "https://example.com/logo.png" },
+        images: { logo: image(1), customer: image(2), declined: { platinum: image(3) } },
+      })
+    );
+
+    expect(output.match(/\/Subtype \/Image/g)).toHaveLength(3);
+    expect(output.match(/\/Im\d Do Q/g)).toHaveLength(3);
+    // The logo replaces the text wordmark
+    expect(output).not.toContain(`(${DEFAULT_BRANDING.wordmark}) Tj`);
+  });
+
+  it("prints the wordmark and blank lines when no images were loaded", () => {
+    const output = asText(
+      buildAgreementPdf({
+        ...input,
+        signatures: { customer: { image: "data:image/png;base64,AAAA", signedAt: input.date } },
+      })
+    );
+
+    expect(output).not.toContain("/Subtype /Image");
+    expect(output).toContain(`(${DEFAULT_BRANDING.wordmark}) Tj`);
+  });
+
+  it("continues onto another page when the lines run long", () => {
+    const customPackageItems = Array.from({ length: 40 }, (_, index) =>
+      createMockAlaCarteOption({ id: `item-${index}`, name: `Item ${index}` })
+    );
+    const output = asText(buildAgreementPdf({ ...input, customPackageItems }));
+
+    expect(output).toContain("/Count 2");
+    expect(output).toContain("(Item 39) Tj");
+  });
+
+  it("produces the same file for the same deal", () => {
+    expect(buildAgreementPdf(input)).toEqual(buildAgreementPdf(input));
+  });
+});
+
+describe("agreementPdfFilename", () => {
+  it("names the file after the quote", () => {
+    expect(agreementPdfFilename("PLX-2026-000123", false)).toBe("PLX-2026-000123.pdf");
+    expect(agreementPdfFilename("PLX-2026-000123", true)).toBe("PLX-2026-000123-manager.pdf");
+    expect(agreementPdfFilename(undefined, false)).toBe("agreement.pdf");
+  });
+});
@@ -0,0 +1,513 @@
+import type {
+  AlaCarteOption,
+  AppliedPromotion,
+  DealershipBranding,
+  DealSignatures,
+  DeclinedProduct,
+  PackageTier,
+  PriceApproval,
+  QuoteCustomerInfo,
+  SignatureCapture,
+  TaxBreakdown,
+} from "../types";
+import { createPdfDocument, loadPdfImage, measureText, wrapText } from "./pdfWriter";
+import type { PdfDocument, PdfImage, PdfTextOptions } from "./pdfWriter";
+import { describePriceApproval } from "./pricingFloor";
+import { feeGrossProfit, formatTaxRate } from "./taxFees";
+import { declinedProductLabel } from "./declinations";
+import { formatMonthlyPayment } from "./payments";
+import type { TermComparison } from "./payments";
+import { formatVehicle, vehicleDetailRows } from "./vehicle";
+import { DEFAULT_BRANDING } from "../constants";
+
+/**
+ * The signature and initials images and the store logo, prepared for embedding by
+ * loadAgreementPdfImages. A missing one prints as PrintView does without it: a blank
+ * line, or the store's text wordmark.
+ */
+export interface AgreementPdfImages {
+  logo?: PdfImage;
+  customer?: PdfImage;
+  manager?: PdfImage;
+  declined?: Record<string, PdfImage>; // Initials, by declined product id
+}
+
+/**
+ * Everything PrintView shows, plus the date to print: the PDF never reads the clock, so
+ * the same deal always produces the same file.
+ */
+export interface AgreementPdfInput {
+  selectedPackage: PackageTier | null;
+  customPackageItems: AlaCarteOption[];
+  pick2?: { price: number; items: AlaCarteOption[]; cost: number } | null;
+  totalPrice: number;
+  totalCost: number;
+  customerInfo: QuoteCustomerInfo;
+  isManagerView: boolean;
+  baseTotalPrice?: number;
+  basePackagePricesById?: Record<string, number>;
+  baseAddonPricesById?: Record<string, number>;
+  promotions?: AppliedPromotion[];
+  taxBreakdown?: TaxBreakdown | null;
+  termComparison?: TermComparison | null;
+  quoteNumber?: string;
+  priceApproval?: PriceApproval | null;
+  signatures?: DealSignatures;
+  declinedProducts?: DeclinedProduct[];
+  branding?: DealershipBranding; // The selling store. Unset: the default branding
+  images?: AgreementPdfImages;
+  date: number; // epoch ms
+}
+
+const MARGIN = 54;
+const RIGHT_EDGE = 612 - MARGIN;
+const BOTTOM_LIMIT = 792 - MARGIN;
+const COST_COLUMN_WIDTH = 96;
+const ROW_HEIGHT = 20;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const formatDate = (epochMs: number) =>
+  new Date(epochMs).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+const formatSignedAt = (capture: SignatureCapture) =>
+  `Signed electronically ${new Date(capture.signedAt).toLocaleString("en-US")}`;
+
+/**
+ * The file name a generated agreement is saved under.
+ */
+export function agreementPdfFilename(quoteNumber: string | undefined, isManagerView: boolean) {
+  return `${quoteNumber ?? "agreement"}${isManagerView ? "-manager" : ""}.pdf`;
+}
+
+/**
+ * Loads the deal's captured signatures and initials and the store logo for
+ * buildAgreementPdf. Images that can't be loaded are left out.
+ */
+export async function loadAgreementPdfImages(
+  signatures: DealSignatures = {},
+  branding: DealershipBranding = DEFAULT_BRANDING
+): Promise<AgreementPdfImages> {
+  const [logo, customer, manager, declined] = await Promise.all([
+    branding.logoUrl ? loadPdfImage(branding.logoUrl) : null,
+    signatures.customer ? loadPdfImage(signatures.customer.image) : null,
+    signatures.manager ? loadPdfImage(signatures.manager.image) : null,
+    Promise.all(
+      (signatures.declined ?? []).map(
+        async (initials) => [initials.productId, await loadPdfImage(initials.image)] as const
+      )
+    ),
+  ]);
+  const declinedImages = declined.filter(
+    (entry): entry is readonly [string, PdfImage] => entry[1] !== null
+  );
+  return {
+    ...(logo ? { logo } : {}),
+    ...(customer ? { customer } : {}),
+    ...(manager ? { manager } : {}),
+    ...(declinedImages.length > 0 ? { declined: Object.fromEntries(declinedImages) } : {}),
+  };
+}
+
+/**
+ * Lays out the agreement as PrintView does (header, customer and vehicle, item lines
+ * with discounts and promotions, totals, the optional manager section, declined products
+ * and signature lines, with the images from `input.images`) and returns it as a PDF file.
+ */
+export function buildAgreementPdf(input: AgreementPdfInput): Uint8Array {
+  const {
+    selectedPackage,
+    customPackageItems,
+    totalPrice,
+    totalCost,
+    customerInfo,
+    isManagerView,
+    baseTotalPrice,
+    promotions = [],
+    taxBreakdown = null,
+    termComparison = null,
+    priceApproval = null,
+    signatures = {},
+    declinedProducts = [],
+    branding = DEFAULT_BRANDING,
+    images = {},
+  } = input;
+  const title = isManagerView ? "Internal Finance Record" : "Vehicle Protection Agreement";
+  const pdf: PdfDocument = createPdfDocument(
+    input.quoteNumber ? `${title} ${input.quoteNumber}` : title
+  );
+  const priceRight = isManagerView ? RIGHT_EDGE - COST_COLUMN_WIDTH : RIGHT_EDGE;
+  const totalsLabelRight = priceRight - 110;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= BOTTOM_LIMIT) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const rule = (width = 0.5, gray = 0.75) => {
+    pdf.line(MARGIN, y, RIGHT_EDGE, y, { width, gray });
+  };
+
+  // A price, with the standard retail struck through beside it when it was discounted.
+  const price = (amount: number, right: number, baseline: number, base?: number) => {
+    pdf.text(formatCurrency(amount), right, baseline, { font: "mono", size: 10, align: "right" });
+    if (typeof base !== "number" || base <= amount) return;
+    const struck = formatCurrency(base);
+    const struckRight = right - formatCurrency(amount).length * 6 - 10;
+    const struckWidth = struck.length * 4.8;
+    pdf.text(struck, struckRight, baseline, { font: "mono", size: 8, align: "right", gray: 0.45 });
+    pdf.line(struckRight - struckWidth, baseline - 3, struckRight, baseline - 3, {
+      width: 0.75,
+      gray: 0.45,
+    });
+  };
+
+  const itemRow = (
+    description: string,
+    options: { price?: number; base?: number; cost?: number; indent?: boolean }
+  ) => {
+    ensureSpace(ROW_HEIGHT);
+    const baseline = y + 13;
+    const textOptions: PdfTextOptions = options.indent ? { size: 8.5, gray: 0.3 } : { size: 10 };
+    pdf.text(description, MARGIN + (options.indent ? 18 : 0), baseline, textOptions);
+    if (typeof options.price === "number") price(options.price, priceRight, baseline, options.base);
+    if (isManagerView && typeof options.cost === "number") {
+      pdf.text(formatCurrency(options.cost), RIGHT_EDGE, baseline, {
+        font: "mono",
+        size: 10,
+        align: "right",
+      });
+    }
+    y += ROW_HEIGHT;
+    rule(0.5, options.indent ? 0.88 : 0.75);
+  };
+
+  const promotionRows = (itemId: string) => {
+    promotions
+      .filter((promotion) => promotion.itemId === itemId)
+      .forEach((promotion) => {
+        ensureSpace(ROW_HEIGHT);
+        const baseline = y + 13;
+        pdf.text(`Promotion: ${promotion.name}`, MARGIN + 18, baseline, { size: 8.5, gray: 0.3 });
+        pdf.text(`-${formatCurrency(promotion.amount)}`, priceRight, baseline, {
+          font: "mono",
+          size: 8.5,
+          align: "right",
+          gray: 0.3,
+        });
+        y += ROW_HEIGHT;
+        rule(0.5, 0.88);
+      });
+  };
+
+  const totalRow = (
+    label: string,
+    amount: number,
+    options: { bold?: boolean; right?: number; base?: number; ruleAbove?: boolean } = {}
+  ) => {
+    ensureSpace(ROW_HEIGHT);
+    if (options.ruleAbove) {
+      pdf.line(totalsLabelRight - 60, y + 2, RIGHT_EDGE, y + 2, { width: 1.5 });
+    }
+    const baseline = y + 15;
+    const right = options.right ?? priceRight;
+    pdf.text(label, right - 110, baseline, {
+      font: options.bold ? "bold" : "regular",
+      size: 10,
+      align: "right",
+    });
+    price(amount, right, baseline, options.base);
+    y += ROW_HEIGHT;
+  };
+
+  // Scales an image into a box, keeping its proportions, sitting on the box's bottom edge
+  const fitImage = (
+    image: PdfImage,
+    box: { x: number; bottom: number; width: number; height: number; center?: boolean }
+  ) => {
+    const scale = Math.min(box.width / image.width, box.height / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    const x = box.center ? box.x + (box.width - width) / 2 : box.x;
+    pdf.image(image, x, box.bottom - height, width, height);
+  };
+
+  const sectionHeading = (heading: string) => {
+    ensureSpace(ROW_HEIGHT * 3);
+    y += 18;
+    pdf.text(heading.toUpperCase(), MARGIN, y, { font: "bold", size: 10 });
+    y += 6;
+    rule(1.5, 0);
+  };
+
+  // Header: the store's logo, or its text wordmark when it has none
+  if (images.logo) {
+    fitImage(images.logo, { x: MARGIN, bottom: y + 26, width: 220, height: 26 });
+  } else {
+    pdf.text(branding.wordmark, MARGIN, y + 20, { font: "bold", size: 22 });
+    if (branding.wordmarkAccent) {
+      pdf.text(
+        branding.wordmarkAccent,
+        MARGIN + measureText(`${branding.wordmark} `, "bold", 22),
+        y + 20,
+        { size: 22, gray: 0.35 }
+      );
+    }
+  }
+  pdf.text(branding.location, MARGIN, y + 34, { size: 9, gray: 0.35 });
+  if (branding.address) {
+    pdf.text(branding.address, MARGIN, y + 46, { size: 8, gray: 0.35 });
+  }
+  pdf.text(title.toUpperCase(), RIGHT_EDGE, y + 18, { font: "bold", size: 16, align: "right" });
+  pdf.text(isManagerView ? "Confidential - Manager Copy" : "Customer Copy", RIGHT_EDGE, y + 32, {
+    font: "bold",
+    size: 10,
+    align: "right",
+    gray: 0.3,
+  });
+  if (input.quoteNumber) {
+    pdf.text(`Quote # ${input.quoteNumber}`, RIGHT_EDGE, y + 46, {
+      font: "mono",
+      size: 9,
+      align: "right",
+    });
+  }
+  y += 66;
+
+  // Customer, vehicle and date
+  const vehicle = formatVehicle(customerInfo);
+  rule(1.5, 0);
+  const columnWidth = (RIGHT_EDGE - MARGIN) / 3;
+  [
+    ["Customer:", customerInfo.name || "N/A"],
+    ["Vehicle:", vehicle || "N/A"],
+    ["Date:", formatDate(input.date)],
+  ].forEach(([label, value], index) => {
+    const x = MARGIN + columnWidth * index;
+    pdf.text(label as string, x, y + 18, { font: "bold", size: 9.5 });
+    pdf.text(value as string, x + measureText(`${label} `, "bold", 9.5), y + 18, { size: 9.5 });
+  });
+  y += 28;
+  // VIN, odometer, condition, stock and deal numbers, flowing onto a second line if needed
+  y += 4;
+  let detailX = MARGIN;
+  vehicleDetailRows(customerInfo).forEach(({ label, value }) => {
+    const labelWidth = measureText(`${label}: `, "bold", 8.5);
+    const valueFont = label === "VIN" ? "mono" : "regular";
+    const width = labelWidth + measureText(value, valueFont, 8.5);
+    if (detailX > MARGIN && detailX + width > RIGHT_EDGE) {
+      detailX = MARGIN;
+      y += 12;
+    }
+    pdf.text(`${label}:`, detailX, y, { font: "bold", size: 8.5 });
+    pdf.text(value, detailX + labelWidth, y, { font: valueFont, size: 8.5 });
+    detailX += width + 16;
+  });
+  y += 10;
+  rule(1.5, 0);
+  y += 20;
+
+  // Item lines
+  pdf.text("ITEM DESCRIPTION", MARGIN, y, { font: "bold", size: 9 });
+  pdf.text("RETAIL PRICE", priceRight, y, { font: "bold", size: 9, align: "right" });
+  if (isManagerView) {
+    pdf.text("INTERNAL COST", RIGHT_EDGE, y, { font: "bold", size: 9, align: "right" });
+  }
+  y += 6;
+  rule(1.5, 0);
+
+  if (selectedPackage) {
+    itemRow(`${selectedPackage.name} Package`, {
+      price: selectedPackage.price,
+      base: input.basePackagePricesById?.[selectedPackage.id],
+      cost: selectedPackage.cost,
+    });
+    promotionRows(selectedPackage.id);
+  }
+  const pick2 = input.pick2 && input.pick2.items.length > 0 ? input.pick2 : null;
+  if (pick2) {
+    itemRow("You Pick 2 Bundle", { price: pick2.price, cost: pick2.cost });
+    pick2.items.forEach((item) => itemRow(item.name, { indent: true }));
+  }
+  customPackageItems.forEach((item) => {
+    itemRow(item.name, {
+      price: item.price,
+      base: input.basePackagePricesById?.[item.id] ?? input.baseAddonPricesById?.[item.id],
+      cost: item.cost,
+    });
+    promotionRows(item.id);
+  });
+
+  // Totals
+  y += 6;
+  totalRow("Total Retail Price:", totalPrice, { bold: true, base: baseTotalPrice });
+  const hasTaxOrFees =
+    !!taxBreakdown && (taxBreakdown.taxes.length > 0 || taxBreakdown.fees.length > 0);
+  if (taxBreakdown && hasTaxOrFees) {
+    if (taxBreakdown.taxes.length > 0) {
+      totalRow("Taxable Subtotal:", taxBreakdown.taxableSubtotal);
+    }
+    taxBreakdown.taxes.forEach((tax) =>
+      totalRow(`${tax.label} (${formatTaxRate(tax.rate)}):`, tax.amount)
+    );
+    taxBreakdown.fees.forEach((fee) => totalRow(`${fee.label}:`, fee.amount));
+    totalRow("Grand Total:", taxBreakdown.grandTotal, { bold: true, ruleAbove: true });
+  }
+  if (isManagerView) {
+    const feeCost = taxBreakdown ? taxBreakdown.fees.reduce((sum, fee) => sum + fee.cost, 0) : 0;
+    const grossProfit = totalPrice - totalCost + (taxBreakdown ? feeGrossProfit(taxBreakdown) : 0);
+    totalRow("Total Internal Cost:", totalCost + feeCost, { bold: true, right: RIGHT_EDGE });
+    totalRow("Gross Profit:", grossProfit, { bold: true, right: RIGHT_EDGE, ruleAbove: true });
+
+    if (priceApproval) {
+      y += 10;
+      wrapText(
+        `Price override: ${describePriceApproval(priceApproval)}`,
+        RIGHT_EDGE - MARGIN,
+        "regular",
+        9
+      ).forEach((line) => {
+        ensureSpace(14);
+        pdf.text(line, MARGIN, y + 10, { size: 9 });
+        y += 14;
+      });
+    }
+  }
+
+  // Payment options
+  if (termComparison && termComparison.columns.length > 1) {
+    sectionHeading("Payment Options");
+    const termWidth = 70;
+    const paymentWidth = (RIGHT_EDGE - MARGIN - termWidth) / termComparison.columns.length;
+    ensureSpace(ROW_HEIGHT);
+    pdf.text("Term", MARGIN, y + 14, { font: "bold", size: 9 });
+    termComparison.columns.forEach((column, index) => {
+      pdf.text(column.name, MARGIN + termWidth + paymentWidth * (index + 1), y + 14, {
+        font: "bold",
+        size: 9,
+        align: "right",
+      });
+    });
+    y += ROW_HEIGHT;
+    rule();
+    termComparison.rows.forEach((row) => {
+      ensureSpace(ROW_HEIGHT);
+      pdf.text(`${row.termMonths} months`, MARGIN, y + 14, { size: 9 });
+      row.payments.forEach((payment, index) => {
+        pdf.text(
+          formatMonthlyPayment(payment),
+          MARGIN + termWidth + paymentWidth * (index + 1),
+          y + 14,
+          {
+            font: "mono",
+            size: 9,
+            align: "right",
+          }
+        );
+      });
+      y += ROW_HEIGHT;
+      rule(0.5, 0.88);
+    });
+    wrapText(
+      `Estimated payments at ${termComparison.apr}% APR on ${formatCurrency(
+        termComparison.amountFinanced
+      )} financed plus the products shown, before taxes and fees. Not a commitment to lend.`,
+      RIGHT_EDGE - MARGIN,
+      "regular",
+      8
+    ).forEach((line) => {
+      ensureSpace(12);
+      pdf.text(line, MARGIN, y + 12, { size: 8, gray: 0.35 });
+      y += 12;
+    });
+  }
+
+  // Declined products, each with an initials line
+  if (declinedProducts.length > 0) {
+    sectionHeading("Declined Coverage");
+    wrapText(
+      "I was offered the following products and chose not to purchase them. My initials confirm each one was declined.",
+      RIGHT_EDGE - MARGIN,
+      "regular",
+      9
+    ).forEach((line) => {
+      ensureSpace(13);
+      pdf.text(line, MARGIN, y + 13, { size: 9, gray: 0.25 });
+      y += 13;
+    });
+    declinedProducts.forEach((product) => {
+      ensureSpace(30);
+      const baseline = y + 20;
+      pdf.text(declinedProductLabel(product), MARGIN, baseline, { size: 10 });
+      pdf.text(formatCurrency(product.price), MARGIN + 300, baseline, {
+        font: "mono",
+        size: 9,
+        align: "right",
+        gray: 0.35,
+      });
+      const initials = signatures.declined?.find((declined) => declined.productId === product.id);
+      const initialsImage = initials ? images.declined?.[product.id] : undefined;
+      if (initialsImage) {
+        fitImage(initialsImage, {
+          x: RIGHT_EDGE - 110,
+          bottom: baseline + 1,
+          width: 110,
+          height: 20,
+          center: true,
+        });
+      }
+      pdf.line(RIGHT_EDGE - 110, baseline + 2, RIGHT_EDGE, baseline + 2, { width: 0.75 });
+      pdf.text(initials ? formatSignedAt(initials) : "Initials", RIGHT_EDGE - 55, baseline + 11, {
+        size: 6.5,
+        align: "center",
+        gray: 0.35,
+      });
+      y += 30;
+    });
+  }
+
+  // Acknowledgement and signatures
+  ensureSpace(150);
+  y += 36;
+  if (!isManagerView) {
+    wrapText(
+      "I acknowledge that I have reviewed and agree to the purchase of the items listed above. All coverages, terms, and conditions are detailed in the respective product warranty documents provided to me.",
+      RIGHT_EDGE - MARGIN,
+      "regular",
+      9.5
+    ).forEach((line) => {
+      pdf.text(line, MARGIN, y + 12, { size: 9.5, gray: 0.3 });
+      y += 13;
+    });
+  }
+  y += 48;
+  const signatureWidth = (RIGHT_EDGE - MARGIN - 36) / 2;
+  const slots: Array<[string, SignatureCapture | undefined, PdfImage | undefined]> = isManagerView
+    ? [
+        ["Manager Signature", signatures.manager, images.manager],
+        ["Date Processed", undefined, undefined],
+      ]
+    : [
+        ["Customer Signature", signatures.customer, images.customer],
+        ["Manager Signature", signatures.manager, images.manager],
+      ];
+  slots.forEach(([label, capture, image], index) => {
+    const x = MARGIN + (signatureWidth + 36) * index;
+    // A captured signature sits on its line, as in PrintView
+    if (capture && image) {
+      fitImage(image, { x, bottom: y - 1, width: signatureWidth, height: 40 });
+    }
+    pdf.line(x, y, x + signatureWidth, y, { width: 1.5 });
+    pdf.text(label, x, y + 14, { font: "bold", size: 10, gray: 0.3 });
+    if (capture) pdf.text(formatSignedAt(capture), x, y + 26, { size: 8, gray: 0.35 });
+  });
+
+  return pdf.build();
+}
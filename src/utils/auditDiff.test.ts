@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { applyPatch, diffDocuments } from "./auditDiff";
+
+describe("applyPatch", () => {
+  it("replaces written fields and removes undefined ones", () => {
+    expect(
+      applyPatch({ price: 900, warranty: "5 years" }, { price: 1100, warranty: undefined })
+    ).toEqual({
+      price: 1100,
+    });
+  });
+
+  it("treats a missing document as empty", () => {
+    expect(applyPatch(null, { name: "Tint" })).toEqual({ name: "Tint" });
+  });
+});
+
+describe("diffDocuments", () => {
+  it("reports changed, added and removed fields", () => {
+    expect(
+      diffDocuments(
+        { name: "Tint", price: 400, warranty: "Lifetime" },
+        { name: "Tint", price: 450, isNew: true }
+      )
+    ).toEqual({
+      isNew: { before: null, after: true },
+      price: { before: 400, after: 450 },
+      warranty: { before: "Lifetime", after: null },
+    });
+  });
+
+  it("records every field of a created document", () => {
+    expect(diffDocuments(null, { name: "Tint", price: 400 })).toEqual({
+      name: { before: null, after: "Tint" },
+      price: { before: null, after: 400 },
+    });
+  });
+
+  it("ignores object key order but not array order", () => {
+    expect(
+      diffDocuments(
+        { pair: { a: 1, b: 2 }, list: ["x", "y"] },
+        { pair: { b: 2, a: 1 }, list: ["x", "y"] }
+      )
+    ).toEqual({});
+    expect(diffDocuments({ list: ["x", "y"] }, { list: ["y", "x"] })).toEqual({
+      list: { before: ["x", "y"], after: ["y", "x"] },
+    });
+  });
+});
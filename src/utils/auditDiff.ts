@@ -0,0 +1,58 @@
+import type { AuditFieldChange } from "../types";
+
+type DocFields = Record<string, unknown>;
+
+// Serializes with sorted object keys so field order never shows up as a change
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as DocFields)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Applies a partial write to a document the way Firestore would: undefined values
+ * remove the field, everything else replaces it.
+ * @param before - The document before the write, or null if it did not exist
+ * @param patch - The fields being written
+ */
+export function applyPatch(before: DocFields | null, patch: DocFields): DocFields {
+  const after: DocFields = { ...(before ?? {}) };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      delete after[key];
+    } else {
+      after[key] = value;
+    }
+  }
+  return after;
+}
+
+/**
+ * Lists every field whose value differs between two versions of a document.
+ * Missing fields are recorded as null, since Firestore rejects undefined.
+ * @returns Changed fields keyed by field name; empty when nothing changed
+ */
+export function diffDocuments(
+  before: DocFields | null,
+  after: DocFields
+): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+
+  for (const key of [...keys].sort()) {
+    const previous = before?.[key] ?? null;
+    const next = after[key] ?? null;
+    if (stableStringify(previous) !== stableStringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { diffCatalog } from "./catalogDiff";
+import type { CatalogContents } from "../types";
+
+const catalog = (overrides: Partial<CatalogContents> = {}): CatalogContents => ({
+  packages: { gold: { name: "Gold", price: 2500, cost: 900 } },
+  features: {
+    tint: { name: "Window Tint", price: 400, column: 1, position: 0 },
+    coating: { name: "Ceramic Coating", price: 900, column: 2, position: 0 },
+  },
+  ala_carte_options: {},
+  pick2: { enabled: true, price: 1200 },
+  ...overrides,
+});
+
+describe("diffCatalog", () => {
+  it("returns nothing when the snapshot matches live", () => {
+    expect(diffCatalog(catalog(), catalog())).toEqual([]);
+  });
+
+  it("describes each document as the write a restore would make", () => {
+    const snapshot = catalog();
+    const live = catalog({
+      features: {
+        tint: { name: "Window Tint", price: 450, column: 3, position: 0 },
+        wheel: { name: "Wheel Protection", price: 600 },
+      },
+    });
+
+    const changes = diffCatalog(snapshot, live);
+
+    expect(changes.map((c) => [c.collection, c.docId, c.action])).toEqual([
+      ["features", "coating", "create"],
+      ["features", "tint", "update"],
+      ["features", "wheel", "delete"],
+    ]);
+    expect(changes[1]).toMatchObject({
+      name: "Window Tint",
+      changes: {
+        column: { before: 3, after: 1 },
+        price: { before: 450, after: 400 },
+      },
+    });
+    expect(changes[2]).toMatchObject({ name: "Wheel Protection", snapshot: null });
+  });
+
+  it("reverts the Pick 2 config", () => {
+    const changes = diffCatalog(catalog(), catalog({ pick2: { enabled: false, price: 1200 } }));
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        collection: "app_config",
+        docId: "pick2",
+        action: "update",
+        changes: { enabled: { before: false, after: true } },
+      }),
+    ]);
+  });
+
+  it("leaves the live Pick 2 config alone when the snapshot has none", () => {
+    expect(diffCatalog(catalog({ pick2: null }), catalog())).toEqual([]);
+  });
+});
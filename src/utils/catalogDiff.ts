@@ -0,0 +1,73 @@
+import type { AuditAction, AuditFieldChange, CatalogContents, CatalogDocuments } from "../types";
+import { diffDocuments } from "./auditDiff";
+
+export type CatalogCollection = "packages" | "features" | "ala_carte_options" | "app_config";
+
+// One document that differs between a snapshot and the live catalog, described as the
+// write a restore would make.
+export interface CatalogDocChange {
+  collection: CatalogCollection;
+  docId: string;
+  name?: string;
+  action: AuditAction; // create: missing from live, delete: not in the snapshot
+  live: Record<string, unknown> | null;
+  snapshot: Record<string, unknown> | null;
+  changes: Record<string, AuditFieldChange>; // before = live, after = snapshot
+}
+
+const DOC_COLLECTIONS = ["packages", "features", "ala_carte_options"] as const;
+
+const docName = (...docs: Array<Record<string, unknown> | null>) => {
+  for (const fields of docs) {
+    const name = fields?.["name"];
+    if (typeof name === "string" && name) return name;
+  }
+  return undefined;
+};
+
+function diffDoc(
+  collection: CatalogCollection,
+  docId: string,
+  live: Record<string, unknown> | null,
+  snapshot: Record<string, unknown> | null
+): CatalogDocChange | null {
+  const changes = diffDocuments(live, snapshot ?? {});
+  if (Object.keys(changes).length === 0) return null;
+
+  const name = docName(snapshot, live);
+  return {
+    collection,
+    docId,
+    ...(name ? { name } : {}),
+    action: !live ? "create" : snapshot ? "update" : "delete",
+    live,
+    snapshot,
+    changes,
+  };
+}
+
+function diffCollection(
+  collection: CatalogCollection,
+  snapshot: CatalogDocuments,
+  live: CatalogDocuments
+): CatalogDocChange[] {
+  const ids = [...new Set([...Object.keys(snapshot), ...Object.keys(live)])].sort();
+  return ids
+    .map((id) => diffDoc(collection, id, live[id] ?? null, snapshot[id] ?? null))
+    .filter((change): change is CatalogDocChange => change !== null);
+}
+
+/**
+ * Compares a snapshot with the live catalog.
+ * @returns Every document a restore would create, overwrite or delete; empty when they match
+ */
+export function diffCatalog(snapshot: CatalogContents, live: CatalogContents): CatalogDocChange[] {
+  const changes = DOC_COLLECTIONS.flatMap((collection) =>
+    diffCollection(collection, snapshot[collection], live[collection])
+  );
+  // A snapshot taken before Pick2 was configured leaves the live config alone
+  const pick2Change = snapshot.pick2
+    ? diffDoc("app_config", "pick2", live.pick2, snapshot.pick2)
+    : null;
+  return pick2Change ? [...changes, pick2Change] : changes;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { buildSummaryEmail, buildSummarySms } from "./customerSummary";
+import type { CustomerSummaryInput } from "./customerSummary";
+
+const baseInput: CustomerSummaryInput = {
+  customerName: "Jane Doe",
+  vehicle: "2025 Lexus RX 350",
+  selectedPackage: { name: "Platinum", price: 2499 },
+  addons: [{ name: "Tint", price: 399 }],
+  pick2: { price: 599, items: [{ name: "Key Replacement" }, { name: "Windshield" }] },
+  totalPrice: 3497,
+};
+
+describe("buildSummaryEmail", () => {
+  it("lists each selection with its retail price and the total", () => {
+    const email = buildSummaryEmail(baseInput);
+
+    expect(email.subject).toContain("2025 Lexus RX 350");
+    expect(email.text).toContain("Hi Jane Doe,");
+    expect(email.text).toContain("- Platinum Package: $2,499.00");
+    expect(email.text).toContain("- You Pick 2 Bundle (Key Replacement, Windshield): $599.00");
+    expect(email.text).toContain("- Tint: $399.00");
+    expect(email.text).toContain("Total: $3,497.00");
+    expect(email.html).toContain("PRIORITY");
+  });
+
+  it("shows the grand total and quote number when the deal has them", () => {
+    const email = buildSummaryEmail({ ...baseInput, grandTotal: 3800.5, quoteNumber: "Q-1001" });
+
+    expect(email.text).toContain("Total with tax and fees: $3,800.50");
+    expect(email.text).toContain("Reference: Quote # Q-1001");
+  });
+
+  it("escapes customer-entered text in the HTML body", () => {
+    const email = buildSummaryEmail({ ...baseInput, customerName: "<b>Jane</b>" });
+
+    expect(email.html).toContain("Hi &lt;b&gt;Jane&lt;/b&gt;,");
+    expect(email.html).not.toContain("<b>Jane</b>");
+  });
+});
+
+describe("buildSummarySms", () => {
+  it("fits the selections and total into one message", () => {
+    const sms = buildSummarySms({ ...baseInput, quoteNumber: "Q-1001" });
+
+    expect(sms).toContain("(Quote Q-1001)");
+    expect(sms).toContain("Platinum Package $2,499.00; You Pick 2 Bundle");
+    expect(sms).toContain("Total $3,497.00.");
+  });
+
+  it("cuts long lists short and counts what was left out", () => {
+    const addons = Array.from({ length: 20 }, (_, index) => ({
+      name: `Protection Product ${index + 1}`,
+      price: 100,
+    }));
+    const sms = buildSummarySms({ ...baseInput, addons });
+
+    expect(sms.length).toBeLessThanOrEqual(320);
+    expect(sms).toMatch(/\+\d+ more/);
+    expect(sms).toContain("Total $3,497.00.");
+  });
+});
@@ -0,0 +1,163 @@
+// The summary a customer is sent to take home after the presentation. It carries only
+// what the customer sees on the menu: names and retail prices, never dealer cost.
+import type { DealershipBranding } from "../types";
+import { DEFAULT_BRANDING } from "../constants";
+
+export interface CustomerSummaryLine {
+  name: string;
+  price: number;
+}
+
+export interface CustomerSummaryInput {
+  customerName: string;
+  vehicle: string; // e.g. "2025 Lexus RX 350"
+  selectedPackage: CustomerSummaryLine | null;
+  addons: CustomerSummaryLine[];
+  pick2: { price: number; items: Array<{ name: string }> } | null;
+  totalPrice: number;
+  // Set when the agreement has tax or fees; shown as the amount due
+  grandTotal?: number;
+  quoteNumber?: string;
+  branding?: DealershipBranding; // The selling store. Unset: the default branding
+}
+
+export interface CustomerSummaryEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Text messages past this length split into several segments on the customer's phone.
+const SMS_MAX_LENGTH = 320;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+function summaryLines(input: CustomerSummaryInput): CustomerSummaryLine[] {
+  return [
+    ...(input.selectedPackage
+      ? [{ name: `${input.selectedPackage.name} Package`, price: input.selectedPackage.price }]
+      : []),
+    ...(input.pick2 && input.pick2.items.length > 0
+      ? [
+          {
+            name: `You Pick 2 Bundle (${input.pick2.items.map((item) => item.name).join(", ")})`,
+            price: input.pick2.price,
+          },
+        ]
+      : []),
+    ...input.addons,
+  ];
+}
+
+const greetingFor = (input: CustomerSummaryInput) =>
+  input.customerName.trim() ? `Hi ${input.customerName.trim()},` : "Hello,";
+
+/**
+ * Builds the branded email summary of the customer's selections.
+ */
+export function buildSummaryEmail(input: CustomerSummaryInput): CustomerSummaryEmail {
+  const lines = summaryLines(input);
+  const branding = input.branding ?? DEFAULT_BRANDING;
+  const storeName = branding.name;
+  const accentColor = branding.accentColor ?? "#6b7280";
+  const vehicleSuffix = input.vehicle ? ` for your ${input.vehicle}` : "";
+  const subject = `Your vehicle protection summary${vehicleSuffix} | ${storeName}`;
+  const totalLabel = typeof input.grandTotal === "number" ? "Total with tax and fees" : "Total";
+  const total = input.grandTotal ?? input.totalPrice;
+  const reference = input.quoteNumber ? `Reference: Quote # ${input.quoteNumber}` : "";
+
+  const text = [
+    greetingFor(input),
+    "",
+    `Thank you for visiting ${storeName}. Here is the protection you reviewed${vehicleSuffix}:`,
+    "",
+    ...(lines.length > 0
+      ? lines.map((line) => `- ${line.name}: ${formatCurrency(line.price)}`)
+      : ["- No products selected yet"]),
+    "",
+    `${totalLabel}: ${formatCurrency(total)}`,
+    ...(reference ? ["", reference] : []),
+    "",
+    "Take your time. Reply to this message or call us with any questions.",
+    "",
+    storeName,
+  ].join("\n");
+
+  const rows = lines
+    .map(
+      (line) =>
+        `<tr><td style="padding:8px 0;border-bottom:1px solid #e5e7eb">${escapeHtml(
+          line.name
+        )}</td><td style="padding:8px 0;border-bottom:1px solid #e5e7eb;text-align:right">${formatCurrency(
+          line.price
+        )}</td></tr>`
+    )
+    .join("");
+  const html = [
+    `<div style="font-family:Helvetica,Arial,sans-serif;color:#111827;max-width:560px">`,
+    `<p style="font-size:22px;font-weight:bold;letter-spacing:2px;margin:0${
+      branding.primaryColor ? `;color:${branding.primaryColor}` : ""
+    }">${escapeHtml(branding.wordmark)}${
+      branding.wordmarkAccent
+        ? ` <span style="font-weight:normal;color:${accentColor}">${escapeHtml(
+            branding.wordmarkAccent
+          )}</span>`
+        : ""
+    }</p>`,
+    `<p style="font-size:11px;letter-spacing:2px;color:${accentColor};margin:0 0 24px">${escapeHtml(
+      branding.location
+    )}</p>`,
+    `<p>${escapeHtml(greetingFor(input))}</p>`,
+    `<p>Thank you for visiting ${escapeHtml(storeName)}. Here is the protection you reviewed${escapeHtml(
+      vehicleSuffix
+    )}:</p>`,
+    `<table style="width:100%;border-collapse:collapse">${
+      rows || `<tr><td style="padding:8px 0">No products selected yet</td><td></td></tr>`
+    }<tr><td style="padding:12px 0;font-weight:bold">${totalLabel}</td><td style="padding:12px 0;font-weight:bold;text-align:right">${formatCurrency(
+      total
+    )}</td></tr></table>`,
+    reference ? `<p style="color:#6b7280;font-size:12px">${escapeHtml(reference)}</p>` : "",
+    `<p>Take your time. Reply to this message or call us with any questions.</p>`,
+    `<p style="font-weight:bold">${escapeHtml(storeName)}</p>`,
+    `</div>`,
+  ].join("");
+
+  return { subject, text, html };
+}
+
+/**
+ * Builds the text-message summary: the selections in one line each, and the total.
+ * Long lists are cut short so the message stays within a couple of segments.
+ */
+export function buildSummarySms(input: CustomerSummaryInput): string {
+  const total = formatCurrency(input.grandTotal ?? input.totalPrice);
+  const storeName = (input.branding ?? DEFAULT_BRANDING).name;
+  const header = `${storeName}: your protection summary${
+    input.quoteNumber ? ` (Quote ${input.quoteNumber})` : ""
+  }`;
+  const footer = `Total ${total}. Reply with any questions.`;
+  const items = summaryLines(input).map((line) => `${line.name} ${formatCurrency(line.price)}`);
+
+  let body = "";
+  for (const [index, item] of items.entries()) {
+    const remaining = items.length - index - 1;
+    const more = remaining > 0 ? `; +${remaining} more` : "";
+    const candidate = body ? `${body}; ${item}` : item;
+    if (`${header}\n${candidate}${more}\n${footer}`.length > SMS_MAX_LENGTH) {
+      body = body ? `${body}; +${items.length - index} more` : `+${items.length} items`;
+      break;
+    }
+    body = candidate;
+  }
+
+  return [header, body, footer].filter(Boolean).join("\n");
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildDeclinedProducts, declinedProductLabel } from "./declinations";
+
+describe("buildDeclinedProducts", () => {
+  const packages = [
+    { id: "elite", name: "Elite", price: 4999 },
+    { id: "platinum", name: "Platinum", price: 3499 },
+    { id: "gold", name: "Gold", price: 1999 },
+  ];
+  const alaCarteOptions = [
+    { id: "tint", name: "Window Tint", price: 399 },
+    { id: "wheels", name: "Wheel Protection", price: 599 },
+    { id: "key", name: "Key Replacement", price: 299 },
+  ];
+
+  it("declines every package and option shown but not bought", () => {
+    const declined = buildDeclinedProducts({
+      packages,
+      alaCarteOptions,
+      selectedPackageId: "platinum",
+      selectedItemIds: ["tint", "key"],
+    });
+
+    expect(declined).toEqual([
+      { kind: "package", id: "elite", name: "Elite", price: 4999 },
+      { kind: "package", id: "gold", name: "Gold", price: 1999 },
+      { kind: "alacarte", id: "wheels", name: "Wheel Protection", price: 599 },
+    ]);
+  });
+
+  it("leaves out options the vehicle isn't eligible for", () => {
+    const declined = buildDeclinedProducts({
+      packages: [],
+      alaCarteOptions: [
+        ...alaCarteOptions,
+        { id: "cpo-care", name: "CPO Care", price: 899, eligibility: { conditions: ["cpo"] } },
+      ],
+      selectedPackageId: null,
+      selectedItemIds: [],
+      vehicle: { year: "2025", model: "RX 350", condition: "new" },
+    });
+
+    expect(declined.map((product) => product.id)).toEqual(["tint", "wheels", "key"]);
+  });
+
+  it("declines every package when none was chosen", () => {
+    const declined = buildDeclinedProducts({
+      packages,
+      alaCarteOptions: [],
+      selectedPackageId: null,
+      selectedItemIds: [],
+    });
+
+    expect(declined.map((product) => product.id)).toEqual(["elite", "platinum", "gold"]);
+  });
+});
+
+describe("declinedProductLabel", () => {
+  it("names packages as packages", () => {
+    expect(declinedProductLabel({ kind: "package", id: "gold", name: "Gold", price: 1 })).toBe(
+      "Gold Package"
+    );
+    expect(
+      declinedProductLabel({ kind: "alacarte", id: "tint", name: "Window Tint", price: 1 })
+    ).toBe("Window Tint");
+  });
+});
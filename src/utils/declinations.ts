@@ -0,0 +1,43 @@
+import type { AlaCarteOption, DeclinedProduct, PackageTier } from "../types";
+import { ineligibleReasonsById, type EligibilityVehicle } from "./eligibility";
+
+export interface DeclinationInput {
+  // Every package tier shown on the menu
+  packages: Array<Pick<PackageTier, "id" | "name" | "price">>;
+  // Every curated a-la-carte option on the menu, before hiding ones the vehicle can't have
+  alaCarteOptions: Array<Pick<AlaCarteOption, "id" | "name" | "price" | "eligibility">>;
+  vehicle?: EligibilityVehicle;
+  selectedPackageId: string | null;
+  // A-la-carte items in the deal, including Pick-2 picks
+  selectedItemIds: string[];
+}
+
+/**
+ * Lists the products the customer was shown and did not buy: every package tier but
+ * the one selected, then every curated option not in the deal. Options the vehicle isn't
+ * eligible for were never offered, so they aren't declined.
+ */
+export function buildDeclinedProducts(input: DeclinationInput): DeclinedProduct[] {
+  const selectedItemIds = new Set(input.selectedItemIds);
+  const ineligibleReasons = ineligibleReasonsById(input.alaCarteOptions, input.vehicle);
+  return [
+    ...input.packages
+      .filter((pkg) => pkg.id !== input.selectedPackageId)
+      .map((pkg) => ({ kind: "package" as const, id: pkg.id, name: pkg.name, price: pkg.price })),
+    ...input.alaCarteOptions
+      .filter((option) => !selectedItemIds.has(option.id) && !ineligibleReasons[option.id])
+      .map((option) => ({
+        kind: "alacarte" as const,
+        id: option.id,
+        name: option.name,
+        price: option.price,
+      })),
+  ];
+}
+
+/**
+ * How a declined product reads on the waiver, e.g. "Platinum Package".
+ */
+export function declinedProductLabel(product: DeclinedProduct): string {
+  return product.kind === "package" ? `${product.name} Package` : product.name;
+}
@@ -0,0 +1,360 @@
+import type { PresentationDeck, PresentationSlide } from "../types";
+
+/**
+ * The value presentation a store shows until it saves its own deck to
+ * app_config/presentation.
+ */
+export const DEFAULT_PRESENTATION_SLIDES: PresentationSlide[] = [
+  {
+    id: "welcome",
+    layout: "title",
+    kicker: "{location} Resilience",
+    title: "Protecting\nYour Vehicle",
+    body: "A value overview for the Lexus Ownership Experience...",
+  },
+  {
+    id: "factory-warranty",
+    layout: "image-right",
+    kicker: "Factory Coverage",
+    badge: "World-class mechanical assurance",
+    title: "The Lexus Manufacturer Warranties",
+    heading: "Engineering Reliability",
+    headingIcon: "Settings",
+    body: "Your Lexus is built to the highest standards of automotive precision. The factory coverage is designed to protect your investment against manufacturing defects.",
+    bullets: [
+      "Basic Warranty: {basicWarranty} covering most non-wear vehicle components.",
+      "Powertrain Coverage: {powertrainWarranty} for Engine, Transmission, and Drive systems.",
+      "Hybrid/EV Resilience: 10 Years / 150,000 Miles on high-voltage battery components.",
+      "Corrosion Perforation: 72 Months / Unlimited Miles for rust-through on original body panels.",
+    ],
+    callouts: [
+      {
+        title: "Performance Ops",
+        text: "Guaranteed mechanical operation across all drive systems.",
+        icon: "Gauge",
+      },
+      {
+        title: "Technical Health",
+        text: "Lexus Master Technicians handle all warrantied repairs.",
+        icon: "Activity",
+      },
+    ],
+    image: "/MENU1.png",
+    imageAlt: "Lexus factory warranty coverage",
+    footer: {
+      quote:
+        "Your factory warranty provides the essential mechanical security of a Lexus, ensuring that your vehicle remains technically flawless through its initial years of service.",
+      tag: "Comprehensive factory backing",
+    },
+  },
+  {
+    id: "priorities-for-life",
+    layout: "image-right",
+    kicker: "The Priority Advantage",
+    badge: "Exclusive lifetime commitment",
+    title: "Priorities For Life",
+    heading: "Ownership Vitality",
+    headingIcon: "HeartPulse",
+    body: "We believe the Lexus experience should be seamless for as long as you own your vehicle. Priorities For Life ensures your mechanical and safety needs are covered permanently.",
+    bullets: [
+      "Engine For Life: Guaranteed lifetime coverage on all internal lubricated engine components.",
+      "Oil & Filter Changes: Complimentary maintenance for the entire duration of your ownership.",
+      "VA State Inspections: Annual safety inspections provided on-site at no additional cost.",
+      "Towing For Life: Within a 50-mile radius of any Priority dealership for total peace of mind.",
+    ],
+    callouts: [
+      {
+        title: "Maintenance Ops",
+        text: "Zero-cost routine service and filter replacements.",
+        icon: "Wrench",
+      },
+      {
+        title: "Regional Safety",
+        text: "Annual Virginia compliance and safety certification.",
+        icon: "MapPin",
+      },
+    ],
+    image: "/MENU2.png",
+    imageAlt: "Priorities For Life maintenance",
+    footer: {
+      quote:
+        "Now that your mechanical maintenance is secured through the Priority Advantage, let's look at protecting your vehicle's aesthetic and structural integrity.",
+      tag: "Lifetime maintenance value",
+    },
+  },
+  {
+    id: "warranty-gap",
+    layout: "image-right",
+    kicker: "Asset Protection",
+    badge: "Bridging the warranty deficit",
+    title: "Appearance Damage Isn't Mechanical",
+    heading: "The Coverage Reality",
+    headingIcon: "TrendingDown",
+    body: "Lexus warranties protect against manufacturing defects-but most real-world ownership pain comes from environmental exposure, road hazards, and interior wear.",
+    bullets: [
+      "Environmental Etching: Bird droppings, tree sap, and industrial fallout can permanently damage clear coat.",
+      "Rock Chips: Highway debris causes impact points that lead to paint failure and structural degradation.",
+      "Interior Wear: Accidental stains, tears, and burns directly reduce your vehicle's trade-in equity.",
+    ],
+    callouts: [
+      {
+        title: "Warranty Exclusion",
+        text: "Hazard damage is typically excluded from factory mechanical coverage.",
+        icon: "ShieldX",
+      },
+      {
+        title: "Equity Shield",
+        text: "Preserving the physical asset ensures maximum future resale value.",
+        icon: "CircleDollarSign",
+      },
+    ],
+    image: "/menu11.png",
+    imageAlt: "Bridging the Coverage Gap",
+    footer: {
+      label: "Coverage Reality",
+      quote:
+        "These are typically considered appearance or environmental issues-not mechanical defects. True peace of mind requires securing the gap between the two.",
+      tag: "Closing the coverage gap",
+      tone: "warning",
+    },
+  },
+  {
+    id: "coastal-science",
+    layout: "image-left",
+    kicker: "Coastal Science",
+    badge: "Electrochemical degradation",
+    title: 'The "Coastal Corrosion" Reality',
+    heading: "Electrochemical Facts",
+    headingIcon: "Atom",
+    bullets: [
+      "Salt Air: Particles suspended for 50+ miles inland, seeking paint pores.",
+      "Magnesium Chloride: Road brines are 10x more corrosive than traditional salt.",
+      "Humid Catalyst: Coastal humidity accelerates oxidation speed on raw metal.",
+      "Industrial Fallout: Port soot and heavy minerals cause aggressive clarity etching.",
+      'Well Water: Regional mineral content causes permanent mineral "water spots."',
+    ],
+    image: "/MENU4.png",
+    imageAlt: "Coastal Environmental Threats",
+    footer: {
+      label: "Factory Warranty Gap",
+      quote:
+        "Standard warranties typically do not cover environmental etching, salt-air corrosion, or highway rock chips. These are hazards of the environment-not manufacturing defects.",
+      tag: "Defining the deficit",
+      tone: "warning",
+    },
+  },
+  {
+    id: "rustguard",
+    audience: { dealTypes: ["purchase"] },
+    layout: "image-right",
+    kicker: "Structural Integrity Shield",
+    badge: "Corrosion neutralization tech",
+    title: "RustGuard Pro: Foundation Defense",
+    heading: "Molecular Barrier",
+    headingIcon: "Microscope",
+    body: "In our coastal region, the most dangerous damage is the kind you can't see. RustGuard Pro creates an active chemical barrier that neutralizes oxidation on contact.",
+    bullets: [
+      "Salt Air Neutralization: Active inhibitors stop salt particles from bonding to raw chassis steel.",
+      "Magnesium Chloride Defense: High-density shield against aggressive winter road brines.",
+      'Structural Security: Prevents the "rust-freezing" of critical suspension and braking components.',
+      "Hidden Cavity Protection: Crevice-penetrating formula reaches inner panels where moisture collects.",
+    ],
+    callouts: [
+      {
+        title: "Coastal Immunity",
+        text: "Engineered for Virginia Beach humidity catalysts.",
+        icon: "Anchor",
+      },
+      {
+        title: "Equity Insurance",
+        text: "A clean undercarriage protects trade-in value.",
+        icon: "ShieldAlert",
+      },
+    ],
+    image: "/MENU8.png",
+    imageAlt: "RustGuard Pro undercarriage protection",
+    footer: {
+      quote:
+        "By protecting the structural foundation of your Lexus, RustGuard ensures your vehicle remains safe, silent, and structurally sound for the life of your ownership.",
+      tag: "Lifetime structure warranty",
+    },
+  },
+  {
+    id: "toughguard",
+    layout: "image-right",
+    kicker: "Advanced Surface Science",
+    badge: "Nano-ceramic molecular barrier",
+    title: "ToughGuard: Foundation Protection",
+    heading: "Molecular Hardening",
+    headingIcon: "Layers",
+    body: "Modern clear coats are naturally porous. ToughGuard Premium creates a permanent chemical bond that seals those pores for good, creating a high-gloss shield that becomes an extension of your Lexus.",
+    bullets: [
+      "One-Time Application: Eliminates the need for annual waxing, buffing, or polishing.",
+      "Environmental Shield: Complete defense against bird droppings, tree sap, and industrial fallout.",
+      "Climate Barrier: Blocks UV rays, road salt, and acid rain from reaching the paint.",
+      'The Finish: Provides a deep, permanent "Liquid-Glass" showroom shine.',
+    ],
+    callouts: [
+      {
+        title: "Chemical Resistance",
+        text: "Industrial-grade resilience against airborne minerals and insects.",
+        icon: "FlaskConical",
+      },
+      {
+        title: "Self-Cleaning",
+        text: "Advanced surface tension allows contaminants to wash away with ease.",
+        icon: "Droplets",
+      },
+    ],
+    image: "/MENU5.png",
+    imageAlt: "ToughGuard Surface Protection",
+    footer: {
+      label: "The Appearance Solution",
+      quote:
+        "By sealing the paint pores and neutralizing environmental catalysts, ToughGuard ensures your Lexus remains aesthetically flawless for life.",
+      tag: "Lifetime aesthetic warranty",
+    },
+  },
+  {
+    id: "interiorguard",
+    layout: "image-right",
+    kicker: "Signature Interior Defense",
+    badge: "Nano-ceramic textile shield",
+    title: "InteriorGuard: Cabin Preservation",
+    heading: "Advanced Polymer Barrier",
+    headingIcon: "Sparkles",
+    body: "Luxury interiors require a sophisticated defense. InteriorGuard life-proofs your cabin by sealing fibers and surfaces against the moments that impact trade-in value.",
+    bullets: [
+      "Stain Hydrophobicity: Immediate repulsion of water and oil-based spills (coffee, soda, and food dye).",
+      "UV Inhibition: Prevents leather cracking and vinyl discoloration from intense coastal solar heat.",
+      "Antimicrobial Shield: Inhibits the growth of bacteria, mold, and mildew within deep seat fibers.",
+      "Material Conditioning: Maintains the soft, supple factory feel of NuLuxe and Semi-Aniline leathers.",
+    ],
+    callouts: [
+      {
+        title: "Spill Security",
+        text: "Guaranteed protection against 100+ daily accidental stains.",
+        icon: "Droplets",
+      },
+      {
+        title: "Resale Edge",
+        text: "A pristine, scent-free interior is the highest valued trade-in factor.",
+        icon: "UserCheck",
+      },
+    ],
+    image: "/MENU7.png",
+    imageAlt: "InteriorGuard cabin protection",
+    footer: {
+      quote:
+        "By sealing your vehicle's most intimate surfaces, InteriorGuard ensures your Lexus remains as inviting and vibrant as the day you first sat in the driver's seat.",
+      tag: "5-year interior guarantee",
+    },
+  },
+  {
+    id: "diamond-shield",
+    layout: "image-right",
+    kicker: "Structural Glass Defense",
+    badge: "Nano-molecular bonding",
+    title: "Diamond Shield: Windshield Protection",
+    heading: "Liquid-Glass Resilience",
+    body: "Diamond Shield uses an advanced polymer to seal microscopic pores, creating a smooth, high-tension surface that deflects impacts.",
+    bullets: [
+      "Impact Resistance: Reduces the likelihood of rock chips and spider-web cracks.",
+      'Pitting & Sand-Clouding: Defends against coastal "sand-blasting" at highway speeds.',
+      "Hydrophobic Clarity: Sheds water, snow, and ice for improved foul-weather visibility.",
+      "Optically Clear: Enhances night-driving clarity by reducing glare and refraction.",
+    ],
+    image: "/MENU10.png",
+    imageAlt: "Diamond Shield windshield protection",
+    footer: {
+      quote:
+        "Diamond Shield strengthens the structural integrity of your glass while providing a self-cleaning surface that preserves your visibility and your vehicle's clean history.",
+      tag: "Fully warrantied protection",
+    },
+  },
+  {
+    id: "suntek",
+    layout: "image-right",
+    kicker: "Advanced Ballistic Shield",
+    badge: "8-mil optical polyurethane",
+    title: "Highway Hazards: Suntek Film",
+    heading: "Kinetic Impact Defense",
+    body: "I-264 construction and coastal sand effectively 'sand-blast' your front-end at highway speeds. Suntek Ultra provides a sacrificial barrier that absorbs high-velocity impacts.",
+    bullets: [
+      "Rock Chip Immunity: 8-mil invisible physical barrier stops gravel and road debris from reaching the paint.",
+      "Self-Healing Technology: Specialized top-coat allows minor surface scratches to disappear with ambient solar heat.",
+      "Stain Resistance: Hydrophobic properties repel bird droppings, insects, and road grime to prevent etching.",
+      "Total Coverage: Precision-cut focus on high-impact areas: Hood, Bumpers, Mirrors, and Door Cups.",
+    ],
+    callouts: [
+      {
+        title: "Self-Healing",
+        text: "Swirl marks and light scratches vanish automatically in the sun.",
+        icon: "ThermometerSun",
+      },
+      {
+        title: "Value Shield",
+        text: "Preserves factory paint finish for maximum future trade-in equity.",
+        icon: "ShieldAlert",
+      },
+    ],
+    image: "/MENU6.png",
+    imageAlt: "Suntek paint protection film",
+    footer: {
+      quote:
+        "Suntek Ultra ensures your Lexus front-end remains in showroom condition, effectively neutralizing the abrasive reality of regional highway travel.",
+      tag: "10-year manufacturer warranty",
+    },
+  },
+  {
+    id: "evernew",
+    layout: "image-right",
+    kicker: "Premium Aesthetic Restoration",
+    badge: "High-line precision scanning",
+    title: "Evernew: Appearance Protection",
+    heading: "Digital Reconditioning",
+    body: "Evernew uses high-precision scanning to identify and neutralize surface imperfections before they compromise your vehicle's value.",
+    bullets: [
+      "Scratch, Chip & Dent Repair: Master-level reconditioning for everyday road-borne impacts.",
+      "Eliminate Insurance Claims: Avoid the deductibles and premium hikes of minor dollar repairs.",
+      "Shield Your CARFAX: Keep cosmetic reconditioning off permanent history reports.",
+      "We Come to You: Elite mobile service-professional repairs at your home or office.",
+    ],
+    callouts: [
+      {
+        title: "Total Mobility",
+        text: "Professional on-site service at your convenience.",
+        icon: "Truck",
+      },
+      {
+        title: "Equity Defense",
+        text: "Preserve resale status with cleaner history reports.",
+        icon: "FileWarning",
+      },
+    ],
+    image: "/MENU9.png",
+    imageAlt: "Evernew appearance protection",
+    footer: {
+      quote:
+        "Evernew helps keep your Lexus in a perpetual state of 'newness'-preserving factory paint integrity and peak trade-in equity for the long haul.",
+      tag: "Covered for 5 years",
+    },
+  },
+  {
+    id: "conclusion",
+    layout: "closing",
+    title: "Empowering Ownership",
+    body: "Based on your driving habits, we have organized our protection into three tailored tiers.",
+    callouts: [
+      {
+        title: "Elite",
+        text: "Total regional immunity & max trade-in equity.",
+        icon: "Crown",
+      },
+      { title: "Platinum", text: "Complete appearance shield defense.", icon: "Gem" },
+      { title: "Gold", text: "Essential Choice for Primary Needs.", icon: "ShieldAlert" },
+    ],
+  },
+];
+
+export const DEFAULT_PRESENTATION_DECK: PresentationDeck = { slides: DEFAULT_PRESENTATION_SLIDES };
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  isEffective,
+  isScheduledVersion,
+  listUpcomingChanges,
+  nextWindowBoundary,
+  resolveEffectiveDocs,
+  resolveVersion,
+} from "./effectiveDates";
+
+const JAN_1 = Date.UTC(2026, 0, 1);
+const FEB_1 = Date.UTC(2026, 1, 1);
+const MAR_1 = Date.UTC(2026, 2, 1);
+
+describe("isEffective", () => {
+  it("treats missing bounds as open-ended", () => {
+    expect(isEffective({}, JAN_1)).toBe(true);
+    expect(isEffective({ effectiveFrom: JAN_1 }, FEB_1)).toBe(true);
+    expect(isEffective({ effectiveUntil: MAR_1 }, FEB_1)).toBe(true);
+  });
+
+  it("includes the start and excludes the end", () => {
+    const window = { effectiveFrom: JAN_1, effectiveUntil: FEB_1 };
+    expect(isEffective(window, JAN_1 - 1)).toBe(false);
+    expect(isEffective(window, JAN_1)).toBe(true);
+    expect(isEffective(window, FEB_1)).toBe(false);
+  });
+});
+
+describe("isScheduledVersion", () => {
+  it("recognizes documents that point at another item", () => {
+    expect(isScheduledVersion({ versionOf: "tint", price: 450 })).toBe(true);
+    expect(isScheduledVersion({ name: "Tint", price: 400 })).toBe(false);
+    expect(isScheduledVersion({ versionOf: "" })).toBe(false);
+  });
+});
+
+describe("resolveVersion", () => {
+  const base = { id: "tint", name: "Tint", price: 400, cost: 100 };
+
+  it("keeps the base item when no version is in effect", () => {
+    const versions = [{ id: "v1", versionOf: "tint", price: 450, effectiveFrom: FEB_1 }];
+    expect(resolveVersion(base, versions, JAN_1)).toEqual(base);
+  });
+
+  it("layers only the fields a version changes", () => {
+    const versions = [{ id: "v1", versionOf: "tint", price: 450, effectiveFrom: JAN_1 }];
+    expect(resolveVersion(base, versions, FEB_1)).toEqual({ ...base, price: 450 });
+  });
+
+  it("uses the latest-starting version in effect", () => {
+    const versions = [
+      { id: "v2", versionOf: "tint", price: 500, effectiveFrom: FEB_1 },
+      { id: "v1", versionOf: "tint", price: 450, effectiveFrom: JAN_1 },
+    ];
+    expect(resolveVersion(base, versions, MAR_1)?.price).toBe(500);
+    expect(resolveVersion(base, versions, FEB_1 - 1)?.price).toBe(450);
+  });
+
+  it("falls back to the base price after a version ends", () => {
+    const versions = [
+      { id: "v1", versionOf: "tint", price: 350, effectiveFrom: JAN_1, effectiveUntil: FEB_1 },
+    ];
+    expect(resolveVersion(base, versions, MAR_1)?.price).toBe(400);
+  });
+
+  it("returns null when the base item is outside its own window", () => {
+    expect(resolveVersion({ ...base, effectiveUntil: FEB_1 }, [], MAR_1)).toBeNull();
+    expect(resolveVersion({ ...base, effectiveFrom: MAR_1 }, [], FEB_1)).toBeNull();
+  });
+});
+
+describe("resolveEffectiveDocs", () => {
+  it("folds versions into their items and drops items not yet live", () => {
+    const docs = [
+      { id: "tint", name: "Tint", price: 400 },
+      { id: "ppf", name: "PPF", price: 1200, effectiveFrom: MAR_1 },
+    ];
+    const versions = [{ id: "v1", versionOf: "tint", price: 450, effectiveFrom: JAN_1 }];
+
+    expect(resolveEffectiveDocs(docs, versions, FEB_1)).toEqual([
+      { id: "tint", name: "Tint", price: 450 },
+    ]);
+    expect(resolveEffectiveDocs(docs, versions, MAR_1).map((doc) => doc.id)).toEqual([
+      "tint",
+      "ppf",
+    ]);
+  });
+});
+
+describe("listUpcomingChanges", () => {
+  it("lists future starts and ends soonest first, named after the item", () => {
+    const docs = [
+      { id: "tint", name: "Tint", price: 400, effectiveUntil: MAR_1 },
+      { id: "v1", versionOf: "tint", price: 450, effectiveFrom: FEB_1, effectiveUntil: MAR_1 },
+      { id: "old", name: "Old", price: 100, effectiveFrom: JAN_1 - 1 },
+    ];
+
+    expect(listUpcomingChanges("features", docs, JAN_1)).toEqual([
+      {
+        collection: "features",
+        docId: "v1",
+        itemId: "tint",
+        name: "Tint",
+        at: FEB_1,
+        kind: "start",
+        fields: { price: 450 },
+      },
+      {
+        collection: "features",
+        docId: "tint",
+        itemId: "tint",
+        name: "Tint",
+        at: MAR_1,
+        kind: "end",
+        fields: {},
+      },
+      {
+        collection: "features",
+        docId: "v1",
+        itemId: "tint",
+        name: "Tint",
+        at: MAR_1,
+        kind: "end",
+        fields: { price: 450 },
+      },
+    ]);
+  });
+});
+
+describe("nextWindowBoundary", () => {
+  it("finds the soonest start or end still ahead", () => {
+    const items = [{ effectiveFrom: JAN_1, effectiveUntil: MAR_1 }, { effectiveFrom: FEB_1 }, {}];
+
+    expect(nextWindowBoundary(items, JAN_1)).toBe(FEB_1);
+    expect(nextWindowBoundary(items, FEB_1)).toBe(MAR_1);
+    expect(nextWindowBoundary(items, MAR_1)).toBeUndefined();
+  });
+});
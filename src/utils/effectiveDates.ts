@@ -0,0 +1,157 @@
+import type { EffectiveWindow } from "../types";
+
+/** Returns the current time in epoch ms. Injected so scheduling can be tested. */
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+type RawDoc = Record<string, unknown> & { id: string };
+
+/**
+ * Parses an `<input type="date">` value (YYYY-MM-DD) as local midnight on that day,
+ * which is when admin-scheduled changes take effect.
+ */
+export function parseDateInput(value: string): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+/** Formats epoch ms as an `<input type="date">` value in local time. */
+export function formatDateInput(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Fields that describe a scheduled version rather than the item itself
+const VERSION_META_FIELDS = ["id", "versionOf", "effectiveFrom", "effectiveUntil"];
+
+const windowOf = (data: Record<string, unknown>): EffectiveWindow => ({
+  ...(typeof data["effectiveFrom"] === "number" ? { effectiveFrom: data["effectiveFrom"] } : {}),
+  ...(typeof data["effectiveUntil"] === "number" ? { effectiveUntil: data["effectiveUntil"] } : {}),
+});
+
+/**
+ * Whether an item is live at `now`. The window is [effectiveFrom, effectiveUntil);
+ * a missing bound is open-ended.
+ */
+export function isEffective(item: EffectiveWindow, now: number): boolean {
+  if (typeof item.effectiveFrom === "number" && now < item.effectiveFrom) return false;
+  if (typeof item.effectiveUntil === "number" && now >= item.effectiveUntil) return false;
+  return true;
+}
+
+/**
+ * Whether a raw document is a scheduled version of another item (one from a
+ * `*_versions` collection) rather than an item in its own right.
+ */
+export function isScheduledVersion(data: Record<string, unknown>): boolean {
+  return typeof data["versionOf"] === "string" && data["versionOf"].length > 0;
+}
+
+/**
+ * Picks the version of an item that is live at `now`.
+ * A scheduled version only carries the fields it changes; the latest-starting version
+ * in effect is layered over the base item.
+ * @returns The merged fields, or null if the base item itself is not in effect
+ */
+export function resolveVersion<T extends object>(
+  base: T,
+  versions: Array<Record<string, unknown>>,
+  now: number
+): T | null {
+  if (!isEffective(windowOf(base as Record<string, unknown>), now)) return null;
+
+  const active = versions
+    .filter((version) => isEffective(windowOf(version), now))
+    .sort(
+      (a, b) => (windowOf(a).effectiveFrom ?? -Infinity) - (windowOf(b).effectiveFrom ?? -Infinity)
+    )
+    .at(-1);
+  if (!active) return base;
+
+  const overrides = Object.fromEntries(
+    Object.entries(active).filter(([key]) => !VERSION_META_FIELDS.includes(key))
+  );
+  return { ...base, ...overrides };
+}
+
+/**
+ * Resolves a collection's raw documents to the items live at `now`: the scheduled
+ * versions (from the matching `*_versions` collection) are folded into their base item
+ * and items outside their window are dropped. Order follows the base documents.
+ */
+export function resolveEffectiveDocs(docs: RawDoc[], versions: RawDoc[], now: number): RawDoc[] {
+  const versionsByBase = new Map<string, RawDoc[]>();
+  versions.filter(isScheduledVersion).forEach((version) => {
+    const baseId = version["versionOf"] as string;
+    versionsByBase.set(baseId, [...(versionsByBase.get(baseId) ?? []), version]);
+  });
+
+  return docs
+    .map((base) => resolveVersion(base, versionsByBase.get(base.id) ?? [], now))
+    .filter((data): data is RawDoc => data !== null);
+}
+
+export interface UpcomingCatalogChange {
+  collection: string;
+  docId: string; // The document carrying the window: a scheduled version or the item itself
+  itemId: string; // The item it affects
+  name: string;
+  at: number; // epoch ms
+  kind: "start" | "end";
+  fields: Record<string, unknown>; // Fields a scheduled version changes; empty for items
+}
+
+/**
+ * Lists every window start or end after `now` in a collection's raw documents,
+ * soonest first.
+ */
+export function listUpcomingChanges(
+  collection: string,
+  docs: RawDoc[],
+  now: number
+): UpcomingCatalogChange[] {
+  const names = new Map(
+    docs.map((data) => [data.id, typeof data["name"] === "string" ? data["name"] : data.id])
+  );
+
+  const changes: UpcomingCatalogChange[] = [];
+  for (const data of docs) {
+    const window = windowOf(data);
+    const isVersion = isScheduledVersion(data);
+    const itemId = isVersion ? (data["versionOf"] as string) : data.id;
+    const fields = isVersion
+      ? Object.fromEntries(
+          Object.entries(data).filter(([key]) => !VERSION_META_FIELDS.includes(key))
+        )
+      : {};
+    const base = {
+      collection,
+      docId: data.id,
+      itemId,
+      name: names.get(itemId) ?? itemId,
+      fields,
+    };
+
+    if (typeof window.effectiveFrom === "number" && window.effectiveFrom > now) {
+      changes.push({ ...base, at: window.effectiveFrom, kind: "start" });
+    }
+    if (typeof window.effectiveUntil === "number" && window.effectiveUntil > now) {
+      changes.push({ ...base, at: window.effectiveUntil, kind: "end" });
+    }
+  }
+  return changes.sort((a, b) => a.at - b.at);
+}
+
+/** The soonest window start or end after `now` among the items, or undefined if none is left. */
+export function nextWindowBoundary(items: EffectiveWindow[], now: number): number | undefined {
+  let next: number | undefined;
+  for (const item of items) {
+    for (const at of [item.effectiveFrom, item.effectiveUntil]) {
+      if (typeof at === "number" && at > now && (next === undefined || at < next)) next = at;
+    }
+  }
+  return next;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_ELIGIBILITY_INPUTS,
+  eligibilityInputsFromRule,
+  findIneligibleItems,
+  ineligibilityReason,
+  ineligibleReasonsById,
+  matchesModel,
+  parseEligibilityInputs,
+  type EligibilityVehicle,
+} from "./eligibility";
+
+const usedRx: EligibilityVehicle = {
+  year: "2019",
+  model: "RX 350",
+  condition: "used",
+  odometer: 48000,
+};
+
+describe("matchesModel", () => {
+  it("matches a model line to its models, ignoring case and spacing", () => {
+    expect(matchesModel("RX 350", "RX")).toBe(true);
+    expect(matchesModel("rx  450h", "RX 450h")).toBe(true);
+    expect(matchesModel("RXL", "RX")).toBe(false);
+    expect(matchesModel("NX 350", "RX")).toBe(false);
+  });
+});
+
+describe("ineligibilityReason", () => {
+  it("allows any vehicle without a rule", () => {
+    expect(ineligibilityReason(undefined, usedRx)).toBeNull();
+    expect(ineligibilityReason({}, usedRx)).toBeNull();
+  });
+
+  it("checks the model list", () => {
+    expect(ineligibilityReason({ models: ["RX", "GX"] }, usedRx)).toBeNull();
+    expect(ineligibilityReason({ models: ["RZ"] }, usedRx)).toBe("Not offered on the RX 350");
+  });
+
+  it("checks the model year range", () => {
+    expect(ineligibilityReason({ minYear: 2018, maxYear: 2020 }, usedRx)).toBeNull();
+    expect(ineligibilityReason({ minYear: 2021 }, usedRx)).toBe("2021 and newer models only");
+    expect(ineligibilityReason({ maxYear: 2015 }, usedRx)).toBe("2015 and older models only");
+    expect(ineligibilityReason({ minYear: 2022, maxYear: 2025 }, usedRx)).toBe(
+      "2022-2025 models only"
+    );
+  });
+
+  it("checks condition and mileage", () => {
+    expect(ineligibilityReason({ conditions: ["used", "cpo"] }, usedRx)).toBeNull();
+    expect(ineligibilityReason({ conditions: ["new"] }, usedRx)).toBe("New vehicles only");
+    expect(ineligibilityReason({ maxOdometer: 48000 }, usedRx)).toBeNull();
+    expect(ineligibilityReason({ maxOdometer: 36000 }, usedRx)).toBe("Up to 36,000 mi only");
+  });
+
+  it("keeps a product available until the deal has the detail a condition needs", () => {
+    const blank: EligibilityVehicle = { year: "", model: "" };
+    const rule = { models: ["RZ"], minYear: 2023, conditions: ["new" as const], maxOdometer: 100 };
+    expect(ineligibilityReason(rule, blank)).toBeNull();
+  });
+});
+
+describe("ineligibleReasonsById", () => {
+  it("lists only the ineligible items, and nothing without a vehicle", () => {
+    const items = [{ id: "wheel", eligibility: { models: ["LX"] } }, { id: "tint" }];
+    expect(ineligibleReasonsById(items, usedRx)).toEqual({ wheel: "Not offered on the RX 350" });
+    expect(ineligibleReasonsById(items, undefined)).toEqual({});
+  });
+});
+
+describe("findIneligibleItems", () => {
+  it("picks out products in the deal that a changed vehicle rules out", () => {
+    const deal = [
+      { id: "ceramic", name: "Ceramic", eligibility: { maxOdometer: 5000 } },
+      { id: "tint", name: "Tint" },
+    ];
+    const newRx = { year: "2026", model: "RX 350", condition: "new" as const, odometer: 12 };
+
+    expect(findIneligibleItems(deal, newRx).items).toEqual([]);
+    expect(findIneligibleItems(deal, usedRx)).toEqual({
+      items: [deal[0]],
+      reasonsById: { ceramic: "Up to 5,000 mi only" },
+    });
+  });
+});
+
+describe("parseEligibilityInputs", () => {
+  it("round-trips a rule through the admin form", () => {
+    const rule = {
+      models: ["RX", "NX 350h"],
+      minYear: 2020,
+      maxYear: 2026,
+      conditions: ["used" as const],
+      maxOdometer: 60000,
+    };
+    expect(parseEligibilityInputs(eligibilityInputsFromRule(rule))).toEqual(rule);
+  });
+
+  it("saves no rule when every field is blank", () => {
+    expect(parseEligibilityInputs({ ...EMPTY_ELIGIBILITY_INPUTS, models: " , " })).toBeUndefined();
+  });
+
+  it("rejects invalid years and mileage", () => {
+    expect(() => parseEligibilityInputs({ ...EMPTY_ELIGIBILITY_INPUTS, minYear: "20" })).toThrow(
+      "Model years must be 4-digit years."
+    );
+    expect(() =>
+      parseEligibilityInputs({ ...EMPTY_ELIGIBILITY_INPUTS, minYear: "2024", maxYear: "2020" })
+    ).toThrow("Oldest model year must not be after the newest.");
+    expect(() =>
+      parseEligibilityInputs({ ...EMPTY_ELIGIBILITY_INPUTS, maxOdometer: "60k" })
+    ).toThrow("Mileage cap must be whole miles.");
+  });
+});
@@ -0,0 +1,167 @@
+import type { CustomerInfo, EligibilityRule, VehicleCondition } from "../types";
+import { formatOdometer, VEHICLE_CONDITION_LABELS } from "./vehicle";
+
+export type EligibilityVehicle = Pick<CustomerInfo, "year" | "model" | "condition" | "odometer">;
+
+const normalizeModel = (model: string) => model.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Whether a vehicle's model falls under a model named in a rule. A model line covers its
+ * models: "RX" matches "RX 350" and "RX 450h", but not "RXL".
+ */
+export function matchesModel(model: string, ruleModel: string): boolean {
+  const vehicleModel = normalizeModel(model);
+  const allowed = normalizeModel(ruleModel);
+  return Boolean(allowed) && (vehicleModel === allowed || vehicleModel.startsWith(`${allowed} `));
+}
+
+const formatYearRange = (minYear?: number, maxYear?: number) => {
+  if (minYear !== undefined && maxYear !== undefined) {
+    return minYear === maxYear ? `${minYear}` : `${minYear}-${maxYear}`;
+  }
+  return minYear !== undefined ? `${minYear} and newer` : `${maxYear} and older`;
+};
+
+/**
+ * Why a product can't be sold on a vehicle, for display next to it.
+ * A condition is only checked once the deal has the detail it needs, so a product stays
+ * available until the vehicle is known to rule it out.
+ * @returns The reason, or null if the product is eligible
+ */
+export function ineligibilityReason(
+  rule: EligibilityRule | undefined,
+  vehicle: EligibilityVehicle
+): string | null {
+  if (!rule) return null;
+
+  const model = vehicle.model.trim();
+  if (
+    rule.models?.length &&
+    model &&
+    !rule.models.some((allowed) => matchesModel(model, allowed))
+  ) {
+    return `Not offered on the ${model}`;
+  }
+
+  const year = /^\d{4}$/.test(vehicle.year.trim()) ? Number(vehicle.year) : undefined;
+  if (
+    year !== undefined &&
+    ((rule.minYear !== undefined && year < rule.minYear) ||
+      (rule.maxYear !== undefined && year > rule.maxYear))
+  ) {
+    return `${formatYearRange(rule.minYear, rule.maxYear)} models only`;
+  }
+
+  if (
+    rule.conditions?.length &&
+    vehicle.condition &&
+    !rule.conditions.includes(vehicle.condition)
+  ) {
+    const labels = rule.conditions.map((condition) => VEHICLE_CONDITION_LABELS[condition]);
+    return `${labels.join(" or ")} vehicles only`;
+  }
+
+  if (
+    rule.maxOdometer !== undefined &&
+    typeof vehicle.odometer === "number" &&
+    vehicle.odometer > rule.maxOdometer
+  ) {
+    return `Up to ${formatOdometer(rule.maxOdometer)} only`;
+  }
+
+  return null;
+}
+
+/**
+ * The reason each ineligible item can't be sold on the vehicle, keyed by item id.
+ * Eligible items are left out.
+ */
+export function ineligibleReasonsById(
+  items: Array<{ id: string; eligibility?: EligibilityRule }>,
+  vehicle: EligibilityVehicle | undefined
+): Record<string, string> {
+  const reasons: Record<string, string> = {};
+  if (!vehicle) return reasons;
+  for (const item of items) {
+    const reason = ineligibilityReason(item.eligibility, vehicle);
+    if (reason) reasons[item.id] = reason;
+  }
+  return reasons;
+}
+
+/**
+ * The products among items that can't be sold on the vehicle, with the reason for each.
+ * Used to take products out of a deal when its vehicle changes after they were picked.
+ */
+export function findIneligibleItems<T extends { id: string; eligibility?: EligibilityRule }>(
+  items: T[],
+  vehicle: EligibilityVehicle
+): { items: T[]; reasonsById: Record<string, string> } {
+  const reasonsById = ineligibleReasonsById(items, vehicle);
+  return { items: items.filter((item) => reasonsById[item.id]), reasonsById };
+}
+
+// An eligibility rule as edited in the admin forms
+export interface EligibilityInputs {
+  models: string; // Comma separated
+  minYear: string;
+  maxYear: string;
+  conditions: VehicleCondition[];
+  maxOdometer: string;
+}
+
+export const EMPTY_ELIGIBILITY_INPUTS: EligibilityInputs = {
+  models: "",
+  minYear: "",
+  maxYear: "",
+  conditions: [],
+  maxOdometer: "",
+};
+
+export function eligibilityInputsFromRule(rule: EligibilityRule | undefined): EligibilityInputs {
+  return {
+    models: rule?.models?.join(", ") ?? "",
+    minYear: rule?.minYear?.toString() ?? "",
+    maxYear: rule?.maxYear?.toString() ?? "",
+    conditions: rule?.conditions ?? [],
+    maxOdometer: rule?.maxOdometer?.toString() ?? "",
+  };
+}
+
+const parseWholeNumber = (raw: string, message: string): number | undefined => {
+  const normalized = raw.trim().replace(/,/g, "");
+  if (!normalized) return undefined;
+  if (!/^\d+$/.test(normalized)) throw new Error(message);
+  return Number(normalized);
+};
+
+/**
+ * Builds the rule to save from the admin form.
+ * @returns The rule, or undefined when every condition is blank
+ * @throws Error with a message for the form when a value is invalid
+ */
+export function parseEligibilityInputs(inputs: EligibilityInputs): EligibilityRule | undefined {
+  const models = inputs.models
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  const minYear = parseWholeNumber(inputs.minYear, "Oldest model year must be a 4-digit year.");
+  const maxYear = parseWholeNumber(inputs.maxYear, "Newest model year must be a 4-digit year.");
+  const maxOdometer = parseWholeNumber(inputs.maxOdometer, "Mileage cap must be whole miles.");
+
+  if ((minYear !== undefined && minYear < 1900) || (maxYear !== undefined && maxYear < 1900)) {
+    throw new Error("Model years must be 4-digit years.");
+  }
+  if (minYear !== undefined && maxYear !== undefined && minYear > maxYear) {
+    throw new Error("Oldest model year must not be after the newest.");
+  }
+
+  const rule: EligibilityRule = {
+    ...(models.length > 0 ? { models } : {}),
+    ...(minYear !== undefined ? { minYear } : {}),
+    ...(maxYear !== undefined ? { maxYear } : {}),
+    ...(inputs.conditions.length > 0 ? { conditions: inputs.conditions } : {}),
+    ...(maxOdometer !== undefined ? { maxOdometer } : {}),
+  };
+  return Object.keys(rule).length > 0 ? rule : undefined;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTermComparison,
+  COMPARISON_TERM_MONTHS,
+  formatMonthlyImpact,
+  formatMonthlyPayment,
+  monthlyPayment,
+  paymentImpact,
+} from "./payments";
+
+describe("monthlyPayment", () => {
+  it("amortizes the principal over the term", () => {
+    expect(monthlyPayment(30000, 6, 60)).toBeCloseTo(579.98, 2);
+  });
+
+  it("divides evenly at zero APR", () => {
+    expect(monthlyPayment(3600, 0, 36)).toBe(100);
+  });
+
+  it("is zero with nothing financed", () => {
+    expect(monthlyPayment(0, 6.9, 72)).toBe(0);
+    expect(monthlyPayment(1000, 6.9, 0)).toBe(0);
+  });
+});
+
+describe("paymentImpact", () => {
+  it("is what the price adds to any loan's payment", () => {
+    const terms = { termMonths: 72, apr: 6.9 };
+    const withLoan =
+      monthlyPayment(40000 + 2500, terms.apr, terms.termMonths) -
+      monthlyPayment(40000, terms.apr, terms.termMonths);
+
+    expect(paymentImpact(2500, terms)).toBeCloseTo(withLoan, 8);
+  });
+});
+
+describe("formatMonthlyImpact", () => {
+  it("rounds up to the dollar", () => {
+    expect(formatMonthlyImpact(42.5)).toBe("+$43/mo");
+    expect(formatMonthlyImpact(100)).toBe("+$100/mo");
+    expect(formatMonthlyImpact(1234.01)).toBe("+$1,235/mo");
+  });
+
+  it("formats a whole payment without the plus sign", () => {
+    expect(formatMonthlyPayment(612.2)).toBe("$613/mo");
+  });
+});
+
+describe("buildTermComparison", () => {
+  const packages = [
+    { id: "gold", name: "Gold", price: 2000 },
+    { id: "platinum", name: "Platinum", price: 3500 },
+  ];
+
+  it("puts every package beside a no-package column at each term", () => {
+    const comparison = buildTermComparison(packages, { apr: 6.9, amountFinanced: 40000 });
+
+    expect(comparison.columns.map((column) => column.id)).toEqual(["gold", "platinum", null]);
+    expect(comparison.rows.map((row) => row.termMonths)).toEqual(COMPARISON_TERM_MONTHS);
+    const sixty = comparison.rows.find((row) => row.termMonths === 60);
+    expect(sixty?.payments).toEqual([
+      monthlyPayment(42000, 6.9, 60),
+      monthlyPayment(43500, 6.9, 60),
+      monthlyPayment(40000, 6.9, 60),
+    ]);
+  });
+
+  it("prices the packages alone when nothing is financed", () => {
+    const comparison = buildTermComparison(packages, { apr: 6.9, amountFinanced: 0 }, [48]);
+
+    expect(comparison.rows).toEqual([
+      {
+        termMonths: 48,
+        payments: [monthlyPayment(2000, 6.9, 48), monthlyPayment(3500, 6.9, 48), 0],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { PaymentDefaults, PaymentTerms } from "../types";
+
+// Used until app_config/payment_defaults is set, and whenever it cannot be read.
+export const DEFAULT_PAYMENT_DEFAULTS: PaymentDefaults = { termMonths: 72, apr: 6.9 };
+
+// Terms offered in the estimator, in months.
+export const PAYMENT_TERM_OPTIONS = [36, 48, 60, 72, 84];
+
+// Rows of the term comparison grid, in months.
+export const COMPARISON_TERM_MONTHS = [36, 48, 60, 72];
+
+// The F&I "menu" grid: each package as a column, each term as a row of monthly payments.
+export interface TermComparison {
+  apr: number;
+  amountFinanced: number;
+  columns: Array<{ id: string | null; name: string; price: number }>; // id null = no package
+  rows: Array<{ termMonths: number; payments: number[] }>; // One payment per column
+}
+
+/**
+ * Monthly payment on a fully amortizing loan.
+ * @param principal - Amount financed, in dollars
+ * @param apr - Annual percentage rate, e.g. 6.9
+ * @param termMonths - Number of monthly payments
+ */
+export function monthlyPayment(principal: number, apr: number, termMonths: number): number {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const monthlyRate = apr / 100 / 12;
+  if (monthlyRate === 0) return principal / termMonths;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths));
+}
+
+/**
+ * What adding `price` to the loan adds to the monthly payment. The payment is linear in
+ * the principal, so this does not depend on the amount already financed.
+ */
+export function paymentImpact(price: number, terms: PaymentDefaults): number {
+  return monthlyPayment(price, terms.apr, terms.termMonths);
+}
+
+/**
+ * Builds the term comparison grid for the given packages, followed by a "No Package"
+ * column that is the vehicle loan alone.
+ */
+export function buildTermComparison(
+  packages: Array<{ id: string; name: string; price: number }>,
+  terms: Pick<PaymentTerms, "apr" | "amountFinanced">,
+  termMonths: number[] = COMPARISON_TERM_MONTHS
+): TermComparison {
+  const columns = [
+    ...packages.map((pkg) => ({ id: pkg.id, name: pkg.name, price: pkg.price })),
+    { id: null, name: "No Package", price: 0 },
+  ];
+  return {
+    apr: terms.apr,
+    amountFinanced: terms.amountFinanced,
+    columns,
+    rows: termMonths.map((months) => ({
+      termMonths: months,
+      payments: columns.map((column) =>
+        monthlyPayment(terms.amountFinanced + column.price, terms.apr, months)
+      ),
+    })),
+  };
+}
+
+/**
+ * Formats a payment impact the way F&I quotes it, rounded up to the dollar: "+$37/mo".
+ */
+export function formatMonthlyImpact(amount: number): string {
+  return `+$${Math.ceil(Math.max(0, amount) - 1e-9).toLocaleString("en-US")}/mo`;
+}
+
+/**
+ * Formats a full monthly payment, e.g. "$612/mo".
+ */
+export function formatMonthlyPayment(amount: number): string {
+  return `$${Math.ceil(Math.max(0, amount) - 1e-9).toLocaleString("en-US")}/mo`;
+}
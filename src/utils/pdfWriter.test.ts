@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { createPdfDocument, measureText, wrapText } from "./pdfWriter";
+
+const asText = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+describe("createPdfDocument", () => {
+  const draw = () => {
+    const pdf = createPdfDocument("Test (copy)");
+    pdf.text("Hello (world) \\ — ✓", 54, 72, { font: "bold", size: 12 });
+    pdf.line(54, 80, 558, 80);
+    pdf.addPage();
+    pdf.rect(54, 54, 100, 20, 0.9);
+    return pdf.build();
+  };
+
+  it("writes a PDF whose cross-reference table points at every object", () => {
+    const output = asText(draw());
+
+    expect(output.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(output.endsWith("%%EOF\n")).toBe(true);
+    expect(output).toContain("/Count 2");
+
+    const startxref = Number(output.match(/startxref\n(\d+)\n/)?.[1]);
+    expect(output.slice(startxref, startxref + 4)).toBe("xref");
+
+    const entries = [...output.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach((offset, index) => {
+      expect(output.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it("declares each content stream's exact length", () => {
+    const output = asText(draw());
+    const streams = [...output.matchAll(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g)];
+
+    expect(streams).toHaveLength(2);
+    streams.forEach((match) => expect(match[2]).toHaveLength(Number(match[1])));
+  });
+
+  it("escapes string delimiters and encodes text as WinAnsi", () => {
+    const output = asText(draw());
+
+    expect(output).toContain("(Hello \\(world\\) \\\\ \x97 ?) Tj");
+    expect(output).toContain("/Title (Test \\(copy\\))");
+  });
+
+  it("produces identical bytes for identical drawings", () => {
+    expect(draw()).toEqual(draw());
+  });
+
+  it("embeds a JPEG once however often it is drawn", () => {
+    const image = { width: 4, height: 2, data: new Uint8Array([0xff, 0xd8, 0x00, 0xff, 0xd9]) };
+    const pdf = createPdfDocument("Images");
+    pdf.image(image, 54, 72, 40, 20);
+    pdf.addPage();
+    pdf.image(image, 54, 72, 40, 20);
+    const output = asText(pdf.build());
+
+    expect(output.match(/\/Subtype \/Image/g)).toHaveLength(1);
+    expect(output).toContain(
+      "/Width 4 /Height 2 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length 5 >>\nstream\n\xff\xd8\x00\xff\xd9\nendstream"
+    );
+    expect(output.match(/q 40 0 0 20 54 700 cm \/Im1 Do Q/g)).toHaveLength(2);
+
+    const imageObject = Number(output.match(/\/Im1 (\d+) 0 R/)?.[1]);
+    const startxref = Number(output.match(/startxref\n(\d+)\n/)?.[1]);
+    const offsets = [...output.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)];
+    expect(output.slice(Number(offsets[imageObject - 1]?.[1]))).toMatch(
+      new RegExp(`^${imageObject} 0 obj\n<< /Type /XObject`)
+    );
+  });
+});
+
+describe("measureText", () => {
+  it("uses the Helvetica and Courier metrics", () => {
+    expect(measureText("Hello", "regular", 10)).toBeCloseTo(22.78, 2);
+    expect(measureText("Hello", "mono", 10)).toBe(30);
+  });
+});
+
+describe("wrapText", () => {
+  it("breaks at spaces to fit the width", () => {
+    const lines = wrapText("one two three four five six", 60, "regular", 10);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe("one two three four five six");
+    lines.forEach((line) => expect(measureText(line, "regular", 10)).toBeLessThanOrEqual(60));
+  });
+});
@@ -0,0 +1,365 @@
+// A minimal PDF writer: text in the standard Helvetica and Courier fonts, lines, filled
+// rectangles and JPEG images, on Letter pages. Content streams are left uncompressed and
+// nothing time-dependent is written, so the same drawing always produces the same bytes.
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  align?: "left" | "right" | "center";
+  gray?: number; // 0 = black, 1 = white
+}
+
+export interface PdfLineOptions {
+  width?: number;
+  gray?: number;
+}
+
+// A JPEG, embedded as is (see loadPdfImage)
+export interface PdfImage {
+  width: number; // pixels
+  height: number; // pixels
+  data: Uint8Array; // The JPEG file
+}
+
+export interface PdfDocument {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  readonly pageCount: number;
+  addPage: () => void;
+  // Coordinates are in points from the top-left corner of the current page.
+  text: (value: string, x: number, y: number, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfLineOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, gray: number) => void;
+  // Stretches the image over the box; the same image drawn twice is embedded once.
+  image: (image: PdfImage, x: number, y: number, width: number, height: number) => void;
+  build: () => Uint8Array;
+}
+
+// US Letter
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  mono: { name: "F3", baseFont: "Courier" },
+};
+
+// Glyph widths (1/1000 em) for printable ASCII, from the standard Helvetica AFM metrics.
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const COURIER_WIDTH = 600;
+const FALLBACK_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+/**
+ * Maps text onto the single-byte WinAnsi encoding the standard fonts use.
+ * Characters the fonts cannot show become "?".
+ */
+function toWinAnsi(value: string): string {
+  let encoded = "";
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    const extra = WIN_ANSI_EXTRAS[char];
+    if (extra !== undefined) {
+      encoded += String.fromCharCode(extra);
+    } else if (code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0)) {
+      encoded += char;
+    } else if (char === "\t" || char === "\n") {
+      encoded += " ";
+    } else {
+      encoded += "?";
+    }
+  }
+  return encoded;
+}
+
+const escapePdfString = (value: string) => value.replace(/[\\()]/g, (char) => `\\${char}`);
+
+// Bytes as a string of one character per byte, the form the document is assembled in
+const toBinaryString = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 8192) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 8192));
+  }
+  return binary;
+};
+
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+};
+
+/**
+ * The width of a line of text in points.
+ */
+export function measureText(value: string, font: PdfFont = "regular", size = 10): number {
+  const encoded = toWinAnsi(value);
+  if (font === "mono") return (encoded.length * COURIER_WIDTH * size) / 1000;
+
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let index = 0; index < encoded.length; index++) {
+    const code = encoded.charCodeAt(index);
+    total +=
+      code >= 0x20 && code <= 0x7e ? (widths[code - 0x20] ?? FALLBACK_WIDTH) : FALLBACK_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Breaks text into lines no wider than maxWidth, at spaces where possible.
+ */
+export function wrapText(
+  value: string,
+  maxWidth: number,
+  font: PdfFont = "regular",
+  size = 10
+): string[] {
+  const lines: string[] = [];
+  let current = "";
+  value
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (!current || measureText(candidate, font, size) <= maxWidth) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    });
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Starts a new PDF with one empty page.
+ * @param title - Written to the document info, shown as the title by PDF viewers.
+ */
+export function createPdfDocument(title: string): PdfDocument {
+  const pages: string[][] = [[]];
+  const images: PdfImage[] = [];
+  const current = () => pages[pages.length - 1] as string[];
+  const flipY = (y: number) => PDF_PAGE_HEIGHT - y;
+
+  const text: PdfDocument["text"] = (value, x, y, options = {}) => {
+    const font = options.font ?? "regular";
+    const size = options.size ?? 10;
+    const align = options.align ?? "left";
+    const width = align === "left" ? 0 : measureText(value, font, size);
+    const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+    current().push(
+      `BT ${formatNumber(options.gray ?? 0)} g /${FONT_RESOURCES[font].name} ${formatNumber(
+        size
+      )} Tf ${formatNumber(left)} ${formatNumber(flipY(y))} Td (${escapePdfString(
+        toWinAnsi(value)
+      )}) Tj ET`
+    );
+  };
+
+  const line: PdfDocument["line"] = (x1, y1, x2, y2, options = {}) => {
+    current().push(
+      `${formatNumber(options.gray ?? 0)} G ${formatNumber(options.width ?? 1)} w ${formatNumber(
+        x1
+      )} ${formatNumber(flipY(y1))} m ${formatNumber(x2)} ${formatNumber(flipY(y2))} l S`
+    );
+  };
+
+  const rect: PdfDocument["rect"] = (x, y, width, height, gray) => {
+    current().push(
+      `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(flipY(y + height))} ${formatNumber(
+        width
+      )} ${formatNumber(height)} re f`
+    );
+  };
+
+  const image: PdfDocument["image"] = (source, x, y, width, height) => {
+    if (!images.includes(source)) images.push(source);
+    current().push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(
+        flipY(y + height)
+      )} cm /Im${images.indexOf(source) + 1} Do Q`
+    );
+  };
+
+  const build = () => {
+    // Objects: 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a page and its content
+    // stream for each page, then the images.
+    const objects: string[] = [];
+    const fontEntries = Object.values(FONT_RESOURCES);
+    const firstPageObject = 3 + fontEntries.length + 1;
+    const pageObjectIds = pages.map((_, index) => firstPageObject + index * 2);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(
+      `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${
+        pages.length
+      } >>`
+    );
+    fontEntries.forEach((font) => {
+      objects.push(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`
+      );
+    });
+    objects.push(
+      `<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (Aftermarket Menu) >>`
+    );
+    const fontResources = fontEntries
+      .map((font, index) => `/${font.name} ${3 + index} 0 R`)
+      .join(" ");
+    const firstImageObject = firstPageObject + pages.length * 2;
+    // Every page can use every image; a viewer only loads the ones a page draws.
+    const imageResources =
+      images.length > 0
+        ? ` /XObject << ${images
+            .map((_, index) => `/Im${index + 1} ${firstImageObject + index} 0 R`)
+            .join(" ")} >>`
+        : "";
+    pages.forEach((operations, index) => {
+      const contentId = (pageObjectIds[index] as number) + 1;
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >>${imageResources} >> /Contents ${contentId} 0 R >>`
+      );
+      const stream = operations.join("\n");
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+    images.forEach((source) => {
+      objects.push(
+        `<< /Type /XObject /Subtype /Image /Width ${source.width} /Height ${source.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${source.data.length} >>\nstream\n${toBinaryString(source.data)}\nendstream`
+      );
+    });
+
+    // Every character written is a single byte, so string offsets are byte offsets.
+    let output = "%PDF-1.4\n%âãÏÓ\n";
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach((offset) => {
+      output += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    });
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${
+      3 + fontEntries.length
+    } 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let index = 0; index < output.length; index++) {
+      bytes[index] = output.charCodeAt(index);
+    }
+    return bytes;
+  };
+
+  return {
+    pageWidth: PDF_PAGE_WIDTH,
+    pageHeight: PDF_PAGE_HEIGHT,
+    get pageCount() {
+      return pages.length;
+    },
+    addPage: () => {
+      pages.push([]);
+    },
+    text,
+    line,
+    rect,
+    image,
+    build,
+  };
+}
+
+/**
+ * Loads an image (a data URL, or a URL served with CORS headers) and converts it to a
+ * JPEG on a white background, ready for PdfDocument.image.
+ * @returns null when the image can't be loaded or read back, e.g. a logo from a site
+ *   that doesn't allow it
+ */
+export function loadPdfImage(src: string): Promise<PdfImage | null> {
+  return new Promise((resolve) => {
+    const element = new Image();
+    element.crossOrigin = "anonymous";
+    element.onload = () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = element.naturalWidth;
+        canvas.height = element.naturalHeight;
+        const context = canvas.getContext("2d");
+        if (!context || canvas.width === 0 || canvas.height === 0) {
+          resolve(null);
+          return;
+        }
+        // JPEG has no transparency; signatures are drawn on a clear canvas
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(element, 0, 0);
+        const dataUrl = canvas.toDataURL("image/jpeg", 0.92);
+        if (!dataUrl.startsWith("data:image/jpeg;base64,")) {
+          resolve(null);
+          return;
+        }
+        const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+        resolve({
+          width: canvas.width,
+          height: canvas.height,
+          data: Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+        });
+      } catch (error) {
+        console.warn("Could not prepare an image for the PDF:", error);
+        resolve(null);
+      }
+    };
+    element.onerror = () => resolve(null);
+    element.src = src;
+  });
+}
+
+/**
+ * Hands a generated PDF to the browser as a file download.
+ */
+export function downloadPdf(bytes: Uint8Array, filename: string): void {
+  const blob = new Blob([bytes as BlobPart], { type: "application/pdf" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
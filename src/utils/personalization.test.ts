@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { createMockPackageTier } from "../test/test-utils";
+import type { PresentationDeck, PresentationSlide } from "../types";
+import { DEFAULT_PRESENTATION_DECK } from "./defaultSlides";
+import { EMPTY_ELIGIBILITY_INPUTS } from "./eligibility";
+import {
+  audienceInputsFromAudience,
+  audienceMatches,
+  DEFAULT_FACTORY_WARRANTY,
+  findFactoryWarranty,
+  findModelImage,
+  formatWarrantyTerm,
+  parseAudienceInputs,
+  personalizeSlides,
+  recommendedPackageName,
+  type PresentationCustomer,
+} from "./personalization";
+
+const leasedRx: PresentationCustomer = {
+  year: "2025",
+  model: "RX 350h",
+  condition: "new",
+  dealType: "lease",
+};
+
+const slide = (id: string, overrides: Partial<PresentationSlide> = {}): PresentationSlide => ({
+  id,
+  layout: "image-right",
+  title: id,
+  ...overrides,
+});
+
+describe("audienceMatches", () => {
+  it("shows a slide without an audience, or before the customer is known, to everyone", () => {
+    expect(audienceMatches(undefined, leasedRx)).toBe(true);
+    expect(audienceMatches({ dealTypes: ["purchase"] }, undefined)).toBe(true);
+  });
+
+  it("checks the deal type and the vehicle", () => {
+    expect(audienceMatches({ dealTypes: ["purchase"] }, leasedRx)).toBe(false);
+    expect(audienceMatches({ dealTypes: ["lease"], models: ["RX"] }, leasedRx)).toBe(true);
+    expect(audienceMatches({ models: ["NX"] }, leasedRx)).toBe(false);
+    expect(audienceMatches({ conditions: ["used", "cpo"] }, leasedRx)).toBe(false);
+  });
+
+  it("doesn't rule a deal out on a detail it doesn't have yet", () => {
+    const { dealType: _dealType, ...undecided } = leasedRx;
+    expect(audienceMatches({ dealTypes: ["purchase"] }, undecided)).toBe(true);
+  });
+});
+
+describe("findModelImage", () => {
+  const modelImages = [
+    { model: "RX", image: "/rx.jpg" },
+    { model: "RX 350h", image: "/rx-hybrid.jpg" },
+  ];
+
+  it("uses the most specific model's photo", () => {
+    expect(findModelImage(modelImages, "RX 350h")?.image).toBe("/rx-hybrid.jpg");
+    expect(findModelImage(modelImages, "RX 500h")?.image).toBe("/rx.jpg");
+    expect(findModelImage(modelImages, "NX 350")).toBeUndefined();
+    expect(findModelImage(modelImages, "")).toBeUndefined();
+  });
+});
+
+describe("findFactoryWarranty", () => {
+  const allModels = {
+    basicMonths: 48,
+    basicMiles: 50000,
+    powertrainMonths: 72,
+    powertrainMiles: 70000,
+  };
+  const lfa = { ...allModels, model: "LFA", basicMonths: 24, basicMiles: 25000 };
+
+  it("prefers the vehicle's model, then the row for every model", () => {
+    expect(findFactoryWarranty([allModels, lfa], "LFA")).toBe(lfa);
+    expect(findFactoryWarranty([allModels, lfa], "RX 350")).toBe(allModels);
+    expect(findFactoryWarranty([lfa, allModels], undefined)).toBe(allModels);
+  });
+
+  it("falls back to the standard Lexus terms", () => {
+    expect(findFactoryWarranty(undefined, "RX 350")).toBe(DEFAULT_FACTORY_WARRANTY);
+    expect(findFactoryWarranty([lfa], "RX 350")).toBe(DEFAULT_FACTORY_WARRANTY);
+  });
+
+  it("quotes terms the way the slides do", () => {
+    expect(formatWarrantyTerm(48, 50000)).toBe("48 Months / 50,000 Miles");
+  });
+});
+
+describe("recommendedPackageName", () => {
+  const packages = [
+    createMockPackageTier({ id: "gold", name: "Gold" }),
+    createMockPackageTier({ id: "platinum", name: "Platinum", isRecommended: true }),
+    createMockPackageTier({ id: "elite", name: "Elite" }),
+  ];
+
+  it("uses the first rule that matches the deal", () => {
+    const recommendations = [
+      { packageName: "elite", audience: { models: ["LX"] } },
+      { packageName: "Gold", audience: { dealTypes: ["lease" as const] } },
+      { packageName: "Elite" },
+    ];
+
+    expect(recommendedPackageName(recommendations, packages, leasedRx)).toBe("Gold");
+    expect(
+      recommendedPackageName(recommendations, packages, { ...leasedRx, model: "LX 600" })
+    ).toBe("Elite");
+  });
+
+  it("skips rules for packages the store doesn't sell and falls back to the catalog's pick", () => {
+    expect(recommendedPackageName([{ packageName: "Diamond" }], packages, leasedRx)).toBe(
+      "Platinum"
+    );
+    expect(recommendedPackageName(undefined, [], leasedRx)).toBeUndefined();
+  });
+});
+
+describe("personalizeSlides", () => {
+  const deck: PresentationDeck = {
+    slides: [
+      slide("warranty", {
+        bullets: ["Basic: {basicWarranty}", "Powertrain: {powertrainWarranty}"],
+      }),
+      slide("rustguard", { audience: { dealTypes: ["purchase"] } }),
+      slide("hidden", { hidden: true }),
+      slide("photo", { image: "/MENU1.png", modelImages: [{ model: "RX", image: "/rx.jpg" }] }),
+    ],
+    warranties: [
+      {
+        model: "RX",
+        basicMonths: 48,
+        basicMiles: 50000,
+        powertrainMonths: 96,
+        powertrainMiles: 100000,
+      },
+    ],
+  };
+
+  it("leaves out hidden slides and slides meant for other deals", () => {
+    expect(personalizeSlides(deck, leasedRx).map((s) => s.id)).toEqual(["warranty", "photo"]);
+    expect(personalizeSlides(deck, undefined).map((s) => s.id)).toEqual([
+      "warranty",
+      "rustguard",
+      "photo",
+    ]);
+  });
+
+  it("quotes the model's warranty and shows its photo", () => {
+    const [warranty, photo] = personalizeSlides(deck, leasedRx);
+
+    expect(warranty?.bullets).toEqual([
+      "Basic: 48 Months / 50,000 Miles",
+      "Powertrain: 96 Months / 100,000 Miles",
+    ]);
+    expect(photo?.image).toBe("/rx.jpg");
+    expect(personalizeSlides(deck, { ...leasedRx, model: "NX 350" })[1]?.image).toBe("/MENU1.png");
+  });
+
+  it("skips RustGuard on a lease in the default deck", () => {
+    const ids = personalizeSlides(DEFAULT_PRESENTATION_DECK, leasedRx).map((s) => s.id);
+
+    expect(ids).not.toContain("rustguard");
+    expect(ids).toContain("toughguard");
+  });
+});
+
+describe("audience inputs", () => {
+  it("round-trips an audience through the admin form", () => {
+    const audience = { models: ["RX", "NX"], minYear: 2022, dealTypes: ["purchase" as const] };
+
+    expect(parseAudienceInputs(audienceInputsFromAudience(audience))).toEqual(audience);
+  });
+
+  it("saves a blank form as every deal", () => {
+    expect(parseAudienceInputs({ ...EMPTY_ELIGIBILITY_INPUTS, dealTypes: [] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+import type {
+  CustomerInfo,
+  DealType,
+  FactoryWarranty,
+  ModelImage,
+  PackageRecommendation,
+  PackageTier,
+  PresentationDeck,
+  PresentationSlide,
+  SlideAudience,
+} from "../types";
+import {
+  eligibilityInputsFromRule,
+  ineligibilityReason,
+  matchesModel,
+  parseEligibilityInputs,
+  type EligibilityInputs,
+} from "./eligibility";
+import { mapSlideText, visibleSlides } from "./slides";
+
+export type PresentationCustomer = Pick<
+  CustomerInfo,
+  "year" | "model" | "condition" | "odometer" | "dealType"
+>;
+
+// Lexus factory coverage, for stores that haven't entered their own terms
+export const DEFAULT_FACTORY_WARRANTY: FactoryWarranty = {
+  basicMonths: 48,
+  basicMiles: 50000,
+  powertrainMonths: 72,
+  powertrainMiles: 70000,
+};
+
+const modelLength = (model: string) => model.trim().replace(/\s+/g, " ").length;
+
+/**
+ * Whether a slide or recommendation is meant for a deal. Like eligibility rules, a
+ * condition is only checked once the deal has the detail it needs.
+ */
+export function audienceMatches(
+  audience: SlideAudience | undefined,
+  customer: PresentationCustomer | undefined
+): boolean {
+  if (!audience || !customer) return true;
+  if (ineligibilityReason(audience, customer) !== null) return false;
+  return (
+    !audience.dealTypes?.length ||
+    !customer.dealType ||
+    audience.dealTypes.includes(customer.dealType)
+  );
+}
+
+/**
+ * The photo for the vehicle's model; the most specific model wins ("RX 350" over "RX").
+ */
+export function findModelImage(
+  modelImages: ModelImage[] | undefined,
+  model: string | undefined
+): ModelImage | undefined {
+  if (!modelImages?.length || !model?.trim()) return undefined;
+  return modelImages
+    .filter((row) => matchesModel(model, row.model))
+    .sort((a, b) => modelLength(b.model) - modelLength(a.model))[0];
+}
+
+/**
+ * The factory warranty for the vehicle's model: the most specific model row, else the
+ * row without a model, else the default Lexus terms.
+ */
+export function findFactoryWarranty(
+  warranties: FactoryWarranty[] | undefined,
+  model: string | undefined
+): FactoryWarranty {
+  const rows = warranties ?? [];
+  const modelRow = model?.trim()
+    ? rows
+        .filter((row) => row.model && matchesModel(model, row.model))
+        .sort((a, b) => modelLength(b.model ?? "") - modelLength(a.model ?? ""))[0]
+    : undefined;
+  return modelRow ?? rows.find((row) => !row.model) ?? DEFAULT_FACTORY_WARRANTY;
+}
+
+/**
+ * Warranty terms as quoted on a slide, e.g. "48 Months / 50,000 Miles".
+ */
+export function formatWarrantyTerm(months: number, miles: number): string {
+  return `${months} Months / ${new Intl.NumberFormat("en-US").format(miles)} Miles`;
+}
+
+/**
+ * The package the closing slide ends on: the first recommendation rule that matches the
+ * deal and names a package in the catalog, else the catalog's recommended package.
+ * @returns The package's name as the catalog spells it, or undefined if there is none
+ */
+export function recommendedPackageName(
+  recommendations: PackageRecommendation[] | undefined,
+  packages: PackageTier[],
+  customer: PresentationCustomer | undefined
+): string | undefined {
+  const findPackage = (name: string) =>
+    packages.find((pkg) => pkg.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  for (const recommendation of recommendations ?? []) {
+    if (!audienceMatches(recommendation.audience, customer)) continue;
+    const pkg = findPackage(recommendation.packageName);
+    if (pkg) return pkg.name;
+  }
+  return packages.find((pkg) => pkg.isRecommended ?? pkg.is_recommended)?.name;
+}
+
+/**
+ * The slides to present for a deal, in order: hidden slides and slides meant for other
+ * deals are left out, model photos replace the default ones, and the warranty
+ * placeholders are filled in for the vehicle.
+ */
+export function personalizeSlides(
+  deck: PresentationDeck,
+  customer: PresentationCustomer | undefined
+): PresentationSlide[] {
+  const warranty = findFactoryWarranty(deck.warranties, customer?.model);
+  const basicWarranty = formatWarrantyTerm(warranty.basicMonths, warranty.basicMiles);
+  const powertrainWarranty = formatWarrantyTerm(
+    warranty.powertrainMonths,
+    warranty.powertrainMiles
+  );
+  const fill = (text: string) =>
+    text
+      .replace(/\{basicWarranty\}/g, basicWarranty)
+      .replace(/\{powertrainWarranty\}/g, powertrainWarranty);
+
+  return visibleSlides(deck.slides)
+    .filter((slide) => audienceMatches(slide.audience, customer))
+    .map((slide) => {
+      const modelImage = findModelImage(slide.modelImages, customer?.model);
+      return mapSlideText(modelImage ? { ...slide, image: modelImage.image } : slide, fill);
+    });
+}
+
+// A slide's audience as edited in the admin panel
+export interface AudienceInputs extends EligibilityInputs {
+  dealTypes: DealType[];
+}
+
+export function audienceInputsFromAudience(audience: SlideAudience | undefined): AudienceInputs {
+  return { ...eligibilityInputsFromRule(audience), dealTypes: audience?.dealTypes ?? [] };
+}
+
+/**
+ * Builds the audience to save from the admin form.
+ * @returns The audience, or undefined when the slide is for every deal
+ * @throws Error with a message for the form when a value is invalid
+ */
+export function parseAudienceInputs(inputs: AudienceInputs): SlideAudience | undefined {
+  const audience: SlideAudience = {
+    ...parseEligibilityInputs(inputs),
+    ...(inputs.dealTypes.length > 0 ? { dealTypes: inputs.dealTypes } : {}),
+  };
+  return Object.keys(audience).length > 0 ? audience : undefined;
+}
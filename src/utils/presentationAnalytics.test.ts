@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  addSessionToStats,
+  clearPresentationStats,
+  EMPTY_PRESENTATION_STATS,
+  isSkip,
+  loadPresentationStats,
+  savePresentationStats,
+  summarizeSession,
+  type SlideVisit,
+} from "./presentationAnalytics";
+
+const visit = (slideId: string, slideNumber: number, seconds: number): SlideVisit => ({
+  slideId,
+  slideNumber,
+  enteredAt: 1_000_000,
+  exitedAt: 1_000_000 + seconds * 1000,
+});
+
+describe("summarizeSession", () => {
+  it("completes a showing that reached the last slide", () => {
+    const session = summarizeSession(
+      [visit("welcome", 1, 8), visit("conclusion", 12, 20)],
+      "conclusion"
+    );
+
+    expect(session.completed).toBe(true);
+    expect(session.lastSlideId).toBe("conclusion");
+  });
+
+  it("records where an unfinished showing was left", () => {
+    const session = summarizeSession(
+      [visit("welcome", 1, 8), visit("rustguard", 6, 30)],
+      "conclusion"
+    );
+
+    expect(session.completed).toBe(false);
+    expect(session.lastSlideId).toBe("rustguard");
+  });
+});
+
+describe("addSessionToStats", () => {
+  it("adds up views, time on screen, skips and drop-offs per slide", () => {
+    const first = summarizeSession(
+      [visit("welcome", 1, 10), visit("warranty", 2, 1), visit("rustguard", 3, 40)],
+      "conclusion"
+    );
+    const second = summarizeSession(
+      [visit("welcome", 1, 6), visit("conclusion", 4, 15)],
+      "conclusion"
+    );
+
+    const stats = addSessionToStats(addSessionToStats(EMPTY_PRESENTATION_STATS, first), second);
+
+    expect(stats.sessions).toBe(2);
+    expect(stats.completed).toBe(1);
+    expect(stats.slides["welcome"]).toEqual({
+      views: 2,
+      skips: 0,
+      totalDwellMs: 16000,
+      dropOffs: 0,
+    });
+    expect(stats.slides["warranty"]?.skips).toBe(1);
+    expect(stats.slides["rustguard"]?.dropOffs).toBe(1);
+    expect(stats.slides["conclusion"]?.dropOffs).toBe(0);
+  });
+
+  it("counts a slide left within two seconds as skipped", () => {
+    expect(isSkip(visit("warranty", 2, 1.9))).toBe(true);
+    expect(isSkip(visit("warranty", 2, 2))).toBe(false);
+  });
+});
+
+describe("stored stats", () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("keeps the totals on the device", () => {
+    const stats = addSessionToStats(
+      EMPTY_PRESENTATION_STATS,
+      summarizeSession([visit("welcome", 1, 5)], "conclusion")
+    );
+    savePresentationStats(stats);
+
+    expect(loadPresentationStats()).toEqual(stats);
+
+    clearPresentationStats();
+    expect(loadPresentationStats()).toEqual(EMPTY_PRESENTATION_STATS);
+  });
+
+  it("starts over when the stored totals are unreadable", () => {
+    window.localStorage.setItem("am_presentation_stats:default", "{not json");
+    expect(loadPresentationStats()).toEqual(EMPTY_PRESENTATION_STATS);
+
+    window.localStorage.setItem("am_presentation_stats:default", JSON.stringify({ sessions: -1 }));
+    expect(loadPresentationStats()).toEqual(EMPTY_PRESENTATION_STATS);
+  });
+});
@@ -0,0 +1,114 @@
+import type { PresentationStats, SlideStats } from "../types";
+import { PresentationStatsSchema } from "../schemas";
+import { getActiveDealershipId } from "../dealerships";
+
+// A slide left sooner than this was skipped rather than watched
+export const SKIP_THRESHOLD_MS = 2000;
+
+const STATS_KEY_PREFIX = "am_presentation_stats";
+
+// One stay on a slide, from when it scrolled into view until the next one did
+export interface SlideVisit {
+  slideId: string;
+  slideNumber: number; // 1-based, in the deck as shown
+  enteredAt: number; // epoch ms
+  exitedAt: number;
+}
+
+// A recorded showing of the presentation
+export interface PresentationSession {
+  visits: SlideVisit[];
+  completed: boolean; // Reached the last slide
+  lastSlideId?: string;
+}
+
+export const EMPTY_PRESENTATION_STATS: PresentationStats = {
+  sessions: 0,
+  completed: 0,
+  slides: {},
+};
+
+const EMPTY_SLIDE_STATS: SlideStats = { views: 0, skips: 0, totalDwellMs: 0, dropOffs: 0 };
+
+export const dwellTime = (visit: SlideVisit) => Math.max(0, visit.exitedAt - visit.enteredAt);
+
+export const isSkip = (visit: SlideVisit) => dwellTime(visit) < SKIP_THRESHOLD_MS;
+
+/**
+ * Wraps up a showing from its slide visits.
+ * @param lastSlideId The final slide of the deck as shown, which counts as completion
+ */
+export function summarizeSession(
+  visits: SlideVisit[],
+  lastSlideId: string | undefined
+): PresentationSession {
+  const lastVisit = visits[visits.length - 1];
+  return {
+    visits,
+    completed: Boolean(lastSlideId) && visits.some((visit) => visit.slideId === lastSlideId),
+    ...(lastVisit ? { lastSlideId: lastVisit.slideId } : {}),
+  };
+}
+
+/**
+ * Adds a showing to the device's totals. A showing that ends before the last slide is a
+ * drop-off on the slide it ended on.
+ */
+export function addSessionToStats(
+  stats: PresentationStats,
+  session: PresentationSession
+): PresentationStats {
+  const slides = { ...stats.slides };
+  for (const visit of session.visits) {
+    const current = slides[visit.slideId] ?? EMPTY_SLIDE_STATS;
+    slides[visit.slideId] = {
+      ...current,
+      views: current.views + 1,
+      skips: current.skips + (isSkip(visit) ? 1 : 0),
+      totalDwellMs: current.totalDwellMs + dwellTime(visit),
+    };
+  }
+  if (!session.completed && session.lastSlideId) {
+    const current = slides[session.lastSlideId] ?? EMPTY_SLIDE_STATS;
+    slides[session.lastSlideId] = { ...current, dropOffs: current.dropOffs + 1 };
+  }
+
+  return {
+    sessions: stats.sessions + 1,
+    completed: stats.completed + (session.completed ? 1 : 0),
+    slides,
+  };
+}
+
+const statsKey = () => `${STATS_KEY_PREFIX}:${getActiveDealershipId() ?? "default"}`;
+
+/**
+ * The active store's presentation totals on this device.
+ */
+export function loadPresentationStats(): PresentationStats {
+  try {
+    const raw = window.localStorage.getItem(statsKey());
+    if (!raw) return EMPTY_PRESENTATION_STATS;
+    const parsed = PresentationStatsSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : EMPTY_PRESENTATION_STATS;
+  } catch {
+    return EMPTY_PRESENTATION_STATS;
+  }
+}
+
+export function savePresentationStats(stats: PresentationStats): void {
+  try {
+    window.localStorage.setItem(statsKey(), JSON.stringify(stats));
+  } catch (error) {
+    // Analytics must never break the presentation.
+    console.warn("Failed to save presentation analytics", error);
+  }
+}
+
+export function clearPresentationStats(): void {
+  try {
+    window.localStorage.removeItem(statsKey());
+  } catch {
+    // Nothing stored to clear
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { ModelPrice } from "../types";
+import {
+  applyPriceMatrix,
+  findModelPrice,
+  modelPriceInputsFromMatrix,
+  parseModelPriceInputs,
+} from "./priceMatrix";
+
+const matrix: ModelPrice[] = [
+  { model: "RX", price: 2495 },
+  { model: "RX 500h", price: 2995 },
+  { model: "RX", condition: "used", price: 1995 },
+  { model: "LX", condition: "new", price: 3495 },
+];
+
+describe("findModelPrice", () => {
+  it("uses the row for the model line when no model is more specific", () => {
+    expect(findModelPrice(matrix, { model: "RX 350", condition: "new" })?.price).toBe(2495);
+  });
+
+  it("prefers the most specific model over the condition", () => {
+    expect(findModelPrice(matrix, { model: "RX 500h F SPORT", condition: "used" })?.price).toBe(
+      2995
+    );
+  });
+
+  it("prefers a row for the vehicle's condition, pricing certified pre-owned as used", () => {
+    expect(findModelPrice(matrix, { model: "RX 350", condition: "used" })?.price).toBe(1995);
+    expect(findModelPrice(matrix, { model: "rx 350", condition: "cpo" })?.price).toBe(1995);
+  });
+
+  it("skips condition rows until the deal's condition is known", () => {
+    expect(findModelPrice(matrix, { model: "RX 350" })?.price).toBe(2495);
+    expect(findModelPrice(matrix, { model: "LX 600" })).toBeUndefined();
+    expect(findModelPrice(matrix, { model: "LX 600", condition: "new" })?.price).toBe(3495);
+  });
+
+  it("falls back to the base price for models not listed or not entered", () => {
+    expect(findModelPrice(matrix, { model: "NX 350", condition: "new" })).toBeUndefined();
+    expect(findModelPrice(matrix, { model: "RXL" })).toBeUndefined();
+    expect(findModelPrice(matrix, { model: "" })).toBeUndefined();
+    expect(findModelPrice(undefined, { model: "RX 350" })).toBeUndefined();
+  });
+});
+
+describe("applyPriceMatrix", () => {
+  it("reprices matching items and returns the rest untouched", () => {
+    const priced = { id: "a", price: 1995, priceMatrix: matrix };
+    const plain = { id: "b", price: 899 };
+    const [repriced, unchanged] = applyPriceMatrix([priced, plain], {
+      model: "RX 500h",
+      condition: "new",
+    });
+
+    expect(repriced).toEqual({ ...priced, price: 2995 });
+    expect(unchanged).toBe(plain);
+  });
+});
+
+describe("parseModelPriceInputs", () => {
+  it("round-trips a saved matrix", () => {
+    expect(parseModelPriceInputs(modelPriceInputsFromMatrix(matrix))).toEqual(matrix);
+  });
+
+  it("drops blank rows and cleans up models and prices", () => {
+    expect(
+      parseModelPriceInputs([
+        { model: "  RX   350 ", condition: "", price: "$2,495" },
+        { model: "", condition: "new", price: "" },
+      ])
+    ).toEqual([{ model: "RX 350", price: 2495 }]);
+    expect(parseModelPriceInputs([{ model: "", condition: "", price: "" }])).toBeUndefined();
+  });
+
+  it("rejects rows without a model or a valid price", () => {
+    expect(() => parseModelPriceInputs([{ model: "", condition: "", price: "100" }])).toThrow(
+      "Enter a model for each price."
+    );
+    expect(() => parseModelPriceInputs([{ model: "RX", condition: "used", price: "-5" }])).toThrow(
+      "Price for RX (Used) must be a non-negative dollar amount."
+    );
+    expect(() => parseModelPriceInputs([{ model: "RX", condition: "", price: "" }])).toThrow(
+      "Price for RX must be a non-negative dollar amount."
+    );
+  });
+
+  it("rejects the same model and condition twice", () => {
+    expect(() =>
+      parseModelPriceInputs([
+        { model: "RX", condition: "new", price: "100" },
+        { model: "rx", condition: "new", price: "200" },
+      ])
+    ).toThrow("rx (New) is listed more than once.");
+  });
+});
@@ -0,0 +1,102 @@
+import type { CustomerInfo, ModelPrice, VehicleCondition } from "../types";
+import { matchesModel } from "./eligibility";
+
+export type PricingVehicle = Pick<CustomerInfo, "model" | "condition">;
+
+export const PRICE_MATRIX_CONDITION_LABELS: Record<NonNullable<ModelPrice["condition"]>, string> = {
+  new: "New",
+  used: "Used",
+};
+
+// Certified pre-owned vehicles take the used price.
+const matrixCondition = (condition: VehicleCondition | undefined) =>
+  condition === "new" ? "new" : condition ? "used" : undefined;
+
+const modelLength = (row: ModelPrice) => row.model.trim().replace(/\s+/g, " ").length;
+
+/**
+ * Finds the row of a price matrix that prices an item for a vehicle. The most specific
+ * model wins ("RX 350" over "RX"), then a row for the vehicle's condition over one for
+ * any condition. A row for a condition only applies once the deal's condition is known.
+ * @returns The row, or undefined when the base price applies
+ */
+export function findModelPrice(
+  matrix: ModelPrice[] | undefined,
+  vehicle: PricingVehicle | undefined
+): ModelPrice | undefined {
+  if (!matrix?.length || !vehicle?.model.trim()) return undefined;
+  const condition = matrixCondition(vehicle.condition);
+
+  return matrix
+    .filter(
+      (row) =>
+        matchesModel(vehicle.model, row.model) && (!row.condition || row.condition === condition)
+    )
+    .sort(
+      (a, b) =>
+        modelLength(b) - modelLength(a) ||
+        Number(Boolean(b.condition)) - Number(Boolean(a.condition))
+    )[0];
+}
+
+/**
+ * Prices items for a vehicle from their price matrices. Items without a matching row
+ * keep their base price and are returned as is.
+ */
+export function applyPriceMatrix<T extends { price: number; priceMatrix?: ModelPrice[] }>(
+  items: T[],
+  vehicle: PricingVehicle | undefined
+): T[] {
+  return items.map((item) => {
+    const row = findModelPrice(item.priceMatrix, vehicle);
+    return row ? { ...item, price: row.price } : item;
+  });
+}
+
+// A price matrix row as edited in the Product Hub
+export interface ModelPriceInput {
+  model: string;
+  condition: "" | "new" | "used";
+  price: string;
+}
+
+export function modelPriceInputsFromMatrix(matrix: ModelPrice[] | undefined): ModelPriceInput[] {
+  return (matrix ?? []).map((row) => ({
+    model: row.model,
+    condition: row.condition ?? "",
+    price: row.price.toString(),
+  }));
+}
+
+/**
+ * Builds the matrix to save from the Product Hub rows. Blank rows are dropped.
+ * @returns The rows, or undefined when there are none
+ * @throws Error with a message for the editor when a row is invalid
+ */
+export function parseModelPriceInputs(inputs: ModelPriceInput[]): ModelPrice[] | undefined {
+  const seen = new Set<string>();
+  const rows: ModelPrice[] = [];
+
+  for (const input of inputs) {
+    const model = input.model.trim().replace(/\s+/g, " ");
+    const rawPrice = input.price.trim().replace(/[$,\s]/g, "");
+    if (!model && !rawPrice) continue;
+    if (!model) throw new Error("Enter a model for each price.");
+
+    const label = input.condition
+      ? `${model} (${PRICE_MATRIX_CONDITION_LABELS[input.condition]})`
+      : model;
+    const price = Number(rawPrice);
+    if (!rawPrice || !Number.isFinite(price) || price < 0) {
+      throw new Error(`Price for ${label} must be a non-negative dollar amount.`);
+    }
+
+    const key = `${model.toLowerCase()}|${input.condition}`;
+    if (seen.has(key)) throw new Error(`${label} is listed more than once.`);
+    seen.add(key);
+
+    rows.push({ model, ...(input.condition ? { condition: input.condition } : {}), price });
+  }
+
+  return rows.length > 0 ? rows : undefined;
+}
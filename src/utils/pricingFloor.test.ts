@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFloorCheckLines,
+  checkPricingFloors,
+  describePriceApproval,
+  overridesKey,
+} from "./pricingFloor";
+import type { AlaCarteOption, PackageTier } from "../types";
+
+const lines = [
+  { id: "gold", name: "Gold Package", standardPrice: 2500, standardCost: 900 },
+  { id: "evernew", name: "EverNew", standardPrice: 800, standardCost: 200 },
+];
+
+describe("checkPricingFloors", () => {
+  it("applies overrides before computing gross profit", () => {
+    const result = checkPricingFloors(lines, { gold: { price: 2000 } }, {});
+
+    expect(result.lines[0]).toMatchObject({ price: 2000, cost: 900, grossProfit: 1100 });
+    expect(result.lines[0]?.isOverridden).toBe(true);
+    expect(result.lines[1]?.isOverridden).toBe(false);
+    expect(result.dealGrossProfit).toBe(1700);
+    expect(result.violations).toEqual([]);
+  });
+
+  it("flags overridden items below the item floor", () => {
+    const result = checkPricingFloors(
+      lines,
+      { gold: { price: 1200 }, evernew: { price: 700 } },
+      { minItemGrossProfit: 400 }
+    );
+
+    expect(result.violations).toEqual([
+      { id: "gold", name: "Gold Package", grossProfit: 300, floor: 400 },
+    ]);
+  });
+
+  it("never flags items at standard pricing", () => {
+    const result = checkPricingFloors(
+      lines,
+      {},
+      { minItemGrossProfit: 1000, minDealGrossProfit: 5000 }
+    );
+
+    expect(result.violations).toEqual([]);
+  });
+
+  it("flags the deal when an override takes total gross profit below the deal floor", () => {
+    const result = checkPricingFloors(
+      lines,
+      { evernew: { price: 500 } },
+      { minItemGrossProfit: 100, minDealGrossProfit: 2000 }
+    );
+
+    expect(result.violations).toEqual([
+      { id: null, name: "Total deal", grossProfit: 1900, floor: 2000 },
+    ]);
+  });
+
+  it("uses cost overrides when present", () => {
+    const result = checkPricingFloors(
+      lines,
+      { evernew: { cost: 750 } },
+      { minItemGrossProfit: 100 }
+    );
+
+    expect(result.violations.map((v) => v.id)).toEqual(["evernew"]);
+  });
+
+  it("needs approval for any override while a floor is set", () => {
+    const policy = { minDealGrossProfit: 500 };
+
+    expect(checkPricingFloors(lines, { evernew: { price: 750 } }, policy)).toMatchObject({
+      violations: [],
+      needsApproval: true,
+    });
+    expect(checkPricingFloors(lines, {}, policy).needsApproval).toBe(false);
+    expect(checkPricingFloors(lines, { evernew: { price: 750 } }, {}).needsApproval).toBe(false);
+  });
+});
+
+describe("buildFloorCheckLines", () => {
+  const gold = { id: "gold", name: "Gold", price: 2500, cost: 900, features: [] } as PackageTier;
+  const evernew = { id: "evernew", name: "EverNew", price: 800, cost: 200 } as AlaCarteOption;
+
+  it("lists the package and add-ons at their standard prices", () => {
+    const built = buildFloorCheckLines({
+      selectedPackage: gold,
+      selectedAddOns: [evernew],
+      basePackagePricesById: { gold: 2700 },
+      basePackageCostsById: {},
+      baseAddonPricesById: {},
+      baseAddonCostsById: { evernew: 250 },
+    });
+
+    expect(built).toEqual([
+      { id: "gold", name: "Gold Package", standardPrice: 2700, standardCost: 900 },
+      { id: "evernew", name: "EverNew", standardPrice: 800, standardCost: 250 },
+    ]);
+  });
+
+  it("counts the You Pick 2 bundle at its bundle price and the items' standard cost", () => {
+    const tint = { id: "tint", name: "Tint", price: 400, cost: 150 } as AlaCarteOption;
+    const built = buildFloorCheckLines({
+      selectedPackage: null,
+      selectedAddOns: [],
+      basePackagePricesById: {},
+      basePackageCostsById: {},
+      baseAddonPricesById: {},
+      baseAddonCostsById: { evernew: 250 },
+      pick2: { price: 300, items: [evernew, tint] },
+    });
+
+    expect(built).toEqual([
+      { id: "pick2", name: "You Pick 2 (EverNew + Tint)", standardPrice: 300, standardCost: 400 },
+    ]);
+  });
+
+  it("catches a thin You Pick 2 bundle dragging the deal below the floor", () => {
+    const selection = {
+      selectedPackage: gold,
+      selectedAddOns: [],
+      basePackagePricesById: {},
+      basePackageCostsById: {},
+      baseAddonPricesById: {},
+      baseAddonCostsById: {},
+    };
+    const overrides = { gold: { price: 2000 } };
+    const policy = { minDealGrossProfit: 1000 };
+
+    const withoutPick2 = buildFloorCheckLines(selection);
+    const withPick2 = buildFloorCheckLines({
+      ...selection,
+      pick2: { price: 50, items: [evernew] },
+    });
+
+    expect(checkPricingFloors(withoutPick2, overrides, policy).violations).toEqual([]);
+    expect(checkPricingFloors(withPick2, overrides, policy).violations).toEqual([
+      { id: null, name: "Total deal", grossProfit: 950, floor: 1000 },
+    ]);
+  });
+
+  it("catches a deal that drops below the floor when an add-on is removed", () => {
+    const selection = {
+      selectedPackage: gold,
+      basePackagePricesById: {},
+      basePackageCostsById: {},
+      baseAddonPricesById: {},
+      baseAddonCostsById: {},
+    };
+    const overrides = { gold: { price: 1500 } };
+    const policy = { minDealGrossProfit: 1000 };
+
+    const withAddOn = buildFloorCheckLines({ ...selection, selectedAddOns: [evernew] });
+    const without = buildFloorCheckLines({ ...selection, selectedAddOns: [] });
+
+    expect(checkPricingFloors(withAddOn, overrides, policy).violations).toEqual([]);
+    expect(checkPricingFloors(without, overrides, policy).violations).toHaveLength(1);
+  });
+});
+
+describe("overridesKey", () => {
+  it("ignores key order", () => {
+    expect(overridesKey({ a: { price: 1 }, b: { cost: 2 } })).toBe(
+      overridesKey({ b: { cost: 2 }, a: { price: 1 } })
+    );
+    expect(overridesKey({ a: { price: 1 } })).not.toBe(overridesKey({ a: { price: 2 } }));
+  });
+});
+
+describe("describePriceApproval", () => {
+  it("names the approver, method and reason", () => {
+    const text = describePriceApproval({
+      method: "pin",
+      approvedBy: { uid: "manager-1", name: "Pat Manager" },
+      approvedAt: new Date(2026, 2, 4, 15, 30).getTime(),
+      reason: "Competitor match",
+      overrides: {},
+    });
+
+    expect(text).toMatch(/^Approved by Pat Manager \(manager PIN\) on Mar 4, 2026/);
+    expect(text).toMatch(/: Competitor match$/);
+  });
+});
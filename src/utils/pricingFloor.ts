@@ -0,0 +1,184 @@
+import type {
+  AlaCarteOption,
+  PackageTier,
+  PriceApproval,
+  PriceOverrides,
+  PricingPolicy,
+} from "../types";
+
+export interface FloorCheckLine {
+  id: string;
+  name: string;
+  standardPrice: number;
+  standardCost: number;
+}
+
+export interface PricedFloorLine extends FloorCheckLine {
+  price: number;
+  cost: number;
+  grossProfit: number;
+  isOverridden: boolean;
+}
+
+export interface FloorViolation {
+  // null for the deal-level floor
+  id: string | null;
+  name: string;
+  grossProfit: number;
+  floor: number;
+}
+
+export interface FloorCheckResult {
+  lines: PricedFloorLine[];
+  dealGrossProfit: number;
+  violations: FloorViolation[];
+  // Whether saving the deal needs a manager's approval (see checkPricingFloors)
+  needsApproval: boolean;
+}
+
+export interface FloorCheckSelection {
+  selectedPackage: PackageTier | null;
+  selectedAddOns: AlaCarteOption[];
+  basePackagePricesById: Record<string, number>;
+  basePackageCostsById: Record<string, number>;
+  baseAddonPricesById: Record<string, number>;
+  baseAddonCostsById: Record<string, number>;
+  // The You Pick 2 bundle, when the deal has one
+  pick2?: { price: number; items: AlaCarteOption[] };
+}
+
+// Line id of the You Pick 2 bundle, which is priced as a whole and never overridden
+export const PICK2_FLOOR_LINE_ID = "pick2";
+
+/**
+ * The deal's lines at standard (pre-override) pricing, as the floors are checked.
+ * The You Pick 2 bundle is one line at its bundle price and the standard cost of the
+ * items picked, so a thin bundle counts against the deal floor.
+ */
+export function buildFloorCheckLines(selection: FloorCheckSelection): FloorCheckLine[] {
+  const lines: FloorCheckLine[] = [];
+  const { selectedPackage } = selection;
+  if (selectedPackage) {
+    lines.push({
+      id: selectedPackage.id,
+      name: `${selectedPackage.name} Package`,
+      standardPrice: selection.basePackagePricesById[selectedPackage.id] ?? selectedPackage.price,
+      standardCost: selection.basePackageCostsById[selectedPackage.id] ?? selectedPackage.cost,
+    });
+  }
+  selection.selectedAddOns.forEach((item) => {
+    lines.push({
+      id: item.id,
+      name: item.name,
+      standardPrice: selection.baseAddonPricesById[item.id] ?? item.price,
+      standardCost: selection.baseAddonCostsById[item.id] ?? item.cost,
+    });
+  });
+  const { pick2 } = selection;
+  if (pick2 && pick2.items.length > 0) {
+    lines.push({
+      id: PICK2_FLOOR_LINE_ID,
+      name: `You Pick 2 (${pick2.items.map((item) => item.name).join(" + ")})`,
+      standardPrice: pick2.price,
+      standardCost: pick2.items.reduce(
+        (sum, item) => sum + (selection.baseAddonCostsById[item.id] ?? item.cost),
+        0
+      ),
+    });
+  }
+  return lines;
+}
+
+/**
+ * Applies overrides to the selected lines and checks them against the pricing policy.
+ * Only overrides can trip a floor: a line at standard pricing never needs approval,
+ * even if the catalog itself is priced below the floor.
+ *
+ * While the policy sets a floor, any override needs approval, even one that trips none:
+ * the Firestore rules can't add up a deal's gross profit, so they hold every quote with
+ * overrides to a granted approval instead (firestore.rules isNewQuote).
+ */
+export function checkPricingFloors(
+  lines: FloorCheckLine[],
+  overrides: PriceOverrides,
+  policy: PricingPolicy
+): FloorCheckResult {
+  const pricedLines: PricedFloorLine[] = lines.map((line) => {
+    const override = overrides[line.id];
+    const price = override?.price ?? line.standardPrice;
+    const cost = override?.cost ?? line.standardCost;
+    return {
+      ...line,
+      price,
+      cost,
+      grossProfit: price - cost,
+      isOverridden: typeof override?.price === "number" || typeof override?.cost === "number",
+    };
+  });
+
+  const dealGrossProfit = pricedLines.reduce((sum, line) => sum + line.grossProfit, 0);
+  const violations: FloorViolation[] = [];
+
+  const itemFloor = policy.minItemGrossProfit;
+  if (typeof itemFloor === "number") {
+    pricedLines.forEach((line) => {
+      if (line.isOverridden && line.grossProfit < itemFloor) {
+        violations.push({
+          id: line.id,
+          name: line.name,
+          grossProfit: line.grossProfit,
+          floor: itemFloor,
+        });
+      }
+    });
+  }
+
+  const dealFloor = policy.minDealGrossProfit;
+  const hasOverride = pricedLines.some((line) => line.isOverridden);
+  if (typeof dealFloor === "number" && hasOverride && dealGrossProfit < dealFloor) {
+    violations.push({
+      id: null,
+      name: "Total deal",
+      grossProfit: dealGrossProfit,
+      floor: dealFloor,
+    });
+  }
+
+  const hasFloor = typeof itemFloor === "number" || typeof dealFloor === "number";
+  const needsApproval = violations.length > 0 || (hasFloor && Object.keys(overrides).length > 0);
+
+  return { lines: pricedLines, dealGrossProfit, violations, needsApproval };
+}
+
+/**
+ * Returns a stable key for a set of overrides, so an approval can be tied to
+ * exactly the overrides it was granted for.
+ */
+export function overridesKey(overrides: PriceOverrides): string {
+  return JSON.stringify(
+    Object.keys(overrides)
+      .sort()
+      .map((id) => [id, overrides[id]?.price ?? null, overrides[id]?.cost ?? null])
+  );
+}
+
+const APPROVAL_METHOD_LABELS: Record<PriceApproval["method"], string> = {
+  pin: "manager PIN",
+  remote: "remote request",
+  self: "manager",
+};
+
+/**
+ * One-line description of a price approval for the manager copy of the agreement.
+ */
+export function describePriceApproval(approval: PriceApproval): string {
+  const approvedAt = new Date(approval.approvedAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const approver = approval.approvedBy.name ?? approval.approvedBy.uid;
+  return `Approved by ${approver} (${APPROVAL_METHOD_LABELS[approval.method]}) on ${approvedAt}: ${approval.reason}`;
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { Promotion } from "../types";
+import { applyPromotions, promotionBadgeFor, promotionPriceFor } from "./promotions";
+
+const NOW = Date.UTC(2026, 3, 15);
+const DAY = 24 * 60 * 60 * 1000;
+
+const promo = (overrides: Partial<Promotion> & Pick<Promotion, "id" | "kind">): Promotion => ({
+  name: overrides.id,
+  enabled: true,
+  stackable: false,
+  packageIds: [],
+  alaCarteIds: [],
+  ...overrides,
+});
+
+describe("promotionPriceFor", () => {
+  it("takes a percentage off targeted packages only", () => {
+    const springSale = promo({
+      id: "spring",
+      kind: "package_percent",
+      percentOff: 10,
+      packageIds: ["gold"],
+    });
+
+    expect(promotionPriceFor("package", "gold", 2000, [springSale], { now: NOW })).toEqual({
+      price: 1800,
+      applied: [{ promotionId: "spring", name: "spring", itemId: "gold", amount: 200 }],
+    });
+    expect(promotionPriceFor("package", "elite", 3000, [springSale], { now: NOW }).price).toBe(
+      3000
+    );
+  });
+
+  it("ignores promotions that are paused or outside their dates", () => {
+    const promotions = [
+      promo({ id: "paused", kind: "alacarte_amount", amountOff: 50, enabled: false }),
+      promo({ id: "later", kind: "alacarte_amount", amountOff: 50, effectiveFrom: NOW + DAY }),
+      promo({ id: "over", kind: "alacarte_amount", amountOff: 50, effectiveUntil: NOW }),
+    ];
+
+    expect(promotionPriceFor("alacarte", "tint", 400, promotions, { now: NOW }).applied).toEqual(
+      []
+    );
+  });
+
+  it("never takes a price below zero", () => {
+    const promotions = [promo({ id: "big", kind: "alacarte_amount", amountOff: 500 })];
+    expect(promotionPriceFor("alacarte", "tint", 400, promotions, { now: NOW }).price).toBe(0);
+  });
+
+  it("prices bundle items only when a qualifying package is selected", () => {
+    const bundle = promo({
+      id: "gold-tint",
+      kind: "package_bundle",
+      packageIds: ["gold"],
+      alaCarteIds: ["tint"],
+      bundlePrice: 199,
+    });
+
+    expect(promotionPriceFor("alacarte", "tint", 400, [bundle], { now: NOW }).price).toBe(400);
+    expect(
+      promotionPriceFor("alacarte", "tint", 400, [bundle], { now: NOW, selectedPackageId: "elite" })
+        .price
+    ).toBe(400);
+    expect(
+      promotionPriceFor("alacarte", "tint", 400, [bundle], { now: NOW, selectedPackageId: "gold" })
+    ).toEqual({
+      price: 199,
+      applied: [{ promotionId: "gold-tint", name: "gold-tint", itemId: "tint", amount: 201 }],
+    });
+  });
+
+  it("combines stackable promotions, bundle price first", () => {
+    const promotions = [
+      promo({ id: "fifty", kind: "alacarte_amount", amountOff: 50, stackable: true }),
+      promo({
+        id: "bundle",
+        kind: "package_bundle",
+        alaCarteIds: ["tint"],
+        bundlePrice: 300,
+        stackable: true,
+      }),
+    ];
+
+    const result = promotionPriceFor("alacarte", "tint", 400, promotions, {
+      now: NOW,
+      selectedPackageId: "gold",
+    });
+    expect(result.price).toBe(250);
+    expect(result.applied.map((applied) => [applied.promotionId, applied.amount])).toEqual([
+      ["bundle", 100],
+      ["fifty", 50],
+    ]);
+  });
+
+  it("gives the better of a non-stackable promotion and the stackable ones", () => {
+    const stackable = [
+      promo({ id: "a", kind: "alacarte_amount", amountOff: 40, stackable: true }),
+      promo({ id: "b", kind: "alacarte_amount", amountOff: 40, stackable: true }),
+    ];
+    const exclusive = promo({ id: "exclusive", kind: "alacarte_amount", amountOff: 100 });
+    const small = promo({ id: "small", kind: "alacarte_amount", amountOff: 60 });
+
+    expect(
+      promotionPriceFor("alacarte", "tint", 400, [...stackable, exclusive], { now: NOW }).applied
+    ).toEqual([{ promotionId: "exclusive", name: "exclusive", itemId: "tint", amount: 100 }]);
+    expect(
+      promotionPriceFor("alacarte", "tint", 400, [...stackable, small], { now: NOW }).price
+    ).toBe(320);
+  });
+});
+
+describe("applyPromotions", () => {
+  it("returns the promoted items and what was applied to each", () => {
+    const items = [
+      { id: "tint", price: 400 },
+      { id: "ppf", price: 1200 },
+    ];
+    const promotions = [
+      promo({ id: "tint-deal", kind: "alacarte_amount", amountOff: 100, alaCarteIds: ["tint"] }),
+    ];
+
+    const result = applyPromotions(items, "alacarte", promotions, { now: NOW });
+
+    expect(result.items).toEqual([
+      { id: "tint", price: 300 },
+      { id: "ppf", price: 1200 },
+    ]);
+    expect(Object.keys(result.appliedById)).toEqual(["tint"]);
+    expect(items[0]?.price).toBe(400);
+  });
+});
+
+describe("promotionBadgeFor", () => {
+  it("advertises a bundle before its package is selected", () => {
+    const bundle = promo({
+      id: "gold-tint",
+      name: "Gold + Tint $199",
+      kind: "package_bundle",
+      packageIds: ["gold"],
+      alaCarteIds: ["tint"],
+      bundlePrice: 199,
+    });
+
+    expect(promotionBadgeFor("alacarte", "tint", [bundle], NOW)).toBe("Gold + Tint $199");
+    expect(promotionBadgeFor("alacarte", "ppf", [bundle], NOW)).toBeUndefined();
+    expect(promotionBadgeFor("package", "gold", [bundle], NOW)).toBeUndefined();
+  });
+});
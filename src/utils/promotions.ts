@@ -0,0 +1,156 @@
+import type { AppliedPromotion, Promotion } from "../types";
+import { isEffective } from "./effectiveDates";
+
+export type PromotionItemKind = "package" | "alacarte";
+
+export interface PromotionContext {
+  now: number; // epoch ms
+  selectedPackageId?: string | null; // Qualifies package_bundle offers
+}
+
+// Stackable promotions are applied in this order, so a percentage comes off a bundle
+// price rather than the other way round.
+const KIND_ORDER: Record<Promotion["kind"], number> = {
+  package_bundle: 0,
+  package_percent: 1,
+  alacarte_amount: 2,
+};
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const includesOrAll = (ids: string[], id: string) => ids.length === 0 || ids.includes(id);
+
+export function isPromotionLive(promotion: Promotion, now: number): boolean {
+  return promotion.enabled && isEffective(promotion, now);
+}
+
+/**
+ * Whether a promotion is advertised on an item, regardless of whether the deal
+ * qualifies for it yet (a bundle is advertised before its package is selected).
+ */
+export function promotionTargets(
+  promotion: Promotion,
+  kind: PromotionItemKind,
+  itemId: string
+): boolean {
+  switch (promotion.kind) {
+    case "package_percent":
+      return kind === "package" && includesOrAll(promotion.packageIds, itemId);
+    case "alacarte_amount":
+      return kind === "alacarte" && includesOrAll(promotion.alaCarteIds, itemId);
+    case "package_bundle":
+      return kind === "alacarte" && promotion.alaCarteIds.includes(itemId);
+  }
+}
+
+function qualifies(
+  promotion: Promotion,
+  kind: PromotionItemKind,
+  itemId: string,
+  context: PromotionContext
+): boolean {
+  if (!isPromotionLive(promotion, context.now)) return false;
+  if (!promotionTargets(promotion, kind, itemId)) return false;
+  if (promotion.kind !== "package_bundle") return true;
+  return Boolean(
+    context.selectedPackageId && includesOrAll(promotion.packageIds, context.selectedPackageId)
+  );
+}
+
+function priceAfter(promotion: Promotion, price: number): number {
+  switch (promotion.kind) {
+    case "package_percent":
+      return roundToCents(price * (1 - (promotion.percentOff ?? 0) / 100));
+    case "alacarte_amount":
+      return Math.max(0, roundToCents(price - (promotion.amountOff ?? 0)));
+    case "package_bundle":
+      return Math.min(price, promotion.bundlePrice ?? price);
+  }
+}
+
+function applyInOrder(
+  promotions: Promotion[],
+  itemId: string,
+  price: number
+): { price: number; applied: AppliedPromotion[] } {
+  const applied: AppliedPromotion[] = [];
+  let current = price;
+  for (const promotion of promotions) {
+    const next = priceAfter(promotion, current);
+    if (next < current) {
+      applied.push({
+        promotionId: promotion.id,
+        name: promotion.name,
+        itemId,
+        amount: roundToCents(current - next),
+      });
+      current = next;
+    }
+  }
+  return { price: current, applied };
+}
+
+/**
+ * Prices one item under the promotions it qualifies for.
+ * Stacking: stackable promotions combine with each other; a non-stackable promotion
+ * never combines with anything. The customer gets whichever option is cheapest.
+ */
+export function promotionPriceFor(
+  kind: PromotionItemKind,
+  itemId: string,
+  price: number,
+  promotions: Promotion[],
+  context: PromotionContext
+): { price: number; applied: AppliedPromotion[] } {
+  const candidates = promotions.filter((promotion) => qualifies(promotion, kind, itemId, context));
+  const stackable = candidates
+    .filter((promotion) => promotion.stackable)
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+  const options = [
+    ...candidates
+      .filter((promotion) => !promotion.stackable)
+      .map((promotion) => applyInOrder([promotion], itemId, price)),
+    applyInOrder(stackable, itemId, price),
+  ];
+
+  return options.reduce((best, option) => (option.price < best.price ? option : best), {
+    price,
+    applied: [] as AppliedPromotion[],
+  });
+}
+
+/**
+ * Applies promotions to a list of catalog items.
+ * @returns The items at their promotional prices, and the promotions applied to each by id
+ */
+export function applyPromotions<T extends { id: string; price: number }>(
+  items: T[],
+  kind: PromotionItemKind,
+  promotions: Promotion[],
+  context: PromotionContext
+): { items: T[]; appliedById: Record<string, AppliedPromotion[]> } {
+  const appliedById: Record<string, AppliedPromotion[]> = {};
+  if (promotions.length === 0) return { items, appliedById };
+
+  const priced = items.map((item) => {
+    const result = promotionPriceFor(kind, item.id, item.price, promotions, context);
+    if (result.applied.length === 0) return item;
+    appliedById[item.id] = result.applied;
+    return { ...item, price: result.price };
+  });
+  return { items: priced, appliedById };
+}
+
+/**
+ * The badge to show on an item: the name of the first live promotion advertised on it.
+ */
+export function promotionBadgeFor(
+  kind: PromotionItemKind,
+  itemId: string,
+  promotions: Promotion[],
+  now: number
+): string | undefined {
+  return promotions.find(
+    (promotion) => isPromotionLive(promotion, now) && promotionTargets(promotion, kind, itemId)
+  )?.name;
+}
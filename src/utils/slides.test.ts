@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { PresentationSlide } from "../types";
+import { DEFAULT_BRANDING } from "../constants";
+import {
+  cleanSlide,
+  createSlide,
+  fillSlideText,
+  moveSlide,
+  splitBulletLabel,
+  visibleSlides,
+} from "./slides";
+
+const slide = (id: string, overrides: Partial<PresentationSlide> = {}): PresentationSlide => ({
+  id,
+  layout: "image-right",
+  title: id,
+  ...overrides,
+});
+
+describe("fillSlideText", () => {
+  it("fills in the store's name and location", () => {
+    expect(
+      fillSlideText("{store} of {location}", {
+        ...DEFAULT_BRANDING,
+        name: "Priority",
+        location: "Norfolk",
+      })
+    ).toBe("Priority of Norfolk");
+  });
+});
+
+describe("splitBulletLabel", () => {
+  it("bolds a short lead-in and leaves other bullets as text", () => {
+    expect(splitBulletLabel("Basic Warranty: 48 Months")).toEqual({
+      label: "Basic Warranty",
+      text: "48 Months",
+    });
+    expect(splitBulletLabel("Covers paint and interior")).toEqual({
+      text: "Covers paint and interior",
+    });
+  });
+});
+
+describe("deck editing", () => {
+  const deck = [slide("a"), slide("b", { hidden: true }), slide("c")];
+
+  it("skips hidden slides when presenting", () => {
+    expect(visibleSlides(deck).map((s) => s.id)).toEqual(["a", "c"]);
+  });
+
+  it("moves a slide up or down and ignores moves past either end", () => {
+    expect(moveSlide(deck, 2, -1).map((s) => s.id)).toEqual(["a", "c", "b"]);
+    expect(moveSlide(deck, 0, 1).map((s) => s.id)).toEqual(["b", "a", "c"]);
+    expect(moveSlide(deck, 0, -1)).toBe(deck);
+    expect(moveSlide(deck, 2, 1)).toBe(deck);
+  });
+
+  it("gives a new slide an id the deck doesn't use yet", () => {
+    expect(createSlide([slide("slide-2"), slide("slide-3")]).id).toBe("slide-4");
+    expect(createSlide([]).id).toBe("slide-1");
+  });
+});
+
+describe("cleanSlide", () => {
+  it("trims text and leaves out empty fields, bullets, callouts and footers", () => {
+    const cleaned = cleanSlide(
+      slide("rustguard", {
+        title: "  RustGuard Pro ",
+        kicker: "   ",
+        bullets: ["Sealant: penetrates seams", "", "  "],
+        callouts: [
+          { title: "Salt", text: "Blocks brine", icon: "Waves" },
+          { title: " ", text: "" },
+        ],
+        footer: { quote: " ", label: "Note" },
+      })
+    );
+
+    expect(cleaned).toEqual({
+      id: "rustguard",
+      layout: "image-right",
+      title: "RustGuard Pro",
+      bullets: ["Sealant: penetrates seams"],
+      callouts: [{ title: "Salt", text: "Blocks brine", icon: "Waves" }],
+    });
+  });
+
+  it("keeps who the slide is for and its model photos, minus blank rows", () => {
+    const cleaned = cleanSlide(
+      slide("rustguard", {
+        audience: { models: ["RX"], dealTypes: [] },
+        modelImages: [
+          { model: " RX ", image: "/rx.jpg" },
+          { model: "NX", image: " " },
+        ],
+      })
+    );
+
+    expect(cleaned.audience).toEqual({ models: ["RX"] });
+    expect(cleaned.modelImages).toEqual([{ model: "RX", image: "/rx.jpg" }]);
+  });
+
+  it("keeps a hidden flag and a warning footer", () => {
+    expect(
+      cleanSlide(slide("gap", { hidden: true, footer: { quote: "Act now", tone: "warning" } }))
+    ).toMatchObject({ hidden: true, footer: { quote: "Act now", tone: "warning" } });
+  });
+});
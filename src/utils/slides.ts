@@ -0,0 +1,161 @@
+import type { DealershipBranding, PresentationSlide, SlideLayout } from "../types";
+
+export const SLIDE_LAYOUT_LABELS: Record<SlideLayout, string> = {
+  title: "Welcome (customer name)",
+  "image-right": "Text, photo on the right",
+  "image-left": "Photo on the left, text",
+  closing: "Closing (back to the menu)",
+};
+
+// A bullet's bold lead-in, e.g. "Basic Warranty" in "Basic Warranty: 48 Months..."
+const BULLET_LABEL = /^([^:]{1,40}):\s+(\S[\s\S]*)$/;
+
+/**
+ * Fills in {store} and {location} from the store's branding.
+ */
+export function fillSlideText(text: string, branding: DealershipBranding): string {
+  return text.replace(/\{store\}/g, branding.name).replace(/\{location\}/g, branding.location);
+}
+
+/**
+ * Splits a bullet into its bold lead-in and the rest. Bullets without a short
+ * "Label:" lead-in come back as text only.
+ */
+export function splitBulletLabel(bullet: string): { label?: string; text: string } {
+  const match = BULLET_LABEL.exec(bullet);
+  return match?.[1] && match[2] ? { label: match[1], text: match[2] } : { text: bullet };
+}
+
+/**
+ * A copy of the slide with every piece of text run through `fill`.
+ */
+export function mapSlideText(
+  slide: PresentationSlide,
+  fill: (text: string) => string
+): PresentationSlide {
+  return {
+    ...slide,
+    title: fill(slide.title),
+    ...(slide.kicker !== undefined ? { kicker: fill(slide.kicker) } : {}),
+    ...(slide.badge !== undefined ? { badge: fill(slide.badge) } : {}),
+    ...(slide.heading !== undefined ? { heading: fill(slide.heading) } : {}),
+    ...(slide.body !== undefined ? { body: fill(slide.body) } : {}),
+    ...(slide.bullets ? { bullets: slide.bullets.map(fill) } : {}),
+    ...(slide.callouts
+      ? {
+          callouts: slide.callouts.map((callout) => ({
+            ...callout,
+            title: fill(callout.title),
+            text: fill(callout.text),
+          })),
+        }
+      : {}),
+    ...(slide.footer
+      ? {
+          footer: {
+            ...slide.footer,
+            quote: fill(slide.footer.quote),
+            ...(slide.footer.label !== undefined ? { label: fill(slide.footer.label) } : {}),
+            ...(slide.footer.tag !== undefined ? { tag: fill(slide.footer.tag) } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * The slides shown when presenting, in deck order.
+ */
+export function visibleSlides(slides: PresentationSlide[]): PresentationSlide[] {
+  return slides.filter((slide) => !slide.hidden);
+}
+
+/**
+ * Moves a slide up (-1) or down (+1) the deck. Moves past either end are ignored.
+ */
+export function moveSlide(
+  slides: PresentationSlide[],
+  index: number,
+  offset: -1 | 1
+): PresentationSlide[] {
+  const target = index + offset;
+  if (index < 0 || index >= slides.length || target < 0 || target >= slides.length) {
+    return slides;
+  }
+  const next = [...slides];
+  const [moved] = next.splice(index, 1);
+  if (!moved) return slides;
+  next.splice(target, 0, moved);
+  return next;
+}
+
+/**
+ * A blank text-and-photo slide with an id not yet used in the deck.
+ */
+export function createSlide(slides: PresentationSlide[]): PresentationSlide {
+  const ids = new Set(slides.map((slide) => slide.id));
+  let number = slides.length + 1;
+  while (ids.has(`slide-${number}`)) number += 1;
+  return { id: `slide-${number}`, layout: "image-right", title: "New slide" };
+}
+
+const trimmed = (value: string | undefined) => value?.trim() || undefined;
+
+/**
+ * Tidies a slide from the editor for saving: trims text, drops blank bullets, callouts
+ * and model photos, and leaves out empty fields (Firestore rejects undefined).
+ */
+export function cleanSlide(slide: PresentationSlide): PresentationSlide {
+  const bullets = (slide.bullets ?? []).map((bullet) => bullet.trim()).filter(Boolean);
+  const callouts = (slide.callouts ?? [])
+    .map((callout) => ({ ...callout, title: callout.title.trim(), text: callout.text.trim() }))
+    .filter((callout) => callout.title || callout.text);
+  const quote = trimmed(slide.footer?.quote);
+  const modelImages = (slide.modelImages ?? [])
+    .map((row) => ({ model: row.model.trim(), image: row.image.trim() }))
+    .filter((row) => row.model && row.image);
+  const { dealTypes, ...vehicleRule } = slide.audience ?? {};
+  const audience = {
+    ...vehicleRule,
+    ...(dealTypes?.length ? { dealTypes } : {}),
+  };
+  const optionalText = {
+    kicker: trimmed(slide.kicker),
+    badge: trimmed(slide.badge),
+    heading: trimmed(slide.heading),
+    body: trimmed(slide.body),
+    image: trimmed(slide.image),
+    imageAlt: trimmed(slide.imageAlt),
+  };
+
+  return {
+    id: slide.id,
+    layout: slide.layout,
+    title: slide.title.trim(),
+    ...(slide.hidden ? { hidden: true } : {}),
+    ...Object.fromEntries(Object.entries(optionalText).filter(([, value]) => value)),
+    ...(slide.headingIcon ? { headingIcon: slide.headingIcon } : {}),
+    ...(bullets.length > 0 ? { bullets } : {}),
+    ...(callouts.length > 0
+      ? {
+          callouts: callouts.map((callout) => ({
+            title: callout.title,
+            text: callout.text,
+            ...(callout.icon ? { icon: callout.icon } : {}),
+          })),
+        }
+      : {}),
+    ...(slide.footer && quote
+      ? {
+          footer: {
+            quote,
+            ...(trimmed(slide.footer.label) ? { label: trimmed(slide.footer.label) } : {}),
+            ...(trimmed(slide.footer.tag) ? { tag: trimmed(slide.footer.tag) } : {}),
+            ...(slide.footer.tone === "warning" ? { tone: "warning" as const } : {}),
+          },
+        }
+      : {}),
+    ...(Object.keys(audience).length > 0 ? { audience } : {}),
+    ...(modelImages.length > 0 ? { modelImages } : {}),
+  };
+}
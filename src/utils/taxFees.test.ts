@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { TaxFeeConfig } from "../types";
+import {
+  calculateTaxBreakdown,
+  dealTaxLines,
+  EMPTY_TAX_FEE_CONFIG,
+  feeGrossProfit,
+  formatTaxRate,
+} from "./taxFees";
+
+const config: TaxFeeConfig = {
+  taxRates: [
+    { label: "VA Sales Tax", rate: 4.3 },
+    { label: "Local Tax", rate: 1 },
+  ],
+  fees: [
+    { label: "Processing Fee", amount: 899, cost: 0 },
+    { label: "Installation", amount: 150, cost: 60, taxable: true },
+  ],
+};
+
+describe("dealTaxLines", () => {
+  it("treats items as taxable unless marked otherwise", () => {
+    expect(
+      dealTaxLines({ price: 2500 }, [
+        { price: 800, taxable: false },
+        { price: 400, taxable: true },
+      ])
+    ).toEqual([
+      { price: 2500, taxable: true },
+      { price: 800, taxable: false },
+      { price: 400, taxable: true },
+    ]);
+  });
+
+  it("apportions the Pick 2 bundle by the items' catalog prices", () => {
+    const lines = dealTaxLines(null, [], {
+      price: 995,
+      items: [
+        { price: 600, taxable: true },
+        { price: 400, taxable: false },
+      ],
+    });
+
+    expect(lines).toEqual([
+      { price: 597, taxable: true },
+      { price: 398, taxable: false },
+    ]);
+  });
+
+  it("drops empty lines", () => {
+    expect(dealTaxLines(null, [], { price: 995, items: [{ price: 500 }] })).toEqual([
+      { price: 995, taxable: true },
+    ]);
+  });
+});
+
+describe("calculateTaxBreakdown", () => {
+  it("taxes the taxable items and taxable fees, then adds the fees", () => {
+    const breakdown = calculateTaxBreakdown(
+      [
+        { price: 2500, taxable: true },
+        { price: 800, taxable: false },
+      ],
+      config
+    );
+
+    expect(breakdown.subtotal).toBe(3300);
+    expect(breakdown.taxableSubtotal).toBe(2650);
+    expect(breakdown.taxes).toEqual([
+      { label: "VA Sales Tax", rate: 4.3, amount: 113.95 },
+      { label: "Local Tax", rate: 1, amount: 26.5 },
+    ]);
+    expect(breakdown.totalTax).toBe(140.45);
+    expect(breakdown.totalFees).toBe(1049);
+    expect(breakdown.grandTotal).toBe(4489.45);
+  });
+
+  it("leaves the retail total alone without a config", () => {
+    const breakdown = calculateTaxBreakdown([{ price: 995, taxable: true }], EMPTY_TAX_FEE_CONFIG);
+
+    expect(breakdown.taxes).toEqual([]);
+    expect(breakdown.fees).toEqual([]);
+    expect(breakdown.grandTotal).toBe(995);
+  });
+});
+
+describe("feeGrossProfit", () => {
+  it("counts fees less their cost, never tax", () => {
+    const breakdown = calculateTaxBreakdown([{ price: 1000, taxable: true }], config);
+    expect(feeGrossProfit(breakdown)).toBe(989);
+  });
+});
+
+describe("formatTaxRate", () => {
+  it("prints the rate without trailing zeros", () => {
+    expect(formatTaxRate(4.15)).toBe("4.15%");
+    expect(formatTaxRate(6)).toBe("6%");
+  });
+});
@@ -0,0 +1,96 @@
+import type { AlaCarteOption, PackageTier, TaxBreakdown, TaxFeeConfig } from "../types";
+
+export const EMPTY_TAX_FEE_CONFIG: TaxFeeConfig = { taxRates: [], fees: [] };
+
+// One retail amount in the deal and whether sales tax applies to it.
+export interface TaxLine {
+  price: number;
+  taxable: boolean;
+}
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + amount, 0);
+
+export const isTaxable = (item: { taxable?: boolean }) => item.taxable !== false;
+
+/**
+ * Splits a deal into tax lines. The Pick 2 bundle is sold at one price for items that
+ * may be taxed differently, so its price is apportioned by the items' catalog prices.
+ */
+export function dealTaxLines(
+  selectedPackage: Pick<PackageTier, "price" | "taxable"> | null,
+  customPackageItems: Array<Pick<AlaCarteOption, "price" | "taxable">>,
+  pick2?: { price: number; items: Array<Pick<AlaCarteOption, "price" | "taxable">> }
+): TaxLine[] {
+  const lines: TaxLine[] = [
+    ...(selectedPackage
+      ? [{ price: selectedPackage.price, taxable: isTaxable(selectedPackage) }]
+      : []),
+    ...customPackageItems.map((item) => ({ price: item.price, taxable: isTaxable(item) })),
+  ];
+
+  if (pick2 && pick2.items.length > 0) {
+    const listTotal = sum(pick2.items.map((item) => item.price));
+    const taxableShare =
+      listTotal > 0
+        ? sum(pick2.items.filter(isTaxable).map((item) => item.price)) / listTotal
+        : pick2.items.every(isTaxable)
+          ? 1
+          : 0;
+    const taxablePrice = roundToCents(pick2.price * taxableShare);
+    lines.push({ price: taxablePrice, taxable: true });
+    lines.push({ price: roundToCents(pick2.price - taxablePrice), taxable: false });
+  }
+
+  return lines.filter((line) => line.price > 0);
+}
+
+/**
+ * Adds sales tax and dealer fees to a deal.
+ * Each rate is applied to the whole taxable subtotal and rounded to the cent separately,
+ * the way the lines print on the deal jacket.
+ */
+export function calculateTaxBreakdown(lines: TaxLine[], config: TaxFeeConfig): TaxBreakdown {
+  const subtotal = roundToCents(sum(lines.map((line) => line.price)));
+  const taxableSubtotal = roundToCents(
+    sum(lines.filter((line) => line.taxable).map((line) => line.price)) +
+      sum(config.fees.filter((fee) => fee.taxable).map((fee) => fee.amount))
+  );
+  const taxes = config.taxRates.map((taxRate) => ({
+    label: taxRate.label,
+    rate: taxRate.rate,
+    amount: roundToCents((taxableSubtotal * taxRate.rate) / 100),
+  }));
+  const fees = config.fees.map((fee) => ({
+    label: fee.label,
+    amount: fee.amount,
+    cost: fee.cost ?? 0,
+  }));
+  const totalTax = roundToCents(sum(taxes.map((tax) => tax.amount)));
+  const totalFees = roundToCents(sum(fees.map((fee) => fee.amount)));
+
+  return {
+    subtotal,
+    taxableSubtotal,
+    taxes,
+    fees,
+    totalTax,
+    totalFees,
+    grandTotal: roundToCents(subtotal + totalFees + totalTax),
+  };
+}
+
+/**
+ * Gross profit on the fees. Sales tax is collected for the state and is never profit.
+ */
+export function feeGrossProfit(breakdown: TaxBreakdown): number {
+  return roundToCents(sum(breakdown.fees.map((fee) => fee.amount - fee.cost)));
+}
+
+/**
+ * Formats a tax rate for a line label, e.g. 4.15 -> "4.15%".
+ */
+export function formatTaxRate(rate: number): string {
+  return `${Number(rate.toFixed(3))}%`;
+}
@@ -9,20 +9,38 @@ interface Pick2TelemetryPayload {
   ts?: number;
 }
 
+interface TelemetryConfig {
+  telemetryEnabled?: boolean;
+  telemetrySampleRate?: number;
+}
+
 let telemetryEnabled = false;
 let telemetrySampleRate = 1;
+let presentationTelemetryEnabled = false;
+let presentationTelemetrySampleRate = 1;
 
-export const setPick2TelemetryConfig = (config?: {
-  telemetryEnabled?: boolean;
-  telemetrySampleRate?: number;
-}) => {
+const clampSampleRate = (rate: number | undefined) =>
+  Math.min(1, Math.max(0, typeof rate === "number" ? rate : 1));
+
+export const setPick2TelemetryConfig = (config?: TelemetryConfig) => {
   telemetryEnabled = Boolean(config?.telemetryEnabled);
-  const nextRate = typeof config?.telemetrySampleRate === "number" ? config.telemetrySampleRate : 1;
-  telemetrySampleRate = Math.min(1, Math.max(0, nextRate));
+  telemetrySampleRate = clampSampleRate(config?.telemetrySampleRate);
 };
 
 const shouldSample = () => Math.random() <= telemetrySampleRate;
 
+export const setPresentationTelemetryConfig = (config?: TelemetryConfig) => {
+  presentationTelemetryEnabled = Boolean(config?.telemetryEnabled);
+  presentationTelemetrySampleRate = clampSampleRate(config?.telemetrySampleRate);
+};
+
+/**
+ * Whether to record a showing of the value presentation. Sampled once per showing, so
+ * a recorded presentation has every slide's visit and its ending.
+ */
+export const shouldRecordPresentation = () =>
+  presentationTelemetryEnabled && Math.random() <= presentationTelemetrySampleRate;
+
 export const logPick2Event = async (eventName: string, payload: Pick2TelemetryPayload) => {
   if (!db || !telemetryEnabled || !shouldSample()) {
     return;
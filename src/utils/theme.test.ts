@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  applyTheme,
+  hexToRgbChannels,
+  slideImage,
+  themeCssVariables,
+  tierColor,
+  tierKey,
+} from "./theme";
+
+describe("hexToRgbChannels", () => {
+  it("splits a hex color into the channels Tailwind's opacity modifiers need", () => {
+    expect(hexToRgbChannels("#2563EB")).toBe("37 99 235");
+    expect(hexToRgbChannels("#000000")).toBe("0 0 0");
+  });
+});
+
+describe("tier colors", () => {
+  it("keys a package by its name", () => {
+    expect(tierKey("Gold")).toBe("gold");
+    expect(tierKey("  Platinum Plus! ")).toBe("platinum-plus");
+  });
+
+  it("falls back to the theme accent for packages the theme doesn't name", () => {
+    expect(tierColor("Elite")).toBe("var(--tier-elite, rgb(var(--lux-accent)))");
+  });
+});
+
+describe("slideImage", () => {
+  it("swaps in the theme's image for a default slide photo", () => {
+    const slideImages = { "MENU1.png": "https://cdn.example.com/camry.jpg" };
+
+    expect(slideImage("/MENU1.png", slideImages)).toBe("https://cdn.example.com/camry.jpg");
+    expect(slideImage("/MENU2.png", slideImages)).toBe("/MENU2.png");
+    expect(slideImage("/MENU2.png")).toBe("/MENU2.png");
+  });
+});
+
+describe("themeCssVariables", () => {
+  it("uses the house look for anything the theme leaves unset", () => {
+    const variables = themeCssVariables({});
+
+    expect(variables["--lux-bg0"]).toBe("5 6 8");
+    expect(variables["--lux-text-strong"]).toBe("245 247 251");
+    expect(variables["--font-display"]).toBe('"Teko", sans-serif');
+    expect(variables["--tier-gold"]).toBe("#FACC15");
+  });
+
+  it("applies the theme's palette, fonts and tier colors over the defaults", () => {
+    const variables = themeCssVariables({
+      palette: { accent: "#EB0A1E" },
+      fonts: { display: '"Toyota Type", sans-serif' },
+      tierColors: { Gold: "#B8860B", "Platinum Plus": "#E5E4E2" },
+    });
+
+    expect(variables["--lux-accent"]).toBe("235 10 30");
+    expect(variables["--lux-accent-bright"]).toBe("59 130 246");
+    expect(variables["--font-display"]).toBe('"Toyota Type", sans-serif');
+    expect(variables["--font-sans"]).toContain("Roboto");
+    expect(variables["--tier-gold"]).toBe("#B8860B");
+    expect(variables["--tier-platinum-plus"]).toBe("#E5E4E2");
+    expect(variables["--tier-elite"]).toBe("#9CA3AF");
+  });
+});
+
+describe("applyTheme", () => {
+  afterEach(() => {
+    document.documentElement.removeAttribute("style");
+    document.getElementById("am-theme-fonts")?.remove();
+  });
+
+  it("sets the theme's variables on the page and loads its fonts", () => {
+    applyTheme({
+      palette: { bg1: "#FFFFFF" },
+      fontUrl: "https://fonts.example.com/toyota.css",
+    });
+
+    const root = document.documentElement;
+    expect(root.style.getPropertyValue("--lux-bg1")).toBe("255 255 255");
+    const fontLink = document.getElementById("am-theme-fonts") as HTMLLinkElement;
+    expect(fontLink.rel).toBe("stylesheet");
+    expect(fontLink.href).toBe("https://fonts.example.com/toyota.css");
+  });
+
+  it("clears the previous store's tier colors and fonts when the theme changes", () => {
+    const root = document.documentElement;
+    root.style.setProperty("--ipad-header-h", "64px");
+    applyTheme({
+      tierColors: { Diamond: "#B9F2FF" },
+      fontUrl: "https://fonts.example.com/toyota.css",
+    });
+
+    applyTheme({});
+
+    expect(root.style.getPropertyValue("--tier-diamond")).toBe("");
+    expect(root.style.getPropertyValue("--lux-bg1")).toBe("13 16 20");
+    expect(root.style.getPropertyValue("--ipad-header-h")).toBe("64px");
+    expect(document.getElementById("am-theme-fonts")).toBeNull();
+  });
+});
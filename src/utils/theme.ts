@@ -0,0 +1,123 @@
+import type { Theme, ThemeColor } from "../types";
+
+// The house look. Keep in step with the :root defaults in index.css, which paint the
+// first frame before the theme document loads.
+export const DEFAULT_PALETTE: Record<ThemeColor, string> = {
+  bg0: "#050608",
+  bg1: "#0D1014",
+  bg2: "#161B22",
+  border: "#2B313B",
+  textStrong: "#F5F7FB",
+  text: "#D8DCE3",
+  textMuted: "#9AA3B5",
+  gold: "#C6A664",
+  blue: "#5FA3FF",
+  red: "#E26B6B",
+  accent: "#2563EB",
+  accentBright: "#3B82F6",
+};
+
+export const DEFAULT_FONTS = {
+  sans: '"Roboto", -apple-system, BlinkMacSystemFont, sans-serif',
+  display: '"Teko", sans-serif',
+};
+
+export const DEFAULT_TIER_COLORS: Record<string, string> = {
+  Gold: "#FACC15",
+  Platinum: "#60A5FA",
+  Elite: "#9CA3AF",
+};
+
+// <link> that loads the theme's fonts, replaced when the theme changes
+const FONT_LINK_ID = "am-theme-fonts";
+
+// Variables owned by the theme; anything else on the root element is left alone
+const THEME_VARIABLE_PREFIXES = ["--lux-", "--font-", "--tier-"];
+
+/**
+ * "#2563EB" -> "37 99 235", the form Tailwind needs to apply opacity to a CSS variable
+ * color (rgb(var(--lux-accent) / 0.5)).
+ */
+export function hexToRgbChannels(hex: string): string {
+  const value = Number.parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].join(" ");
+}
+
+/**
+ * The CSS variable suffix for a package name, e.g. "Platinum Plus" -> "platinum-plus".
+ */
+export function tierKey(packageName: string): string {
+  return packageName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * A CSS color for a package's tier accent: its theme color, or the theme accent for a
+ * package the theme doesn't name.
+ */
+export function tierColor(packageName: string): string {
+  return `var(--tier-${tierKey(packageName)}, rgb(var(--lux-accent)))`;
+}
+
+/**
+ * The presentation image to show in place of a default one, e.g. "/MENU1.png".
+ * Themes list replacements by file name: { "MENU1.png": "https://..." }.
+ */
+export function slideImage(defaultSrc: string, slideImages?: Theme["slideImages"]): string {
+  return slideImages?.[defaultSrc.replace(/^\//, "")] ?? defaultSrc;
+}
+
+/**
+ * Every CSS variable a theme sets, with the defaults filled in for anything it leaves
+ * unset: --lux-<color> as RGB channels, --font-sans, --font-display and --tier-<name>.
+ */
+export function themeCssVariables(theme: Theme): Record<string, string> {
+  const palette = { ...DEFAULT_PALETTE, ...theme.palette };
+  const fonts = { ...DEFAULT_FONTS, ...theme.fonts };
+  const tierColors = { ...DEFAULT_TIER_COLORS, ...theme.tierColors };
+
+  const variables: Record<string, string> = {
+    "--font-sans": fonts.sans,
+    "--font-display": fonts.display,
+  };
+  for (const [color, hex] of Object.entries(palette)) {
+    const name = color.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+    variables[`--lux-${name}`] = hexToRgbChannels(hex);
+  }
+  for (const [packageName, hex] of Object.entries(tierColors)) {
+    variables[`--tier-${tierKey(packageName)}`] = hex;
+  }
+  return variables;
+}
+
+/**
+ * Applies a theme to the page: sets its CSS variables on the root element, replacing
+ * those of the previous theme, and loads its fonts.
+ */
+export function applyTheme(theme: Theme, root: HTMLElement = document.documentElement): void {
+  const stale = Array.from(root.style).filter((name) =>
+    THEME_VARIABLE_PREFIXES.some((prefix) => name.startsWith(prefix))
+  );
+  stale.forEach((name) => root.style.removeProperty(name));
+
+  for (const [name, value] of Object.entries(themeCssVariables(theme))) {
+    root.style.setProperty(name, value);
+  }
+
+  const ownerDocument = root.ownerDocument;
+  let fontLink = ownerDocument.getElementById(FONT_LINK_ID) as HTMLLinkElement | null;
+  if (!theme.fontUrl) {
+    fontLink?.remove();
+    return;
+  }
+  if (!fontLink) {
+    fontLink = ownerDocument.createElement("link");
+    fontLink.id = FONT_LINK_ID;
+    fontLink.rel = "stylesheet";
+    ownerDocument.head.appendChild(fontLink);
+  }
+  fontLink.href = theme.fontUrl;
+}
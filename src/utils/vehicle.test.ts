@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatOdometer,
+  formatVehicle,
+  isValidVin,
+  normalizeVin,
+  vehicleDetailRows,
+  vinCheckDigit,
+} from "./vehicle";
+
+describe("VIN check digit", () => {
+  it("accepts VINs whose ninth character matches the check digit", () => {
+    expect(vinCheckDigit("1M8GDM9AXKP042788")).toBe("X");
+    expect(isValidVin("1M8GDM9AXKP042788")).toBe(true);
+    expect(isValidVin("11111111111111111")).toBe(true);
+  });
+
+  it("rejects a typo that breaks the check digit", () => {
+    expect(isValidVin("1M8GDM9AXKP042789")).toBe(false);
+  });
+
+  it("rejects VINs of the wrong length or with I, O or Q", () => {
+    expect(vinCheckDigit("1M8GDM9AXKP04278")).toBeNull();
+    expect(vinCheckDigit("1M8GDM9AXKP04278O")).toBeNull();
+    expect(isValidVin("")).toBe(false);
+  });
+
+  it("normalizes case, spaces and dashes before checking", () => {
+    expect(normalizeVin(" 1m8gdm9a-xkp 042788 ")).toBe("1M8GDM9AXKP042788");
+    expect(isValidVin("1m8gdm9axkp042788")).toBe(true);
+  });
+});
+
+describe("formatVehicle", () => {
+  it("joins year, make, model and trim, skipping blanks", () => {
+    expect(formatVehicle({ year: "2025", make: "Lexus", model: "RX 350", trim: "F SPORT" })).toBe(
+      "2025 Lexus RX 350 F SPORT"
+    );
+    expect(formatVehicle({ year: "", make: "Lexus", model: " NX " })).toBe("Lexus NX");
+  });
+});
+
+describe("vehicleDetailRows", () => {
+  it("lists every detail, with N/A for ones not entered", () => {
+    expect(
+      vehicleDetailRows({ vin: "1M8GDM9AXKP042788", odometer: 12345, condition: "cpo" })
+    ).toEqual([
+      { label: "VIN", value: "1M8GDM9AXKP042788" },
+      { label: "Odometer", value: formatOdometer(12345) },
+      { label: "Condition", value: "Certified Pre-Owned" },
+      { label: "Stock #", value: "N/A" },
+      { label: "Deal #", value: "N/A" },
+    ]);
+    expect(formatOdometer(12345)).toBe("12,345 mi");
+  });
+});
@@ -0,0 +1,99 @@
+import type { CustomerInfo, DealType, VehicleCondition } from "../types";
+
+// 17 characters; I, O and Q are never used so they can't be mistaken for 1 and 0.
+export const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+export const VIN_FORMAT_MESSAGE = "VIN must be 17 letters and numbers (no I, O or Q)";
+export const VIN_CHECK_DIGIT_MESSAGE = "VIN check digit doesn't match. Check the VIN for a typo";
+
+// Letter values for the VIN check digit (49 CFR 565)
+// prettier-ignore
+const VIN_LETTER_VALUES: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const VIN_POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+const VIN_CHECK_DIGIT_INDEX = 8;
+
+export const VEHICLE_CONDITION_LABELS: Record<VehicleCondition, string> = {
+  new: "New",
+  used: "Used",
+  cpo: "Certified Pre-Owned",
+};
+
+export const DEAL_TYPE_LABELS: Record<DealType, string> = {
+  purchase: "Purchase",
+  lease: "Lease",
+};
+
+/**
+ * Normalizes a VIN as typed or scanned: upper case, no spaces or dashes.
+ */
+export function normalizeVin(value: string): string {
+  return value.toUpperCase().replace(/[\s-]/g, "");
+}
+
+/**
+ * Computes the check digit (position 9) for a VIN.
+ * @returns "0"-"9" or "X", or null if the VIN is not 17 valid characters.
+ */
+export function vinCheckDigit(vin: string): string | null {
+  const normalized = normalizeVin(vin);
+  if (!VIN_PATTERN.test(normalized)) return null;
+
+  let sum = 0;
+  for (let index = 0; index < normalized.length; index++) {
+    const char = normalized[index] as string;
+    const value = /\d/.test(char) ? Number(char) : (VIN_LETTER_VALUES[char] ?? 0);
+    sum += value * (VIN_POSITION_WEIGHTS[index] ?? 0);
+  }
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+}
+
+/**
+ * Whether a VIN is 17 valid characters with a matching check digit.
+ */
+export function isValidVin(vin: string): boolean {
+  const checkDigit = vinCheckDigit(vin);
+  return checkDigit !== null && normalizeVin(vin)[VIN_CHECK_DIGIT_INDEX] === checkDigit;
+}
+
+/**
+ * The vehicle as printed on the menu and agreement, e.g. "2025 Lexus RX 350 F SPORT".
+ */
+export function formatVehicle(info: Pick<CustomerInfo, "year" | "make" | "model" | "trim">) {
+  return [info.year, info.make, info.model, info.trim]
+    .map((value) => (value ?? "").trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Formats an odometer reading, e.g. 12345 -> "12,345 mi".
+ */
+export function formatOdometer(miles: number): string {
+  return `${new Intl.NumberFormat("en-US").format(miles)} mi`;
+}
+
+/**
+ * The vehicle and deal identifiers printed on the agreement under the customer and
+ * vehicle. Every field is listed; ones not entered read "N/A".
+ */
+export function vehicleDetailRows(
+  info: Pick<CustomerInfo, "vin" | "odometer" | "condition" | "stockNumber" | "dealNumber">
+): Array<{ label: string; value: string }> {
+  return [
+    { label: "VIN", value: info.vin || "N/A" },
+    {
+      label: "Odometer",
+      value: typeof info.odometer === "number" ? formatOdometer(info.odometer) : "N/A",
+    },
+    {
+      label: "Condition",
+      value: info.condition ? VEHICLE_CONDITION_LABELS[info.condition] : "N/A",
+    },
+    { label: "Stock #", value: info.stockNumber || "N/A" },
+    { label: "Deal #", value: info.dealNumber || "N/A" },
+  ];
+}
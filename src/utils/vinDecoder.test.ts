@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { decodeModelYear, decodeVin } from "./vinDecoder";
+
+describe("decodeModelYear", () => {
+  it("picks the latest year for a code, allowing next year's models", () => {
+    expect(decodeModelYear("K", 2026)).toBe(2019);
+    expect(decodeModelYear("A", 2026)).toBe(2010);
+    expect(decodeModelYear("T", 2026)).toBe(2026);
+    expect(decodeModelYear("V", 2026)).toBe(2027);
+    expect(decodeModelYear("W", 2026)).toBe(1998);
+    expect(decodeModelYear("9", 2026)).toBe(2009);
+  });
+
+  it("rejects characters that are never model year codes", () => {
+    expect(decodeModelYear("U", 2026)).toBeNull();
+    expect(decodeModelYear("Z", 2026)).toBeNull();
+    expect(decodeModelYear("0", 2026)).toBeNull();
+  });
+});
+
+describe("decodeVin", () => {
+  it("decodes a Lexus VIN to year, make, model and trim", () => {
+    expect(decodeVin("jthbzmca3k2000123", 2026)).toEqual({
+      ok: true,
+      decoded: {
+        vin: "JTHBZMCA3K2000123",
+        year: "2019",
+        make: "Lexus",
+        model: "RX 350",
+        trim: "AWD",
+      },
+    });
+  });
+
+  it("matches the longest model code", () => {
+    const hybrid = decodeVin("JTHHGKCE2R2012345", 2026);
+    const gas = decodeVin("JTHGKCEAXR2012345", 2026);
+    expect(hybrid.ok && hybrid.decoded.model).toBe("NX 350h");
+    expect(gas.ok && gas.decoded.model).toBe("NX 350");
+  });
+
+  it("decodes a Toyota VIN built in North America", () => {
+    expect(decodeVin("2T3W1RFV7MC123456", 2026)).toEqual({
+      ok: true,
+      decoded: { vin: "2T3W1RFV7MC123456", year: "2021", make: "Toyota", model: "RAV4" },
+    });
+  });
+
+  it("still decodes the year when the manufacturer isn't in the table", () => {
+    expect(decodeVin("1M8GDM9A4NP042788", 2026)).toEqual({
+      ok: true,
+      decoded: { vin: "1M8GDM9A4NP042788", year: "2022" },
+    });
+  });
+
+  it("rejects VINs with a bad format, check digit or model year", () => {
+    expect(decodeVin("JTHBZMCA3K200012", 2026)).toEqual({
+      ok: false,
+      error: "VIN must be 17 letters and numbers (no I, O or Q)",
+    });
+    expect(decodeVin("JTHBZMCA3K2000124", 2026)).toEqual({
+      ok: false,
+      error: "VIN check digit doesn't match. Check the VIN for a typo",
+    });
+    const badYear = decodeVin("JTHBZMCAXU2000123", 2026);
+    expect(badYear.ok).toBe(false);
+    expect(!badYear.ok && badYear.error).toMatch(/model year/);
+  });
+});
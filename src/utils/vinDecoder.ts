@@ -0,0 +1,75 @@
+import {
+  isValidVin,
+  normalizeVin,
+  VIN_CHECK_DIGIT_MESSAGE,
+  VIN_FORMAT_MESSAGE,
+  VIN_PATTERN,
+} from "./vehicle";
+import { VIN_MODEL_PATTERNS, VIN_WMI_MAKES } from "./vinTable";
+
+// Model year codes (position 10) from 1980 on. The cycle repeats every 30 years, so
+// "K" is 1989 or 2019.
+const MODEL_YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+const MODEL_YEAR_BASE = 1980;
+const MODEL_YEAR_INDEX = 9;
+
+export interface DecodedVin {
+  vin: string; // Normalized
+  year: string;
+  make?: string; // Unset when the manufacturer isn't in the table
+  model?: string; // Unset when the model code isn't in the table
+  trim?: string;
+}
+
+export type VinDecodeResult = { ok: true; decoded: DecodedVin } | { ok: false; error: string };
+
+/**
+ * The model year a VIN's 10th character stands for: the latest year with that code,
+ * allowing for next year's models already on the lot.
+ * @returns The year, or null if the character is not a model year code.
+ */
+export function decodeModelYear(code: string, currentYear: number): number | null {
+  const index = MODEL_YEAR_CODES.indexOf(code);
+  if (index < 0) return null;
+
+  let year = MODEL_YEAR_BASE + index;
+  while (year + MODEL_YEAR_CODES.length <= currentYear + 1) {
+    year += MODEL_YEAR_CODES.length;
+  }
+  return year;
+}
+
+/**
+ * Decodes the year, make, model and trim from a VIN using the bundled table; no network.
+ * The VIN must pass the check digit first, so a typo can't fill in the wrong vehicle.
+ */
+export function decodeVin(vin: string, currentYear = new Date().getFullYear()): VinDecodeResult {
+  const normalized = normalizeVin(vin);
+  if (!VIN_PATTERN.test(normalized)) return { ok: false, error: VIN_FORMAT_MESSAGE };
+  if (!isValidVin(normalized)) return { ok: false, error: VIN_CHECK_DIGIT_MESSAGE };
+
+  const year = decodeModelYear(normalized[MODEL_YEAR_INDEX] ?? "", currentYear);
+  if (year === null) {
+    return {
+      ok: false,
+      error: "VIN model year (10th character) isn't valid. Check the VIN for a typo",
+    };
+  }
+
+  const make = VIN_WMI_MAKES[normalized.slice(0, 3)];
+  const vds = normalized.slice(3, 8);
+  const pattern = VIN_MODEL_PATTERNS.filter(
+    (candidate) => candidate.make === make && vds.startsWith(candidate.vds)
+  ).sort((a, b) => b.vds.length - a.vds.length)[0];
+
+  return {
+    ok: true,
+    decoded: {
+      vin: normalized,
+      year: String(year),
+      ...(make ? { make } : {}),
+      ...(pattern ? { model: pattern.model } : {}),
+      ...(pattern?.trim ? { trim: pattern.trim } : {}),
+    },
+  };
+}
@@ -0,0 +1,72 @@
+// Bundled VIN lookup table for the VIN decoder (vinDecoder.ts). It ships with the app so
+// decoding works on the showroom floor with no connection.
+//
+// A VIN reads: WMI (positions 1-3, the manufacturer), VDS (4-8, the model), check digit
+// (9), model year (10), plant (11) and serial number (12-17). Toyota and Lexus encode
+// the model line in the first characters of the VDS, so models are matched on a VDS
+// prefix; the longest matching prefix wins. A VIN whose model code isn't listed still
+// decodes its year and make, and the rep types the model.
+
+export interface VinModelPattern {
+  make: string;
+  // VDS prefix, from position 4
+  vds: string;
+  model: string;
+  trim?: string;
+}
+
+// World manufacturer identifiers
+export const VIN_WMI_MAKES: Record<string, string> = {
+  // Lexus: Japan, Canada (Cambridge, Ontario) and the US (Georgetown, Kentucky)
+  JTH: "Lexus",
+  JTJ: "Lexus",
+  "2T2": "Lexus",
+  "58A": "Lexus",
+  // Toyota: Japan
+  JTD: "Toyota",
+  JTE: "Toyota",
+  JTK: "Toyota",
+  JTM: "Toyota",
+  JTN: "Toyota",
+  // Toyota: North America
+  "2T1": "Toyota",
+  "2T3": "Toyota",
+  "3TM": "Toyota",
+  "3TY": "Toyota",
+  "4T1": "Toyota",
+  "4T3": "Toyota",
+  "4T4": "Toyota",
+  "5TD": "Toyota",
+  "5TF": "Toyota",
+  "5YF": "Toyota",
+};
+
+export const VIN_MODEL_PATTERNS: VinModelPattern[] = [
+  // Lexus SUVs
+  { make: "Lexus", vds: "BZMCA", model: "RX 350", trim: "AWD" },
+  { make: "Lexus", vds: "ZZMCA", model: "RX 350", trim: "FWD" },
+  { make: "Lexus", vds: "BGMCA", model: "RX 450h", trim: "AWD" },
+  { make: "Lexus", vds: "HGKCE", model: "NX 350h", trim: "AWD" },
+  { make: "Lexus", vds: "GKCE", model: "NX 350", trim: "AWD" },
+  { make: "Lexus", vds: "YARBZ", model: "NX 300", trim: "AWD" },
+  { make: "Lexus", vds: "BM7FX", model: "NX 200t", trim: "AWD" },
+  { make: "Lexus", vds: "BM7BX", model: "GX 460" },
+  { make: "Lexus", vds: "HY7AX", model: "LX 570" },
+  { make: "Lexus", vds: "HP5AY", model: "UX 250h" },
+  // Lexus sedans and coupes
+  { make: "Lexus", vds: "BZ1B1", model: "ES 350" },
+  { make: "Lexus", vds: "DZ1B1", model: "ES 350", trim: "F SPORT" },
+  { make: "Lexus", vds: "B21B1", model: "ES 300h" },
+  { make: "Lexus", vds: "BK1GG", model: "ES 350" },
+  { make: "Lexus", vds: "BA1D2", model: "IS 300" },
+  { make: "Lexus", vds: "GZ1C2", model: "IS 350", trim: "F SPORT" },
+  { make: "Lexus", vds: "HA5BC", model: "RC 300" },
+  { make: "Lexus", vds: "BH5BC", model: "LS 500" },
+  // Toyota
+  { make: "Toyota", vds: "B11HK", model: "Camry" },
+  { make: "Toyota", vds: "W1RFV", model: "RAV4" },
+  { make: "Toyota", vds: "RWRFV", model: "RAV4 Hybrid" },
+  { make: "Toyota", vds: "ZZRFH", model: "Highlander" },
+  { make: "Toyota", vds: "CZ5AN", model: "Tacoma" },
+  { make: "Toyota", vds: "DY5F1", model: "Tundra" },
+];
@@ -20,9 +20,10 @@ export default {
     extend: {
       // FONT FAMILIES
       fontFamily: {
-        'sans': ['Roboto', '-apple-system', 'BlinkMacSystemFont', 'sans-serif'],
-        'teko': ['Teko', 'sans-serif'],
-        'display': ['Teko', 'sans-serif'], // Alias for display text
+        // Set by the store's theme (src/utils/theme.ts); defaults in index.css
+        'sans': ['var(--font-sans)'],
+        'teko': ['var(--font-display)'],
+        'display': ['var(--font-display)'], // Alias for display text
 
         // Optional premium alternatives (uncomment to use):
         // 'display': ['Playfair Display', 'Georgia', 'serif'],
@@ -45,18 +46,21 @@ export default {
       },
 
       // COLORS - Luxury Palette
+      // lux-* come from the store's theme as RGB channels so opacity modifiers still work
       colors: {
         lux: {
-          bg0: '#050608',
-          bg1: '#0D1014',
-          bg2: '#161B22',
-          border: '#2B313B',
-          textStrong: '#F5F7FB',
-          text: '#D8DCE3',
-          textMuted: '#9AA3B5',
-          gold: '#C6A664',
-          blue: '#5FA3FF',
-          red: '#E26B6B',
+          bg0: 'rgb(var(--lux-bg0) / <alpha-value>)',
+          bg1: 'rgb(var(--lux-bg1) / <alpha-value>)',
+          bg2: 'rgb(var(--lux-bg2) / <alpha-value>)',
+          border: 'rgb(var(--lux-border) / <alpha-value>)',
+          textStrong: 'rgb(var(--lux-text-strong) / <alpha-value>)',
+          text: 'rgb(var(--lux-text) / <alpha-value>)',
+          textMuted: 'rgb(var(--lux-text-muted) / <alpha-value>)',
+          gold: 'rgb(var(--lux-gold) / <alpha-value>)',
+          blue: 'rgb(var(--lux-blue) / <alpha-value>)',
+          red: 'rgb(var(--lux-red) / <alpha-value>)',
+          accent: 'rgb(var(--lux-accent) / <alpha-value>)',
+          accentBright: 'rgb(var(--lux-accent-bright) / <alpha-value>)',
         },
         // Luxury Neutrals
         'luxury-black': '#0A0A0A',
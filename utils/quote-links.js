@@ -0,0 +1,124 @@
+/**
+ * Shared Quote Link Resolution
+ *
+ * Resolves the token in a customer's shared quote link (/q/<token>) to the read-only
+ * copy of the deal saved in quote_links/<token>. The server reads it through the
+ * Firestore REST API as an anonymous caller, so the Firestore rules decide what is
+ * readable: a link document can be fetched by its exact token until it expires, and
+ * never listed.
+ */
+
+export const QUOTE_LINK_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+/**
+ * @typedef {Object} QuoteLinkConfig
+ * @property {string} projectId
+ * @property {string | undefined} apiKey
+ * @property {string | undefined} emulatorHost
+ */
+
+/**
+ * @typedef {{ status: 'ok', quote: Record<string, unknown> }
+ *   | { status: 'not_found' }
+ *   | { status: 'expired' }
+ *   | { status: 'error' }} QuoteLinkResult
+ */
+
+/**
+ * Checks that a token has the shape the app generates before it is looked up
+ * @param {unknown} token
+ * @returns {boolean}
+ */
+export function isQuoteLinkToken(token) {
+  return typeof token === "string" && QUOTE_LINK_TOKEN_PATTERN.test(token);
+}
+
+/**
+ * Reads the Firestore project to resolve links against from the environment.
+ * The same VITE_FIREBASE_* values the app is built with are used at runtime.
+ * @param {NodeJS.ProcessEnv} [env]
+ * @returns {QuoteLinkConfig | null} null when no project is configured
+ */
+export function getQuoteLinkConfig(env = process.env) {
+  const projectId = (env.FIREBASE_PROJECT_ID || env.VITE_FIREBASE_PROJECT_ID || "").trim();
+  if (!projectId) return null;
+  return {
+    projectId,
+    apiKey: env.VITE_FIREBASE_API_KEY?.trim() || undefined,
+    emulatorHost: env.FIRESTORE_EMULATOR_HOST?.trim() || undefined,
+  };
+}
+
+/**
+ * Converts a Firestore REST API value into plain JSON
+ * @param {any} value
+ * @returns {unknown}
+ */
+export function decodeFirestoreValue(value) {
+  if (!value || typeof value !== "object") return null;
+  if ("stringValue" in value) return value.stringValue;
+  if ("integerValue" in value) return Number(value.integerValue);
+  if ("doubleValue" in value) return Number(value.doubleValue);
+  if ("booleanValue" in value) return value.booleanValue;
+  if ("timestampValue" in value) return Date.parse(value.timestampValue);
+  if ("mapValue" in value) return decodeFirestoreFields(value.mapValue.fields);
+  if ("arrayValue" in value) return (value.arrayValue.values || []).map(decodeFirestoreValue);
+  return null;
+}
+
+/**
+ * Converts the fields of a Firestore REST API document into a plain object
+ * @param {Record<string, any> | undefined} fields
+ * @returns {Record<string, unknown>}
+ */
+export function decodeFirestoreFields(fields) {
+  /** @type {Record<string, unknown>} */
+  const result = {};
+  for (const [key, value] of Object.entries(fields || {})) {
+    result[key] = decodeFirestoreValue(value);
+  }
+  return result;
+}
+
+/**
+ * Looks up a shared quote link
+ * @param {string} token
+ * @param {QuoteLinkConfig} config
+ * @param {{ fetchImpl?: typeof fetch, now?: number }} [options]
+ * @returns {Promise<QuoteLinkResult>}
+ */
+export async function resolveQuoteLink(token, config, options = {}) {
+  const fetchImpl = options.fetchImpl || fetch;
+  const now = options.now ?? Date.now();
+  if (!isQuoteLinkToken(token)) return { status: "not_found" };
+
+  const base = config.emulatorHost
+    ? `http://${config.emulatorHost}`
+    : "https://firestore.googleapis.com";
+  const url = new URL(
+    `${base}/v1/projects/${encodeURIComponent(config.projectId)}/databases/(default)/documents/quote_links/${token}`
+  );
+  if (config.apiKey && !config.emulatorHost) url.searchParams.set("key", config.apiKey);
+
+  try {
+    const response = await fetchImpl(url, { headers: { Accept: "application/json" } });
+    // The rules deny reads of expired links, and of tokens that do not exist.
+    if (response.status === 403 || response.status === 404) return { status: "not_found" };
+    if (!response.ok) {
+      console.warn(`[QUOTE LINK] Firestore responded ${response.status}`);
+      return { status: "error" };
+    }
+
+    const data = decodeFirestoreFields((await response.json()).fields);
+    const quote = data.quote;
+    if (!quote || typeof quote !== "object") return { status: "not_found" };
+    // Checked here too, in case the rules in the project are out of date.
+    if (typeof data.expiresAt !== "number" || data.expiresAt <= now) return { status: "expired" };
+
+    // Only the customer-facing copy is returned, never who created the link.
+    return { status: "ok", quote: /** @type {Record<string, unknown>} */ (quote) };
+  } catch (error) {
+    console.warn("[QUOTE LINK] Failed to resolve link:", error);
+    return { status: "error" };
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  decodeFirestoreFields,
+  getQuoteLinkConfig,
+  isQuoteLinkToken,
+  resolveQuoteLink,
+} from "./quote-links.js";
+
+const TOKEN = "x".repeat(32);
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const config = { projectId: "demo-project", apiKey: "public-key", emulatorHost: undefined };
+
+const linkDocument = (expiresAt: string) => ({
+  name: `projects/demo-project/databases/(default)/documents/quote_links/${TOKEN}`,
+  fields: {
+    expiresAt: { timestampValue: expiresAt },
+    createdBy: { mapValue: { fields: { uid: { stringValue: "rep-1" } } } },
+    quote: {
+      mapValue: {
+        fields: {
+          customerFirstName: { stringValue: "Jane" },
+          totalPrice: { integerValue: "2500" },
+          pick2: { nullValue: null },
+          addons: { arrayValue: {} },
+        },
+      },
+    },
+  },
+});
+
+const respond = (status: number, body: unknown = {}) =>
+  vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+describe("quote-links utilities", () => {
+  it("accepts only tokens shaped like the ones the app generates", () => {
+    expect(isQuoteLinkToken(TOKEN)).toBe(true);
+    expect(isQuoteLinkToken("short")).toBe(false);
+    expect(isQuoteLinkToken(`${"x".repeat(31)}/`)).toBe(false);
+    expect(isQuoteLinkToken(undefined)).toBe(false);
+  });
+
+  it("reads the project from the environment", () => {
+    expect(getQuoteLinkConfig({})).toBeNull();
+    expect(
+      getQuoteLinkConfig({ VITE_FIREBASE_PROJECT_ID: " demo ", VITE_FIREBASE_API_KEY: "k" })
+    ).toEqual({ projectId: "demo", apiKey: "k", emulatorHost: undefined });
+  });
+
+  it("decodes Firestore REST values into plain JSON", () => {
+    expect(
+      decodeFirestoreFields({
+        name: { stringValue: "EverNew" },
+        price: { doubleValue: 799.5 },
+        isNew: { booleanValue: true },
+        points: { arrayValue: { values: [{ stringValue: "Gloss" }] } },
+      })
+    ).toEqual({ name: "EverNew", price: 799.5, isNew: true, points: ["Gloss"] });
+  });
+
+  describe("resolveQuoteLink", () => {
+    it("returns only the customer-facing copy of a live link", async () => {
+      const fetchImpl = respond(200, linkDocument("2026-10-26T12:00:00Z"));
+
+      const result = await resolveQuoteLink(TOKEN, config, { fetchImpl, now: NOW });
+
+      expect(result).toEqual({
+        status: "ok",
+        quote: { customerFirstName: "Jane", totalPrice: 2500, pick2: null, addons: [] },
+      });
+      const url = String(fetchImpl.mock.calls[0]?.[0]);
+      expect(url).toContain(
+        `/projects/demo-project/databases/(default)/documents/quote_links/${TOKEN}`
+      );
+      expect(url).toContain("key=public-key");
+    });
+
+    it("reports a link past its expiry as expired", async () => {
+      const fetchImpl = respond(200, linkDocument("2026-10-18T12:00:00Z"));
+      await expect(resolveQuoteLink(TOKEN, config, { fetchImpl, now: NOW })).resolves.toEqual({
+        status: "expired",
+      });
+    });
+
+    it("treats a denied or missing document as not found", async () => {
+      await expect(
+        resolveQuoteLink(TOKEN, config, { fetchImpl: respond(403), now: NOW })
+      ).resolves.toEqual({ status: "not_found" });
+      await expect(
+        resolveQuoteLink(TOKEN, config, { fetchImpl: respond(404), now: NOW })
+      ).resolves.toEqual({ status: "not_found" });
+    });
+
+    it("never looks up a malformed token", async () => {
+      const fetchImpl = respond(200);
+      await expect(resolveQuoteLink("../../users", config, { fetchImpl })).resolves.toEqual({
+        status: "not_found",
+      });
+      expect(fetchImpl).not.toHaveBeenCalled();
+    });
+
+    it("reports Firestore outages as errors", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      await expect(
+        resolveQuoteLink(TOKEN, config, { fetchImpl: respond(500), now: NOW })
+      ).resolves.toEqual({ status: "error" });
+      await expect(
+        resolveQuoteLink(TOKEN, config, {
+          fetchImpl: vi.fn().mockRejectedValue(new Error("offline")),
+          now: NOW,
+        })
+      ).resolves.toEqual({ status: "error" });
+      warn.mockRestore();
+    });
+  });
+});